@@ -2,22 +2,38 @@ import { useState, useEffect, useCallback } from 'react';
 import { ApiKeyGate } from './components/ApiKeyGate';
 import { TranslationInterface } from './components/TranslationInterface';
 import { StorageService } from './services/StorageService';
-import { OpenRouterService } from './services/OpenRouterService';
-import type { Model } from './types';
+import { TranslationCache } from './services/TranslationCache';
+import { getProvider, DEFAULT_PROVIDER_ID } from './services/providers';
+import type { Model, ProviderId, TranslationProvider } from './types';
 import './App.css';
 
+/**
+ * Whether a stored key means the provider has been set up.
+ * Keyless providers (local servers) store an empty string.
+ */
+function isKeyConfigured(key: string | null, provider: TranslationProvider): key is string {
+  return typeof key === 'string' && (key !== '' || !provider.requiresApiKey);
+}
+
 function App() {
   const [apiKey, setApiKey] = useState<string | null>(null);
   const [hasValidKey, setHasValidKey] = useState(false);
+
+  // Provider state
+  const [providerId, setProviderId] = useState<ProviderId>(() => getProvider(StorageService.getActiveProvider()).id);
+  const [baseUrlOverride, setBaseUrlOverride] = useState<string | null>(() => StorageService.getBaseUrl());
+  const provider = getProvider(providerId);
+  const baseUrl = baseUrlOverride || provider.defaultBaseUrl;
   
   // Model state
   const [availableModels, setAvailableModels] = useState<Model[]>([]);
   const [selectedModel, setSelectedModel] = useState<string>('');
+  const [fallbackModels, setFallbackModels] = useState<string[]>([]);
 
   // Load API key from storage on mount
   useEffect(() => {
     const storedKey = StorageService.getApiKey();
-    if (storedKey) {
+    if (isKeyConfigured(storedKey, getProvider(StorageService.getActiveProvider()))) {
       setApiKey(storedKey);
       setHasValidKey(true);
     }
@@ -26,11 +42,18 @@ function App() {
   // Fetch models when API key is set
   useEffect(() => {
     const fetchModels = async () => {
-      if (!apiKey) return;
+      if (apiKey === null) return;
+
+      // Drop stored fallbacks the provider no longer lists
+      const loadFallbackModels = (models: Model[]) => {
+        setFallbackModels(StorageService.getFallbackModels().filter(id => models.some(m => m.id === id)));
+      };
 
       try {
-        const models = await OpenRouterService.fetchModels(apiKey);
+        const models = await provider.listModels(apiKey, baseUrl);
         setAvailableModels(models);
+        StorageService.setCachedModels(models);
+        loadFallbackModels(models);
 
         const storedModel = StorageService.getSelectedModel();
         
@@ -46,12 +69,19 @@ function App() {
         }
       } catch (error) {
         console.error('Failed to fetch models:', error);
-        // On error, keep empty models list and don't set a model
+        // On error, fall back to the last list fetched from this provider
+        const cachedModels = StorageService.getCachedModels();
+        setAvailableModels(cachedModels);
+        loadFallbackModels(cachedModels);
+        const storedModel = StorageService.getSelectedModel();
+        if (storedModel && cachedModels.some(m => m.id === storedModel)) {
+          setSelectedModel(storedModel);
+        }
       }
     };
 
     fetchModels();
-  }, [apiKey]);
+  }, [apiKey, provider, baseUrl]);
 
   // Memoized handlers for performance
   const handleApiKeySubmit = useCallback((key: string) => {
@@ -66,16 +96,21 @@ function App() {
     setHasValidKey(false);
     setAvailableModels([]);
     setSelectedModel('');
+    setFallbackModels([]);
   }, []);
 
   const handleClearAllData = useCallback(() => {
-    // Clear all localStorage
+    // Clear all localStorage and cached translations
     localStorage.clear();
+    TranslationCache.clear();
     // Reset all state
     setApiKey(null);
     setHasValidKey(false);
+    setProviderId(DEFAULT_PROVIDER_ID);
+    setBaseUrlOverride(null);
     setAvailableModels([]);
     setSelectedModel('');
+    setFallbackModels([]);
   }, []);
 
   const handleModelChange = useCallback((modelId: string) => {
@@ -83,18 +118,58 @@ function App() {
     StorageService.setSelectedModel(modelId);
   }, []);
 
+  const handleFallbackModelsChange = useCallback((models: string[]) => {
+    setFallbackModels(models);
+    StorageService.setFallbackModels(models);
+  }, []);
+
+  const handleProviderChange = useCallback((id: ProviderId) => {
+    StorageService.setActiveProvider(id);
+    setProviderId(id);
+    // Each provider keeps its own key, base URL and model
+    const storedKey = StorageService.getApiKey();
+    const configured = isKeyConfigured(storedKey, getProvider(id));
+    setApiKey(configured ? storedKey : null);
+    setHasValidKey(configured);
+    setBaseUrlOverride(StorageService.getBaseUrl());
+    setAvailableModels([]);
+    setSelectedModel('');
+    setFallbackModels([]);
+  }, []);
+
+  const handleBaseUrlChange = useCallback((url: string | null) => {
+    StorageService.setBaseUrl(url);
+    setBaseUrlOverride(url);
+  }, []);
+
   // If no valid API key, show the gate
   if (!hasValidKey) {
-    return <ApiKeyGate onSubmit={handleApiKeySubmit} />;
+    return (
+      <ApiKeyGate
+        // Remount so the form picks up the selected provider's stored base URL
+        key={provider.id}
+        provider={provider}
+        baseUrl={baseUrl}
+        onProviderChange={handleProviderChange}
+        onBaseUrlChange={handleBaseUrlChange}
+        onSubmit={handleApiKeySubmit}
+      />
+    );
   }
 
   // Main translation interface
   return (
     <TranslationInterface
       apiKey={apiKey || ''}
+      provider={provider}
+      baseUrl={baseUrl}
+      onProviderChange={handleProviderChange}
+      onBaseUrlChange={handleBaseUrlChange}
       selectedModel={selectedModel}
       availableModels={availableModels}
       onModelChange={handleModelChange}
+      fallbackModels={fallbackModels}
+      onFallbackModelsChange={handleFallbackModelsChange}
       onClearApiKey={handleClearApiKey}
       onClearAllData={handleClearAllData}
     />
@@ -5,6 +5,9 @@ import App from '../App';
 import { TranslationInterface } from '../components/TranslationInterface';
 import { StorageService } from '../services/StorageService';
 import { OpenRouterService } from '../services/OpenRouterService';
+import { DEFAULT_FURIGANA_SETTINGS } from '../constants/furigana';
+import { EMPTY_PROMPT_SETTINGS } from '../constants/prompt';
+import { DEFAULT_RETRY_POLICY } from '../constants/retry';
 import type { Model, TranslationResponse } from '../types';
 
 /**
@@ -37,6 +40,17 @@ describe('End-to-End Integration Tests', () => {
       fromLanguage: 'en',
       toLanguage: 'ja',
     });
+    vi.mocked(StorageService.getActiveProvider).mockReturnValue('openrouter');
+    vi.mocked(StorageService.getCachedModels).mockReturnValue([]);
+    vi.mocked(StorageService.getFallbackModels).mockReturnValue([]);
+    // The stored-settings defaults the real getters return
+    vi.mocked(StorageService.getFuriganaSettings).mockReturnValue(DEFAULT_FURIGANA_SETTINGS);
+    vi.mocked(StorageService.getRetryPolicy).mockReturnValue(DEFAULT_RETRY_POLICY);
+    vi.mocked(StorageService.getPromptSettings).mockReturnValue(EMPTY_PROMPT_SETTINGS);
+    vi.mocked(StorageService.getGlossary).mockReturnValue([]);
+    vi.mocked(StorageService.getTranslationMemory).mockReturnValue([]);
+    vi.mocked(StorageService.getTranscriptionSettings).mockReturnValue({});
+    vi.mocked(StorageService.getModelRatings).mockReturnValue({});
     
     // Mock clipboard API
     Object.defineProperty(navigator, 'clipboard', {
@@ -83,7 +97,7 @@ describe('End-to-End Integration Tests', () => {
 
       // Step 5: Should fetch models
       await waitFor(() => {
-        expect(OpenRouterService.fetchModels).toHaveBeenCalledWith('sk-test-key-12345');
+        expect(OpenRouterService.fetchModels).toHaveBeenCalledWith('sk-test-key-12345', 'https://openrouter.ai/api/v1');
       });
 
       // Step 6: Should show translation interface
@@ -224,7 +238,9 @@ describe('End-to-End Integration Tests', () => {
             toLanguage: 'ja',
             context: 'Casual greeting',
           }),
-          expect.any(AbortSignal)
+          expect.any(AbortSignal),
+          expect.any(Function),
+          expect.objectContaining({ onRetry: expect.any(Function) })
         );
       });
 
@@ -278,7 +294,9 @@ describe('End-to-End Integration Tests', () => {
             sourceText: 'Hello',
             context: undefined,
           }),
-          expect.any(AbortSignal)
+          expect.any(AbortSignal),
+          expect.any(Function),
+          expect.objectContaining({ onRetry: expect.any(Function) })
         );
       });
 
@@ -329,7 +347,9 @@ describe('End-to-End Integration Tests', () => {
           expect.objectContaining({
             fromLanguage: 'auto',
           }),
-          expect.any(AbortSignal)
+          expect.any(AbortSignal),
+          expect.any(Function),
+          expect.objectContaining({ onRetry: expect.any(Function) })
         );
       });
     });
@@ -813,7 +833,9 @@ describe('End-to-End Integration Tests', () => {
           expect.objectContaining({
             sourceText: longText,
           }),
-          expect.any(AbortSignal)
+          expect.any(AbortSignal),
+          expect.any(Function),
+          expect.objectContaining({ onRetry: expect.any(Function) })
         );
       });
     });
@@ -853,7 +875,9 @@ describe('End-to-End Integration Tests', () => {
           expect.objectContaining({
             sourceText: specialText,
           }),
-          expect.any(AbortSignal)
+          expect.any(AbortSignal),
+          expect.any(Function),
+          expect.objectContaining({ onRetry: expect.any(Function) })
         );
       });
     });
@@ -1,16 +1,32 @@
 import { useState, type FormEvent, type ChangeEvent } from 'react';
-import { OpenRouterService } from '../services/OpenRouterService';
+import { getProvider, listProviders, DEFAULT_PROVIDER_ID } from '../services/providers';
+import type { ProviderId, TranslationProvider } from '../types';
 import './ApiKeyGate.css';
 
 interface ApiKeyGateProps {
+  provider?: TranslationProvider;
+  baseUrl?: string;
+  onProviderChange?: (providerId: ProviderId) => void;
+  onBaseUrlChange?: (baseUrl: string | null) => void;
   onSubmit: (key: string) => void;
 }
 
-export function ApiKeyGate({ onSubmit }: ApiKeyGateProps) {
+export function ApiKeyGate({
+  provider = getProvider(DEFAULT_PROVIDER_ID),
+  baseUrl = provider.defaultBaseUrl,
+  onProviderChange,
+  onBaseUrlChange,
+  onSubmit,
+}: ApiKeyGateProps) {
   const [inputKey, setInputKey] = useState('');
+  const [inputBaseUrl, setInputBaseUrl] = useState(baseUrl);
   const [isValidating, setIsValidating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Providers without a fixed endpoint (self-hosted servers) need a base URL
+  const showBaseUrl = !provider.requiresApiKey && !!onBaseUrlChange;
+  const canSubmit = provider.requiresApiKey ? !!inputKey.trim() : !!inputBaseUrl.trim();
+
   const handleInputChange = (e: ChangeEvent<HTMLInputElement>) => {
     setInputKey(e.target.value);
     // Clear error when user starts typing
@@ -19,22 +35,41 @@ export function ApiKeyGate({ onSubmit }: ApiKeyGateProps) {
     }
   };
 
+  const handleBaseUrlChange = (e: ChangeEvent<HTMLInputElement>) => {
+    setInputBaseUrl(e.target.value);
+    if (error) {
+      setError(null);
+    }
+  };
+
+  const handleProviderChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    setError(null);
+    onProviderChange?.(getProvider(e.target.value).id);
+  };
+
   const handleSubmit = async (e: FormEvent<HTMLFormElement>) => {
     e.preventDefault();
 
-    // Don't submit if input is empty
-    if (!inputKey.trim()) {
+    // Don't submit if a required field is empty
+    if (!canSubmit) {
       return;
     }
 
+    const targetBaseUrl = showBaseUrl ? inputBaseUrl.trim().replace(/\/+$/, '') : baseUrl;
+
     setIsValidating(true);
     setError(null);
 
     try {
-      const isValid = await OpenRouterService.validateApiKey(inputKey);
+      const isValid = await provider.validateKey(inputKey, targetBaseUrl);
 
       if (isValid) {
+        if (showBaseUrl) {
+          onBaseUrlChange?.(targetBaseUrl === provider.defaultBaseUrl ? null : targetBaseUrl);
+        }
         onSubmit(inputKey);
+      } else if (showBaseUrl) {
+        setError('Could not connect to the endpoint. Check the URL, the key, and that the server allows requests from this site (CORS).');
       } else {
         setError('Invalid API key. Please check your key and try again.');
       }
@@ -50,13 +85,53 @@ export function ApiKeyGate({ onSubmit }: ApiKeyGateProps) {
       <div className="api-key-gate-container">
         <h1 className="api-key-gate-title">Clanker Translate</h1>
         <p className="api-key-gate-description">
-          Enter your OpenRouter API key to get started
+          {provider.requiresApiKey
+            ? `Enter your ${provider.name} API key to get started`
+            : 'Connect to an OpenAI-compatible server (Ollama, LM Studio, vLLM, ...)'}
         </p>
 
         <form onSubmit={handleSubmit} className="api-key-form">
+          {onProviderChange && (
+            <div className="form-group">
+              <label htmlFor="provider-input" className="form-label">
+                Provider
+              </label>
+              <select
+                id="provider-input"
+                value={provider.id}
+                onChange={handleProviderChange}
+                disabled={isValidating}
+                className="form-input"
+              >
+                {listProviders().map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {showBaseUrl && (
+            <div className="form-group">
+              <label htmlFor="base-url-input" className="form-label">
+                Base URL
+              </label>
+              <input
+                id="base-url-input"
+                type="url"
+                value={inputBaseUrl}
+                onChange={handleBaseUrlChange}
+                disabled={isValidating}
+                placeholder={provider.defaultBaseUrl}
+                className="form-input"
+              />
+            </div>
+          )}
+
           <div className="form-group">
             <label htmlFor="api-key-input" className="form-label">
-              API Key
+              {provider.requiresApiKey ? 'API Key' : 'API Key (optional)'}
             </label>
             <input
               id="api-key-input"
@@ -64,7 +139,7 @@ export function ApiKeyGate({ onSubmit }: ApiKeyGateProps) {
               value={inputKey}
               onChange={handleInputChange}
               disabled={isValidating}
-              placeholder="sk-or-v1-..."
+              placeholder={provider.requiresApiKey ? 'sk-or-v1-...' : 'Leave empty if the server has no auth'}
               className="form-input"
               aria-describedby={error ? 'api-key-error' : undefined}
             />
@@ -78,24 +153,26 @@ export function ApiKeyGate({ onSubmit }: ApiKeyGateProps) {
 
           <button
             type="submit"
-            disabled={isValidating || !inputKey.trim()}
+            disabled={isValidating || !canSubmit}
             className="submit-button"
           >
-            {isValidating ? 'Validating...' : 'Submit Key'}
+            {isValidating ? 'Validating...' : provider.requiresApiKey ? 'Submit Key' : 'Connect'}
           </button>
         </form>
 
-        <p className="api-key-gate-help">
-          Don't have an API key?{' '}
-          <a
-            href="https://openrouter.ai/keys"
-            target="_blank"
-            rel="noopener noreferrer"
-            className="help-link"
-          >
-            Get one from OpenRouter
-          </a>
-        </p>
+        {provider.keyUrl && (
+          <p className="api-key-gate-help">
+            Don't have an API key?{' '}
+            <a
+              href={provider.keyUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="help-link"
+            >
+              Get one from {provider.name}
+            </a>
+          </p>
+        )}
 
         <div className="security-warning" role="note">
           <p className="warning-text">
@@ -0,0 +1,87 @@
+import React from 'react';
+import { ErrorBanner } from './ErrorBanner';
+import type { BackTranslationCheck, DiffSegment, OpenRouterError } from '../types';
+import './BackTranslationPanel.css';
+
+interface BackTranslationPanelProps {
+  check: BackTranslationCheck | null;
+  isChecking: boolean;
+  error?: OpenRouterError | null;
+}
+
+interface DiffTextProps {
+  segments: DiffSegment[];
+  /** Which side of the diff to show: text only in the other side is left out */
+  side: 'removed' | 'added';
+}
+
+const DiffText: React.FC<DiffTextProps> = ({ segments, side }) => (
+  <p className="back-translation-text">
+    {segments.map((segment, index) => {
+      if (segment.type === 'equal') {
+        return <React.Fragment key={index}>{segment.text}</React.Fragment>;
+      }
+      if (segment.type !== side) {
+        return null;
+      }
+      return side === 'removed'
+        ? <del key={index} className="diff-removed">{segment.text}</del>
+        : <ins key={index} className="diff-added">{segment.text}</ins>;
+    })}
+  </p>
+);
+
+export const BackTranslationPanel: React.FC<BackTranslationPanelProps> = ({ check, isChecking, error }) => {
+  if (!check && !isChecking && !error) {
+    return null;
+  }
+
+  const changes = check?.review.changes ?? [];
+
+  return (
+    <section className="back-translation-panel" aria-label="Back-translation check" aria-busy={isChecking}>
+      <h2 className="back-translation-heading">Back-translation check</h2>
+
+      {isChecking && <p className="back-translation-status">Translating back and checking meaning...</p>}
+
+      {error && <ErrorBanner error={error} />}
+
+      {check && (
+        <>
+          <div className="back-translation-columns">
+            <div className="back-translation-column">
+              <span className="back-translation-label">Original</span>
+              <DiffText segments={check.diff} side="removed" />
+            </div>
+            <div className="back-translation-column">
+              <span className="back-translation-label">Back-translation</span>
+              <DiffText segments={check.diff} side="added" />
+            </div>
+          </div>
+
+          {changes.length === 0 ? (
+            <p className={`back-translation-verdict ${check.review.meaningPreserved ? 'preserved' : 'drifted'}`} role="status">
+              {check.review.meaningPreserved ? 'No changes in meaning found' : 'The meaning may have changed'}
+            </p>
+          ) : (
+            <div className="back-translation-verdict drifted" role="status">
+              <p>
+                {changes.length === 1
+                  ? '1 possible change in meaning'
+                  : `${changes.length} possible changes in meaning`}
+              </p>
+              <ul className="back-translation-changes">
+                {changes.map((change, index) => (
+                  <li key={index}>
+                    <q>{change.original}</q> → {change.backTranslation ? <q>{change.backTranslation}</q> : <em>omitted</em>}
+                    : {change.explanation}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
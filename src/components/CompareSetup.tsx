@@ -0,0 +1,84 @@
+import React from 'react';
+import type { Model } from '../types';
+import './CompareSetup.css';
+
+/** Most models compared at once; more columns get too narrow to read */
+export const MAX_COMPARE_MODELS = 4;
+
+interface CompareSetupProps {
+  models: Model[];
+  compareModels: string[];
+  onCompareModelsChange: (modelIds: string[]) => void;
+  blind: boolean;
+  onBlindChange: (blind: boolean) => void;
+}
+
+export const CompareSetup: React.FC<CompareSetupProps> = ({
+  models,
+  compareModels,
+  onCompareModelsChange,
+  blind,
+  onBlindChange,
+}) => {
+  const getName = (id: string) => models.find((m) => m.id === id)?.name ?? id;
+  const addable = models.filter((m) => !compareModels.includes(m.id));
+  const isFull = compareModels.length >= MAX_COMPARE_MODELS;
+
+  return (
+    <fieldset className="compare-setup">
+      <legend className="compare-setup-legend">Models to compare</legend>
+
+      {compareModels.length > 0 && (
+        <ul className="compare-setup-models" aria-label="Models to compare">
+          {compareModels.map((id) => (
+            <li key={id} className="compare-setup-model">
+              {getName(id)}
+              <button
+                type="button"
+                className="compare-setup-remove"
+                onClick={() => onCompareModelsChange(compareModels.filter((m) => m !== id))}
+                aria-label={`Remove ${getName(id)} from comparison`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <select
+        className="compare-setup-select"
+        aria-label="Add a model to compare"
+        value=""
+        disabled={isFull || addable.length === 0}
+        onChange={(e) => {
+          if (e.target.value) {
+            onCompareModelsChange([...compareModels, e.target.value]);
+          }
+        }}
+      >
+        <option value="">
+          {isFull ? `Up to ${MAX_COMPARE_MODELS} models` : 'Add a model…'}
+        </option>
+        {addable.map((model) => (
+          <option key={model.id} value={model.id}>
+            {model.name}
+          </option>
+        ))}
+      </select>
+
+      {compareModels.length < 2 && (
+        <p className="compare-setup-hint">Pick at least two models.</p>
+      )}
+
+      <label className="compare-setup-checkbox">
+        <input
+          type="checkbox"
+          checked={blind}
+          onChange={(e) => onBlindChange(e.target.checked)}
+        />
+        Blind: hide model names until I vote
+      </label>
+    </fieldset>
+  );
+};
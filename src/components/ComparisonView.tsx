@@ -0,0 +1,81 @@
+import React from 'react';
+import { OutputPanel } from './OutputPanel';
+import { ErrorBanner } from './ErrorBanner';
+import type { ComparisonEntry } from '../types';
+import './ComparisonView.css';
+
+interface ComparisonViewProps {
+  entries: ComparisonEntry[];
+  blind: boolean;
+  votedModel: string | null;
+  getModelName: (modelId: string) => string;
+  onVote: (modelId: string) => void;
+  onCopy: (text: string) => void;
+}
+
+/**
+ * Get the anonymous label of a column in blind mode
+ * @param index The column index
+ * @returns "Model A", "Model B", ...
+ */
+function getBlindLabel(index: number): string {
+  return `Model ${String.fromCharCode(65 + index)}`;
+}
+
+export const ComparisonView: React.FC<ComparisonViewProps> = ({
+  entries,
+  blind,
+  votedModel,
+  getModelName,
+  onVote,
+  onCopy,
+}) => {
+  const hidden = blind && votedModel === null;
+  const isDone = entries.every((entry) => !entry.isStreaming);
+  const succeeded = entries.filter((entry) => entry.response && !entry.error);
+  const canVote = isDone && votedModel === null && succeeded.length >= 2;
+
+  return (
+    <section className="comparison-view" aria-label="Model comparison">
+      {entries.map((entry, index) => {
+        const label = hidden ? getBlindLabel(index) : getModelName(entry.modelId);
+        return (
+          <div
+            key={entry.modelId}
+            className={`comparison-column ${votedModel === entry.modelId ? 'voted' : ''}`}
+            aria-label={label}
+            role="group"
+          >
+            <h2 className="comparison-heading">
+              {label}
+              {votedModel === entry.modelId && <span className="comparison-badge">Your pick</span>}
+            </h2>
+            {entry.error ? (
+              <ErrorBanner error={entry.error} />
+            ) : (
+              <OutputPanel
+                translation={entry.response?.translation ?? ''}
+                explanation={entry.response?.explanation ?? ''}
+                transcription={entry.response?.transcription ?? ''}
+                isStreaming={entry.isStreaming}
+                usage={hidden ? undefined : entry.response?.usage}
+                cached={!!entry.response?.cached}
+                onCopy={() => onCopy(entry.response?.translation ?? '')}
+              />
+            )}
+            {canVote && entry.response && !entry.error && (
+              <button
+                type="button"
+                className="comparison-vote-button"
+                onClick={() => onVote(entry.modelId)}
+                aria-label={`Vote for ${label}`}
+              >
+                This one is best
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </section>
+  );
+};
@@ -27,6 +27,26 @@ export const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, onDismiss }) =>
         return 'Network error. Please check your internet connection and try again.';
       case 'invalid_response':
         return 'Received an unexpected response from the server. Please try again.';
+      case 'placeholder_mismatch':
+        return `The model did not keep the protected text intact (${error.message}). ` +
+          'Try again, or pick a different model in Settings.';
+      case 'insufficient_credits':
+        return 'Your account is out of credits. Add credits to your account or pick a free model in Settings.';
+      case 'moderation': {
+        const reasons = error.details?.moderationReasons?.join(', ');
+        return `The input was flagged by the model's moderation${reasons ? ` (${reasons})` : ''}. ` +
+          'Rephrase the text or pick a model without moderation in Settings.';
+      }
+      case 'model_unavailable':
+        return 'The selected model is unavailable right now. Pick a different model in Settings.';
+      case 'context_length_exceeded':
+        return 'The text is too long for this model. Pick a model with a larger context in Settings or shorten the text.';
+      case 'provider_timeout': {
+        const provider = error.details?.providerName ?? 'The model provider';
+        return `${provider} took too long to respond. Try again, or pick a different model in Settings.`;
+      }
+      case 'bad_request':
+        return `The request was rejected: ${error.message}`;
       case 'unknown':
       default:
         return error.message || 'An unexpected error occurred. Please try again.';
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import type { Model } from '../types';
+import './FallbackModelList.css';
+
+interface FallbackModelListProps {
+  models: Model[];
+  selectedModel: string;
+  fallbackModels: string[];
+  onChange: (fallbackModels: string[]) => void;
+}
+
+export const FallbackModelList: React.FC<FallbackModelListProps> = ({
+  models,
+  selectedModel,
+  fallbackModels,
+  onChange,
+}) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const getName = (id: string) => models.find((m) => m.id === id)?.name ?? id;
+  const addable = models.filter((m) => m.id !== selectedModel && !fallbackModels.includes(m.id));
+
+  const move = (index: number, offset: number) => {
+    const reordered = [...fallbackModels];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    onChange(reordered);
+  };
+
+  return (
+    <div className="fallback-models">
+      <span className="fallback-models-label">Fallback models</span>
+      <p className="fallback-models-hint">
+        Tried in order when the selected model is down, times out or keeps returning invalid output.
+      </p>
+
+      {fallbackModels.length > 0 && (
+        <ol className="fallback-models-list" aria-label="Fallback models">
+          {fallbackModels.map((id, index) => (
+            <li key={id} className="fallback-models-item">
+              <span className="fallback-models-name">{getName(id)}</span>
+              <button
+                type="button"
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                aria-label={`Move ${getName(id)} up`}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => move(index, 1)}
+                disabled={index === fallbackModels.length - 1}
+                aria-label={`Move ${getName(id)} down`}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(fallbackModels.filter((m) => m !== id))}
+                aria-label={`Remove ${getName(id)}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {isAdding ? (
+        <select
+          className="fallback-models-select"
+          aria-label="Add a fallback model"
+          value=""
+          autoFocus
+          onChange={(e) => {
+            if (e.target.value) {
+              onChange([...fallbackModels, e.target.value]);
+            }
+            setIsAdding(false);
+          }}
+          onBlur={() => setIsAdding(false)}
+        >
+          <option value="">Choose a model…</option>
+          {addable.map((model) => (
+            <option key={model.id} value={model.id}>
+              {model.name}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <button
+          type="button"
+          className="fallback-models-add"
+          onClick={() => setIsAdding(true)}
+          disabled={addable.length === 0}
+        >
+          Add fallback model
+        </button>
+      )}
+    </div>
+  );
+};
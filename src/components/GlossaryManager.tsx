@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { getLanguageOptions } from '../utils/languages';
+import { exportGlossaryCsv, exportGlossaryTbx, parseGlossaryCsv, parseGlossaryTbx } from '../utils/glossaryFiles';
+import { getStorageErrorReason } from '../utils/storageErrors';
+import type { GlossaryEntry } from '../types';
+import './GlossaryManager.css';
+
+interface GlossaryManagerProps {
+  entries: GlossaryEntry[];
+  onChange: (entries: GlossaryEntry[]) => void;
+  /** The selected languages, used as the defaults for new entries */
+  fromLanguage: string;
+  toLanguage: string;
+}
+
+const TARGET_LANGUAGES = getLanguageOptions();
+
+/**
+ * Check whether two entries say the same thing, so importing a file twice adds nothing
+ * @param a An entry
+ * @param b Another entry
+ * @returns True if the terms, languages and case sensitivity match
+ */
+function isSameEntry(a: GlossaryEntry, b: GlossaryEntry): boolean {
+  return a.sourceTerm === b.sourceTerm && a.targetTerm === b.targetTerm &&
+    a.fromLanguage === b.fromLanguage && a.toLanguage === b.toLanguage && a.caseSensitive === b.caseSensitive;
+}
+
+/**
+ * Save text as a file through a temporary link
+ * @param filename The file name
+ * @param content The file content
+ * @param type The MIME type
+ */
+function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export const GlossaryManager: React.FC<GlossaryManagerProps> = ({ entries, onChange, fromLanguage, toLanguage }) => {
+  const [sourceTerm, setSourceTerm] = useState('');
+  const [targetTerm, setTargetTerm] = useState('');
+  const [entryFrom, setEntryFrom] = useState(fromLanguage === 'auto' ? 'en' : fromLanguage);
+  const [entryTo, setEntryTo] = useState(toLanguage);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [forbidden, setForbidden] = useState('');
+  const [notes, setNotes] = useState('');
+  const [status, setStatus] = useState<{ message: string; isError: boolean } | null>(null);
+
+  const canAdd = sourceTerm.trim() !== '' && targetTerm.trim() !== '';
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canAdd) return;
+
+    try {
+      onChange([...entries, {
+        id: crypto.randomUUID(),
+        sourceTerm: sourceTerm.trim(),
+        targetTerm: targetTerm.trim(),
+        fromLanguage: entryFrom,
+        toLanguage: entryTo,
+        caseSensitive,
+        forbiddenTranslations: forbidden.split(',').map((term) => term.trim()).filter(Boolean),
+        notes: notes.trim() || undefined,
+      }]);
+    } catch (err) {
+      // Keep the form filled in so the term can be added once there is room
+      setStatus({ message: `Could not add the term: ${getStorageErrorReason(err, 'the glossary')}`, isError: true });
+      return;
+    }
+    setStatus(null);
+    setSourceTerm('');
+    setTargetTerm('');
+    setForbidden('');
+    setNotes('');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const isTbx = /\.(tbx|xml)$/i.test(file.name) || text.trimStart().startsWith('<');
+      const { entries: imported, skipped } = isTbx ? parseGlossaryTbx(text) : parseGlossaryCsv(text);
+      const added = imported.filter((entry) => !entries.some((existing) => isSameEntry(existing, entry)));
+      onChange([...entries, ...added]);
+
+      let message = `Imported ${added.length} ${added.length === 1 ? 'term' : 'terms'}`;
+      if (imported.length > added.length) {
+        message += `, ${imported.length - added.length} already in the glossary`;
+      }
+      if (skipped > 0) {
+        message += `, skipped ${skipped} incomplete`;
+      }
+      setStatus({ message, isError: false });
+    } catch (err) {
+      setStatus({
+        message: `Could not import ${file.name}: ${getStorageErrorReason(err, 'the glossary')}`,
+        isError: true,
+      });
+    }
+  };
+
+  return (
+    <fieldset className="glossary-manager">
+      <legend className="glossary-legend">Glossary</legend>
+
+      <form className="glossary-form" onSubmit={handleAdd}>
+        <label className="glossary-field">
+          Source term
+          <input type="text" value={sourceTerm} onChange={(e) => setSourceTerm(e.target.value)} />
+        </label>
+        <label className="glossary-field">
+          Target term
+          <input type="text" value={targetTerm} onChange={(e) => setTargetTerm(e.target.value)} />
+        </label>
+        <label className="glossary-field">
+          From
+          <select value={entryFrom} onChange={(e) => setEntryFrom(e.target.value)}>
+            {TARGET_LANGUAGES.map((lang) => (
+              <option key={lang.code} value={lang.code}>{lang.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="glossary-field">
+          To
+          <select value={entryTo} onChange={(e) => setEntryTo(e.target.value)}>
+            {TARGET_LANGUAGES.map((lang) => (
+              <option key={lang.code} value={lang.code}>{lang.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="glossary-field">
+          Forbidden translations (comma-separated)
+          <input type="text" value={forbidden} onChange={(e) => setForbidden(e.target.value)} />
+        </label>
+        <label className="glossary-field">
+          Notes
+          <input type="text" value={notes} onChange={(e) => setNotes(e.target.value)} />
+        </label>
+        <label className="glossary-checkbox">
+          <input type="checkbox" checked={caseSensitive} onChange={(e) => setCaseSensitive(e.target.checked)} />
+          Case sensitive
+        </label>
+        <button type="submit" className="glossary-button" disabled={!canAdd}>
+          Add term
+        </button>
+      </form>
+
+      {entries.length === 0 ? (
+        <p className="glossary-empty">No terms yet.</p>
+      ) : (
+        <ul className="glossary-entries" aria-label="Glossary terms">
+          {entries.map((entry) => (
+            <li key={entry.id} className="glossary-entry">
+              <div className="glossary-entry-terms">
+                <span className="glossary-entry-pair">{entry.fromLanguage} → {entry.toLanguage}</span>
+                <span>{entry.sourceTerm} → {entry.targetTerm}</span>
+                {entry.caseSensitive && <span className="glossary-entry-flag">Aa</span>}
+              </div>
+              {entry.forbiddenTranslations.length > 0 && (
+                <div className="glossary-entry-detail">Never: {entry.forbiddenTranslations.join(', ')}</div>
+              )}
+              {entry.notes && <div className="glossary-entry-detail">{entry.notes}</div>}
+              <button
+                type="button"
+                className="glossary-delete"
+                onClick={() => onChange(entries.filter((e) => e.id !== entry.id))}
+                aria-label={`Delete ${entry.sourceTerm} → ${entry.targetTerm}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="glossary-actions">
+        <label className="glossary-button">
+          Import CSV or TBX
+          <input type="file" accept=".csv,.tbx,.xml" onChange={handleImport} className="glossary-file-input" />
+        </label>
+        <button
+          type="button"
+          className="glossary-button"
+          onClick={() => downloadFile('glossary.csv', exportGlossaryCsv(entries), 'text/csv')}
+          disabled={entries.length === 0}
+        >
+          Export CSV
+        </button>
+        <button
+          type="button"
+          className="glossary-button"
+          onClick={() => downloadFile('glossary.tbx', exportGlossaryTbx(entries), 'application/x-tbx+xml')}
+          disabled={entries.length === 0}
+        >
+          Export TBX
+        </button>
+      </div>
+
+      {status && (
+        <p className={`glossary-status ${status.isError ? 'error' : ''}`} role={status.isError ? 'alert' : 'status'}>
+          {status.message}
+        </p>
+      )}
+    </fieldset>
+  );
+};
@@ -1,16 +1,21 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { DO_NOT_TRANSLATE_END, DO_NOT_TRANSLATE_START } from '../utils/protectedSpans';
+import type { TextDirection } from '../types';
 import './InputPanel.css';
 
 interface InputPanelProps {
   value: string;
   onChange: (text: string) => void;
-  maxLength: number;
+  maxLength?: number;
+  /** Layout direction of the source language; 'auto' lets the browser decide from the text */
+  direction?: TextDirection | 'auto';
 }
 
 export const InputPanel: React.FC<InputPanelProps> = ({
   value,
   onChange,
   maxLength,
+  direction = 'auto',
 }) => {
   // Debounced character count for performance
   const [debouncedCount, setDebouncedCount] = useState(value.length);
@@ -25,23 +30,54 @@ export const InputPanel: React.FC<InputPanelProps> = ({
 
   const characterCount = debouncedCount;
 
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [hasSelection, setHasSelection] = useState(false);
+
+  // Wrap the selected text in ⟦ ⟧ so it reaches the translation unchanged
+  const handleProtectSelection = () => {
+    const textarea = textareaRef.current;
+    if (!textarea || textarea.selectionStart === textarea.selectionEnd) return;
+
+    const { selectionStart, selectionEnd } = textarea;
+    onChange(
+      value.slice(0, selectionStart) +
+      DO_NOT_TRANSLATE_START + value.slice(selectionStart, selectionEnd) + DO_NOT_TRANSLATE_END +
+      value.slice(selectionEnd)
+    );
+    setHasSelection(false);
+  };
+
   return (
     <div className="input-panel">
       <div className="input-panel-header">
         <label htmlFor="input-textarea" className="input-label">
           Input
         </label>
-        <span className="character-counter" aria-live="polite">
-          {characterCount} / {maxLength}
-        </span>
+        <div className="input-panel-tools">
+          <button
+            type="button"
+            className="protect-button"
+            onClick={handleProtectSelection}
+            disabled={!hasSelection}
+            title={`Keep the selected text as it is, marked with ${DO_NOT_TRANSLATE_START} ${DO_NOT_TRANSLATE_END}`}
+          >
+            Keep selection as is
+          </button>
+          <span className="character-counter" aria-live="polite">
+            {maxLength === undefined ? `${characterCount} characters` : `${characterCount} / ${maxLength}`}
+          </span>
+        </div>
       </div>
       <textarea
+        ref={textareaRef}
         id="input-textarea"
         className="input-textarea"
         value={value}
         onChange={(e) => onChange(e.target.value)}
+        onSelect={(e) => setHasSelection(e.currentTarget.selectionStart !== e.currentTarget.selectionEnd)}
         placeholder="Enter text to translate..."
         maxLength={maxLength}
+        dir={direction}
         aria-label="Input text"
       />
     </div>
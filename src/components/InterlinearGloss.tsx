@@ -0,0 +1,54 @@
+import React, { useMemo } from 'react';
+import type { GlossEntry } from '../types';
+import { alignGloss } from '../utils/gloss';
+import './InterlinearGloss.css';
+
+interface InterlinearGlossProps {
+  /** The text that was translated */
+  sourceText: string;
+  /** Language of the source text, used to split it into words */
+  language?: string;
+  entries: GlossEntry[];
+}
+
+export const InterlinearGloss: React.FC<InterlinearGlossProps> = ({ sourceText, language, entries }) => {
+  const columns = useMemo(() => alignGloss(sourceText, entries, language), [sourceText, entries, language]);
+  if (columns.length === 0) {
+    return null;
+  }
+
+  // Languages written in Latin letters have no readings, so skip the empty row
+  const hasReadings = columns.some(({ entry }) => entry?.reading);
+  const rows: { label: string; value: (entry: GlossEntry) => string | undefined }[] = [
+    ...(hasReadings ? [{ label: 'Reading', value: (entry: GlossEntry) => entry.reading }] : []),
+    { label: 'Dictionary form', value: (entry) => entry.dictionaryForm },
+    { label: 'Part of speech', value: (entry) => entry.partOfSpeech },
+    { label: 'Translation', value: (entry) => entry.target },
+  ];
+
+  return (
+    <section className="interlinear-gloss" aria-label="Word-by-word gloss">
+      <h3 className="interlinear-gloss-title">Word by word</h3>
+      <div className="interlinear-gloss-scroll">
+        <table className="interlinear-gloss-table">
+          <tbody>
+            <tr className="interlinear-gloss-source">
+              <th scope="row">Source</th>
+              {columns.map(({ source }, index) => (
+                <td key={index} lang={language}>{source}</td>
+              ))}
+            </tr>
+            {rows.map(({ label, value }) => (
+              <tr key={label}>
+                <th scope="row">{label}</th>
+                {columns.map(({ entry }, index) => (
+                  <td key={index}>{entry ? value(entry) : ''}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+};
@@ -1,5 +1,6 @@
 import React from 'react';
-import { LANGUAGES } from '../constants/languages';
+import { AUTO_DETECT } from '../constants/languages';
+import { findLanguage, getLanguageOptions } from '../utils/languages';
 import './LanguageSelector.css';
 
 interface LanguageSelectorProps {
@@ -8,6 +9,8 @@ interface LanguageSelectorProps {
   onFromChange: (lang: string) => void;
   onToChange: (lang: string) => void;
   onSwap: () => void;
+  /** The language the model detected, when translating from 'auto' */
+  detectedLanguage?: string;
 }
 
 export const LanguageSelector: React.FC<LanguageSelectorProps> = ({
@@ -16,8 +19,11 @@ export const LanguageSelector: React.FC<LanguageSelectorProps> = ({
   onFromChange,
   onToChange,
   onSwap,
+  detectedLanguage,
 }) => {
-  const isSwapDisabled = fromLanguage === 'auto';
+  // Only a listed language can become the target language
+  const detected = findLanguage(detectedLanguage);
+  const isSwapDisabled = fromLanguage === 'auto' && !detected;
 
   return (
     <div className="language-selector">
@@ -28,7 +34,10 @@ export const LanguageSelector: React.FC<LanguageSelectorProps> = ({
         onChange={(e) => onFromChange(e.target.value)}
         aria-label="Source language"
       >
-        {LANGUAGES.map((lang) => (
+        <option value={AUTO_DETECT.code}>
+          {detectedLanguage ? `Detected: ${detected?.name ?? detectedLanguage}` : AUTO_DETECT.name}
+        </option>
+        {getLanguageOptions().map((lang) => (
           <option key={lang.code} value={lang.code}>
             {lang.name}
           </option>
@@ -52,7 +61,7 @@ export const LanguageSelector: React.FC<LanguageSelectorProps> = ({
         onChange={(e) => onToChange(e.target.value)}
         aria-label="Target language"
       >
-        {LANGUAGES.filter((lang) => lang.code !== 'auto').map((lang) => (
+        {getLanguageOptions().map((lang) => (
           <option key={lang.code} value={lang.code}>
             {lang.name}
           </option>
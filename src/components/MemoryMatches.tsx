@@ -0,0 +1,38 @@
+import React from 'react';
+import type { SegmentLookup } from '../utils/translationMemory';
+import './MemoryMatches.css';
+
+interface MemoryMatchesProps {
+  /** The segments of the input and their closest past translations */
+  lookups: SegmentLookup[];
+}
+
+export const MemoryMatches: React.FC<MemoryMatchesProps> = ({ lookups }) => {
+  const matched = lookups.filter((lookup) => lookup.match);
+  if (matched.length === 0) {
+    return null;
+  }
+
+  const exactCount = matched.filter(({ match }) => match?.score === 100).length;
+  const summary = exactCount === lookups.length
+    ? 'Every segment is in the translation memory, so translating reuses it without an API call.'
+    : `${matched.length} of ${lookups.length} ${lookups.length === 1 ? 'segment matches' : 'segments match'} ` +
+      'the translation memory and will be sent to the model as reference.';
+
+  return (
+    <section className="memory-matches" aria-label="Translation memory matches">
+      <p className="memory-matches-summary">{summary}</p>
+      <ul className="memory-matches-list">
+        {matched.map(({ segment, match }, index) => match && (
+          <li key={`${index}-${segment.text}`} className="memory-match">
+            <span className={`memory-match-score ${match.score === 100 ? 'exact' : ''}`}>{match.score}%</span>
+            <div className="memory-match-texts">
+              <span className="memory-match-source">{match.unit.sourceText}</span>
+              <span className="memory-match-target">{match.unit.targetText}</span>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
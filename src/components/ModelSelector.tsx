@@ -1,21 +1,75 @@
 import React, { useState, useMemo } from 'react';
 import Fuse from 'fuse.js';
-import type { Model } from '../types';
+import {
+  filterModels,
+  sortModels,
+  groupModelsByProvider,
+  getPricePerMillion,
+  DEFAULT_MODEL_FILTERS,
+  type ModelFilters,
+  type ModelSortOrder,
+} from '../utils/modelFilters';
+import type { Model, ModelRating } from '../types';
 import './ModelSelector.css';
 
+const MIN_CONTEXT_OPTIONS = [8_000, 32_000, 128_000, 1_000_000];
+
+/**
+ * Format a context length for display
+ * @param tokens The context length in tokens
+ * @returns A short label (e.g., "128K", "1M")
+ */
+function formatContextLength(tokens: number): string {
+  if (tokens >= 1_000_000) {
+    return `${Math.round(tokens / 100_000) / 10}M`;
+  }
+  return `${Math.round(tokens / 1000)}K`;
+}
+
+/**
+ * Build the metadata line shown under a model's name
+ * @param model The model
+ * @param rating The model's comparison rating for the current language pair
+ * @returns Price, context length, non-text input modalities and rating, joined with dots
+ */
+function describeModel(model: Model, rating?: ModelRating): string {
+  const parts: string[] = [];
+  const price = getPricePerMillion(model);
+  if (price !== undefined) {
+    parts.push(price === 0 ? 'Free' : `$${price.toFixed(2)}/1M tokens`);
+  }
+  if (model.contextLength) {
+    parts.push(`${formatContextLength(model.contextLength)} context`);
+  }
+  const otherModalities = model.inputModalities?.filter((m) => m !== 'text') ?? [];
+  if (otherModalities.length > 0) {
+    parts.push(`Accepts ${otherModalities.join(', ')}`);
+  }
+  if (rating) {
+    parts.push(`Rated ${Math.round(rating.rating)} (${rating.votes} ${rating.votes === 1 ? 'vote' : 'votes'})`);
+  }
+  return parts.join(' · ');
+}
+
 interface ModelSelectorProps {
   selectedModel: string;
   models: Model[];
   onChange: (modelId: string) => void;
+  /** Comparison ratings for the current language pair, by model ID */
+  ratings?: Record<string, ModelRating>;
 }
 
 export const ModelSelector: React.FC<ModelSelectorProps> = ({
   selectedModel,
   models,
   onChange,
+  ratings,
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
+  const [filters, setFilters] = useState<ModelFilters>(DEFAULT_MODEL_FILTERS);
+  const [sortOrder, setSortOrder] = useState<ModelSortOrder>('relevance');
+  const [groupByProvider, setGroupByProvider] = useState(false);
 
   // Create Fuse instance for fuzzy search
   const fuse = useMemo(() => {
@@ -31,15 +85,23 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
     });
   }, [models]);
 
-  // Filter models based on search query using Fuse.js
+  // Filter models based on search query using Fuse.js, then by metadata
   const filteredModels = useMemo(() => {
-    if (!searchQuery.trim()) {
-      return models;
-    }
-    
-    const results = fuse.search(searchQuery);
-    return results.map(result => result.item);
-  }, [fuse, models, searchQuery]);
+    const searched = searchQuery.trim()
+      ? fuse.search(searchQuery).map(result => result.item)
+      : models;
+
+    return sortModels(filterModels(searched, filters), sortOrder, ratings);
+  }, [fuse, models, searchQuery, filters, sortOrder, ratings]);
+
+  const hasActiveFilters = filters.freeOnly
+    || filters.maxPricePerMillion !== null
+    || filters.minContextLength !== null
+    || filters.structuredOutputOnly;
+
+  const updateFilters = (updates: Partial<ModelFilters>) => {
+    setFilters((current) => ({ ...current, ...updates }));
+  };
 
   // Get the selected model object
   const selectedModelObj = models.find((m) => m.id === selectedModel);
@@ -50,6 +112,34 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
     setSearchQuery('');
   };
 
+  const renderOption = (model: Model) => {
+    const meta = describeModel(model, ratings?.[model.id]);
+    return (
+      <div
+        key={model.id}
+        className={`model-dropdown-item ${
+          model.id === selectedModel ? 'selected' : ''
+        }`}
+        onClick={() => handleModelSelect(model.id)}
+        role="option"
+        aria-selected={model.id === selectedModel}
+        tabIndex={0}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            handleModelSelect(model.id);
+          }
+        }}
+      >
+        <div className="model-name">{model.name}</div>
+        {model.description && (
+          <div className="model-description">{model.description}</div>
+        )}
+        {meta && <div className="model-meta">{meta}</div>}
+      </div>
+    );
+  };
+
   return (
     <div className="model-selector">
       <label htmlFor="model-search" className="model-label">
@@ -73,39 +163,95 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
         />
         {isDropdownOpen && filteredModels.length > 0 && (
           <div className="model-dropdown-list" role="listbox" aria-label="Available models">
-            {filteredModels.map((model) => (
-              <div
-                key={model.id}
-                className={`model-dropdown-item ${
-                  model.id === selectedModel ? 'selected' : ''
-                }`}
-                onClick={() => handleModelSelect(model.id)}
-                role="option"
-                aria-selected={model.id === selectedModel}
-                tabIndex={0}
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter' || e.key === ' ') {
-                    e.preventDefault();
-                    handleModelSelect(model.id);
-                  }
-                }}
-              >
-                <div className="model-name">{model.name}</div>
-                {model.description && (
-                  <div className="model-description">{model.description}</div>
-                )}
-              </div>
-            ))}
+            {groupByProvider
+              ? groupModelsByProvider(filteredModels).map(([provider, group]) => (
+                  <div key={provider} role="group" aria-label={provider} className="model-group">
+                    <div className="model-group-label" aria-hidden="true">{provider}</div>
+                    {group.map(renderOption)}
+                  </div>
+                ))
+              : filteredModels.map(renderOption)}
           </div>
         )}
-        {isDropdownOpen && searchQuery && filteredModels.length === 0 && (
+        {isDropdownOpen && (searchQuery || hasActiveFilters) && filteredModels.length === 0 && (
           <div className="model-dropdown-list">
             <div className="model-dropdown-item no-results">
-              No models found matching "{searchQuery}"
+              {searchQuery
+                ? `No models found matching "${searchQuery}"`
+                : 'No models match the selected filters'}
             </div>
           </div>
         )}
       </div>
+
+      <fieldset className="model-filters">
+        <legend className="model-filters-legend">Filter and sort</legend>
+        <label className="model-filter-checkbox">
+          <input
+            type="checkbox"
+            checked={filters.freeOnly}
+            onChange={(e) => updateFilters({ freeOnly: e.target.checked })}
+          />
+          Free only
+        </label>
+        <label className="model-filter-checkbox">
+          <input
+            type="checkbox"
+            checked={filters.structuredOutputOnly}
+            onChange={(e) => updateFilters({ structuredOutputOnly: e.target.checked })}
+          />
+          Structured output
+        </label>
+        <label className="model-filter-checkbox">
+          <input
+            type="checkbox"
+            checked={groupByProvider}
+            onChange={(e) => setGroupByProvider(e.target.checked)}
+          />
+          Group by provider
+        </label>
+        <label className="model-filter-field">
+          Max $ per 1M tokens
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={filters.maxPricePerMillion ?? ''}
+            onChange={(e) => updateFilters({
+              maxPricePerMillion: e.target.value === '' ? null : Number(e.target.value),
+            })}
+          />
+        </label>
+        <label className="model-filter-field">
+          Min context
+          <select
+            value={filters.minContextLength ?? ''}
+            onChange={(e) => updateFilters({
+              minContextLength: e.target.value === '' ? null : Number(e.target.value),
+            })}
+          >
+            <option value="">Any</option>
+            {MIN_CONTEXT_OPTIONS.map((tokens) => (
+              <option key={tokens} value={tokens}>
+                {formatContextLength(tokens)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="model-filter-field">
+          Sort by
+          <select
+            value={sortOrder}
+            onChange={(e) => setSortOrder(e.target.value as ModelSortOrder)}
+          >
+            <option value="relevance">Relevance</option>
+            <option value="name">Name</option>
+            <option value="price">Price</option>
+            <option value="context">Context length</option>
+            <option value="rating">Your rating</option>
+          </select>
+        </label>
+      </fieldset>
     </div>
   );
 };
@@ -1,35 +1,113 @@
 import React from 'react';
+import { formatCost } from '../utils/usage';
+import { highlightViolations } from '../utils/glossary';
+import { getDisplayReading, toRubyHtml } from '../utils/furigana';
+import { chooseTranscription, type LocalRomanization } from '../utils/romanization';
+import type {
+  FuriganaSettings,
+  GlossaryViolation,
+  JapaneseRomanization,
+  TextDirection,
+  RubySegment,
+  TokenUsage,
+  TranslationAlternative,
+} from '../types';
 import './OutputPanel.css';
 
 interface OutputPanelProps {
   translation: string;
   explanation: string;
   transcription: string;
-  onCopy: () => void;
+  /** The translation romanized by rule, to check the model's transcription or replace one with IPA or other scripts */
+  localTranscription?: LocalRomanization | null;
+  /** Other renderings in different registers, selectable for copying */
+  alternatives?: TranslationAlternative[];
+  isStreaming?: boolean;
+  usage?: TokenUsage;
+  cost?: number;
+  cached?: boolean;
+  /** Whether the translation was assembled from exact translation memory matches */
+  fromMemory?: boolean;
+  model?: string;
+  isFallback?: boolean;
+  /** Name of the prompt template version used */
+  promptVersion?: string;
+  /** Glossary terms the translation missed or got wrong */
+  glossaryViolations?: GlossaryViolation[];
+  /** Runs of a Japanese translation with their readings, shown as ruby */
+  furigana?: RubySegment[];
+  furiganaSettings?: FuriganaSettings;
+  onFuriganaSettingsChange?: (settings: FuriganaSettings) => void;
+  /** The romanization system for romaji readings */
+  romajiSystem?: JapaneseRomanization;
+  /** Layout direction of the target language */
+  direction?: TextDirection | 'auto';
+  /** Copy the main translation, or the selected alternative */
+  onCopy: (text: string) => void;
+  /** Save the main translation, or the selected alternative, to the translation memory */
+  onApprove?: (text: string) => void;
+  /** Whether the translation on screen has been saved to the translation memory */
+  approved?: boolean;
 }
 
 export const OutputPanel: React.FC<OutputPanelProps> = ({
   translation,
   explanation,
   transcription,
+  localTranscription = null,
+  alternatives = [],
+  isStreaming = false,
+  usage,
+  cost,
+  cached = false,
+  fromMemory = false,
+  model,
+  isFallback = false,
+  promptVersion,
+  glossaryViolations = [],
+  furigana,
+  furiganaSettings,
+  onFuriganaSettingsChange,
+  romajiSystem,
+  direction = 'auto',
   onCopy,
+  onApprove,
+  approved = false,
 }) => {
   const hasTranslation = translation.length > 0;
   const [showFadeIn, setShowFadeIn] = React.useState(false);
-  const [copied, setCopied] = React.useState(false);
+  const [copied, setCopied] = React.useState<'text' | 'html' | null>(null);
+  // Matched by text, so the selection clears itself when a new translation arrives
+  const [selectedText, setSelectedText] = React.useState<string | null>(null);
+  const selected = alternatives.find((alternative) => alternative.text === selectedText);
+  const showFurigana = !!furigana && !!furiganaSettings && !isStreaming;
+  // A transcription still streaming in is not worth checking yet; once done, a missing one is filled in by rule
+  // unless that would only repeat a translation already in Latin letters
+  const shownTranscription = !isStreaming && (transcription || localTranscription?.text !== translation)
+    ? chooseTranscription(transcription, localTranscription)
+    : { text: transcription, source: 'model' as const, matchesLocal: undefined };
 
   React.useEffect(() => {
-    if (hasTranslation) {
+    // Text arriving token by token should not re-trigger the fade
+    if (hasTranslation && !isStreaming) {
       setShowFadeIn(true);
       const timer = setTimeout(() => setShowFadeIn(false), 300);
       return () => clearTimeout(timer);
     }
-  }, [hasTranslation, translation]);
+  }, [hasTranslation, translation, isStreaming]);
 
-  const handleCopy = () => {
-    onCopy();
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
+  const handleCopy = (format: 'text' | 'html') => {
+    onCopy(format === 'html' && furigana && furiganaSettings
+      ? toRubyHtml(furigana, furiganaSettings, romajiSystem)
+      : selected?.text ?? translation);
+    setCopied(format);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  const updateFuriganaSettings = (changes: Partial<FuriganaSettings>) => {
+    if (furiganaSettings && onFuriganaSettingsChange) {
+      onFuriganaSettingsChange({ ...furiganaSettings, ...changes });
+    }
   };
 
   return (
@@ -41,17 +119,122 @@ export const OutputPanel: React.FC<OutputPanelProps> = ({
         className={`output-content ${showFadeIn ? 'fade-in' : ''}`}
         role="region"
         aria-live="polite"
+        aria-busy={isStreaming}
         aria-label="Translation output"
       >
         {hasTranslation ? (
-          <p className="translation-text">{translation}</p>
+          <p className={`translation-text ${isStreaming ? 'streaming' : ''}`} dir={direction}>
+            {/* Readings take the place of glossary highlights; the glossary check below still lists them */}
+            {showFurigana ? furigana.map((segment, index) => {
+              const reading = getDisplayReading(segment, furiganaSettings, romajiSystem);
+              return reading ? (
+                <ruby key={index}>{segment.text}<rp>(</rp><rt>{reading}</rt><rp>)</rp></ruby>
+              ) : (
+                <React.Fragment key={index}>{segment.text}</React.Fragment>
+              );
+            }) : highlightViolations(translation, glossaryViolations).map((segment, index) =>
+              segment.highlighted ? (
+                <mark key={index} className="glossary-violation" title="Forbidden by the glossary">{segment.text}</mark>
+              ) : (
+                <React.Fragment key={index}>{segment.text}</React.Fragment>
+              )
+            )}
+          </p>
         ) : (
           <p className="translation-placeholder">Translation will appear here...</p>
         )}
-        {transcription && (
+        {showFurigana && onFuriganaSettingsChange && (
+          <div className="furigana-settings" role="group" aria-label="Reading settings">
+            <label className="furigana-option">
+              <input
+                type="radio"
+                name="furigana-style"
+                checked={furiganaSettings.style === 'hiragana'}
+                onChange={() => updateFuriganaSettings({ style: 'hiragana' })}
+              />
+              Hiragana
+            </label>
+            <label className="furigana-option">
+              <input
+                type="radio"
+                name="furigana-style"
+                checked={furiganaSettings.style === 'romaji'}
+                onChange={() => updateFuriganaSettings({ style: 'romaji' })}
+              />
+              Romaji
+            </label>
+            <label className="furigana-option">
+              <input
+                type="checkbox"
+                checked={furiganaSettings.hideCommonKanji}
+                onChange={(e) => updateFuriganaSettings({ hideCommonKanji: e.target.checked })}
+              />
+              Hide readings on common kanji
+            </label>
+          </div>
+        )}
+        {glossaryViolations.length > 0 && !isStreaming && (
+          <div className="glossary-check-section" role="group" aria-label="Glossary check">
+            <span className="glossary-check-label">Glossary:</span>
+            <ul className="glossary-check-list">
+              {glossaryViolations.map((violation) => (
+                <li key={`${violation.type}-${violation.entry.id}-${violation.term}`}>
+                  {violation.type === 'missing' ? (
+                    <>Missing <q>{violation.term}</q> for <q>{violation.entry.sourceTerm}</q></>
+                  ) : (
+                    <>
+                      <q>{violation.term}</q> is forbidden for <q>{violation.entry.sourceTerm}</q>;
+                      use <q>{violation.entry.targetTerm}</q>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {alternatives.length > 0 && !isStreaming && (
+          <div className="alternatives-section" role="group" aria-label="Alternative translations">
+            <span className="alternatives-label">Alternatives:</span>
+            {alternatives.map((alternative) => {
+              const isSelected = alternative === selected;
+              return (
+                <button
+                  key={alternative.text}
+                  type="button"
+                  className={`alternative-card ${isSelected ? 'selected' : ''}`}
+                  aria-pressed={isSelected}
+                  onClick={() => setSelectedText(isSelected ? null : alternative.text)}
+                >
+                  {alternative.register && <span className="alternative-register">{alternative.register}</span>}
+                  <span className="alternative-text">{alternative.text}</span>
+                  {alternative.transcription && (
+                    <span className="alternative-transcription">{alternative.transcription}</span>
+                  )}
+                  {alternative.whenToUse && <span className="alternative-usage">{alternative.whenToUse}</span>}
+                </button>
+              );
+            })}
+          </div>
+        )}
+        {shownTranscription.text && (
           <div className="transcription-section" role="complementary" aria-label="Transcription">
             <span className="transcription-label">Transcription:</span>
-            <p className="transcription-text">{transcription}</p>
+            <p className="transcription-text">{shownTranscription.text}</p>
+            {shownTranscription.source === 'local' && (
+              <p className="transcription-check">
+                {transcription
+                  ? 'Romanized by rule, because the model\'s transcription had non-Latin letters or IPA symbols'
+                  : 'Romanized by rule, because the model gave no transcription'}
+              </p>
+            )}
+            {shownTranscription.matchesLocal === true && (
+              <p className="transcription-check matches">✓ Matches the rule-based romanization</p>
+            )}
+            {shownTranscription.matchesLocal === false && localTranscription && (
+              <p className="transcription-check">
+                By rule: <span className="transcription-local">{localTranscription.text}</span>
+              </p>
+            )}
           </div>
         )}
         {explanation && (
@@ -61,16 +244,64 @@ export const OutputPanel: React.FC<OutputPanelProps> = ({
           </div>
         )}
       </div>
+      {model && (
+        <p className="output-model" aria-label="Model used">
+          Translated by {model}
+          {isFallback && ' (fallback)'}
+        </p>
+      )}
+      {promptVersion && (
+        <p className="output-model" aria-label="Prompt version">
+          Prompt version: {promptVersion}
+        </p>
+      )}
+      {cached && (
+        <p className="output-usage" aria-label="Token usage">
+          From cache · no tokens used
+        </p>
+      )}
+      {fromMemory && (
+        <p className="output-usage" aria-label="Token usage">
+          From translation memory · no tokens used
+        </p>
+      )}
+      {usage && (
+        <p className="output-usage" aria-label="Token usage">
+          {usage.promptTokens.toLocaleString()} prompt + {usage.completionTokens.toLocaleString()} completion tokens
+          {cost !== undefined && ` · ${formatCost(cost)}`}
+        </p>
+      )}
       <div className="output-panel-actions">
         <button
           type="button"
-          className={`action-button ${copied ? 'copied' : ''}`}
-          onClick={handleCopy}
-          disabled={!hasTranslation}
-          aria-label={copied ? 'Copied!' : 'Copy translation'}
+          className={`action-button ${copied === 'text' ? 'copied' : ''}`}
+          onClick={() => handleCopy('text')}
+          disabled={!hasTranslation || isStreaming}
+          aria-label={copied === 'text' ? 'Copied!' : `Copy ${selected ? 'selected alternative' : 'translation'}`}
         >
-          {copied ? '✓ Copied!' : 'Copy'}
+          {copied === 'text' ? '✓ Copied!' : selected ? 'Copy alternative' : 'Copy'}
         </button>
+        {showFurigana && !selected && (
+          <button
+            type="button"
+            className={`action-button secondary ${copied === 'html' ? 'copied' : ''}`}
+            onClick={() => handleCopy('html')}
+            aria-label={copied === 'html' ? 'Copied!' : 'Copy translation as ruby HTML'}
+          >
+            {copied === 'html' ? '✓ Copied!' : 'Copy with furigana'}
+          </button>
+        )}
+        {onApprove && (
+          <button
+            type="button"
+            className={`action-button secondary ${approved ? 'approved' : ''}`}
+            onClick={() => onApprove(selected?.text ?? translation)}
+            disabled={!hasTranslation || isStreaming || approved}
+            aria-label={approved ? 'Saved to translation memory' : 'Save to translation memory'}
+          >
+            {approved ? '✓ In memory' : 'Save to memory'}
+          </button>
+        )}
       </div>
     </div>
   );
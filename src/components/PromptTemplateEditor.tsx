@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_PROMPT_VERSION_NAME,
+  DEFAULT_SYSTEM_PROMPT_TEMPLATE,
+  DEFAULT_USER_PROMPT_TEMPLATE,
+  PROMPT_PLACEHOLDERS,
+} from '../constants/prompt';
+import { getPromptVariables, renderTemplate, validateTemplate } from '../utils/promptTemplate';
+import type { PromptSettings, PromptTemplate, TranslationRequest } from '../types';
+import './PromptTemplateEditor.css';
+
+interface PromptTemplateEditorProps {
+  settings: PromptSettings;
+  onChange: (settings: PromptSettings) => void;
+  /** Build the request for the current input, rendered into the preview while it is open */
+  getPreviewRequest: () => TranslationRequest;
+}
+
+const DEFAULT_TEMPLATE: PromptTemplate = {
+  system: DEFAULT_SYSTEM_PROMPT_TEMPLATE,
+  user: DEFAULT_USER_PROMPT_TEMPLATE,
+};
+
+/**
+ * Get the templates of a saved version
+ * @param settings The prompt settings
+ * @param id The version ID, or null for the built-in templates
+ * @returns The version's templates, or the built-in ones if it no longer exists
+ */
+function getTemplate(settings: PromptSettings, id: string | null): PromptTemplate {
+  const version = settings.versions.find((v) => v.id === id);
+  return version ? { system: version.system, user: version.user } : DEFAULT_TEMPLATE;
+}
+
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ settings, onChange, getPreviewRequest }) => {
+  const [draft, setDraft] = useState<PromptTemplate>(() => getTemplate(settings, settings.activeVersionId));
+  const [versionName, setVersionName] = useState('');
+
+  const active = getTemplate(settings, settings.activeVersionId);
+  const isDirty = draft.system !== active.system || draft.user !== active.user;
+  const errors = [
+    ...validateTemplate(draft.system).map((error) => `System prompt: ${error}`),
+    ...validateTemplate(draft.user, { requireSourceText: true }).map((error) => `User prompt: ${error}`),
+  ];
+  const trimmedName = versionName.trim();
+  const nameTaken = trimmedName === DEFAULT_PROMPT_VERSION_NAME || settings.versions.some((v) => v.name === trimmedName);
+  // Building the request looks up the glossary and translation memory, so only do it while the preview is open
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const variables = isPreviewOpen ? getPromptVariables(getPreviewRequest()) : null;
+
+  const selectVersion = (id: string | null) => {
+    onChange({ ...settings, activeVersionId: id });
+    setDraft(getTemplate(settings, id));
+  };
+
+  const saveVersion = () => {
+    const version = { id: crypto.randomUUID(), name: trimmedName, createdAt: Date.now(), ...draft };
+    onChange({ versions: [...settings.versions, version], activeVersionId: version.id });
+    setVersionName('');
+  };
+
+  const deleteVersion = () => {
+    onChange({ versions: settings.versions.filter((v) => v.id !== settings.activeVersionId), activeVersionId: null });
+    setDraft(DEFAULT_TEMPLATE);
+  };
+
+  return (
+    <fieldset className="prompt-template-editor">
+      <legend className="prompt-template-legend">Prompt templates</legend>
+
+      <div className="prompt-template-row">
+        <label className="prompt-template-field">
+          Prompt version
+          <select
+            value={settings.activeVersionId ?? ''}
+            onChange={(e) => selectVersion(e.target.value || null)}
+          >
+            <option value="">{DEFAULT_PROMPT_VERSION_NAME}</option>
+            {settings.versions.map((version) => (
+              <option key={version.id} value={version.id}>
+                {version.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        {settings.activeVersionId !== null && (
+          <button type="button" className="prompt-template-button" onClick={deleteVersion}>
+            Delete version
+          </button>
+        )}
+        <button
+          type="button"
+          className="prompt-template-button"
+          onClick={() => selectVersion(null)}
+          disabled={settings.activeVersionId === null && !isDirty}
+        >
+          Reset to default
+        </button>
+      </div>
+
+      <label className="prompt-template-field">
+        System prompt template
+        <textarea
+          rows={8}
+          value={draft.system}
+          onChange={(e) => setDraft({ ...draft, system: e.target.value })}
+          spellCheck={false}
+        />
+      </label>
+
+      <label className="prompt-template-field">
+        User prompt template
+        <textarea
+          rows={6}
+          value={draft.user}
+          onChange={(e) => setDraft({ ...draft, user: e.target.value })}
+          spellCheck={false}
+        />
+      </label>
+
+      <details className="prompt-template-help">
+        <summary>Placeholders</summary>
+        <ul>
+          {PROMPT_PLACEHOLDERS.map(({ name, description }) => (
+            <li key={name}>
+              <code>{`{{${name}}}`}</code> {description}
+            </li>
+          ))}
+        </ul>
+        <p>
+          Wrap text in <code>{'{{#context}}'}</code>...<code>{'{{/context}}'}</code> to include it only when the
+          placeholder is not empty.
+        </p>
+      </details>
+
+      {errors.length > 0 && (
+        <ul className="prompt-template-errors" role="alert">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      {isDirty && (
+        <div className="prompt-template-row">
+          <label className="prompt-template-field">
+            Version name
+            <input type="text" value={versionName} onChange={(e) => setVersionName(e.target.value)} />
+          </label>
+          <button
+            type="button"
+            className="prompt-template-button"
+            onClick={saveVersion}
+            disabled={errors.length > 0 || !trimmedName || nameTaken}
+          >
+            Save as new version
+          </button>
+        </div>
+      )}
+      {isDirty && (
+        <p className="prompt-template-hint">
+          {nameTaken ? 'A version with this name already exists.' : 'Save your changes as a new version to use them.'}
+        </p>
+      )}
+
+      <details className="prompt-template-preview" onToggle={(e) => setIsPreviewOpen(e.currentTarget.open)}>
+        <summary>Preview with the current input</summary>
+        {variables && (
+          <>
+            <pre aria-label="System prompt preview">{renderTemplate(draft.system, variables)}</pre>
+            <pre aria-label="User prompt preview">{renderTemplate(draft.user, variables)}</pre>
+          </>
+        )}
+      </details>
+    </fieldset>
+  );
+};
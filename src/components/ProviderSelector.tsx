@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { getProvider, listProviders } from '../services/providers';
+import type { ProviderId } from '../types';
+import './ProviderSelector.css';
+
+interface ProviderSelectorProps {
+  providerId: ProviderId;
+  baseUrl: string;
+  onProviderChange: (providerId: ProviderId) => void;
+  onBaseUrlChange?: (baseUrl: string | null) => void;
+}
+
+export const ProviderSelector: React.FC<ProviderSelectorProps> = ({
+  providerId,
+  baseUrl,
+  onProviderChange,
+  onBaseUrlChange,
+}) => {
+  const provider = getProvider(providerId);
+  const [baseUrlInput, setBaseUrlInput] = useState(baseUrl);
+
+  const commitBaseUrl = () => {
+    if (!onBaseUrlChange) return;
+
+    const trimmed = baseUrlInput.trim().replace(/\/+$/, '');
+    // An empty field or the default URL means "use the provider default"
+    const next = !trimmed || trimmed === provider.defaultBaseUrl ? null : trimmed;
+    if ((next || provider.defaultBaseUrl) !== baseUrl) {
+      onBaseUrlChange(next);
+    }
+    setBaseUrlInput(next || provider.defaultBaseUrl);
+  };
+
+  return (
+    <div className="provider-selector">
+      <label htmlFor="provider-select" className="provider-label">
+        Provider
+      </label>
+      <select
+        id="provider-select"
+        className="provider-select"
+        value={providerId}
+        onChange={(e) => onProviderChange(e.target.value as ProviderId)}
+        aria-label="Translation provider"
+      >
+        {listProviders().map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.name}
+          </option>
+        ))}
+      </select>
+
+      {onBaseUrlChange && (
+        <>
+          <label htmlFor="provider-base-url" className="provider-label">
+            Base URL
+          </label>
+          <input
+            id="provider-base-url"
+            type="url"
+            className="provider-base-url-input"
+            value={baseUrlInput}
+            onChange={(e) => setBaseUrlInput(e.target.value)}
+            onBlur={commitBaseUrl}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                commitBaseUrl();
+              }
+            }}
+            placeholder={provider.defaultBaseUrl}
+            aria-label="Provider base URL"
+            autoComplete="off"
+          />
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React from 'react';
+import { ErrorBanner } from './ErrorBanner';
+import { MAX_REVIEW_SCORE, REVIEW_DIMENSIONS } from '../constants/review';
+import type { Model, OpenRouterError, TranslationReview } from '../types';
+import './QualityReviewPanel.css';
+
+interface QualityReviewPanelProps {
+  models: Model[];
+  judgeModel: string;
+  onJudgeModelChange: (modelId: string) => void;
+  review: TranslationReview | null;
+  isReviewing: boolean;
+  error?: OpenRouterError | null;
+  onReview: () => void;
+}
+
+export const QualityReviewPanel: React.FC<QualityReviewPanelProps> = ({
+  models,
+  judgeModel,
+  onJudgeModelChange,
+  review,
+  isReviewing,
+  error,
+  onReview,
+}) => {
+  const getName = (id: string) => models.find((m) => m.id === id)?.name ?? id;
+  const average = review
+    ? REVIEW_DIMENSIONS.reduce((sum, { id }) => sum + review.scores[id].score, 0) / REVIEW_DIMENSIONS.length
+    : 0;
+
+  let buttonLabel = 'Review translation';
+  if (isReviewing) {
+    buttonLabel = 'Reviewing...';
+  } else if (review) {
+    buttonLabel = 'Review again';
+  }
+
+  return (
+    <section className="quality-review-panel" aria-label="Quality review" aria-busy={isReviewing}>
+      <div className="quality-review-controls">
+        <label className="quality-review-judge">
+          Judge model
+          <select value={judgeModel} onChange={(e) => onJudgeModelChange(e.target.value)} disabled={isReviewing}>
+            {models.map((model) => (
+              <option key={model.id} value={model.id}>
+                {model.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button type="button" className="quality-review-button" onClick={onReview} disabled={isReviewing}>
+          {buttonLabel}
+        </button>
+      </div>
+
+      {error && <ErrorBanner error={error} />}
+
+      {review && (
+        <>
+          <p className="quality-review-summary">
+            Average {average.toFixed(1)} / {MAX_REVIEW_SCORE} · judged by {getName(review.model)}
+          </p>
+          <dl className="quality-review-scores">
+            {REVIEW_DIMENSIONS.map(({ id, name }) => (
+              <div key={id} className="quality-review-score">
+                <dt>
+                  {name}
+                  <meter
+                    min={1}
+                    max={MAX_REVIEW_SCORE}
+                    low={2.5}
+                    high={4}
+                    optimum={MAX_REVIEW_SCORE}
+                    value={review.scores[id].score}
+                    aria-label={`${name} score`}
+                  />
+                  <span className="quality-review-value">
+                    {review.scores[id].score}/{MAX_REVIEW_SCORE}
+                  </span>
+                </dt>
+                <dd>{review.scores[id].justification}</dd>
+              </div>
+            ))}
+          </dl>
+        </>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,93 @@
+import React from 'react';
+import type { OpenRouterError, RetryPolicy } from '../types';
+import './RetrySettings.css';
+
+interface RetrySettingsProps {
+  policy: RetryPolicy;
+  onChange: (policy: RetryPolicy) => void;
+}
+
+const RETRYABLE_ERROR_LABELS: [OpenRouterError['type'], string][] = [
+  ['rate_limit', 'Rate limits'],
+  ['network', 'Network errors'],
+  ['invalid_response', 'Invalid responses'],
+  ['placeholder_mismatch', 'Lost or repeated placeholders'],
+  ['provider_timeout', 'Provider timeouts'],
+  ['unknown', 'Other server errors'],
+];
+
+export const RetrySettings: React.FC<RetrySettingsProps> = ({ policy, onChange }) => {
+  const update = (updates: Partial<RetryPolicy>) => {
+    onChange({ ...policy, ...updates });
+  };
+
+  const toggleRetryable = (type: OpenRouterError['type'], enabled: boolean) => {
+    update({
+      retryableErrors: enabled
+        ? [...policy.retryableErrors, type]
+        : policy.retryableErrors.filter((t) => t !== type),
+    });
+  };
+
+  return (
+    <fieldset className="retry-settings">
+      <legend className="retry-settings-legend">Retries</legend>
+
+      <label className="retry-settings-field">
+        Max attempts
+        <input
+          type="number"
+          min="1"
+          max="10"
+          value={policy.maxAttempts}
+          onChange={(e) => {
+            const value = Number(e.target.value);
+            if (value >= 1) {
+              update({ maxAttempts: Math.min(10, Math.round(value)) });
+            }
+          }}
+        />
+      </label>
+
+      <label className="retry-settings-field">
+        First backoff (seconds)
+        <input
+          type="number"
+          min="0"
+          max="60"
+          step="0.5"
+          value={policy.baseDelayMs / 1000}
+          onChange={(e) => {
+            const value = Number(e.target.value);
+            if (value >= 0) {
+              update({ baseDelayMs: Math.round(Math.min(60, value) * 1000) });
+            }
+          }}
+        />
+      </label>
+
+      <label className="retry-settings-checkbox">
+        <input
+          type="checkbox"
+          checked={policy.honorRetryAfter}
+          onChange={(e) => update({ honorRetryAfter: e.target.checked })}
+        />
+        Wait as long as the server asks (Retry-After)
+      </label>
+
+      <div className="retry-settings-errors" role="group" aria-label="Retry on">
+        <span className="retry-settings-errors-label" aria-hidden="true">Retry on</span>
+        {RETRYABLE_ERROR_LABELS.map(([type, label]) => (
+          <label key={type} className="retry-settings-checkbox">
+            <input
+              type="checkbox"
+              checked={policy.retryableErrors.includes(type)}
+              onChange={(e) => toggleRetryable(type, e.target.checked)}
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  );
+};
@@ -0,0 +1,37 @@
+import React from 'react';
+import { getLanguageOptions } from '../utils/languages';
+import { getRomanizationOptions, getRomanizationStandard } from '../utils/romanization';
+import type { RomanizationStandard, TranscriptionSettings } from '../types';
+import './RomanizationSettings.css';
+
+interface RomanizationSettingsProps {
+  settings: TranscriptionSettings;
+  onChange: (settings: TranscriptionSettings) => void;
+}
+
+// Target languages whose writing system has more than one standard to choose from
+const CONFIGURABLE_LANGUAGES = getLanguageOptions().filter((lang) => getRomanizationOptions(lang.code).length > 1);
+
+export const RomanizationSettings: React.FC<RomanizationSettingsProps> = ({ settings, onChange }) => {
+  return (
+    <fieldset className="romanization-settings">
+      <legend className="romanization-settings-legend">Romanization</legend>
+
+      {CONFIGURABLE_LANGUAGES.map((lang) => (
+        <label key={lang.code} className="romanization-settings-field">
+          {lang.name}
+          <select
+            value={getRomanizationStandard(settings, lang.code)}
+            onChange={(e) => onChange({ ...settings, [lang.code]: e.target.value as RomanizationStandard })}
+          >
+            {getRomanizationOptions(lang.code).map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      ))}
+    </fieldset>
+  );
+};
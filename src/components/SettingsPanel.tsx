@@ -1,9 +1,62 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { ModelSelector } from './ModelSelector';
-import type { Model } from '../types';
+import { FallbackModelList } from './FallbackModelList';
+import { ProviderSelector } from './ProviderSelector';
+import { RetrySettings } from './RetrySettings';
+import { RomanizationSettings } from './RomanizationSettings';
+import { PromptTemplateEditor } from './PromptTemplateEditor';
+import { GlossaryManager } from './GlossaryManager';
+import { TranslationMemoryManager } from './TranslationMemoryManager';
+import { formatCost } from '../utils/usage';
+import type {
+  GlossaryEntry,
+  LanguagePrefs,
+  Model,
+  ModelRating,
+  OutputModeStats,
+  PromptSettings,
+  ProviderId,
+  RetryPolicy,
+  TranscriptionSettings,
+  TranslationMemoryUnit,
+  TranslationRequest,
+  UsageStats,
+  UsageTotals,
+} from '../types';
 import './SettingsPanel.css';
 
 interface SettingsPanelProps {
+  providerId?: ProviderId;
+  baseUrl?: string;
+  onProviderChange?: (providerId: ProviderId) => void;
+  onBaseUrlChange?: (baseUrl: string | null) => void;
+  outputModeStats?: OutputModeStats;
+  usageStats?: UsageStats;
+  parallelChunking?: boolean;
+  onParallelChunkingChange?: (enabled: boolean) => void;
+  bypassCache?: boolean;
+  onBypassCacheChange?: (enabled: boolean) => void;
+  onClearCache?: () => void;
+  backTranslationCheck?: boolean;
+  onBackTranslationCheckChange?: (enabled: boolean) => void;
+  glossMode?: boolean;
+  onGlossModeChange?: (enabled: boolean) => void;
+  transcriptionSettings?: TranscriptionSettings;
+  onTranscriptionSettingsChange?: (settings: TranscriptionSettings) => void;
+  retryPolicy?: RetryPolicy;
+  onRetryPolicyChange?: (policy: RetryPolicy) => void;
+  promptSettings?: PromptSettings;
+  onPromptSettingsChange?: (settings: PromptSettings) => void;
+  getPromptPreviewRequest?: () => TranslationRequest;
+  glossary?: GlossaryEntry[];
+  onGlossaryChange?: (entries: GlossaryEntry[]) => void;
+  /** The selected languages, the defaults for new glossary entries */
+  languages?: LanguagePrefs;
+  translationMemory?: TranslationMemoryUnit[];
+  onTranslationMemoryChange?: (units: TranslationMemoryUnit[]) => void;
+  fallbackModels?: string[];
+  onFallbackModelsChange?: (models: string[]) => void;
+  modelRatings?: Record<string, ModelRating>;
   selectedModel: string;
   availableModels: Model[];
   onModelChange: (modelId: string) => void;
@@ -11,7 +64,70 @@ interface SettingsPanelProps {
   onClearAllData: () => void;
 }
 
+// Number of most recent days shown in the per-day usage table
+const USAGE_DAYS_SHOWN = 7;
+
+interface UsageTableProps {
+  caption: string;
+  label: string;
+  rows: [string, UsageTotals][];
+}
+
+const UsageTable: React.FC<UsageTableProps> = ({ caption, label, rows }) => (
+  <table className="settings-usage-table">
+    <caption>{caption}</caption>
+    <thead>
+      <tr>
+        <th scope="col">{label}</th>
+        <th scope="col">Requests</th>
+        <th scope="col">Tokens</th>
+        <th scope="col">Cost</th>
+      </tr>
+    </thead>
+    <tbody>
+      {rows.map(([key, totals]) => (
+        <tr key={key}>
+          <th scope="row">{key}</th>
+          <td>{totals.requests}</td>
+          <td>{(totals.promptTokens + totals.completionTokens).toLocaleString()}</td>
+          <td>{formatCost(totals.cost)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
 export const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  providerId,
+  baseUrl,
+  onProviderChange,
+  onBaseUrlChange,
+  outputModeStats,
+  usageStats,
+  parallelChunking,
+  onParallelChunkingChange,
+  bypassCache,
+  onBypassCacheChange,
+  onClearCache,
+  backTranslationCheck,
+  onBackTranslationCheckChange,
+  glossMode,
+  onGlossModeChange,
+  transcriptionSettings,
+  onTranscriptionSettingsChange,
+  retryPolicy,
+  onRetryPolicyChange,
+  promptSettings,
+  onPromptSettingsChange,
+  getPromptPreviewRequest,
+  glossary,
+  onGlossaryChange,
+  languages,
+  translationMemory,
+  onTranslationMemoryChange,
+  fallbackModels,
+  onFallbackModelsChange,
+  modelRatings,
   selectedModel,
   availableModels,
   onModelChange,
@@ -91,14 +207,178 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
             aria-label="Settings"
             ref={contentRef}
           >
+            {providerId && baseUrl && onProviderChange && (
+              <div className="settings-section">
+                <ProviderSelector
+                  // Remount to reset the base URL draft when the stored value changes
+                  key={`${providerId}:${baseUrl}`}
+                  providerId={providerId}
+                  baseUrl={baseUrl}
+                  onProviderChange={onProviderChange}
+                  onBaseUrlChange={onBaseUrlChange}
+                />
+              </div>
+            )}
+
             <div className="settings-section">
               <ModelSelector
                 selectedModel={selectedModel}
                 models={availableModels}
                 onChange={onModelChange}
+                ratings={modelRatings}
               />
             </div>
 
+            {fallbackModels && onFallbackModelsChange && (
+              <div className="settings-section">
+                <FallbackModelList
+                  models={availableModels}
+                  selectedModel={selectedModel}
+                  fallbackModels={fallbackModels}
+                  onChange={onFallbackModelsChange}
+                />
+              </div>
+            )}
+
+            {onParallelChunkingChange && (
+              <div className="settings-section">
+                <label className="settings-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={!!parallelChunking}
+                    onChange={(e) => onParallelChunkingChange(e.target.checked)}
+                  />
+                  Translate parts of long texts in parallel
+                </label>
+                <p className="settings-hint">
+                  Faster, but parts don't see how earlier parts were translated.
+                </p>
+              </div>
+            )}
+
+            {onBypassCacheChange && (
+              <div className="settings-section">
+                <label className="settings-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={!!bypassCache}
+                    onChange={(e) => onBypassCacheChange(e.target.checked)}
+                  />
+                  Bypass translation cache
+                </label>
+                <p className="settings-hint">
+                  Always request a fresh translation instead of reusing an identical earlier one.
+                </p>
+                {onClearCache && (
+                  <button className="settings-secondary-button" onClick={onClearCache}>
+                    Clear translation cache
+                  </button>
+                )}
+              </div>
+            )}
+
+            {onBackTranslationCheckChange && (
+              <div className="settings-section">
+                <label className="settings-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={!!backTranslationCheck}
+                    onChange={(e) => onBackTranslationCheckChange(e.target.checked)}
+                  />
+                  Check meaning with a back-translation
+                </label>
+                <p className="settings-hint">
+                  After each translation, translate it back and ask the model to flag changes in meaning. Uses extra tokens.
+                </p>
+              </div>
+            )}
+
+            {onGlossModeChange && (
+              <div className="settings-section">
+                <label className="settings-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={!!glossMode}
+                    onChange={(e) => onGlossModeChange(e.target.checked)}
+                  />
+                  Word-by-word gloss
+                </label>
+                <p className="settings-hint">
+                  Break the source text down under the translation: each word's counterpart, part of speech,
+                  dictionary form and reading. Uses extra tokens.
+                </p>
+              </div>
+            )}
+
+            {transcriptionSettings && onTranscriptionSettingsChange && (
+              <div className="settings-section">
+                <RomanizationSettings settings={transcriptionSettings} onChange={onTranscriptionSettingsChange} />
+              </div>
+            )}
+
+            {retryPolicy && onRetryPolicyChange && (
+              <div className="settings-section">
+                <RetrySettings policy={retryPolicy} onChange={onRetryPolicyChange} />
+              </div>
+            )}
+
+            {promptSettings && onPromptSettingsChange && getPromptPreviewRequest && (
+              <div className="settings-section">
+                <PromptTemplateEditor
+                  settings={promptSettings}
+                  onChange={onPromptSettingsChange}
+                  getPreviewRequest={getPromptPreviewRequest}
+                />
+              </div>
+            )}
+
+            {glossary && onGlossaryChange && languages && (
+              <div className="settings-section">
+                <GlossaryManager
+                  entries={glossary}
+                  onChange={onGlossaryChange}
+                  fromLanguage={languages.fromLanguage}
+                  toLanguage={languages.toLanguage}
+                />
+              </div>
+            )}
+
+            {translationMemory && onTranslationMemoryChange && (
+              <div className="settings-section">
+                <TranslationMemoryManager units={translationMemory} onChange={onTranslationMemoryChange} />
+              </div>
+            )}
+
+            {outputModeStats && (
+              <div className="settings-section">
+                <dl className="settings-stats" aria-label="JSON output mode statistics">
+                  <dt>Structured output</dt>
+                  <dd>{outputModeStats.json_schema}</dd>
+                  <dt>Prompt only</dt>
+                  <dd>{outputModeStats.prompt}</dd>
+                  <dt>Fallback after schema rejected</dt>
+                  <dd>{outputModeStats.prompt_fallback}</dd>
+                </dl>
+              </div>
+            )}
+
+            {usageStats && Object.keys(usageStats.byModel).length > 0 && (
+              <div className="settings-section">
+                <UsageTable
+                  caption="Usage by model"
+                  label="Model"
+                  rows={Object.entries(usageStats.byModel).sort(([, a], [, b]) => b.cost - a.cost)}
+                />
+                <UsageTable
+                  caption="Usage by day"
+                  label="Day"
+                  rows={Object.entries(usageStats.byDay)
+                    .sort(([a], [b]) => b.localeCompare(a))
+                    .slice(0, USAGE_DAYS_SHOWN)}
+                />
+              </div>
+            )}
+
             <div className="settings-section">
               <button
                 className="clear-api-key-button"
@@ -1,29 +1,100 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { LanguageSelector } from './LanguageSelector';
 import { InputPanel } from './InputPanel';
 import { OutputPanel } from './OutputPanel';
 import { ContextPanel } from './ContextPanel';
 import { SettingsPanel } from './SettingsPanel';
+import { CompareSetup } from './CompareSetup';
+import { ComparisonView } from './ComparisonView';
+import { BackTranslationPanel } from './BackTranslationPanel';
+import { QualityReviewPanel } from './QualityReviewPanel';
 import { ErrorBanner } from './ErrorBanner';
-import { OpenRouterService } from '../services/OpenRouterService';
+import { MemoryMatches } from './MemoryMatches';
+import { InterlinearGloss } from './InterlinearGloss';
 import { StorageService } from '../services/StorageService';
-import type { Model, OpenRouterError } from '../types';
+import { ChunkedTranslationService } from '../services/ChunkedTranslationService';
+import { BackTranslationService } from '../services/BackTranslationService';
+import { TranslationCache } from '../services/TranslationCache';
+import { getProvider, DEFAULT_PROVIDER_ID } from '../services/providers';
+import { supportsStructuredOutput } from '../utils/modelCapabilities';
+import { calculateCost } from '../utils/usage';
+import { getLanguagePairKey } from '../utils/ratings';
+import { checkGlossary, getMatchingEntries } from '../utils/glossary';
+import { createUnits, getExactTranslation, indexUnits, lookupSegments, mergeUnits } from '../utils/translationMemory';
+import { getRomanizationStandard, romanizeLocally } from '../utils/romanization';
+import { findLanguage, getTextDirection } from '../utils/languages';
+import { getStorageErrorReason } from '../utils/storageErrors';
+import { DEFAULT_PROMPT_VERSION_NAME } from '../constants/prompt';
+import type {
+  BackTranslationCheck,
+  ComparisonEntry,
+  FuriganaSettings,
+  JapaneseRomanization,
+  GlossEntry,
+  GlossaryEntry,
+  GlossaryViolation,
+  Model,
+  ModelRatings,
+  OpenRouterError,
+  OutputModeStats,
+  PromptSettings,
+  ProviderId,
+  RetryPolicy,
+  RetryStatus,
+  RubySegment,
+  TokenUsage,
+  TranscriptionSettings,
+  TranslateOptions,
+  TranslationAlternative,
+  TranslationMemoryUnit,
+  TranslationProvider,
+  TranslationRequest,
+  TranslationResponse,
+  TranslationReview,
+  UsageStats,
+} from '../types';
 import './TranslationInterface.css';
 
+/**
+ * Return the items in random order, so blind comparisons don't always list models the same way
+ * @param items The items to shuffle
+ * @returns A shuffled copy
+ */
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
 interface TranslationInterfaceProps {
   apiKey: string;
+  provider?: TranslationProvider;
+  baseUrl?: string;
+  onProviderChange?: (providerId: ProviderId) => void;
+  onBaseUrlChange?: (baseUrl: string | null) => void;
   selectedModel: string;
   availableModels: Model[];
   onModelChange: (modelId: string) => void;
+  fallbackModels?: string[];
+  onFallbackModelsChange?: (models: string[]) => void;
   onClearApiKey: () => void;
   onClearAllData: () => void;
 }
 
 export const TranslationInterface: React.FC<TranslationInterfaceProps> = ({
   apiKey,
+  provider = getProvider(DEFAULT_PROVIDER_ID),
+  baseUrl = provider.defaultBaseUrl,
+  onProviderChange,
+  onBaseUrlChange,
   selectedModel,
   availableModels,
   onModelChange,
+  fallbackModels = [],
+  onFallbackModelsChange,
   onClearApiKey,
   onClearAllData,
 }) => {
@@ -32,18 +103,82 @@ export const TranslationInterface: React.FC<TranslationInterfaceProps> = ({
   const [translatedText, setTranslatedText] = useState('');
   const [explanation, setExplanation] = useState('');
   const [transcription, setTranscription] = useState('');
+  const [alternatives, setAlternatives] = useState<TranslationAlternative[]>([]);
+  const [gloss, setGloss] = useState<GlossEntry[]>([]);
+  const [furigana, setFurigana] = useState<RubySegment[] | undefined>(undefined);
+  const [furiganaSettings, setFuriganaSettings] = useState<FuriganaSettings>(
+    () => StorageService.getFuriganaSettings()
+  );
   const [context, setContext] = useState('');
+  const [usage, setUsage] = useState<TokenUsage | undefined>(undefined);
+  const [cost, setCost] = useState<number | undefined>(undefined);
+  const [usedModel, setUsedModel] = useState<string | undefined>(undefined);
   
   // Load language preferences from storage
   const languagePrefs = StorageService.getLanguagePreferences();
   const [fromLanguage, setFromLanguage] = useState(languagePrefs.fromLanguage);
   const [toLanguage, setToLanguage] = useState(languagePrefs.toLanguage);
+  // The language the model detected when translating from 'auto'
+  const [detectedLanguage, setDetectedLanguage] = useState<string | undefined>(undefined);
   
   const [isTranslating, setIsTranslating] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [error, setError] = useState<string | OpenRouterError | null>(null);
+  const [outputModeStats, setOutputModeStats] = useState<OutputModeStats>(() => StorageService.getOutputModeStats());
+  const [usageStats, setUsageStats] = useState<UsageStats>(() => StorageService.getUsageStats());
+  const [parallelChunking, setParallelChunking] = useState(() => StorageService.getParallelChunking());
+  const [bypassCache, setBypassCache] = useState(() => StorageService.getBypassCache());
+  const [isCached, setIsCached] = useState(false);
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy>(
+    () => StorageService.getRetryPolicy()
+  );
+  // The pending retry and when it fires, for the countdown on the translate button
+  const [retryStatus, setRetryStatus] = useState<(RetryStatus & { retryAt: number }) | null>(null);
+  const [retrySecondsLeft, setRetrySecondsLeft] = useState(0);
+  const [promptSettings, setPromptSettings] = useState<PromptSettings>(
+    () => StorageService.getPromptSettings()
+  );
+  const [promptVersion, setPromptVersion] = useState<string | undefined>(undefined);
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>(() => StorageService.getGlossary());
+  const [glossaryViolations, setGlossaryViolations] = useState<GlossaryViolation[]>([]);
+  const [translationMemory, setTranslationMemory] = useState<TranslationMemoryUnit[]>(
+    () => StorageService.getTranslationMemory()
+  );
+  const [isFromMemory, setIsFromMemory] = useState(false);
+  // Whether the translation on screen has been saved to the translation memory
+  const [isApproved, setIsApproved] = useState(false);
+
+  // Back-translation check state
+  const [backTranslationCheck, setBackTranslationCheck] = useState(() => StorageService.getBackTranslationCheck());
+  const [glossMode, setGlossMode] = useState(() => StorageService.getGlossMode());
+  const [transcriptionSettings, setTranscriptionSettings] = useState<TranscriptionSettings>(
+    () => StorageService.getTranscriptionSettings()
+  );
+  const [meaningCheck, setMeaningCheck] = useState<BackTranslationCheck | null>(null);
+  const [isCheckingMeaning, setIsCheckingMeaning] = useState(false);
+  const [meaningCheckError, setMeaningCheckError] = useState<OpenRouterError | null>(null);
+
+  // Judge review state
+  const [judgeModel, setJudgeModel] = useState(() => StorageService.getJudgeModel());
+  const [review, setReview] = useState<TranslationReview | null>(null);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [reviewError, setReviewError] = useState<OpenRouterError | null>(null);
+  // The request and result of the translation on screen, for reviewing it
+  const [reviewTarget, setReviewTarget] = useState<{ request: TranslationRequest; translation: string } | null>(null);
+
+  // Compare mode state
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareModels, setCompareModels] = useState<string[]>([]);
+  const [blindCompare, setBlindCompare] = useState(false);
+  const [comparison, setComparison] = useState<ComparisonEntry[]>([]);
+  const [comparisonPair, setComparisonPair] = useState<string | null>(null);
+  const [votedModel, setVotedModel] = useState<string | null>(null);
+  const [modelRatings, setModelRatings] = useState<ModelRatings>(() => StorageService.getModelRatings());
 
   // AbortController for request cancellation
   const abortControllerRef = useRef<AbortController | null>(null);
+  const meaningCheckAbortRef = useRef<AbortController | null>(null);
+  const reviewAbortRef = useRef<AbortController | null>(null);
 
   // Save language preferences when they change
   useEffect(() => {
@@ -59,26 +194,393 @@ export const TranslationInterface: React.FC<TranslationInterfaceProps> = ({
       if (abortControllerRef.current) {
         abortControllerRef.current.abort();
       }
+      meaningCheckAbortRef.current?.abort();
+      reviewAbortRef.current?.abort();
     };
   }, []);
 
+  // Tick the retry countdown once a second
+  useEffect(() => {
+    if (!retryStatus) return;
+
+    const update = () => {
+      setRetrySecondsLeft(Math.max(0, Math.ceil((retryStatus.retryAt - Date.now()) / 1000)));
+    };
+    update();
+    const intervalId = setInterval(update, 1000);
+    return () => clearInterval(intervalId);
+  }, [retryStatus]);
+
+  const handleParallelChunkingChange = (enabled: boolean) => {
+    StorageService.setParallelChunking(enabled);
+    setParallelChunking(enabled);
+  };
+
+  const handleBypassCacheChange = (enabled: boolean) => {
+    StorageService.setBypassCache(enabled);
+    setBypassCache(enabled);
+  };
+
+  const handleBackTranslationCheckChange = (enabled: boolean) => {
+    StorageService.setBackTranslationCheck(enabled);
+    setBackTranslationCheck(enabled);
+  };
+
+  const handleGlossModeChange = (enabled: boolean) => {
+    StorageService.setGlossMode(enabled);
+    setGlossMode(enabled);
+  };
+
+  const handleTranscriptionSettingsChange = (settings: TranscriptionSettings) => {
+    StorageService.setTranscriptionSettings(settings);
+    setTranscriptionSettings(settings);
+  };
+
+  const handleFuriganaSettingsChange = (settings: FuriganaSettings) => {
+    StorageService.setFuriganaSettings(settings);
+    setFuriganaSettings(settings);
+  };
+
+  const handleJudgeModelChange = (modelId: string) => {
+    StorageService.setJudgeModel(modelId);
+    setJudgeModel(modelId);
+  };
+
+  const handleRetryPolicyChange = (policy: RetryPolicy) => {
+    StorageService.setRetryPolicy(policy);
+    setRetryPolicy(policy);
+  };
+
+  const handlePromptSettingsChange = (settings: PromptSettings) => {
+    StorageService.setPromptSettings(settings);
+    setPromptSettings(settings);
+  };
+
+  const handleGlossaryChange = (entries: GlossaryEntry[]) => {
+    StorageService.setGlossary(entries);
+    setGlossary(entries);
+  };
+
+  const handleTranslationMemoryChange = (units: TranslationMemoryUnit[]) => {
+    StorageService.setTranslationMemory(units);
+    setTranslationMemory(units);
+  };
+
   // Handle language swap
   const handleSwapLanguages = () => {
-    if (fromLanguage !== 'auto') {
-      setFromLanguage(toLanguage);
-      setToLanguage(fromLanguage);
+    // After an auto translation, swap with the language that was detected, as the listed code (zh-Hant for zh-TW)
+    const sourceLanguage = fromLanguage === 'auto' ? findLanguage(detectedLanguage)?.code : fromLanguage;
+    if (!sourceLanguage) {
+      return;
     }
+    setFromLanguage(toLanguage);
+    setToLanguage(sourceLanguage);
+    setDetectedLanguage(undefined);
+
+    // Continue the conversation the other way: the translation becomes the input
+    if (translatedText) {
+      abortControllerRef.current?.abort();
+      clearFollowUps();
+      setSourceText(translatedText);
+      setTranslatedText('');
+      setExplanation('');
+      setTranscription('');
+      setAlternatives([]);
+      setGloss([]);
+      setFurigana(undefined);
+      setGlossaryViolations([]);
+      setUsage(undefined);
+      setCost(undefined);
+      setUsedModel(undefined);
+      setPromptVersion(undefined);
+      setIsCached(false);
+      setIsFromMemory(false);
+      setIsApproved(false);
+    }
+  };
+
+  const handleFromLanguageChange = (language: string) => {
+    setFromLanguage(language);
+    setDetectedLanguage(undefined);
   };
 
   // Handle copy output
-  const handleCopyOutput = async () => {
+  const handleCopyOutput = async (text: string = translatedText) => {
     try {
-      await navigator.clipboard.writeText(translatedText);
+      await navigator.clipboard.writeText(text);
     } catch (err) {
       console.error('Failed to copy:', err);
     }
   };
 
+  const handleCompareModeChange = (enabled: boolean) => {
+    setCompareMode(enabled);
+    if (enabled && compareModels.length === 0 && selectedModel) {
+      setCompareModels([selectedModel]);
+    }
+  };
+
+  // Record the vote in this comparison's language pair and reveal blind model names
+  const handleVote = (winner: string) => {
+    if (!comparisonPair) return;
+    const losers = comparison
+      .filter(entry => entry.response && !entry.error && entry.modelId !== winner)
+      .map(entry => entry.modelId);
+    StorageService.recordVote(comparisonPair, winner, losers);
+    setModelRatings(StorageService.getModelRatings());
+    setVotedModel(winner);
+  };
+
+  const activePromptVersion = promptSettings.versions.find(v => v.id === promptSettings.activeVersionId);
+
+  const memoryIndex = useMemo(() => indexUnits(translationMemory), [translationMemory]);
+
+  // Matched once typing pauses rather than on every keystroke, and not again on every streamed token
+  const [lookupText, setLookupText] = useState(sourceText);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setLookupText(sourceText);
+    }, 300); // 300ms debounce
+
+    return () => clearTimeout(timer);
+  }, [sourceText]);
+
+  const debouncedLookups = useMemo(
+    () => lookupSegments(memoryIndex, lookupText, fromLanguage, toLanguage),
+    [memoryIndex, lookupText, fromLanguage, toLanguage]
+  );
+
+  // Translating right after typing looks up the current text instead of waiting for the debounce
+  const getMemoryLookups = () => lookupText === sourceText
+    ? debouncedLookups
+    : lookupSegments(memoryIndex, sourceText, fromLanguage, toLanguage);
+
+  /**
+   * Build the request to translate the current input
+   * @param modelId The model to use
+   * @param fallbackModels Models to try in order if it fails
+   * @returns The translation request
+   */
+  const buildRequest = (modelId: string, fallbackModels?: string[]): TranslationRequest => {
+    // Only the terms in the text, so editing unrelated entries keeps cached translations
+    const glossaryEntries = getMatchingEntries(glossary, sourceText, fromLanguage, toLanguage);
+    const memoryMatches = getMemoryLookups().flatMap(({ match }) => match ? [match] : []);
+    return {
+      apiKey,
+      baseUrl,
+      model: modelId,
+      sourceText,
+      fromLanguage,
+      toLanguage,
+      context: context || undefined,
+      structuredOutput: supportsStructuredOutput(availableModels.find(m => m.id === modelId)),
+      fallbackModels,
+      promptTemplate: activePromptVersion && { system: activePromptVersion.system, user: activePromptVersion.user },
+      glossary: glossaryEntries.length > 0 ? glossaryEntries : undefined,
+      memoryMatches: memoryMatches.length > 0 ? memoryMatches : undefined,
+      // Compare mode has nowhere to show a gloss
+      includeGloss: glossMode && !compareMode || undefined,
+      romanization: getRomanizationStandard(transcriptionSettings, toLanguage),
+    };
+  };
+
+  /**
+   * Translate the current input with one model, through the cache and in chunks if it is long
+   * @param modelId The model to use
+   * @param signal Cancels the translation
+   * @param options Fallback models and progress and retry callbacks
+   * @returns Promise that resolves to the translation
+   */
+  const translateWith = (
+    modelId: string,
+    signal: AbortSignal,
+    options: Pick<TranslateOptions, 'onProgress' | 'onRetry'> & { fallbackModels?: string[] } = {}
+  ) => {
+    const model = availableModels.find(m => m.id === modelId);
+    const request = buildRequest(modelId, options.fallbackModels);
+
+    return TranslationCache.getOrTranslate(
+      request,
+      async () => ({
+        ...await ChunkedTranslationService.translate(provider, request, {
+          model,
+          parallel: parallelChunking,
+          signal,
+          retryPolicy,
+          onRetry: options.onRetry,
+          onProgress: options.onProgress,
+        }),
+        promptVersion: activePromptVersion?.name ?? DEFAULT_PROMPT_VERSION_NAME,
+      }),
+      { bypass: bypassCache, signal }
+    );
+  };
+
+  /**
+   * Add a finished translation to the output mode and usage statistics
+   * @param response The translation
+   * @param requestedModel The model it was requested from
+   * @returns The cost of the translation, if it reported usage and the model has pricing
+   */
+  const recordResponse = (response: TranslationResponse, requestedModel: string): number | undefined => {
+    if (response.outputMode && !response.cached) {
+      StorageService.recordOutputMode(response.outputMode);
+      setOutputModeStats(StorageService.getOutputModeStats());
+    }
+
+    if (response.modelUsage) {
+      // Chunks that fell back to different models, each billed at its own price
+      const costs = response.modelUsage.map(({ model, usage }) => recordUsage(usage, model, requestedModel));
+      return costs.every((chunkCost) => chunkCost === undefined)
+        ? undefined
+        : costs.reduce<number>((sum, chunkCost) => sum + (chunkCost ?? 0), 0);
+    }
+
+    return response.usage && recordUsage(response.usage, response.model, requestedModel);
+  };
+
+  /**
+   * Add a request's tokens and cost to the usage statistics
+   * @param tokenUsage The tokens used
+   * @param usedModel The model that answered, if known
+   * @param requestedModel The model the request was sent to
+   * @returns The cost, if the model has pricing
+   */
+  const recordUsage = (tokenUsage: TokenUsage, usedModel: string | undefined, requestedModel: string) => {
+    // Bill a fallback model at its own price
+    const billedModel = availableModels.find(m => m.id === usedModel)
+      ?? availableModels.find(m => m.id === requestedModel);
+    const usageCost = calculateCost(tokenUsage, billedModel?.pricing);
+    StorageService.recordUsage(billedModel?.id ?? requestedModel, tokenUsage, usageCost);
+    setUsageStats(StorageService.getUsageStats());
+    return usageCost;
+  };
+
+  /**
+   * Translate a finished translation back and review it against the input, in the background
+   * @param request The request that produced the translation, with a known source language
+   * @param translation The translated text
+   */
+  const runMeaningCheck = async (request: TranslationRequest, translation: string) => {
+    const controller = new AbortController();
+    meaningCheckAbortRef.current = controller;
+    setIsCheckingMeaning(true);
+
+    try {
+      const result = await BackTranslationService.check(provider, request, translation, {
+        model: availableModels.find(m => m.id === request.model),
+        parallel: parallelChunking,
+        signal: controller.signal,
+        retryPolicy,
+      });
+      if (result.translationUsage) {
+        recordUsage(result.translationUsage, result.model, request.model);
+      }
+      if (result.review.usage) {
+        recordUsage(result.review.usage, request.model, request.model);
+      }
+      setMeaningCheck(result);
+    } catch (err) {
+      if ((err as Error).name === 'AbortError') {
+        return;
+      }
+      setMeaningCheckError(err as OpenRouterError);
+    } finally {
+      if (meaningCheckAbortRef.current === controller) {
+        meaningCheckAbortRef.current = null;
+        setIsCheckingMeaning(false);
+      }
+    }
+  };
+
+  // Review with the chosen judge, or the translation model if the judge is no longer listed
+  const judgeModelId = judgeModel && availableModels.some(m => m.id === judgeModel) ? judgeModel : selectedModel;
+
+  // Score the translation on screen with the judge model and store the scores with it
+  const handleReview = async () => {
+    if (!reviewTarget) return;
+
+    const controller = new AbortController();
+    reviewAbortRef.current = controller;
+    setIsReviewing(true);
+    setReviewError(null);
+
+    try {
+      const result = await provider.reviewTranslation(
+        {
+          apiKey,
+          baseUrl,
+          model: judgeModelId,
+          sourceText: reviewTarget.request.sourceText,
+          translation: reviewTarget.translation,
+          fromLanguage: reviewTarget.request.fromLanguage,
+          toLanguage: reviewTarget.request.toLanguage,
+          context: reviewTarget.request.context,
+          structuredOutput: supportsStructuredOutput(availableModels.find(m => m.id === judgeModelId)),
+        },
+        { signal: controller.signal }
+      );
+      if (result.usage) {
+        recordUsage(result.usage, judgeModelId, judgeModelId);
+      }
+      setReview(result);
+      void TranslationCache.attachReview(reviewTarget.request, result);
+    } catch (err) {
+      if ((err as Error).name === 'AbortError') {
+        return;
+      }
+      setReviewError(err as OpenRouterError);
+    } finally {
+      if (reviewAbortRef.current === controller) {
+        reviewAbortRef.current = null;
+        setIsReviewing(false);
+      }
+    }
+  };
+
+  // Translate with every compared model at once, each streaming into its own column
+  const runComparison = async (signal: AbortSignal) => {
+    const modelIds = blindCompare ? shuffle(compareModels) : compareModels;
+    const updateEntry = (modelId: string, changes: Partial<ComparisonEntry>) => {
+      setComparison(entries => entries.map(entry => entry.modelId === modelId ? { ...entry, ...changes } : entry));
+    };
+
+    setComparison(modelIds.map(modelId => ({ modelId, isStreaming: true })));
+    setComparisonPair(getLanguagePairKey(fromLanguage, toLanguage));
+    setVotedModel(null);
+
+    await Promise.all(modelIds.map(async (modelId) => {
+      try {
+        const response = await translateWith(modelId, signal, {
+          onProgress: (partial) => updateEntry(modelId, { response: { translation: '', ...partial } }),
+        });
+        recordResponse(response, modelId);
+        updateEntry(modelId, { response, isStreaming: false });
+      } catch (err) {
+        if ((err as Error).name === 'AbortError') {
+          return;
+        }
+        updateEntry(modelId, { error: err as OpenRouterError, isStreaming: false });
+      }
+    }));
+  };
+
+  // Cancel and clear the back-translation check and review of the translation on screen
+  const clearFollowUps = () => {
+    meaningCheckAbortRef.current?.abort();
+    meaningCheckAbortRef.current = null;
+    setIsCheckingMeaning(false);
+    setMeaningCheck(null);
+    setMeaningCheckError(null);
+    reviewAbortRef.current?.abort();
+    reviewAbortRef.current = null;
+    setReviewTarget(null);
+    setIsReviewing(false);
+    setReview(null);
+    setReviewError(null);
+  };
+
   // Handle translate
   const handleTranslate = async () => {
     // Cancel any in-flight request
@@ -89,6 +591,10 @@ export const TranslationInterface: React.FC<TranslationInterfaceProps> = ({
     // Create new AbortController for this request
     abortControllerRef.current = new AbortController();
 
+    // The previous translation's check and review no longer apply
+    clearFollowUps();
+    setDetectedLanguage(undefined);
+
     // Clear any existing errors
     setError(null);
 
@@ -98,29 +604,92 @@ export const TranslationInterface: React.FC<TranslationInterfaceProps> = ({
       return;
     }
 
-    if (!apiKey) {
+    if (!apiKey && provider.requiresApiKey) {
       setError('Please enter your API key');
       return;
     }
 
     setIsTranslating(true);
+    setAlternatives([]);
+    setGloss([]);
+    setFurigana(undefined);
+    setGlossaryViolations([]);
+    setUsage(undefined);
+    setCost(undefined);
+    setUsedModel(undefined);
+    setPromptVersion(undefined);
+    setIsCached(false);
+    setIsFromMemory(false);
+    setIsApproved(false);
 
     try {
-      const response = await OpenRouterService.translate(
-        {
-          apiKey,
-          model: selectedModel,
-          sourceText,
-          fromLanguage,
-          toLanguage,
-          context: context || undefined,
+      const signal = abortControllerRef.current.signal;
+
+      if (compareMode) {
+        await runComparison(signal);
+        return;
+      }
+
+      const activeFallbackModels = fallbackModels.length > 0 ? fallbackModels : undefined;
+
+      // Every segment was translated before, so reuse the memory without calling the model
+      const memoryTranslation = getExactTranslation(getMemoryLookups());
+      if (memoryTranslation !== null) {
+        const request = buildRequest(selectedModel, activeFallbackModels);
+        setTranslatedText(memoryTranslation);
+        setExplanation('');
+        setTranscription('');
+        setIsFromMemory(true);
+        setIsApproved(true);
+        setGlossaryViolations(checkGlossary(request.glossary ?? [], memoryTranslation));
+        setReviewTarget({ request, translation: memoryTranslation });
+        return;
+      }
+
+      const response = await translateWith(selectedModel, signal, {
+        fallbackModels: activeFallbackModels,
+        onRetry: (status) => {
+          setRetryStatus({ ...status, retryAt: Date.now() + status.delayMs });
         },
-        abortControllerRef.current.signal
-      );
+        onProgress: (partial) => {
+          // Render fields live as they stream in
+          setRetryStatus(null);
+          setIsStreaming(true);
+          setTranslatedText(partial.translation || '');
+          setExplanation(partial.explanation || '');
+          setTranscription(partial.transcription || '');
+        },
+      });
 
       setTranslatedText(response.translation);
       setExplanation(response.explanation || '');
       setTranscription(response.transcription || '');
+      setAlternatives(response.alternatives ?? []);
+      setGloss(response.gloss ?? []);
+      setFurigana(response.furigana);
+      setIsCached(!!response.cached);
+      setUsedModel(response.model);
+      setPromptVersion(response.promptVersion);
+      setReview(response.review ?? null);
+      const request = buildRequest(selectedModel, activeFallbackModels);
+      setGlossaryViolations(checkGlossary(request.glossary ?? [], response.translation));
+      setReviewTarget({ request, translation: response.translation });
+
+      const responseCost = recordResponse(response, selectedModel);
+      if (response.usage) {
+        setUsage(response.usage);
+        setCost(responseCost);
+      }
+
+      if (fromLanguage === 'auto') {
+        setDetectedLanguage(response.detectedLanguage);
+      }
+
+      // Back-translating needs a known source language
+      const sourceLanguage = fromLanguage === 'auto' ? response.detectedLanguage : fromLanguage;
+      if (backTranslationCheck && sourceLanguage) {
+        void runMeaningCheck({ ...request, fromLanguage: sourceLanguage }, response.translation);
+      }
     } catch (err) {
       // Don't show error if request was aborted
       if ((err as Error).name === 'AbortError') {
@@ -130,10 +699,48 @@ export const TranslationInterface: React.FC<TranslationInterfaceProps> = ({
       setError(openRouterError);
     } finally {
       setIsTranslating(false);
+      setIsStreaming(false);
+      setRetryStatus(null);
       abortControllerRef.current = null;
     }
   };
 
+  // Save an approved translation to the memory, one unit per sentence where the sentences line up
+  const handleApprove = (translation: string) => {
+    if (!reviewTarget) return;
+    const { request } = reviewTarget;
+    const sourceLanguage = request.fromLanguage === 'auto' ? detectedLanguage : request.fromLanguage;
+    if (!sourceLanguage) return;
+
+    const units = createUnits(request.sourceText, translation, sourceLanguage, request.toLanguage);
+    try {
+      handleTranslationMemoryChange(mergeUnits(translationMemory, units).memory);
+    } catch (err) {
+      setError(`Could not save to the translation memory: ${getStorageErrorReason(err, 'the translation memory')}`);
+      return;
+    }
+    setIsApproved(true);
+  };
+
+  // Romanize the finished translation by rule where an engine exists, to check the model's transcription
+  const localTranscription = useMemo(
+    () => reviewTarget && romanizeLocally(reviewTarget.translation, reviewTarget.request.toLanguage, {
+      furigana,
+      standard: reviewTarget.request.romanization,
+    }),
+    [reviewTarget, furigana]
+  );
+
+  // Approving needs a known source language to file the segments under
+  const canApprove = !!reviewTarget && (reviewTarget.request.fromLanguage !== 'auto' || !!detectedLanguage);
+
+  let translateButtonLabel = 'Translate';
+  if (retryStatus && retrySecondsLeft > 0) {
+    translateButtonLabel = `Retrying in ${retrySecondsLeft}s (attempt ${retryStatus.attempt}/${retryStatus.maxAttempts})`;
+  } else if (isTranslating) {
+    translateButtonLabel = 'Translating...';
+  }
+
   return (
     <div className="translation-interface">
       <a href="#main-content" className="skip-link">
@@ -143,9 +750,39 @@ export const TranslationInterface: React.FC<TranslationInterfaceProps> = ({
         <div className="header-content">
           <h1>Clanker Translate</h1>
           <SettingsPanel
+            providerId={provider.id}
+            baseUrl={baseUrl}
+            onProviderChange={onProviderChange}
+            onBaseUrlChange={onBaseUrlChange}
+            outputModeStats={outputModeStats}
+            usageStats={usageStats}
+            parallelChunking={parallelChunking}
+            onParallelChunkingChange={handleParallelChunkingChange}
+            bypassCache={bypassCache}
+            onBypassCacheChange={handleBypassCacheChange}
+            onClearCache={() => TranslationCache.clear()}
+            backTranslationCheck={backTranslationCheck}
+            onBackTranslationCheckChange={handleBackTranslationCheckChange}
+            glossMode={glossMode}
+            onGlossModeChange={handleGlossModeChange}
+            transcriptionSettings={transcriptionSettings}
+            onTranscriptionSettingsChange={handleTranscriptionSettingsChange}
+            retryPolicy={retryPolicy}
+            onRetryPolicyChange={handleRetryPolicyChange}
+            promptSettings={promptSettings}
+            onPromptSettingsChange={handlePromptSettingsChange}
+            getPromptPreviewRequest={() => buildRequest(selectedModel)}
+            glossary={glossary}
+            onGlossaryChange={handleGlossaryChange}
+            translationMemory={translationMemory}
+            onTranslationMemoryChange={handleTranslationMemoryChange}
+            languages={{ fromLanguage, toLanguage }}
             selectedModel={selectedModel}
             availableModels={availableModels}
             onModelChange={onModelChange}
+            fallbackModels={onFallbackModelsChange && fallbackModels}
+            onFallbackModelsChange={onFallbackModelsChange}
+            modelRatings={modelRatings[getLanguagePairKey(fromLanguage, toLanguage)]}
             onClearApiKey={onClearApiKey}
             onClearAllData={onClearAllData}
           />
@@ -160,7 +797,8 @@ export const TranslationInterface: React.FC<TranslationInterfaceProps> = ({
             <LanguageSelector
               fromLanguage={fromLanguage}
               toLanguage={toLanguage}
-              onFromChange={setFromLanguage}
+              detectedLanguage={detectedLanguage}
+              onFromChange={handleFromLanguageChange}
               onToChange={setToLanguage}
               onSwap={handleSwapLanguages}
             />
@@ -173,22 +811,43 @@ export const TranslationInterface: React.FC<TranslationInterfaceProps> = ({
               <InputPanel
                 value={sourceText}
                 onChange={setSourceText}
-                maxLength={5000}
+                direction={getTextDirection(fromLanguage === 'auto' ? detectedLanguage ?? fromLanguage : fromLanguage)}
               />
 
+              <MemoryMatches lookups={debouncedLookups} />
+
               <ContextPanel value={context} onChange={setContext} />
 
+              <label className="compare-toggle">
+                <input
+                  type="checkbox"
+                  checked={compareMode}
+                  onChange={(e) => handleCompareModeChange(e.target.checked)}
+                />
+                Compare models side by side
+              </label>
+
+              {compareMode && (
+                <CompareSetup
+                  models={availableModels}
+                  compareModels={compareModels}
+                  onCompareModelsChange={setCompareModels}
+                  blind={blindCompare}
+                  onBlindChange={setBlindCompare}
+                />
+              )}
+
               {/* Translate Button - Desktop */}
               <div className="translate-button-container desktop-only">
                 <button
                   className="translate-button"
                   onClick={handleTranslate}
-                  disabled={isTranslating || !sourceText.trim()}
+                  disabled={isTranslating || !sourceText.trim() || (compareMode && compareModels.length < 2)}
                   aria-label="Translate text"
                 >
                   <span className="translate-button-content">
                     {isTranslating && <span className="loading-spinner" />}
-                    {isTranslating ? 'Translating...' : 'Translate'}
+                    {translateButtonLabel}
                   </span>
                 </button>
               </div>
@@ -199,26 +858,79 @@ export const TranslationInterface: React.FC<TranslationInterfaceProps> = ({
               <button
                 className="translate-button"
                 onClick={handleTranslate}
-                disabled={isTranslating || !sourceText.trim()}
+                disabled={isTranslating || !sourceText.trim() || (compareMode && compareModels.length < 2)}
                 aria-label="Translate text"
               >
                 <span className="translate-button-content">
                   {isTranslating && <span className="loading-spinner" />}
-                  {isTranslating ? 'Translating...' : 'Translate'}
+                  {translateButtonLabel}
                 </span>
               </button>
             </div>
 
-            {/* Right Column: Output */}
-            <div className="right-column">
-              <OutputPanel
-                translation={translatedText}
-                explanation={explanation}
-                transcription={transcription}
-                onCopy={handleCopyOutput}
-              />
-            </div>
+            {/* Right Column: Output, replaced by the comparison below in compare mode */}
+            {!compareMode && (
+              <div className="right-column">
+                <OutputPanel
+                  translation={translatedText}
+                  explanation={explanation}
+                  transcription={transcription}
+                  localTranscription={localTranscription}
+                  alternatives={alternatives}
+                  isStreaming={isStreaming}
+                  usage={usage}
+                  cost={cost}
+                  cached={isCached}
+                  fromMemory={isFromMemory}
+                  model={usedModel && (availableModels.find(m => m.id === usedModel)?.name ?? usedModel)}
+                  isFallback={!!usedModel && usedModel !== selectedModel}
+                  promptVersion={promptVersion}
+                  glossaryViolations={glossaryViolations}
+                  furigana={furigana}
+                  furiganaSettings={furiganaSettings}
+                  onFuriganaSettingsChange={handleFuriganaSettingsChange}
+                  romajiSystem={reviewTarget?.request.romanization as JapaneseRomanization | undefined}
+                  direction={getTextDirection(reviewTarget?.request.toLanguage ?? toLanguage)}
+                  onCopy={handleCopyOutput}
+                  onApprove={canApprove ? handleApprove : undefined}
+                  approved={isApproved}
+                />
+                {reviewTarget && gloss.length > 0 && !isTranslating && (
+                  <InterlinearGloss
+                    sourceText={reviewTarget.request.sourceText}
+                    language={reviewTarget.request.fromLanguage === 'auto' ? detectedLanguage : reviewTarget.request.fromLanguage}
+                    entries={gloss}
+                  />
+                )}
+                {reviewTarget && !isTranslating && (
+                  <QualityReviewPanel
+                    models={availableModels}
+                    judgeModel={judgeModelId}
+                    onJudgeModelChange={handleJudgeModelChange}
+                    review={review}
+                    isReviewing={isReviewing}
+                    error={reviewError}
+                    onReview={handleReview}
+                  />
+                )}
+              </div>
+            )}
           </div>
+
+          {!compareMode && (
+            <BackTranslationPanel check={meaningCheck} isChecking={isCheckingMeaning} error={meaningCheckError} />
+          )}
+
+          {compareMode && comparison.length > 0 && (
+            <ComparisonView
+              entries={comparison}
+              blind={blindCompare}
+              votedModel={votedModel}
+              getModelName={(id) => availableModels.find(m => m.id === id)?.name ?? id}
+              onVote={handleVote}
+              onCopy={handleCopyOutput}
+            />
+          )}
         </div>
       </main>
     </div>
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { exportTmx, parseTmx } from '../utils/tmxFiles';
+import { mergeUnits } from '../utils/translationMemory';
+import { getLanguagePairKey } from '../utils/ratings';
+import { getStorageErrorReason } from '../utils/storageErrors';
+import type { TranslationMemoryUnit } from '../types';
+import './TranslationMemoryManager.css';
+
+interface TranslationMemoryManagerProps {
+  units: TranslationMemoryUnit[];
+  onChange: (units: TranslationMemoryUnit[]) => void;
+}
+
+/**
+ * Save text as a file through a temporary link
+ * @param filename The file name
+ * @param content The file content
+ */
+function downloadTmx(filename: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: 'application/x-tmx+xml' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export const TranslationMemoryManager: React.FC<TranslationMemoryManagerProps> = ({ units, onChange }) => {
+  const [importStatus, setImportStatus] = useState<{ message: string; isError: boolean } | null>(null);
+
+  // Segment counts per language pair, most used first
+  const pairCounts = new Map<string, number>();
+  units.forEach((unit) => {
+    const pair = getLanguagePairKey(unit.fromLanguage, unit.toLanguage);
+    pairCounts.set(pair, (pairCounts.get(pair) ?? 0) + 1);
+  });
+  const pairs = [...pairCounts].sort((a, b) => b[1] - a[1]);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { units: imported, skipped } = parseTmx(await file.text());
+      const { memory, replaced } = mergeUnits(units, imported);
+      onChange(memory);
+
+      let message = `Imported ${imported.length} ${imported.length === 1 ? 'segment' : 'segments'}`;
+      if (replaced > 0) {
+        message += `, replacing ${replaced} already in the memory`;
+      }
+      if (skipped > 0) {
+        message += `, skipped ${skipped} incomplete`;
+      }
+      setImportStatus({ message, isError: false });
+    } catch (err) {
+      setImportStatus({
+        message: `Could not import ${file.name}: ${getStorageErrorReason(err, 'the translation memory')}`,
+        isError: true,
+      });
+    }
+  };
+
+  const handleClear = () => {
+    onChange([]);
+    setImportStatus(null);
+  };
+
+  return (
+    <fieldset className="memory-manager">
+      <legend className="memory-legend">Translation memory</legend>
+
+      {units.length === 0 ? (
+        <p className="memory-empty">No segments yet. Save approved translations or import a TMX file.</p>
+      ) : (
+        <ul className="memory-pairs" aria-label="Segments per language pair">
+          {pairs.map(([pair, count]) => (
+            <li key={pair} className="memory-pair">
+              <span className="memory-pair-name">{pair.replace('>', ' → ')}</span>
+              {count} {count === 1 ? 'segment' : 'segments'}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="memory-actions">
+        <label className="memory-button">
+          Import TMX
+          <input type="file" accept=".tmx,.xml" onChange={handleImport} className="memory-file-input" />
+        </label>
+        <button
+          type="button"
+          className="memory-button"
+          onClick={() => downloadTmx('translation-memory.tmx', exportTmx(units))}
+          disabled={units.length === 0}
+        >
+          Export TMX
+        </button>
+        <button type="button" className="memory-button" onClick={handleClear} disabled={units.length === 0}>
+          Clear memory
+        </button>
+      </div>
+
+      {importStatus && (
+        <p className={`memory-status ${importStatus.isError ? 'error' : ''}`} role={importStatus.isError ? 'alert' : 'status'}>
+          {importStatus.message}
+        </p>
+      )}
+    </fieldset>
+  );
+};
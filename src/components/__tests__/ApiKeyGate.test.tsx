@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { ApiKeyGate } from '../ApiKeyGate.tsx';
 import { OpenRouterService } from '../../services/OpenRouterService';
+import { PROVIDERS } from '../../services/providers';
 
 // Mock the OpenRouterService
 vi.mock('../../services/OpenRouterService', () => ({
@@ -86,7 +87,7 @@ describe('ApiKeyGate', () => {
       fireEvent.click(button);
 
       await waitFor(() => {
-        expect(OpenRouterService.validateApiKey).toHaveBeenCalledWith('valid-key');
+        expect(OpenRouterService.validateApiKey).toHaveBeenCalledWith('valid-key', 'https://openrouter.ai/api/v1');
         expect(mockOnSubmit).toHaveBeenCalledWith('valid-key');
       });
     });
@@ -113,7 +114,7 @@ describe('ApiKeyGate', () => {
       fireEvent.submit(input.closest('form')!);
 
       await waitFor(() => {
-        expect(OpenRouterService.validateApiKey).toHaveBeenCalledWith('valid-key');
+        expect(OpenRouterService.validateApiKey).toHaveBeenCalledWith('valid-key', 'https://openrouter.ai/api/v1');
         expect(mockOnSubmit).toHaveBeenCalledWith('valid-key');
       });
     });
@@ -244,4 +245,70 @@ describe('ApiKeyGate', () => {
       });
     });
   });
+
+  describe('Custom endpoint mode', () => {
+    it('should show a provider dropdown when the provider can be changed', () => {
+      const onProviderChange = vi.fn();
+      render(<ApiKeyGate onSubmit={mockOnSubmit} onProviderChange={onProviderChange} />);
+
+      fireEvent.change(screen.getByLabelText('Provider'), { target: { value: 'custom' } });
+
+      expect(onProviderChange).toHaveBeenCalledWith('custom');
+    });
+
+    it('should ask for a base URL and make the key optional', () => {
+      render(
+        <ApiKeyGate
+          provider={PROVIDERS.custom}
+          onSubmit={mockOnSubmit}
+          onBaseUrlChange={vi.fn()}
+        />
+      );
+
+      expect(screen.getByLabelText('Base URL')).toHaveValue('http://localhost:11434/v1');
+      expect(screen.getByLabelText('API Key (optional)')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: /Connect/i })).not.toBeDisabled();
+    });
+
+    it('should validate against the entered URL and store it on success', async () => {
+      vi.mocked(OpenRouterService.validateApiKey).mockResolvedValue(true);
+      const onBaseUrlChange = vi.fn();
+
+      render(
+        <ApiKeyGate
+          provider={PROVIDERS.custom}
+          onSubmit={mockOnSubmit}
+          onBaseUrlChange={onBaseUrlChange}
+        />
+      );
+
+      fireEvent.change(screen.getByLabelText('Base URL'), { target: { value: 'http://localhost:1234/v1/' } });
+      fireEvent.click(screen.getByRole('button', { name: /Connect/i }));
+
+      await waitFor(() => {
+        expect(OpenRouterService.validateApiKey).toHaveBeenCalledWith('', 'http://localhost:1234/v1');
+        expect(onBaseUrlChange).toHaveBeenCalledWith('http://localhost:1234/v1');
+        expect(mockOnSubmit).toHaveBeenCalledWith('');
+      });
+    });
+
+    it('should explain connection failures', async () => {
+      vi.mocked(OpenRouterService.validateApiKey).mockResolvedValue(false);
+
+      render(
+        <ApiKeyGate
+          provider={PROVIDERS.custom}
+          onSubmit={mockOnSubmit}
+          onBaseUrlChange={vi.fn()}
+        />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: /Connect/i }));
+
+      await waitFor(() => {
+        expect(screen.getByText(/Could not connect to the endpoint/i)).toBeInTheDocument();
+      });
+      expect(mockOnSubmit).not.toHaveBeenCalled();
+    });
+  });
 });
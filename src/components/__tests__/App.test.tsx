@@ -4,6 +4,9 @@ import userEvent from '@testing-library/user-event';
 import App from '../../App';
 import { StorageService } from '../../services/StorageService';
 import { OpenRouterService } from '../../services/OpenRouterService';
+import { DEFAULT_FURIGANA_SETTINGS } from '../../constants/furigana';
+import { EMPTY_PROMPT_SETTINGS } from '../../constants/prompt';
+import { DEFAULT_RETRY_POLICY } from '../../constants/retry';
 import type { Model } from '../../types';
 
 // Mock the StorageService
@@ -14,6 +17,42 @@ vi.mock('../../services/StorageService', () => ({
     clearApiKey: vi.fn(),
     getSelectedModel: vi.fn(),
     setSelectedModel: vi.fn(),
+    getFallbackModels: vi.fn(),
+    setFallbackModels: vi.fn(),
+    getActiveProvider: vi.fn(),
+    setActiveProvider: vi.fn(),
+    getBaseUrl: vi.fn(),
+    setBaseUrl: vi.fn(),
+    getCachedModels: vi.fn(),
+    setCachedModels: vi.fn(),
+    getOutputModeStats: vi.fn(),
+    recordOutputMode: vi.fn(),
+    getUsageStats: vi.fn(),
+    recordUsage: vi.fn(),
+    getParallelChunking: vi.fn(),
+    setParallelChunking: vi.fn(),
+    getBypassCache: vi.fn(),
+    setBypassCache: vi.fn(),
+    getBackTranslationCheck: vi.fn(),
+    setBackTranslationCheck: vi.fn(),
+    getGlossMode: vi.fn(),
+    setGlossMode: vi.fn(),
+    getTranscriptionSettings: vi.fn(),
+    setTranscriptionSettings: vi.fn(),
+    getFuriganaSettings: vi.fn(),
+    setFuriganaSettings: vi.fn(),
+    getJudgeModel: vi.fn(),
+    setJudgeModel: vi.fn(),
+    getPromptSettings: vi.fn(),
+    setPromptSettings: vi.fn(),
+    getGlossary: vi.fn(),
+    setGlossary: vi.fn(),
+    getTranslationMemory: vi.fn(),
+    setTranslationMemory: vi.fn(),
+    getRetryPolicy: vi.fn(),
+    setRetryPolicy: vi.fn(),
+    getModelRatings: vi.fn(),
+    recordVote: vi.fn(),
     getLanguagePreferences: vi.fn(),
     setLanguagePreferences: vi.fn(),
   },
@@ -46,6 +85,18 @@ describe('App Component', () => {
       fromLanguage: 'en',
       toLanguage: 'ja',
     });
+    vi.mocked(StorageService.getActiveProvider).mockReturnValue('openrouter');
+    vi.mocked(StorageService.getBaseUrl).mockReturnValue(null);
+    vi.mocked(StorageService.getCachedModels).mockReturnValue([]);
+    vi.mocked(StorageService.getFallbackModels).mockReturnValue([]);
+    // The stored-settings defaults the real getters return
+    vi.mocked(StorageService.getFuriganaSettings).mockReturnValue(DEFAULT_FURIGANA_SETTINGS);
+    vi.mocked(StorageService.getRetryPolicy).mockReturnValue(DEFAULT_RETRY_POLICY);
+    vi.mocked(StorageService.getPromptSettings).mockReturnValue(EMPTY_PROMPT_SETTINGS);
+    vi.mocked(StorageService.getGlossary).mockReturnValue([]);
+    vi.mocked(StorageService.getTranslationMemory).mockReturnValue([]);
+    vi.mocked(StorageService.getTranscriptionSettings).mockReturnValue({});
+    vi.mocked(StorageService.getModelRatings).mockReturnValue({});
   });
 
   it('should render ApiKeyGate when no API key is stored', () => {
@@ -124,7 +175,7 @@ describe('App Component', () => {
 
       // Should call fetchModels with the API key
       await waitFor(() => {
-        expect(OpenRouterService.fetchModels).toHaveBeenCalledWith('test-api-key');
+        expect(OpenRouterService.fetchModels).toHaveBeenCalledWith('test-api-key', 'https://openrouter.ai/api/v1');
       });
     });
 
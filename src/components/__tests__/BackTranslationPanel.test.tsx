@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { BackTranslationPanel } from '../BackTranslationPanel';
+import type { BackTranslationCheck } from '../../types';
+
+describe('BackTranslationPanel', () => {
+  const check: BackTranslationCheck = {
+    backTranslation: 'The meeting is on Saturday.',
+    diff: [
+      { type: 'equal', text: 'The meeting is on ' },
+      { type: 'removed', text: 'Friday' },
+      { type: 'added', text: 'Saturday' },
+      { type: 'equal', text: '.' },
+    ],
+    review: {
+      meaningPreserved: false,
+      changes: [{ original: 'Friday', backTranslation: 'Saturday', explanation: 'The day changed' }],
+    },
+  };
+
+  it('should render nothing before a check starts', () => {
+    const { container } = render(<BackTranslationPanel check={null} isChecking={false} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should show progress while checking', () => {
+    render(<BackTranslationPanel check={null} isChecking />);
+    expect(screen.getByRole('region', { name: 'Back-translation check' })).toHaveAttribute('aria-busy', 'true');
+    expect(screen.getByText(/checking meaning/i)).toBeInTheDocument();
+  });
+
+  it('should highlight words only in the original or only in the back-translation', () => {
+    render(<BackTranslationPanel check={check} isChecking={false} />);
+
+    expect(screen.getByText('Friday', { selector: 'del' })).toBeInTheDocument();
+    expect(screen.getByText('Saturday', { selector: 'ins' })).toBeInTheDocument();
+  });
+
+  it('should list the changes in meaning the model flagged', () => {
+    render(<BackTranslationPanel check={check} isChecking={false} />);
+
+    const verdict = screen.getByRole('status');
+    expect(verdict).toHaveTextContent('1 possible change in meaning');
+    expect(verdict).toHaveTextContent('The day changed');
+  });
+
+  it('should say when the meaning was preserved', () => {
+    render(
+      <BackTranslationPanel
+        check={{ ...check, review: { meaningPreserved: true, changes: [] } }}
+        isChecking={false}
+      />
+    );
+
+    expect(screen.getByRole('status')).toHaveTextContent('No changes in meaning found');
+  });
+
+  it('should show errors from the check', () => {
+    render(
+      <BackTranslationPanel
+        check={null}
+        isChecking={false}
+        error={{ type: 'network', message: 'Network error' }}
+      />
+    );
+
+    expect(screen.getByRole('alert')).toHaveTextContent(/network error/i);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { CompareSetup, MAX_COMPARE_MODELS } from '../CompareSetup';
+import type { Model } from '../../types';
+
+describe('CompareSetup', () => {
+  const mockOnCompareModelsChange = vi.fn();
+  const mockOnBlindChange = vi.fn();
+
+  const models: Model[] = Array.from({ length: MAX_COMPARE_MODELS + 1 }, (_, i) => ({
+    id: `vendor/model-${i}`,
+    name: `Model ${i}`,
+  }));
+
+  const defaultProps = {
+    models,
+    compareModels: ['vendor/model-0'],
+    onCompareModelsChange: mockOnCompareModelsChange,
+    blind: false,
+    onBlindChange: mockOnBlindChange,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list the chosen models and ask for at least two', () => {
+    render(<CompareSetup {...defaultProps} />);
+
+    expect(screen.getByRole('list', { name: 'Models to compare' })).toHaveTextContent('Model 0');
+    expect(screen.getByText('Pick at least two models.')).toBeInTheDocument();
+  });
+
+  it('should add and remove models', () => {
+    render(<CompareSetup {...defaultProps} />);
+
+    fireEvent.change(screen.getByLabelText('Add a model to compare'), { target: { value: 'vendor/model-2' } });
+    expect(mockOnCompareModelsChange).toHaveBeenCalledWith(['vendor/model-0', 'vendor/model-2']);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove Model 0 from comparison' }));
+    expect(mockOnCompareModelsChange).toHaveBeenCalledWith([]);
+  });
+
+  it('should stop adding at the maximum number of models', () => {
+    const full = models.slice(0, MAX_COMPARE_MODELS).map((m) => m.id);
+    render(<CompareSetup {...defaultProps} compareModels={full} />);
+
+    expect(screen.getByLabelText('Add a model to compare')).toBeDisabled();
+  });
+
+  it('should toggle blind mode', () => {
+    render(<CompareSetup {...defaultProps} />);
+
+    fireEvent.click(screen.getByLabelText('Blind: hide model names until I vote'));
+    expect(mockOnBlindChange).toHaveBeenCalledWith(true);
+  });
+});
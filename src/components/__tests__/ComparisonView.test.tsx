@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ComparisonView } from '../ComparisonView';
+import type { ComparisonEntry } from '../../types';
+
+describe('ComparisonView', () => {
+  const mockOnVote = vi.fn();
+  const names: Record<string, string> = { 'openai/gpt-4': 'GPT-4', 'anthropic/claude-3-haiku': 'Claude 3 Haiku' };
+
+  const entries: ComparisonEntry[] = [
+    { modelId: 'openai/gpt-4', response: { translation: 'こんにちは' }, isStreaming: false },
+    { modelId: 'anthropic/claude-3-haiku', response: { translation: 'やあ' }, isStreaming: false },
+  ];
+
+  const defaultProps = {
+    entries,
+    blind: false,
+    votedModel: null,
+    getModelName: (id: string) => names[id],
+    onVote: mockOnVote,
+    onCopy: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should show each model in its own column', () => {
+    render(<ComparisonView {...defaultProps} />);
+
+    expect(screen.getByRole('group', { name: 'GPT-4' })).toHaveTextContent('こんにちは');
+    expect(screen.getByRole('group', { name: 'Claude 3 Haiku' })).toHaveTextContent('やあ');
+  });
+
+  it('should hide model names in blind mode until a vote', () => {
+    const { rerender } = render(<ComparisonView {...defaultProps} blind />);
+
+    expect(screen.getByRole('group', { name: 'Model A' })).toHaveTextContent('こんにちは');
+    expect(screen.queryByText('GPT-4')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Vote for Model B' }));
+    expect(mockOnVote).toHaveBeenCalledWith('anthropic/claude-3-haiku');
+
+    rerender(<ComparisonView {...defaultProps} blind votedModel="anthropic/claude-3-haiku" />);
+    expect(screen.getByRole('group', { name: 'Claude 3 Haiku' })).toHaveTextContent('Your pick');
+    expect(screen.queryByRole('button', { name: /vote for/i })).not.toBeInTheDocument();
+  });
+
+  it('should not allow voting until every model has finished', () => {
+    render(
+      <ComparisonView
+        {...defaultProps}
+        entries={[entries[0], { modelId: 'anthropic/claude-3-haiku', isStreaming: true }]}
+      />
+    );
+
+    expect(screen.queryByRole('button', { name: /vote for/i })).not.toBeInTheDocument();
+  });
+
+  it('should show errors in the failed column and only let the others be voted for', () => {
+    render(
+      <ComparisonView
+        {...defaultProps}
+        entries={[
+          ...entries,
+          { modelId: 'google/gemini', error: { type: 'model_unavailable', message: 'Down' }, isStreaming: false },
+        ]}
+        getModelName={(id) => names[id] ?? 'Gemini'}
+      />
+    );
+
+    expect(screen.getByRole('group', { name: 'Gemini' })).toHaveTextContent(/unavailable/);
+    expect(screen.getAllByRole('button', { name: /vote for/i })).toHaveLength(2);
+  });
+});
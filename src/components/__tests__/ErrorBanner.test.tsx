@@ -54,6 +54,52 @@ describe('ErrorBanner', () => {
     expect(screen.getByText('Received an unexpected response from the server. Please try again.')).toBeInTheDocument();
   });
 
+  it('should tell the user to add credits when out of credits', () => {
+    const error: OpenRouterError = { type: 'insufficient_credits', message: 'Insufficient credits', statusCode: 402 };
+    render(<ErrorBanner error={error} />);
+    expect(screen.getByText(/add credits/i)).toBeInTheDocument();
+  });
+
+  it('should include moderation reasons when the input is flagged', () => {
+    const error: OpenRouterError = {
+      type: 'moderation',
+      message: 'Input flagged',
+      statusCode: 403,
+      details: { moderationReasons: ['harassment', 'violence'] },
+    };
+    render(<ErrorBanner error={error} />);
+    expect(screen.getByText(/flagged by the model's moderation \(harassment, violence\)/)).toBeInTheDocument();
+  });
+
+  it('should suggest a larger context when the text is too long', () => {
+    const error: OpenRouterError = { type: 'context_length_exceeded', message: 'Too long', statusCode: 400 };
+    render(<ErrorBanner error={error} />);
+    expect(screen.getByText(/pick a model with a larger context/i)).toBeInTheDocument();
+  });
+
+  it('should suggest a different model when the model is unavailable', () => {
+    const error: OpenRouterError = { type: 'model_unavailable', message: 'No endpoints found', statusCode: 404 };
+    render(<ErrorBanner error={error} />);
+    expect(screen.getByText(/pick a different model/i)).toBeInTheDocument();
+  });
+
+  it('should name the provider that timed out', () => {
+    const error: OpenRouterError = {
+      type: 'provider_timeout',
+      message: 'Timed out',
+      statusCode: 408,
+      details: { providerName: 'Together' },
+    };
+    render(<ErrorBanner error={error} />);
+    expect(screen.getByText(/^Together took too long to respond/)).toBeInTheDocument();
+  });
+
+  it('should show the API message for bad requests', () => {
+    const error: OpenRouterError = { type: 'bad_request', message: 'temperature must be at most 2', statusCode: 400 };
+    render(<ErrorBanner error={error} />);
+    expect(screen.getByText('The request was rejected: temperature must be at most 2')).toBeInTheDocument();
+  });
+
   it('should render unknown error with fallback message', () => {
     const error: OpenRouterError = {
       type: 'unknown',
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { FallbackModelList } from '../FallbackModelList';
+import type { Model } from '../../types';
+
+describe('FallbackModelList', () => {
+  const mockOnChange = vi.fn();
+
+  const models: Model[] = [
+    { id: 'openai/gpt-4', name: 'GPT-4' },
+    { id: 'anthropic/claude-3-haiku', name: 'Claude 3 Haiku' },
+    { id: 'google/gemini-flash', name: 'Gemini Flash' },
+  ];
+
+  const defaultProps = {
+    models,
+    selectedModel: 'openai/gpt-4',
+    fallbackModels: ['anthropic/claude-3-haiku', 'google/gemini-flash'],
+    onChange: mockOnChange,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list the fallback models in order by name', () => {
+    render(<FallbackModelList {...defaultProps} />);
+
+    const items = within(screen.getByRole('list', { name: 'Fallback models' })).getAllByRole('listitem');
+    expect(items.map((item) => item.querySelector('.fallback-models-name')?.textContent))
+      .toEqual(['Claude 3 Haiku', 'Gemini Flash']);
+  });
+
+  it('should only offer models that are neither selected nor listed', () => {
+    render(<FallbackModelList {...defaultProps} fallbackModels={['google/gemini-flash']} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add fallback model' }));
+    const select = screen.getByLabelText('Add a fallback model');
+    const options = within(select).getAllByRole('option').map((option) => option.textContent);
+    expect(options).toEqual(['Choose a model…', 'Claude 3 Haiku']);
+  });
+
+  it('should append a model picked from the dropdown', () => {
+    render(<FallbackModelList {...defaultProps} fallbackModels={[]} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add fallback model' }));
+    fireEvent.change(screen.getByLabelText('Add a fallback model'), {
+      target: { value: 'google/gemini-flash' },
+    });
+    expect(mockOnChange).toHaveBeenCalledWith(['google/gemini-flash']);
+    expect(screen.queryByLabelText('Add a fallback model')).not.toBeInTheDocument();
+  });
+
+  it('should disable adding when every model is already in use', () => {
+    render(<FallbackModelList {...defaultProps} />);
+
+    expect(screen.getByRole('button', { name: 'Add fallback model' })).toBeDisabled();
+  });
+
+  it('should reorder models', () => {
+    render(<FallbackModelList {...defaultProps} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Move Gemini Flash up' }));
+    expect(mockOnChange).toHaveBeenCalledWith(['google/gemini-flash', 'anthropic/claude-3-haiku']);
+    expect(screen.getByRole('button', { name: 'Move Claude 3 Haiku up' })).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Move Gemini Flash down' })).toBeDisabled();
+  });
+
+  it('should remove a model', () => {
+    render(<FallbackModelList {...defaultProps} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove Claude 3 Haiku' }));
+    expect(mockOnChange).toHaveBeenCalledWith(['google/gemini-flash']);
+  });
+
+  it('should show IDs of models the provider no longer lists', () => {
+    render(<FallbackModelList {...defaultProps} fallbackModels={['mistral/old-model']} />);
+
+    expect(screen.getByText('mistral/old-model')).toBeInTheDocument();
+  });
+});
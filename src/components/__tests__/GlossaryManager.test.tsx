@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { GlossaryManager } from '../GlossaryManager';
+import type { GlossaryEntry } from '../../types';
+
+describe('GlossaryManager', () => {
+  const mockOnChange = vi.fn();
+
+  const entry: GlossaryEntry = {
+    id: '1',
+    sourceTerm: 'dashboard',
+    targetTerm: 'ダッシュボード',
+    fromLanguage: 'en',
+    toLanguage: 'ja',
+    caseSensitive: false,
+    forbiddenTranslations: ['管理画面'],
+    notes: 'UI label',
+  };
+
+  const renderManager = (entries: GlossaryEntry[] = []) =>
+    render(<GlossaryManager entries={entries} onChange={mockOnChange} fromLanguage="en" toLanguage="ja" />);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should add an entry for the selected languages', () => {
+    renderManager();
+
+    fireEvent.change(screen.getByLabelText('Source term'), { target: { value: ' dashboard ' } });
+    fireEvent.change(screen.getByLabelText('Target term'), { target: { value: 'ダッシュボード' } });
+    fireEvent.change(screen.getByLabelText('Forbidden translations (comma-separated)'), { target: { value: '管理画面, ボード' } });
+    fireEvent.click(screen.getByLabelText('Case sensitive'));
+    fireEvent.click(screen.getByRole('button', { name: 'Add term' }));
+
+    expect(mockOnChange).toHaveBeenCalledWith([
+      expect.objectContaining({
+        sourceTerm: 'dashboard',
+        targetTerm: 'ダッシュボード',
+        fromLanguage: 'en',
+        toLanguage: 'ja',
+        caseSensitive: true,
+        forbiddenTranslations: ['管理画面', 'ボード'],
+        notes: undefined,
+      }),
+    ]);
+  });
+
+  it('should explain when browser storage is full and keep the term', () => {
+    mockOnChange.mockImplementationOnce(() => {
+      throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+    });
+    renderManager();
+
+    fireEvent.change(screen.getByLabelText('Source term'), { target: { value: 'dashboard' } });
+    fireEvent.change(screen.getByLabelText('Target term'), { target: { value: 'ダッシュボード' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add term' }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Could not add the term: not enough browser storage');
+    expect(screen.getByLabelText('Source term')).toHaveValue('dashboard');
+  });
+
+  it('should not add an entry without both terms', () => {
+    renderManager();
+
+    fireEvent.change(screen.getByLabelText('Source term'), { target: { value: 'dashboard' } });
+    expect(screen.getByRole('button', { name: 'Add term' })).toBeDisabled();
+  });
+
+  it('should list entries and delete them', () => {
+    renderManager([entry]);
+
+    const list = screen.getByRole('list', { name: 'Glossary terms' });
+    expect(list).toHaveTextContent('dashboard → ダッシュボード');
+    expect(list).toHaveTextContent('Never: 管理画面');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete dashboard → ダッシュボード' }));
+    expect(mockOnChange).toHaveBeenCalledWith([]);
+  });
+
+  it('should import a CSV file, skipping terms already in the glossary', async () => {
+    renderManager([entry]);
+    const csv = 'source_term,target_term,source_language,target_language\n' +
+      'dashboard,ダッシュボード,en,ja\ninvoice,請求書,en,ja\n';
+
+    fireEvent.change(screen.getByLabelText('Import CSV or TBX'), {
+      target: { files: [new File([csv], 'glossary.csv', { type: 'text/csv' })] },
+    });
+
+    await waitFor(() => {
+      expect(screen.getByRole('status')).toHaveTextContent('Imported 1 term, 1 already in the glossary');
+    });
+    expect(mockOnChange).toHaveBeenCalledWith([entry, expect.objectContaining({ sourceTerm: 'invoice' })]);
+  });
+
+  it('should report a file that cannot be imported', async () => {
+    renderManager();
+
+    fireEvent.change(screen.getByLabelText('Import CSV or TBX'), {
+      target: { files: [new File(['term,translation\n'], 'terms.csv', { type: 'text/csv' })] },
+    });
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Could not import terms.csv: Missing CSV columns');
+    expect(mockOnChange).not.toHaveBeenCalled();
+  });
+
+  it('should disable export for an empty glossary', () => {
+    renderManager();
+
+    expect(screen.getByRole('button', { name: 'Export CSV' })).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Export TBX' })).toBeDisabled();
+  });
+});
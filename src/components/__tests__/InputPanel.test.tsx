@@ -75,6 +75,14 @@ describe('InputPanel', () => {
       expect(textarea.maxLength).toBe(1000);
     });
 
+    it('should not limit length when no maxLength is given', () => {
+      render(<InputPanel value="Hello" onChange={mockOnChange} />);
+
+      const textarea = screen.getByLabelText('Input text') as HTMLTextAreaElement;
+      expect(textarea.hasAttribute('maxlength')).toBe(false);
+      expect(screen.getByText('5 characters')).toBeInTheDocument();
+    });
+
     it('should render input label', () => {
       render(<InputPanel {...defaultProps} />);
 
@@ -179,4 +187,19 @@ describe('InputPanel', () => {
     });
   });
 
+  describe('Do-not-translate regions', () => {
+    it('should mark the selected text', () => {
+      render(<InputPanel {...defaultProps} value="Click Save now" />);
+
+      const textarea = screen.getByLabelText('Input text') as HTMLTextAreaElement;
+      const button = screen.getByRole('button', { name: 'Keep selection as is' });
+      expect(button).toBeDisabled();
+
+      textarea.setSelectionRange(6, 10);
+      fireEvent.select(textarea);
+      fireEvent.click(button);
+
+      expect(mockOnChange).toHaveBeenCalledWith('Click ⟦Save⟧ now');
+    });
+  });
 });
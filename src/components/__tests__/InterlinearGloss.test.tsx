@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import { InterlinearGloss } from '../InterlinearGloss';
+
+describe('InterlinearGloss', () => {
+  it('should show a row per layer and a column per source word', () => {
+    render(
+      <InterlinearGloss
+        sourceText="私は学生です。"
+        language="ja"
+        entries={[
+          { source: '私', target: 'I', partOfSpeech: 'pronoun', dictionaryForm: '私', reading: 'watashi' },
+          { source: 'は', target: '(topic)', partOfSpeech: 'particle', dictionaryForm: 'は', reading: 'wa' },
+          { source: '学生', target: 'student', partOfSpeech: 'noun', dictionaryForm: '学生', reading: 'gakusei' },
+          { source: 'です', target: 'am', partOfSpeech: 'copula', dictionaryForm: 'だ', reading: 'desu' },
+        ]}
+      />
+    );
+
+    const rows = within(screen.getByRole('table')).getAllByRole('row');
+    expect(rows.map((row) => row.textContent)).toEqual([
+      'Source私は学生です',
+      'Readingwatashiwagakuseidesu',
+      'Dictionary form私は学生だ',
+      'Part of speechpronounparticlenouncopula',
+      'TranslationI(topic)studentam',
+    ]);
+  });
+
+  it('should leave out the reading row for text in Latin letters', () => {
+    render(
+      <InterlinearGloss
+        sourceText="Guten Morgen"
+        language="de"
+        entries={[{ source: 'Guten Morgen', target: 'good morning', partOfSpeech: 'phrase', dictionaryForm: 'guten Morgen' }]}
+      />
+    );
+
+    expect(screen.queryByRole('rowheader', { name: 'Reading' })).not.toBeInTheDocument();
+    expect(screen.getByRole('cell', { name: 'Guten Morgen' })).toBeInTheDocument();
+  });
+});
@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { LanguageSelector } from '../LanguageSelector';
-import { LANGUAGES } from '../../constants/languages';
+import { AUTO_DETECT } from '../../constants/languages';
+import { getLanguageOptions } from '../../utils/languages';
 
 describe('LanguageSelector', () => {
   const mockOnFromChange = vi.fn();
@@ -43,8 +44,9 @@ describe('LanguageSelector', () => {
       const fromDropdown = screen.getByLabelText('Source language');
       const options = Array.from(fromDropdown.querySelectorAll('option'));
 
-      expect(options).toHaveLength(LANGUAGES.length);
-      LANGUAGES.forEach((lang, index) => {
+      const expectedLanguages = [AUTO_DETECT, ...getLanguageOptions()];
+      expect(options).toHaveLength(expectedLanguages.length);
+      expectedLanguages.forEach((lang, index) => {
         expect(options[index]).toHaveValue(lang.code);
         expect(options[index]).toHaveTextContent(lang.name);
       });
@@ -56,7 +58,7 @@ describe('LanguageSelector', () => {
       const toDropdown = screen.getByLabelText('Target language');
       const options = Array.from(toDropdown.querySelectorAll('option'));
 
-      const expectedLanguages = LANGUAGES.filter((lang) => lang.code !== 'auto');
+      const expectedLanguages = getLanguageOptions();
       expect(options).toHaveLength(expectedLanguages.length);
       expectedLanguages.forEach((lang, index) => {
         expect(options[index]).toHaveValue(lang.code);
@@ -64,6 +66,17 @@ describe('LanguageSelector', () => {
       });
     });
 
+    it('should list regional and script variants after their language', () => {
+      render(<LanguageSelector {...defaultProps} />);
+
+      const toDropdown = screen.getByLabelText('Target language');
+      const codes = Array.from(toDropdown.querySelectorAll('option'), (option) => option.value);
+
+      expect(codes.slice(codes.indexOf('pt'), codes.indexOf('pt') + 3)).toEqual(['pt', 'pt-BR', 'pt-PT']);
+      expect(codes).toContain('sr-Latn');
+      expect(codes).toContain('es-419');
+    });
+
     it('should render swap button', () => {
       render(<LanguageSelector {...defaultProps} />);
 
@@ -212,6 +225,35 @@ describe('LanguageSelector', () => {
     });
   });
 
+  describe('Detected language', () => {
+    it('should show the detected language in place of "Detect Language"', () => {
+      render(<LanguageSelector {...defaultProps} fromLanguage="auto" detectedLanguage="ja" />);
+
+      expect(screen.getByRole('option', { name: 'Detected: Japanese' })).toBeInTheDocument();
+    });
+
+    it('should enable swap once a listed language was detected', () => {
+      render(<LanguageSelector {...defaultProps} fromLanguage="auto" detectedLanguage="ja" />);
+
+      fireEvent.click(screen.getByLabelText('Swap languages'));
+      expect(mockOnSwap).toHaveBeenCalledTimes(1);
+    });
+
+    it('should name a detected regional code by the variant it stands for', () => {
+      render(<LanguageSelector {...defaultProps} fromLanguage="auto" detectedLanguage="zh-TW" />);
+
+      expect(screen.getByRole('option', { name: 'Detected: Chinese (Traditional)' })).toBeInTheDocument();
+      expect(screen.getByLabelText('Swap languages')).toBeEnabled();
+    });
+
+    it('should keep swap disabled for a detected language that is not listed', () => {
+      render(<LanguageSelector {...defaultProps} fromLanguage="auto" detectedLanguage="tlh" />);
+
+      expect(screen.getByRole('option', { name: 'Detected: tlh' })).toBeInTheDocument();
+      expect(screen.getByLabelText('Swap languages')).toBeDisabled();
+    });
+  });
+
   describe('Controlled component behavior', () => {
     it('should reflect prop changes in source dropdown', () => {
       const { rerender } = render(
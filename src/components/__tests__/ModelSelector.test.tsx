@@ -208,4 +208,97 @@ describe('ModelSelector', () => {
       expect(screen.getByPlaceholderText('Claude 3 Opus')).toBeInTheDocument();
     });
   });
+
+  describe('Filters and sorting', () => {
+    const pricedModels: Model[] = [
+      {
+        id: 'openai/gpt-4o',
+        name: 'GPT-4o',
+        contextLength: 128000,
+        pricing: { prompt: 0.0000025, completion: 0.00001 },
+        supportedParameters: ['structured_outputs'],
+        inputModalities: ['text', 'image'],
+        provider: 'openai',
+      },
+      {
+        id: 'meta-llama/llama-3.3-70b-instruct:free',
+        name: 'Llama 3.3 70B',
+        contextLength: 65536,
+        pricing: { prompt: 0, completion: 0 },
+        provider: 'meta-llama',
+      },
+    ];
+
+    const renderPriced = () => {
+      render(<ModelSelector {...defaultProps} models={pricedModels} selectedModel="openai/gpt-4o" />);
+      fireEvent.focus(screen.getByLabelText('AI Model'));
+    };
+
+    it('should show price, context length and extra input modalities', () => {
+      renderPriced();
+
+      expect(screen.getByText('$10.00/1M tokens · 128K context · Accepts image')).toBeInTheDocument();
+      expect(screen.getByText('Free · 66K context')).toBeInTheDocument();
+    });
+
+    it('should show only free models', () => {
+      renderPriced();
+      fireEvent.click(screen.getByLabelText('Free only'));
+
+      expect(screen.getByText('Llama 3.3 70B')).toBeInTheDocument();
+      expect(screen.queryByText('GPT-4o')).not.toBeInTheDocument();
+    });
+
+    it('should filter by max price and min context', () => {
+      renderPriced();
+      fireEvent.change(screen.getByLabelText('Max $ per 1M tokens'), { target: { value: '20' } });
+      fireEvent.change(screen.getByLabelText('Min context'), { target: { value: '128000' } });
+
+      expect(screen.getByText('GPT-4o')).toBeInTheDocument();
+      expect(screen.queryByText('Llama 3.3 70B')).not.toBeInTheDocument();
+    });
+
+    it('should show only models with structured output', () => {
+      renderPriced();
+      fireEvent.click(screen.getByLabelText('Structured output'));
+
+      expect(screen.getByText('GPT-4o')).toBeInTheDocument();
+      expect(screen.queryByText('Llama 3.3 70B')).not.toBeInTheDocument();
+    });
+
+    it('should sort by price', () => {
+      renderPriced();
+      fireEvent.change(screen.getByLabelText('Sort by'), { target: { value: 'price' } });
+
+      const options = screen.getAllByRole('option');
+      expect(options[0]).toHaveTextContent('Llama 3.3 70B');
+    });
+
+    it('should sort by comparison rating and show it', () => {
+      const ratings = { 'anthropic/claude-3-opus': { rating: 1516, votes: 1 } };
+      render(<ModelSelector {...defaultProps} ratings={ratings} />);
+      fireEvent.focus(screen.getByLabelText('AI Model'));
+      fireEvent.change(screen.getByLabelText('Sort by'), { target: { value: 'rating' } });
+
+      const options = screen.getAllByRole('option');
+      expect(options[0]).toHaveTextContent('Claude 3 Opus');
+      expect(options[0]).toHaveTextContent('Rated 1516 (1 vote)');
+    });
+
+    it('should group models by provider', () => {
+      renderPriced();
+      fireEvent.click(screen.getByLabelText('Group by provider'));
+
+      expect(screen.getByRole('group', { name: 'openai' })).toHaveTextContent('GPT-4o');
+      expect(screen.getByRole('group', { name: 'meta-llama' })).toHaveTextContent('Llama 3.3 70B');
+    });
+
+    it('should say when no model matches the filters', () => {
+      render(<ModelSelector {...defaultProps} />);
+      fireEvent.focus(screen.getByLabelText('AI Model'));
+      fireEvent.click(screen.getByLabelText('Free only'));
+
+      expect(screen.getByText('No models match the selected filters')).toBeInTheDocument();
+    });
+  });
 });
@@ -140,6 +140,13 @@ describe('OutputPanel', () => {
       expect(mockOnCopy).toHaveBeenCalledTimes(3);
     });
 
+    it('should copy the main translation', () => {
+      render(<OutputPanel {...defaultProps} translation="Test translation" />);
+
+      fireEvent.click(screen.getByLabelText('Copy translation'));
+      expect(mockOnCopy).toHaveBeenCalledWith('Test translation');
+    });
+
     it('should render copy button with correct text', () => {
       render(<OutputPanel {...defaultProps} />);
 
@@ -387,4 +394,294 @@ describe('OutputPanel', () => {
       expect(screen.getByText('konnichiwa')).toBeInTheDocument();
     });
   });
+
+  describe('Usage display', () => {
+    it('should show token counts and cost when provided', () => {
+      render(
+        <OutputPanel
+          {...defaultProps}
+          translation="Hola"
+          usage={{ promptTokens: 1200, completionTokens: 35 }}
+          cost={0.00042}
+        />
+      );
+
+      const usage = screen.getByLabelText('Token usage');
+      expect(usage).toHaveTextContent('1,200 prompt + 35 completion tokens · $0.00042');
+    });
+
+    it('should omit the cost when the model has no pricing', () => {
+      render(
+        <OutputPanel
+          {...defaultProps}
+          translation="Hola"
+          usage={{ promptTokens: 12, completionTokens: 3 }}
+        />
+      );
+
+      expect(screen.getByLabelText('Token usage')).not.toHaveTextContent('$');
+    });
+
+    it('should say when the translation came from the cache', () => {
+      render(<OutputPanel {...defaultProps} translation="Hola" cached />);
+
+      expect(screen.getByLabelText('Token usage')).toHaveTextContent('From cache · no tokens used');
+    });
+
+    it('should say when the translation came from the translation memory', () => {
+      render(<OutputPanel {...defaultProps} translation="Hola" fromMemory />);
+
+      expect(screen.getByLabelText('Token usage')).toHaveTextContent('From translation memory · no tokens used');
+    });
+
+    it('should name the model that produced the translation', () => {
+      render(<OutputPanel {...defaultProps} translation="Hola" model="GPT-4" />);
+
+      expect(screen.getByLabelText('Model used')).toHaveTextContent('Translated by GPT-4');
+      expect(screen.getByLabelText('Model used')).not.toHaveTextContent('fallback');
+    });
+
+    it('should mark translations from a fallback model', () => {
+      render(<OutputPanel {...defaultProps} translation="Hola" model="Claude 3 Haiku" isFallback />);
+
+      expect(screen.getByLabelText('Model used')).toHaveTextContent('Translated by Claude 3 Haiku (fallback)');
+    });
+
+    it('should name the prompt version used', () => {
+      render(<OutputPanel {...defaultProps} translation="Hola" promptVersion="Terse" />);
+
+      expect(screen.getByLabelText('Prompt version')).toHaveTextContent('Prompt version: Terse');
+    });
+
+    it('should not show usage when none was reported', () => {
+      render(<OutputPanel {...defaultProps} translation="Hola" />);
+
+      expect(screen.queryByLabelText('Token usage')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Alternatives', () => {
+    const alternatives = [
+      { text: 'Hi', register: 'casual', whenToUse: 'With friends' },
+      { text: 'Good day', register: 'formal', whenToUse: 'In business settings', transcription: 'good day' },
+    ];
+
+    it('should show each alternative with its register and when to use it', () => {
+      render(<OutputPanel {...defaultProps} translation="Hello" alternatives={alternatives} />);
+
+      const group = screen.getByRole('group', { name: 'Alternative translations' });
+      expect(group).toHaveTextContent('casual');
+      expect(group).toHaveTextContent('In business settings');
+      expect(group).toHaveTextContent('good day');
+    });
+
+    it('should copy the selected alternative', () => {
+      render(<OutputPanel {...defaultProps} translation="Hello" alternatives={alternatives} />);
+
+      const card = screen.getByRole('button', { name: /Good day/ });
+      fireEvent.click(card);
+      expect(card).toHaveAttribute('aria-pressed', 'true');
+
+      fireEvent.click(screen.getByLabelText('Copy selected alternative'));
+      expect(mockOnCopy).toHaveBeenCalledWith('Good day');
+    });
+
+    it('should go back to the main translation when the selected alternative is clicked again', () => {
+      render(<OutputPanel {...defaultProps} translation="Hello" alternatives={alternatives} />);
+
+      const card = screen.getByRole('button', { name: /Good day/ });
+      fireEvent.click(card);
+      fireEvent.click(card);
+
+      fireEvent.click(screen.getByLabelText('Copy translation'));
+      expect(mockOnCopy).toHaveBeenCalledWith('Hello');
+    });
+
+    it('should not show alternatives while streaming', () => {
+      render(<OutputPanel {...defaultProps} translation="Hello" alternatives={alternatives} isStreaming />);
+
+      expect(screen.queryByRole('group', { name: 'Alternative translations' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Glossary check', () => {
+    const entry = {
+      id: '1',
+      sourceTerm: 'dashboard',
+      targetTerm: 'ダッシュボード',
+      fromLanguage: 'en',
+      toLanguage: 'ja',
+      caseSensitive: false,
+      forbiddenTranslations: ['管理画面'],
+    };
+
+    it('should highlight forbidden translations and list violations', () => {
+      render(
+        <OutputPanel
+          {...defaultProps}
+          translation="管理画面を開く"
+          glossaryViolations={[
+            { type: 'missing', entry, term: 'ダッシュボード' },
+            { type: 'forbidden', entry, term: '管理画面' },
+          ]}
+        />
+      );
+
+      expect(screen.getByText('管理画面', { selector: 'mark' })).toBeInTheDocument();
+      const check = screen.getByRole('group', { name: 'Glossary check' });
+      expect(check).toHaveTextContent('Missing ダッシュボード for dashboard');
+      expect(check).toHaveTextContent('管理画面 is forbidden for dashboard; use ダッシュボード');
+    });
+
+    it('should not show the check without violations', () => {
+      render(<OutputPanel {...defaultProps} translation="ダッシュボードを開く" />);
+
+      expect(screen.queryByRole('group', { name: 'Glossary check' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Translation memory', () => {
+    it('should save the translation to the memory once', () => {
+      const onApprove = vi.fn();
+      const { rerender } = render(<OutputPanel {...defaultProps} translation="Hola" onApprove={onApprove} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Save to translation memory' }));
+      expect(onApprove).toHaveBeenCalledWith('Hola');
+
+      rerender(<OutputPanel {...defaultProps} translation="Hola" onApprove={onApprove} approved />);
+      expect(screen.getByRole('button', { name: 'Saved to translation memory' })).toBeDisabled();
+    });
+
+    it('should not offer saving without a handler', () => {
+      render(<OutputPanel {...defaultProps} translation="Hola" />);
+
+      expect(screen.queryByRole('button', { name: 'Save to translation memory' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Furigana', () => {
+    const furigana = [
+      { text: '日本語', reading: 'にほんご' },
+      { text: 'を' },
+      { text: '勉強', reading: 'べんきょう' },
+      { text: 'する' },
+    ];
+    const furiganaProps = {
+      ...defaultProps,
+      translation: '日本語を勉強する',
+      furigana,
+      furiganaSettings: { style: 'hiragana' as const, hideCommonKanji: false },
+    };
+
+    it('should show the readings above the kanji', () => {
+      const { container } = render(<OutputPanel {...furiganaProps} />);
+
+      expect(Array.from(container.querySelectorAll('rt'), (rt) => rt.textContent)).toEqual(['にほんご', 'べんきょう']);
+    });
+
+    it('should switch to romaji and hide readings on common kanji', () => {
+      const onFuriganaSettingsChange = vi.fn();
+      const { container, rerender } = render(
+        <OutputPanel {...furiganaProps} onFuriganaSettingsChange={onFuriganaSettingsChange} />
+      );
+
+      fireEvent.click(screen.getByLabelText('Romaji'));
+      expect(onFuriganaSettingsChange).toHaveBeenCalledWith({ style: 'romaji', hideCommonKanji: false });
+
+      rerender(
+        <OutputPanel
+          {...furiganaProps}
+          furiganaSettings={{ style: 'romaji', hideCommonKanji: true }}
+          onFuriganaSettingsChange={onFuriganaSettingsChange}
+        />
+      );
+      // 日本語 only uses kanji from the first school years, 勉強 does not
+      expect(Array.from(container.querySelectorAll('rt'), (rt) => rt.textContent)).toEqual(['benkyou']);
+    });
+
+    it('should copy either plain text or ruby HTML', () => {
+      render(<OutputPanel {...furiganaProps} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Copy translation' }));
+      expect(mockOnCopy).toHaveBeenCalledWith('日本語を勉強する');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Copy translation as ruby HTML' }));
+      expect(mockOnCopy).toHaveBeenLastCalledWith(
+        '<ruby>日本語<rp>(</rp><rt>にほんご</rt><rp>)</rp></ruby>を<ruby>勉強<rp>(</rp><rt>べんきょう</rt><rp>)</rp></ruby>する'
+      );
+    });
+  });
+
+  describe('Local romanization', () => {
+    it('should replace a transcription with IPA symbols by the rule-based one', () => {
+      render(
+        <OutputPanel
+          {...defaultProps}
+          translation="Привет"
+          transcription="prʲɪˈvʲet"
+          localTranscription={{ text: 'Privet', exact: true }}
+        />
+      );
+
+      const section = screen.getByRole('complementary', { name: 'Transcription' });
+      expect(section).toHaveTextContent('Privet');
+      expect(section).toHaveTextContent('Romanized by rule');
+      expect(section).not.toHaveTextContent('prʲɪˈvʲet');
+    });
+
+    it('should fill in a missing transcription with the rule-based one once streaming ends', () => {
+      const props = {
+        ...defaultProps,
+        translation: 'Привет',
+        transcription: '',
+        localTranscription: { text: 'Privet', exact: true },
+      };
+      const { rerender } = render(<OutputPanel {...props} isStreaming={true} />);
+
+      expect(screen.queryByRole('complementary', { name: 'Transcription' })).not.toBeInTheDocument();
+
+      rerender(<OutputPanel {...props} isStreaming={false} />);
+
+      const section = screen.getByRole('complementary', { name: 'Transcription' });
+      expect(section).toHaveTextContent('Privet');
+      expect(section).toHaveTextContent('Romanized by rule, because the model gave no transcription');
+    });
+
+    it('should not repeat a translation already in Latin letters as its transcription', () => {
+      render(
+        <OutputPanel
+          {...defaultProps}
+          translation="OK"
+          transcription=""
+          localTranscription={{ text: 'OK', exact: true }}
+        />
+      );
+
+      expect(screen.queryByRole('complementary', { name: 'Transcription' })).not.toBeInTheDocument();
+    });
+
+    it('should show the rule-based romanization next to a transcription that disagrees with it', () => {
+      const { rerender } = render(
+        <OutputPanel
+          {...defaultProps}
+          translation="감사합니다"
+          transcription="gamsahapnida"
+          localTranscription={{ text: 'gamsahamnida', exact: true }}
+        />
+      );
+
+      expect(screen.getByRole('complementary', { name: 'Transcription' })).toHaveTextContent('By rule: gamsahamnida');
+
+      rerender(
+        <OutputPanel
+          {...defaultProps}
+          translation="감사합니다"
+          transcription="gamsahamnida"
+          localTranscription={{ text: 'gamsahamnida', exact: true }}
+        />
+      );
+      expect(screen.getByRole('complementary', { name: 'Transcription' }))
+        .toHaveTextContent('Matches the rule-based romanization');
+    });
+  });
 });
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { PromptTemplateEditor } from '../PromptTemplateEditor';
+import { DEFAULT_USER_PROMPT_TEMPLATE, EMPTY_PROMPT_SETTINGS } from '../../constants/prompt';
+import type { PromptSettings, TranslationRequest } from '../../types';
+
+describe('PromptTemplateEditor', () => {
+  const mockOnChange = vi.fn();
+
+  const previewRequest: TranslationRequest = {
+    apiKey: 'key',
+    model: 'openai/gpt-4',
+    sourceText: 'Good morning',
+    fromLanguage: 'en',
+    toLanguage: 'fr',
+  };
+
+  const savedSettings: PromptSettings = {
+    versions: [{ id: 'v1', name: 'Terse', createdAt: 1, system: 'Be terse.', user: '{{sourceText}}' }],
+    activeVersionId: 'v1',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should start with the default templates', () => {
+    render(<PromptTemplateEditor settings={EMPTY_PROMPT_SETTINGS} onChange={mockOnChange} getPreviewRequest={() => previewRequest} />);
+
+    expect(screen.getByLabelText('Prompt version')).toHaveValue('');
+    expect(screen.getByLabelText('User prompt template')).toHaveValue(DEFAULT_USER_PROMPT_TEMPLATE);
+  });
+
+  it('should preview the draft with the current input once the preview is opened', () => {
+    const getPreviewRequest = vi.fn(() => previewRequest);
+    render(<PromptTemplateEditor settings={EMPTY_PROMPT_SETTINGS} onChange={mockOnChange} getPreviewRequest={getPreviewRequest} />);
+
+    expect(getPreviewRequest).not.toHaveBeenCalled();
+    fireEvent.click(screen.getByText('Preview with the current input'));
+    fireEvent.change(screen.getByLabelText('User prompt template'), { target: { value: 'To {{toLanguage}}: {{sourceText}}' } });
+    expect(screen.getByLabelText('User prompt preview')).toHaveTextContent('To fr: Good morning');
+  });
+
+  it('should show validation errors and not allow saving an invalid template', () => {
+    render(<PromptTemplateEditor settings={EMPTY_PROMPT_SETTINGS} onChange={mockOnChange} getPreviewRequest={() => previewRequest} />);
+
+    fireEvent.change(screen.getByLabelText('User prompt template'), { target: { value: 'Translate {{text}}' } });
+    fireEvent.change(screen.getByLabelText('Version name'), { target: { value: 'Broken' } });
+
+    expect(screen.getByRole('alert')).toHaveTextContent('User prompt: Unknown placeholder {{text}}');
+    expect(screen.getByRole('alert')).toHaveTextContent('User prompt: Must include {{sourceText}}');
+    expect(screen.getByRole('button', { name: 'Save as new version' })).toBeDisabled();
+  });
+
+  it('should save the draft as a new active version', () => {
+    render(<PromptTemplateEditor settings={EMPTY_PROMPT_SETTINGS} onChange={mockOnChange} getPreviewRequest={() => previewRequest} />);
+
+    fireEvent.change(screen.getByLabelText('System prompt template'), { target: { value: 'Be terse.' } });
+    fireEvent.change(screen.getByLabelText('Version name'), { target: { value: ' Terse ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save as new version' }));
+
+    const saved = mockOnChange.mock.calls[0][0] as PromptSettings;
+    expect(saved.versions).toHaveLength(1);
+    expect(saved.versions[0]).toMatchObject({ name: 'Terse', system: 'Be terse.', user: DEFAULT_USER_PROMPT_TEMPLATE });
+    expect(saved.activeVersionId).toBe(saved.versions[0].id);
+  });
+
+  it('should not allow a name that is already taken', () => {
+    render(<PromptTemplateEditor settings={savedSettings} onChange={mockOnChange} getPreviewRequest={() => previewRequest} />);
+
+    fireEvent.change(screen.getByLabelText('System prompt template'), { target: { value: 'Be very terse.' } });
+    fireEvent.change(screen.getByLabelText('Version name'), { target: { value: 'Terse' } });
+
+    expect(screen.getByText('A version with this name already exists.')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Save as new version' })).toBeDisabled();
+  });
+
+  it('should switch versions and load their templates', () => {
+    render(<PromptTemplateEditor settings={savedSettings} onChange={mockOnChange} getPreviewRequest={() => previewRequest} />);
+
+    expect(screen.getByLabelText('System prompt template')).toHaveValue('Be terse.');
+    fireEvent.change(screen.getByLabelText('Prompt version'), { target: { value: '' } });
+
+    expect(mockOnChange).toHaveBeenCalledWith({ ...savedSettings, activeVersionId: null });
+    expect(screen.getByLabelText('User prompt template')).toHaveValue(DEFAULT_USER_PROMPT_TEMPLATE);
+  });
+
+  it('should delete the active version', () => {
+    render(<PromptTemplateEditor settings={savedSettings} onChange={mockOnChange} getPreviewRequest={() => previewRequest} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete version' }));
+    expect(mockOnChange).toHaveBeenCalledWith(EMPTY_PROMPT_SETTINGS);
+  });
+});
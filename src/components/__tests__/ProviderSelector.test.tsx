@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ProviderSelector } from '../ProviderSelector';
+
+describe('ProviderSelector', () => {
+  const mockOnProviderChange = vi.fn();
+  const mockOnBaseUrlChange = vi.fn();
+
+  const defaultProps = {
+    providerId: 'openrouter' as const,
+    baseUrl: 'https://openrouter.ai/api/v1',
+    onProviderChange: mockOnProviderChange,
+    onBaseUrlChange: mockOnBaseUrlChange,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should render the provider dropdown with the active provider selected', () => {
+    render(<ProviderSelector {...defaultProps} />);
+
+    const select = screen.getByLabelText('Translation provider');
+    expect(select).toHaveValue('openrouter');
+    expect(screen.getByRole('option', { name: 'OpenRouter' })).toBeInTheDocument();
+  });
+
+  it('should call onProviderChange when a provider is selected', () => {
+    render(<ProviderSelector {...defaultProps} />);
+
+    fireEvent.change(screen.getByLabelText('Translation provider'), { target: { value: 'openrouter' } });
+    expect(mockOnProviderChange).toHaveBeenCalledWith('openrouter');
+  });
+
+  it('should show the current base URL', () => {
+    render(<ProviderSelector {...defaultProps} />);
+
+    expect(screen.getByLabelText('Provider base URL')).toHaveValue('https://openrouter.ai/api/v1');
+  });
+
+  it('should commit a new base URL on blur without a trailing slash', () => {
+    render(<ProviderSelector {...defaultProps} />);
+
+    const input = screen.getByLabelText('Provider base URL');
+    fireEvent.change(input, { target: { value: 'https://proxy.example.com/v1/' } });
+    fireEvent.blur(input);
+
+    expect(mockOnBaseUrlChange).toHaveBeenCalledWith('https://proxy.example.com/v1');
+  });
+
+  it('should reset to the provider default when the field is cleared', () => {
+    render(<ProviderSelector {...defaultProps} baseUrl="https://proxy.example.com/v1" />);
+
+    const input = screen.getByLabelText('Provider base URL');
+    fireEvent.change(input, { target: { value: '' } });
+    fireEvent.blur(input);
+
+    expect(mockOnBaseUrlChange).toHaveBeenCalledWith(null);
+    expect(input).toHaveValue('https://openrouter.ai/api/v1');
+  });
+
+  it('should not report unchanged base URLs', () => {
+    render(<ProviderSelector {...defaultProps} />);
+
+    fireEvent.blur(screen.getByLabelText('Provider base URL'));
+    expect(mockOnBaseUrlChange).not.toHaveBeenCalled();
+  });
+
+  it('should hide the base URL field when it cannot be changed', () => {
+    render(<ProviderSelector {...defaultProps} onBaseUrlChange={undefined} />);
+
+    expect(screen.queryByLabelText('Provider base URL')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { QualityReviewPanel } from '../QualityReviewPanel';
+import type { Model, TranslationReview } from '../../types';
+
+describe('QualityReviewPanel', () => {
+  const models: Model[] = [
+    { id: 'openai/gpt-4', name: 'GPT-4' },
+    { id: 'anthropic/claude-3-haiku', name: 'Claude 3 Haiku' },
+  ];
+
+  const review: TranslationReview = {
+    model: 'anthropic/claude-3-haiku',
+    scores: {
+      accuracy: { score: 5, justification: 'Same meaning' },
+      fluency: { score: 4, justification: 'Natural' },
+      terminology: { score: 5, justification: 'Correct terms' },
+      register: { score: 3, justification: 'Too casual for a client' },
+      omissions: { score: 5, justification: 'Nothing missing' },
+    },
+  };
+
+  const defaultProps = {
+    models,
+    judgeModel: 'openai/gpt-4',
+    onJudgeModelChange: vi.fn(),
+    review: null,
+    isReviewing: false,
+    onReview: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should request a review with the chosen judge', () => {
+    render(<QualityReviewPanel {...defaultProps} />);
+
+    fireEvent.change(screen.getByLabelText('Judge model'), { target: { value: 'anthropic/claude-3-haiku' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Review translation' }));
+
+    expect(defaultProps.onJudgeModelChange).toHaveBeenCalledWith('anthropic/claude-3-haiku');
+    expect(defaultProps.onReview).toHaveBeenCalled();
+  });
+
+  it('should disable the button while reviewing', () => {
+    render(<QualityReviewPanel {...defaultProps} isReviewing />);
+
+    expect(screen.getByRole('button', { name: 'Reviewing...' })).toBeDisabled();
+  });
+
+  it('should show each score with its justification and the average', () => {
+    render(<QualityReviewPanel {...defaultProps} review={review} />);
+
+    expect(screen.getByText(/Average 4\.4 \/ 5 · judged by Claude 3 Haiku/)).toBeInTheDocument();
+    expect(screen.getByLabelText('Register score')).toHaveAttribute('value', '3');
+    expect(screen.getByText('Too casual for a client')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Review again' })).toBeInTheDocument();
+  });
+
+  it('should show review errors', () => {
+    render(<QualityReviewPanel {...defaultProps} error={{ type: 'invalid_response', message: 'Invalid review schema' }} />);
+
+    expect(screen.getByRole('alert')).toBeInTheDocument();
+  });
+});
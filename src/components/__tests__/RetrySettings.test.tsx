@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { RetrySettings } from '../RetrySettings';
+import { DEFAULT_RETRY_POLICY } from '../../constants/retry';
+
+describe('RetrySettings', () => {
+  const mockOnChange = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should show the current policy', () => {
+    render(<RetrySettings policy={DEFAULT_RETRY_POLICY} onChange={mockOnChange} />);
+
+    expect(screen.getByLabelText('Max attempts')).toHaveValue(3);
+    expect(screen.getByLabelText('First backoff (seconds)')).toHaveValue(1);
+    expect(screen.getByLabelText('Wait as long as the server asks (Retry-After)')).toBeChecked();
+    expect(screen.getByLabelText('Rate limits')).toBeChecked();
+  });
+
+  it('should update max attempts', () => {
+    render(<RetrySettings policy={DEFAULT_RETRY_POLICY} onChange={mockOnChange} />);
+
+    fireEvent.change(screen.getByLabelText('Max attempts'), { target: { value: '5' } });
+    expect(mockOnChange).toHaveBeenCalledWith({ ...DEFAULT_RETRY_POLICY, maxAttempts: 5 });
+  });
+
+  it('should ignore max attempts below one', () => {
+    render(<RetrySettings policy={DEFAULT_RETRY_POLICY} onChange={mockOnChange} />);
+
+    fireEvent.change(screen.getByLabelText('Max attempts'), { target: { value: '0' } });
+    expect(mockOnChange).not.toHaveBeenCalled();
+  });
+
+  it('should convert the backoff to milliseconds', () => {
+    render(<RetrySettings policy={DEFAULT_RETRY_POLICY} onChange={mockOnChange} />);
+
+    fireEvent.change(screen.getByLabelText('First backoff (seconds)'), { target: { value: '2.5' } });
+    expect(mockOnChange).toHaveBeenCalledWith({ ...DEFAULT_RETRY_POLICY, baseDelayMs: 2500 });
+  });
+
+  it('should toggle which errors are retried', () => {
+    render(<RetrySettings policy={DEFAULT_RETRY_POLICY} onChange={mockOnChange} />);
+
+    fireEvent.click(screen.getByLabelText('Rate limits'));
+    expect(mockOnChange).toHaveBeenCalledWith({
+      ...DEFAULT_RETRY_POLICY,
+      retryableErrors: ['network', 'invalid_response', 'placeholder_mismatch', 'provider_timeout', 'unknown'],
+    });
+  });
+
+  it('should toggle honoring Retry-After', () => {
+    render(<RetrySettings policy={DEFAULT_RETRY_POLICY} onChange={mockOnChange} />);
+
+    fireEvent.click(screen.getByLabelText('Wait as long as the server asks (Retry-After)'));
+    expect(mockOnChange).toHaveBeenCalledWith({ ...DEFAULT_RETRY_POLICY, honorRetryAfter: false });
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { RomanizationSettings } from '../RomanizationSettings';
+
+describe('RomanizationSettings', () => {
+  const mockOnChange = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list the languages with a choice of standard, showing the defaults', () => {
+    render(<RomanizationSettings settings={{}} onChange={mockOnChange} />);
+
+    expect(screen.getByLabelText('Japanese')).toHaveValue('hepburn');
+    expect(screen.getByLabelText('Chinese')).toHaveValue('pinyin-marks');
+    expect(screen.getByLabelText('Korean')).toHaveValue('revised');
+    expect(screen.getByLabelText('Russian')).toHaveValue('simple');
+    expect(screen.queryByLabelText('Arabic')).not.toBeInTheDocument();
+    expect(screen.queryByLabelText('Spanish')).not.toBeInTheDocument();
+  });
+
+  it('should show the chosen standards', () => {
+    render(<RomanizationSettings settings={{ ja: 'nihon-shiki' }} onChange={mockOnChange} />);
+
+    expect(screen.getByLabelText('Japanese')).toHaveValue('nihon-shiki');
+  });
+
+  it('should keep the other languages when one changes', () => {
+    render(<RomanizationSettings settings={{ ja: 'kunrei' }} onChange={mockOnChange} />);
+
+    fireEvent.change(screen.getByLabelText('Russian'), { target: { value: 'iso9' } });
+
+    expect(mockOnChange).toHaveBeenCalledWith({ ja: 'kunrei', ru: 'iso9' });
+  });
+});
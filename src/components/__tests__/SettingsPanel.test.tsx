@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
 import { SettingsPanel } from '../SettingsPanel';
+import { DEFAULT_RETRY_POLICY } from '../../constants/retry';
 import type { Model } from '../../types';
 
 describe('SettingsPanel', () => {
@@ -206,4 +207,155 @@ describe('SettingsPanel', () => {
       expect(mockOnClearAllData).not.toHaveBeenCalled();
     });
   });
+
+  describe('Output mode statistics', () => {
+    it('should show how often each JSON output mode was used', () => {
+      render(
+        <SettingsPanel
+          {...defaultProps}
+          outputModeStats={{ json_schema: 12, prompt: 4, prompt_fallback: 3 }}
+        />
+      );
+      fireEvent.click(screen.getByRole('button', { name: /toggle settings/i }));
+
+      const stats = screen.getByLabelText('JSON output mode statistics');
+      expect(stats).toHaveTextContent('Structured output12');
+      expect(stats).toHaveTextContent('Prompt only4');
+      expect(stats).toHaveTextContent('Fallback after schema rejected3');
+    });
+  });
+
+  describe('Usage statistics', () => {
+    it('should show totals per model and per day', () => {
+      const totals = { requests: 3, promptTokens: 900, completionTokens: 300, cost: 0.0123 };
+      render(
+        <SettingsPanel
+          {...defaultProps}
+          usageStats={{
+            byModel: { 'openai/gpt-4o': totals },
+            byDay: { '2025-01-16': totals },
+          }}
+        />
+      );
+      fireEvent.click(screen.getByRole('button', { name: /toggle settings/i }));
+
+      const byModel = screen.getByRole('table', { name: 'Usage by model' });
+      expect(within(byModel).getByRole('row', { name: /openai\/gpt-4o/ })).toHaveTextContent('31,200$0.01');
+      const byDay = screen.getByRole('table', { name: 'Usage by day' });
+      expect(within(byDay).getByRole('rowheader', { name: '2025-01-16' })).toBeInTheDocument();
+    });
+
+    it('should not show usage before any translation', () => {
+      render(<SettingsPanel {...defaultProps} usageStats={{ byModel: {}, byDay: {} }} />);
+      fireEvent.click(screen.getByRole('button', { name: /toggle settings/i }));
+
+      expect(screen.queryByRole('table', { name: 'Usage by model' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Parallel chunking', () => {
+    it('should toggle parallel translation of long texts', () => {
+      const onParallelChunkingChange = vi.fn();
+      render(
+        <SettingsPanel
+          {...defaultProps}
+          parallelChunking={false}
+          onParallelChunkingChange={onParallelChunkingChange}
+        />
+      );
+      fireEvent.click(screen.getByRole('button', { name: /toggle settings/i }));
+
+      fireEvent.click(screen.getByLabelText('Translate parts of long texts in parallel'));
+
+      expect(onParallelChunkingChange).toHaveBeenCalledWith(true);
+    });
+  });
+
+  describe('Translation cache', () => {
+    it('should toggle the cache bypass and clear the cache', () => {
+      const onBypassCacheChange = vi.fn();
+      const onClearCache = vi.fn();
+      render(
+        <SettingsPanel
+          {...defaultProps}
+          bypassCache={false}
+          onBypassCacheChange={onBypassCacheChange}
+          onClearCache={onClearCache}
+        />
+      );
+      fireEvent.click(screen.getByRole('button', { name: /toggle settings/i }));
+
+      fireEvent.click(screen.getByLabelText('Bypass translation cache'));
+      fireEvent.click(screen.getByRole('button', { name: 'Clear translation cache' }));
+
+      expect(onBypassCacheChange).toHaveBeenCalledWith(true);
+      expect(onClearCache).toHaveBeenCalled();
+    });
+  });
+
+  describe('Back-translation check', () => {
+    it('should toggle the back-translation check', () => {
+      const onBackTranslationCheckChange = vi.fn();
+      render(
+        <SettingsPanel
+          {...defaultProps}
+          backTranslationCheck={false}
+          onBackTranslationCheckChange={onBackTranslationCheckChange}
+        />
+      );
+      fireEvent.click(screen.getByRole('button', { name: /toggle settings/i }));
+
+      fireEvent.click(screen.getByLabelText('Check meaning with a back-translation'));
+
+      expect(onBackTranslationCheckChange).toHaveBeenCalledWith(true);
+    });
+  });
+
+  describe('Gloss mode', () => {
+    it('should toggle the word-by-word gloss', () => {
+      const onGlossModeChange = vi.fn();
+      render(<SettingsPanel {...defaultProps} glossMode={false} onGlossModeChange={onGlossModeChange} />);
+      fireEvent.click(screen.getByRole('button', { name: /toggle settings/i }));
+
+      fireEvent.click(screen.getByLabelText('Word-by-word gloss'));
+
+      expect(onGlossModeChange).toHaveBeenCalledWith(true);
+    });
+  });
+
+  describe('Romanization', () => {
+    it('should report the chosen standard for a language', () => {
+      const onTranscriptionSettingsChange = vi.fn();
+      render(
+        <SettingsPanel
+          {...defaultProps}
+          transcriptionSettings={{}}
+          onTranscriptionSettingsChange={onTranscriptionSettingsChange}
+        />
+      );
+      fireEvent.click(screen.getByRole('button', { name: /toggle settings/i }));
+
+      fireEvent.change(screen.getByLabelText('Korean'), { target: { value: 'yale' } });
+
+      expect(onTranscriptionSettingsChange).toHaveBeenCalledWith({ ko: 'yale' });
+    });
+  });
+
+  describe('Retry policy', () => {
+    it('should show the retry settings and report changes', () => {
+      const onRetryPolicyChange = vi.fn();
+      render(
+        <SettingsPanel
+          {...defaultProps}
+          retryPolicy={DEFAULT_RETRY_POLICY}
+          onRetryPolicyChange={onRetryPolicyChange}
+        />
+      );
+      fireEvent.click(screen.getByRole('button', { name: /toggle settings/i }));
+
+      fireEvent.change(screen.getByLabelText('Max attempts'), { target: { value: '4' } });
+
+      expect(onRetryPolicyChange).toHaveBeenCalledWith({ ...DEFAULT_RETRY_POLICY, maxAttempts: 4 });
+    });
+  });
 });
@@ -3,12 +3,15 @@ import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { TranslationInterface } from '../TranslationInterface';
 import { OpenRouterService } from '../../services/OpenRouterService';
+import { StorageService } from '../../services/StorageService';
 import type { Model } from '../../types';
 
 // Mock OpenRouterService
 vi.mock('../../services/OpenRouterService', () => ({
   OpenRouterService: {
     translate: vi.fn(),
+    reviewMeaning: vi.fn(),
+    reviewTranslation: vi.fn(),
   },
 }));
 
@@ -104,13 +107,18 @@ describe('TranslationInterface', () => {
         expect(mockTranslate).toHaveBeenCalledWith(
           {
             apiKey: 'test-api-key',
+            baseUrl: 'https://openrouter.ai/api/v1',
             model: 'openai/gpt-4',
             sourceText: 'Hello world',
             fromLanguage: 'en',
             toLanguage: 'ja',
             context: undefined,
+            structuredOutput: false,
+            romanization: 'hepburn',
           },
-          expect.any(AbortSignal)
+          expect.any(AbortSignal),
+          expect.any(Function),
+          expect.objectContaining({ onRetry: expect.any(Function) })
         );
       });
     });
@@ -156,6 +164,33 @@ describe('TranslationInterface', () => {
       });
     });
 
+    it('should count down to the next retry on the translate button', async () => {
+      const user = userEvent.setup();
+      const mockTranslate = vi.mocked(OpenRouterService.translate);
+      let resolveTranslation: (value: { translation: string }) => void;
+      mockTranslate.mockImplementation((_request, _signal, _onProgress, retry) => {
+        retry?.onRetry?.({ attempt: 2, maxAttempts: 3, delayMs: 5000 });
+        return new Promise((resolve) => {
+          resolveTranslation = resolve;
+        });
+      });
+
+      render(<TranslationInterface {...defaultProps} />);
+
+      await user.type(screen.getByRole('textbox', { name: /input text/i }), 'Hello world');
+      await user.click(screen.getAllByRole('button', { name: /translate text/i })[0]);
+
+      await waitFor(() => {
+        expect(screen.getAllByText('Retrying in 5s (attempt 2/3)').length).toBeGreaterThan(0);
+      });
+
+      resolveTranslation!({ translation: 'こんにちは世界' });
+
+      await waitFor(() => {
+        expect(screen.queryByText(/retrying in/i)).not.toBeInTheDocument();
+      });
+    });
+
     it('should display successful translation', async () => {
       const user = userEvent.setup();
       const mockTranslate = vi.mocked(OpenRouterService.translate);
@@ -183,6 +218,62 @@ describe('TranslationInterface', () => {
       });
     });
 
+    it('should send fallback models and label a translation from a fallback', async () => {
+      const user = userEvent.setup();
+      const mockTranslate = vi.mocked(OpenRouterService.translate);
+      mockTranslate.mockResolvedValue({ translation: 'こんにちは世界', model: 'openai/gpt-3.5-turbo' });
+
+      render(
+        <TranslationInterface
+          {...defaultProps}
+          fallbackModels={['openai/gpt-3.5-turbo']}
+          onFallbackModelsChange={vi.fn()}
+        />
+      );
+
+      await user.type(screen.getByRole('textbox', { name: /input text/i }), 'Hello world');
+      await user.click(screen.getAllByRole('button', { name: /translate text/i })[0]);
+
+      await waitFor(() => {
+        expect(screen.getByLabelText('Model used')).toHaveTextContent('Translated by GPT-3.5 Turbo (fallback)');
+      });
+      expect(mockTranslate.mock.calls[0][0].fallbackModels).toEqual(['openai/gpt-3.5-turbo']);
+    });
+
+    it('should render streamed partial translation before the request completes', async () => {
+      const user = userEvent.setup();
+      const mockTranslate = vi.mocked(OpenRouterService.translate);
+
+      let resolveTranslation: (value: { translation: string }) => void;
+      mockTranslate.mockImplementation((_request, _signal, onProgress) => {
+        onProgress?.({ translation: 'こんにち' });
+        return new Promise((resolve) => {
+          resolveTranslation = resolve;
+        });
+      });
+
+      render(<TranslationInterface {...defaultProps} />);
+
+      const inputTextarea = screen.getByRole('textbox', { name: /input text/i });
+      await user.type(inputTextarea, 'Hello');
+
+      const translateButton = screen.getAllByRole('button', { name: /translate text/i })[0];
+      await user.click(translateButton);
+
+      // Partial text shows while the request is still in flight
+      await waitFor(() => {
+        expect(screen.getByText('こんにち')).toBeInTheDocument();
+        expect(screen.getByRole('region', { name: /translation output/i })).toHaveAttribute('aria-busy', 'true');
+      });
+
+      resolveTranslation!({ translation: 'こんにちは' });
+
+      await waitFor(() => {
+        expect(screen.getByText('こんにちは')).toBeInTheDocument();
+        expect(screen.getByRole('region', { name: /translation output/i })).toHaveAttribute('aria-busy', 'false');
+      });
+    });
+
     it('should display error state when translation fails', async () => {
       const user = userEvent.setup();
       const mockTranslate = vi.mocked(OpenRouterService.translate);
@@ -417,6 +508,95 @@ describe('TranslationInterface', () => {
     });
   });
 
+  describe('Structured Output', () => {
+    it('should request structured output for models that support it and count the mode used', async () => {
+      const user = userEvent.setup();
+      const mockTranslate = vi.mocked(OpenRouterService.translate);
+      mockTranslate.mockResolvedValue({ translation: 'こんにちは', outputMode: 'json_schema' });
+      localStorage.clear();
+
+      render(
+        <TranslationInterface
+          {...defaultProps}
+          availableModels={[{ ...mockModels[0], supportedParameters: ['structured_outputs'] }]}
+        />
+      );
+
+      await user.type(screen.getByRole('textbox', { name: /input text/i }), 'Hello');
+      await user.click(screen.getAllByRole('button', { name: /translate text/i })[0]);
+
+      await waitFor(() => {
+        expect(mockTranslate).toHaveBeenCalledWith(
+          expect.objectContaining({ structuredOutput: true }),
+          expect.any(AbortSignal),
+          expect.any(Function),
+          expect.objectContaining({ onRetry: expect.any(Function) })
+        );
+        expect(StorageService.getOutputModeStats().json_schema).toBe(1);
+      });
+    });
+  });
+
+  describe('Usage Tracking', () => {
+    it('should show the cost of a translation and add it to the running totals', async () => {
+      const user = userEvent.setup();
+      const mockTranslate = vi.mocked(OpenRouterService.translate);
+      mockTranslate.mockResolvedValue({
+        translation: 'こんにちは',
+        usage: { promptTokens: 1000, completionTokens: 100 },
+      });
+      localStorage.clear();
+
+      render(
+        <TranslationInterface
+          {...defaultProps}
+          availableModels={[{ ...mockModels[0], pricing: { prompt: 0.000001, completion: 0.000002 } }]}
+        />
+      );
+
+      await user.type(screen.getByRole('textbox', { name: /input text/i }), 'Hello');
+      await user.click(screen.getAllByRole('button', { name: /translate text/i })[0]);
+
+      await waitFor(() => {
+        expect(screen.getByLabelText('Token usage')).toHaveTextContent('$0.0012');
+      });
+      expect(StorageService.getUsageStats().byModel[mockModels[0].id]).toMatchObject({
+        requests: 1,
+        promptTokens: 1000,
+        completionTokens: 100,
+      });
+    });
+  });
+
+  describe('Translation Cache', () => {
+    it('should reuse the translation of an identical request', async () => {
+      const user = userEvent.setup();
+      const mockTranslate = vi.mocked(OpenRouterService.translate);
+      mockTranslate.mockResolvedValue({
+        translation: 'こんにちは',
+        usage: { promptTokens: 100, completionTokens: 10 },
+      });
+      localStorage.clear();
+
+      render(<TranslationInterface {...defaultProps} />);
+
+      await user.type(screen.getByRole('textbox', { name: /input text/i }), 'Hello');
+      const translateButton = screen.getAllByRole('button', { name: /translate text/i })[0];
+      await user.click(translateButton);
+      await waitFor(() => {
+        expect(screen.getByText(/completion tokens/)).toBeInTheDocument();
+      });
+
+      await user.click(translateButton);
+
+      await waitFor(() => {
+        expect(screen.getByText('From cache · no tokens used')).toBeInTheDocument();
+      });
+      expect(mockTranslate).toHaveBeenCalledTimes(1);
+      expect(StorageService.getUsageStats().byModel['openai/gpt-4'].requests).toBe(1);
+    });
+  });
+
   describe('Context Integration', () => {
     it('should include context in translation request when provided', async () => {
       const user = userEvent.setup();
@@ -443,15 +623,406 @@ describe('TranslationInterface', () => {
         expect(mockTranslate).toHaveBeenCalledWith(
           {
             apiKey: 'test-api-key',
+            baseUrl: 'https://openrouter.ai/api/v1',
             model: 'openai/gpt-4',
             sourceText: 'Hello world',
             fromLanguage: 'en',
             toLanguage: 'ja',
             context: 'formal business setting',
+            structuredOutput: false,
+            romanization: 'hepburn',
           },
-          expect.any(AbortSignal)
+          expect.any(AbortSignal),
+          expect.any(Function),
+          expect.objectContaining({ onRetry: expect.any(Function) })
         );
       });
     });
   });
+
+  describe('Compare mode', () => {
+    it('should translate with every compared model and record a vote', async () => {
+      const user = userEvent.setup();
+      vi.mocked(OpenRouterService.translate).mockImplementation(async (request) => ({
+        translation: request.model === 'openai/gpt-4' ? 'GPT-4 says hi' : 'Turbo says hi',
+      }));
+
+      render(<TranslationInterface {...defaultProps} />);
+
+      await user.click(screen.getByLabelText('Compare models side by side'));
+      await user.selectOptions(screen.getByLabelText('Add a model to compare'), 'openai/gpt-3.5-turbo');
+      await user.type(screen.getByRole('textbox', { name: /input text/i }), 'Hello');
+      await user.click(screen.getAllByRole('button', { name: /translate text/i })[0]);
+
+      await waitFor(() => {
+        expect(screen.getByRole('group', { name: 'GPT-4' })).toHaveTextContent('GPT-4 says hi');
+        expect(screen.getByRole('group', { name: 'GPT-3.5 Turbo' })).toHaveTextContent('Turbo says hi');
+      });
+      expect(OpenRouterService.translate).toHaveBeenCalledTimes(2);
+
+      await user.click(screen.getByRole('button', { name: 'Vote for GPT-3.5 Turbo' }));
+
+      const [ratings] = Object.values(StorageService.getModelRatings());
+      expect(ratings['openai/gpt-3.5-turbo'].rating).toBeGreaterThan(ratings['openai/gpt-4'].rating);
+      expect(screen.getByRole('group', { name: 'GPT-3.5 Turbo' })).toHaveTextContent('Your pick');
+    });
+
+    it('should need at least two models to compare', async () => {
+      const user = userEvent.setup();
+      render(<TranslationInterface {...defaultProps} />);
+
+      await user.click(screen.getByLabelText('Compare models side by side'));
+      await user.type(screen.getByRole('textbox', { name: /input text/i }), 'Hello');
+
+      expect(screen.getAllByRole('button', { name: /translate text/i })[0]).toBeDisabled();
+    });
+  });
+
+  describe('Back-translation check', () => {
+    it('should translate the output back and show the flagged changes when enabled', async () => {
+      const user = userEvent.setup();
+      localStorage.clear();
+      StorageService.setBackTranslationCheck(true);
+      vi.mocked(OpenRouterService.translate).mockImplementation(async (request) => ({
+        translation: request.fromLanguage === 'en' ? '会議は土曜日です' : 'The meeting is on Saturday',
+      }));
+      vi.mocked(OpenRouterService.reviewMeaning).mockResolvedValue({
+        meaningPreserved: false,
+        changes: [{ original: 'Friday', backTranslation: 'Saturday', explanation: 'The day changed' }],
+      });
+
+      render(<TranslationInterface {...defaultProps} />);
+
+      await user.type(screen.getByRole('textbox', { name: /input text/i }), 'The meeting is on Friday');
+      await user.click(screen.getAllByRole('button', { name: /translate text/i })[0]);
+
+      await waitFor(() => {
+        expect(screen.getByRole('status')).toHaveTextContent('The day changed');
+      });
+      expect(OpenRouterService.translate).toHaveBeenLastCalledWith(
+        expect.objectContaining({ sourceText: '会議は土曜日です', fromLanguage: 'ja', toLanguage: 'en' }),
+        expect.any(AbortSignal),
+        undefined,
+        expect.anything()
+      );
+      expect(screen.getByText('Saturday', { selector: 'ins' })).toBeInTheDocument();
+    });
+
+    it('should not check translations when disabled', async () => {
+      const user = userEvent.setup();
+      localStorage.clear();
+      vi.mocked(OpenRouterService.translate).mockResolvedValue({ translation: 'こんにちは' });
+
+      render(<TranslationInterface {...defaultProps} />);
+
+      await user.type(screen.getByRole('textbox', { name: /input text/i }), 'Hello');
+      await user.click(screen.getAllByRole('button', { name: /translate text/i })[0]);
+
+      await waitFor(() => {
+        expect(screen.getByText('こんにちは')).toBeInTheDocument();
+      });
+      expect(OpenRouterService.translate).toHaveBeenCalledTimes(1);
+      expect(OpenRouterService.reviewMeaning).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Quality review', () => {
+    it('should score the translation with the chosen judge model', async () => {
+      const user = userEvent.setup();
+      localStorage.clear();
+      vi.mocked(OpenRouterService.translate).mockResolvedValue({ translation: 'こんにちは' });
+      vi.mocked(OpenRouterService.reviewTranslation).mockImplementation(async (request) => ({
+        model: request.model,
+        scores: {
+          accuracy: { score: 5, justification: 'Same meaning' },
+          fluency: { score: 5, justification: 'Natural' },
+          terminology: { score: 5, justification: 'Correct' },
+          register: { score: 2, justification: 'Too casual' },
+          omissions: { score: 5, justification: 'Nothing missing' },
+        },
+      }));
+
+      render(<TranslationInterface {...defaultProps} />);
+
+      expect(screen.queryByRole('button', { name: 'Review translation' })).not.toBeInTheDocument();
+
+      await user.type(screen.getByRole('textbox', { name: /input text/i }), 'Hello');
+      await user.click(screen.getAllByRole('button', { name: /translate text/i })[0]);
+      await user.selectOptions(await screen.findByLabelText('Judge model'), 'openai/gpt-3.5-turbo');
+      await user.click(screen.getByRole('button', { name: 'Review translation' }));
+
+      await waitFor(() => {
+        expect(screen.getByText('Too casual')).toBeInTheDocument();
+      });
+      expect(OpenRouterService.reviewTranslation).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'openai/gpt-3.5-turbo', sourceText: 'Hello', translation: 'こんにちは' }),
+        expect.any(AbortSignal)
+      );
+      expect(StorageService.getJudgeModel()).toBe('openai/gpt-3.5-turbo');
+    });
+  });
+
+  describe('Alternatives', () => {
+    it('should show the alternatives of the translation', async () => {
+      const user = userEvent.setup();
+      localStorage.clear();
+      vi.mocked(OpenRouterService.translate).mockResolvedValue({
+        translation: 'こんにちは',
+        alternatives: [{ text: 'やあ', register: 'casual', whenToUse: 'With friends' }],
+      });
+
+      render(<TranslationInterface {...defaultProps} />);
+
+      await user.type(screen.getByRole('textbox', { name: /input text/i }), 'Hi');
+      await user.click(screen.getAllByRole('button', { name: /translate text/i })[0]);
+
+      expect(await screen.findByRole('button', { name: /やあ/ })).toHaveTextContent('With friends');
+    });
+  });
+
+  describe('Glossary', () => {
+    it('should send the matching glossary terms and flag a translation that breaks them', async () => {
+      const user = userEvent.setup();
+      localStorage.clear();
+      const entry = {
+        id: '1',
+        sourceTerm: 'dashboard',
+        targetTerm: 'ダッシュボード',
+        fromLanguage: 'en',
+        toLanguage: 'ja',
+        caseSensitive: false,
+        forbiddenTranslations: ['管理画面'],
+      };
+      StorageService.setGlossary([entry, { ...entry, id: '2', sourceTerm: 'invoice', targetTerm: '請求書' }]);
+      vi.mocked(OpenRouterService.translate).mockResolvedValue({ translation: '管理画面を開く' });
+
+      render(<TranslationInterface {...defaultProps} />);
+
+      await user.type(screen.getByRole('textbox', { name: /input text/i }), 'Open the dashboard');
+      await user.click(screen.getAllByRole('button', { name: /translate text/i })[0]);
+
+      expect(await screen.findByRole('group', { name: 'Glossary check' })).toHaveTextContent('管理画面 is forbidden');
+      expect(vi.mocked(OpenRouterService.translate).mock.calls[0][0].glossary).toEqual([entry]);
+    });
+  });
+
+  describe('Translation memory', () => {
+    it('should save an approved translation and reuse it without an API call', async () => {
+      const user = userEvent.setup();
+      localStorage.clear();
+      StorageService.setLanguagePreferences({ fromLanguage: 'en', toLanguage: 'de' });
+      vi.mocked(OpenRouterService.translate).mockResolvedValue({ translation: 'Fehlerbehebungen. Neue Funktionen.' });
+
+      render(<TranslationInterface {...defaultProps} />);
+
+      const input = screen.getByRole('textbox', { name: /input text/i });
+      await user.type(input, 'Bug fixes. New features.');
+      await user.click(screen.getAllByRole('button', { name: /translate text/i })[0]);
+      await user.click(await screen.findByRole('button', { name: 'Save to translation memory' }));
+
+      expect(StorageService.getTranslationMemory()).toEqual([
+        expect.objectContaining({ sourceText: 'Bug fixes.', targetText: 'Fehlerbehebungen.', fromLanguage: 'en', toLanguage: 'de' }),
+        expect.objectContaining({ sourceText: 'New features.', targetText: 'Neue Funktionen.' }),
+      ]);
+
+      await user.clear(input);
+      await user.type(input, 'New features. Bug fixes.');
+      await waitFor(() => {
+        expect(screen.getByRole('region', { name: 'Translation memory matches' }))
+          .toHaveTextContent('Every segment is in the translation memory');
+      });
+
+      await user.click(screen.getAllByRole('button', { name: /translate text/i })[0]);
+
+      expect(await screen.findByText('Neue Funktionen. Fehlerbehebungen.')).toBeInTheDocument();
+      expect(screen.getByText(/From translation memory/)).toBeInTheDocument();
+      expect(OpenRouterService.translate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should explain when browser storage is too full to approve a translation', async () => {
+      const user = userEvent.setup();
+      localStorage.clear();
+      StorageService.setLanguagePreferences({ fromLanguage: 'en', toLanguage: 'de' });
+      vi.mocked(OpenRouterService.translate).mockResolvedValue({ translation: 'Bekannte Fehler.' });
+      const setTranslationMemory = vi.spyOn(StorageService, 'setTranslationMemory').mockImplementation(() => {
+        throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+      });
+
+      render(<TranslationInterface {...defaultProps} />);
+
+      await user.type(screen.getByRole('textbox', { name: /input text/i }), 'Known bugs.');
+      await user.click(screen.getAllByRole('button', { name: /translate text/i })[0]);
+      await user.click(await screen.findByRole('button', { name: 'Save to translation memory' }));
+
+      expect(screen.getByText(/Could not save to the translation memory: not enough browser storage/)).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Save to translation memory' })).toBeInTheDocument();
+      setTranslationMemory.mockRestore();
+    });
+
+    it('should reuse the memory when translating before the lookup has caught up with typing', async () => {
+      const user = userEvent.setup();
+      localStorage.clear();
+      StorageService.setLanguagePreferences({ fromLanguage: 'en', toLanguage: 'de' });
+      StorageService.setTranslationMemory([{
+        id: '1',
+        sourceText: 'Known issues.',
+        targetText: 'Bekannte Probleme.',
+        fromLanguage: 'en',
+        toLanguage: 'de',
+        createdAt: 1,
+      }]);
+
+      render(<TranslationInterface {...defaultProps} />);
+
+      await user.click(screen.getByRole('textbox', { name: /input text/i }));
+      await user.paste('Known issues.');
+      await user.click(screen.getAllByRole('button', { name: /translate text/i })[0]);
+
+      expect(await screen.findByText('Bekannte Probleme.')).toBeInTheDocument();
+      expect(OpenRouterService.translate).not.toHaveBeenCalled();
+    });
+
+    it('should send fuzzy matches to the model as reference', async () => {
+      const user = userEvent.setup();
+      localStorage.clear();
+      StorageService.setLanguagePreferences({ fromLanguage: 'en', toLanguage: 'de' });
+      StorageService.setTranslationMemory([{
+        id: '1',
+        sourceText: 'Bug fixes and improvements.',
+        targetText: 'Fehlerbehebungen und Verbesserungen.',
+        fromLanguage: 'en',
+        toLanguage: 'de',
+        createdAt: 1,
+      }]);
+      vi.mocked(OpenRouterService.translate).mockResolvedValue({ translation: 'Fehlerbehebungen und Verbesserung.' });
+
+      render(<TranslationInterface {...defaultProps} />);
+
+      await user.type(screen.getByRole('textbox', { name: /input text/i }), 'Bug fixes and improvement.');
+      await waitFor(() => {
+        expect(screen.getByRole('region', { name: 'Translation memory matches' })).toHaveTextContent('96%');
+      });
+
+      await user.click(screen.getAllByRole('button', { name: /translate text/i })[0]);
+
+      await waitFor(() => {
+        expect(OpenRouterService.translate).toHaveBeenCalled();
+      });
+      expect(vi.mocked(OpenRouterService.translate).mock.calls[0][0].memoryMatches).toEqual([
+        expect.objectContaining({ segment: 'Bug fixes and improvement.', score: 96 }),
+      ]);
+    });
+  });
+
+  describe('Gloss mode', () => {
+    it('should ask for a gloss and show it under the translation', async () => {
+      const user = userEvent.setup();
+      localStorage.clear();
+      StorageService.setLanguagePreferences({ fromLanguage: 'ja', toLanguage: 'en' });
+      StorageService.setGlossMode(true);
+      vi.mocked(OpenRouterService.translate).mockResolvedValue({
+        translation: 'I like cats',
+        gloss: [
+          { source: '猫', target: 'cats', partOfSpeech: 'noun', dictionaryForm: '猫', reading: 'neko' },
+          { source: '好き', target: 'like', partOfSpeech: 'adjectival noun', dictionaryForm: '好き', reading: 'suki' },
+        ],
+      });
+
+      render(<TranslationInterface {...defaultProps} />);
+
+      await user.type(screen.getByRole('textbox', { name: /input text/i }), '猫が好き');
+      await user.click(screen.getAllByRole('button', { name: /translate text/i })[0]);
+
+      const gloss = await screen.findByRole('region', { name: 'Word-by-word gloss' });
+      expect(gloss).toHaveTextContent('neko');
+      expect(gloss).toHaveTextContent('adjectival noun');
+      expect(vi.mocked(OpenRouterService.translate).mock.calls[0][0].includeGloss).toBe(true);
+    });
+  });
+
+  describe('Local romanization', () => {
+    it('should check the model\'s transcription against the rule-based one for the target language', async () => {
+      const user = userEvent.setup();
+      localStorage.clear();
+      StorageService.setLanguagePreferences({ fromLanguage: 'en', toLanguage: 'ru' });
+      vi.mocked(OpenRouterService.translate).mockResolvedValue({ translation: 'Привет', transcription: 'prʲɪˈvʲet' });
+
+      render(<TranslationInterface {...defaultProps} />);
+
+      await user.type(screen.getByRole('textbox', { name: /input text/i }), 'Hi there');
+      await user.click(screen.getAllByRole('button', { name: /translate text/i })[0]);
+
+      const transcription = await screen.findByRole('complementary', { name: 'Transcription' });
+      await waitFor(() => {
+        expect(transcription).toHaveTextContent('Romanized by rule');
+      });
+      expect(transcription).toHaveTextContent('Privet');
+    });
+
+    it('should send and romanize with the standard chosen for the target language', async () => {
+      const user = userEvent.setup();
+      localStorage.clear();
+      StorageService.setLanguagePreferences({ fromLanguage: 'en', toLanguage: 'ru' });
+      StorageService.setTranscriptionSettings({ ru: 'iso9' });
+      vi.mocked(OpenRouterService.translate).mockResolvedValue({ translation: 'Щи', transcription: 'ʃʲːi' });
+
+      render(<TranslationInterface {...defaultProps} />);
+
+      await user.type(screen.getByRole('textbox', { name: /input text/i }), 'Cabbage soup');
+      await user.click(screen.getAllByRole('button', { name: /translate text/i })[0]);
+
+      const transcription = await screen.findByRole('complementary', { name: 'Transcription' });
+      await waitFor(() => {
+        expect(transcription).toHaveTextContent('Ŝi');
+      });
+      expect(vi.mocked(OpenRouterService.translate).mock.calls[0][0].romanization).toBe('iso9');
+    });
+  });
+
+  describe('Language swap', () => {
+    it('should swap with the detected language and continue from the translation', async () => {
+      const user = userEvent.setup();
+      localStorage.clear();
+      StorageService.setLanguagePreferences({ fromLanguage: 'auto', toLanguage: 'en' });
+      vi.mocked(OpenRouterService.translate).mockResolvedValue({ translation: 'Good morning', detectedLanguage: 'ja' });
+
+      render(<TranslationInterface {...defaultProps} />);
+
+      expect(screen.getByLabelText('Swap languages')).toBeDisabled();
+
+      await user.type(screen.getByRole('textbox', { name: /input text/i }), 'おはよう');
+      await user.click(screen.getAllByRole('button', { name: /translate text/i })[0]);
+
+      expect(await screen.findByRole('option', { name: 'Detected: Japanese' })).toBeInTheDocument();
+      await user.click(screen.getByLabelText('Swap languages'));
+
+      expect(screen.getByLabelText('Source language')).toHaveValue('en');
+      expect(screen.getByLabelText('Target language')).toHaveValue('ja');
+      expect(screen.getByRole('textbox', { name: /input text/i })).toHaveValue('Good morning');
+      expect(screen.getByText('Translation will appear here...')).toBeInTheDocument();
+    });
+  });
+
+  describe('Prompt templates', () => {
+    it('should translate with the active prompt version and name it', async () => {
+      const user = userEvent.setup();
+      localStorage.clear();
+      const template = { system: 'Be terse.', user: 'To {{toLanguage}}: {{sourceText}}' };
+      StorageService.setPromptSettings({
+        versions: [{ id: 'v1', name: 'Terse', createdAt: 1, ...template }],
+        activeVersionId: 'v1',
+      });
+      vi.mocked(OpenRouterService.translate).mockResolvedValue({ translation: 'こんにちは' });
+
+      render(<TranslationInterface {...defaultProps} />);
+
+      await user.type(screen.getByRole('textbox', { name: /input text/i }), 'Hello');
+      await user.click(screen.getAllByRole('button', { name: /translate text/i })[0]);
+
+      await waitFor(() => {
+        expect(screen.getByLabelText('Prompt version')).toHaveTextContent('Prompt version: Terse');
+      });
+      expect(vi.mocked(OpenRouterService.translate).mock.calls[0][0].promptTemplate).toEqual(template);
+    });
+  });
 });
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { TranslationMemoryManager } from '../TranslationMemoryManager';
+import type { TranslationMemoryUnit } from '../../types';
+
+describe('TranslationMemoryManager', () => {
+  const mockOnChange = vi.fn();
+
+  const unit: TranslationMemoryUnit = {
+    id: '1',
+    sourceText: 'Bug fixes.',
+    targetText: 'Fehlerbehebungen.',
+    fromLanguage: 'en',
+    toLanguage: 'de',
+    createdAt: 1,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should count the segments of each language pair', () => {
+    render(
+      <TranslationMemoryManager
+        units={[unit, { ...unit, id: '2', sourceText: 'New features.' }, { ...unit, id: '3', toLanguage: 'fr' }]}
+        onChange={mockOnChange}
+      />
+    );
+
+    const list = screen.getByRole('list', { name: 'Segments per language pair' });
+    expect(list).toHaveTextContent('en → de2 segments');
+    expect(list).toHaveTextContent('en → fr1 segment');
+  });
+
+  it('should import a TMX file, replacing older translations of the same segments', async () => {
+    render(<TranslationMemoryManager units={[unit]} onChange={mockOnChange} />);
+    const tmx = '<tmx version="1.4"><header srclang="en"/><body>' +
+      '<tu><tuv xml:lang="en"><seg>Bug fixes.</seg></tuv><tuv xml:lang="de"><seg>Korrekturen.</seg></tuv></tu>' +
+      '<tu><tuv xml:lang="en"><seg>New features.</seg></tuv><tuv xml:lang="de"><seg>Neue Funktionen.</seg></tuv></tu>' +
+      '</body></tmx>';
+
+    fireEvent.change(screen.getByLabelText('Import TMX'), {
+      target: { files: [new File([tmx], 'memory.tmx')] },
+    });
+
+    await waitFor(() => {
+      expect(screen.getByRole('status')).toHaveTextContent('Imported 2 segments, replacing 1 already in the memory');
+    });
+    expect(mockOnChange).toHaveBeenCalledWith([
+      expect.objectContaining({ sourceText: 'Bug fixes.', targetText: 'Korrekturen.' }),
+      expect.objectContaining({ sourceText: 'New features.' }),
+    ]);
+  });
+
+  it('should report files that cannot be read', async () => {
+    render(<TranslationMemoryManager units={[]} onChange={mockOnChange} />);
+
+    fireEvent.change(screen.getByLabelText('Import TMX'), {
+      target: { files: [new File(['not xml'], 'memory.tmx')] },
+    });
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Could not import memory.tmx: Not a valid TMX file');
+    expect(mockOnChange).not.toHaveBeenCalled();
+  });
+
+  it('should explain when browser storage is full', async () => {
+    mockOnChange.mockImplementationOnce(() => {
+      throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+    });
+    render(<TranslationMemoryManager units={[]} onChange={mockOnChange} />);
+    const tmx = '<tmx version="1.4"><header srclang="en"/><body>' +
+      '<tu><tuv xml:lang="en"><seg>Bug fixes.</seg></tuv><tuv xml:lang="de"><seg>Korrekturen.</seg></tuv></tu>' +
+      '</body></tmx>';
+
+    fireEvent.change(screen.getByLabelText('Import TMX'), {
+      target: { files: [new File([tmx], 'memory.tmx')] },
+    });
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Could not import memory.tmx: not enough browser storage');
+  });
+
+  it('should clear the memory', () => {
+    render(<TranslationMemoryManager units={[unit]} onChange={mockOnChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Clear memory' }));
+    expect(mockOnChange).toHaveBeenCalledWith([]);
+  });
+});
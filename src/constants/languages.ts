@@ -1,13 +1,253 @@
-export const LANGUAGES = [
-  { code: 'auto', name: 'Detect Language' },
-  { code: 'en', name: 'English' },
-  { code: 'ja', name: 'Japanese' },
-  { code: 'es', name: 'Spanish' },
-  { code: 'fr', name: 'French' },
-  { code: 'de', name: 'German' },
-  { code: 'zh', name: 'Chinese' },
-  { code: 'ko', name: 'Korean' },
-  { code: 'ar', name: 'Arabic' },
-  { code: 'ru', name: 'Russian' },
-  { code: 'pt', name: 'Portuguese' },
-] as const;
+import type { Language, Script } from '../types';
+
+/** The source language option that lets the model detect the language */
+export const AUTO_DETECT = { code: 'auto', name: 'Detect Language' } as const;
+
+/** Every language that can be translated from or to, by English name */
+export const LANGUAGES: Language[] = [
+  { code: 'af', name: 'Afrikaans', nativeName: 'Afrikaans', script: 'Latn', direction: 'ltr' },
+  { code: 'ak', name: 'Akan', nativeName: 'Akan', script: 'Latn', direction: 'ltr' },
+  { code: 'sq', name: 'Albanian', nativeName: 'Shqip', script: 'Latn', direction: 'ltr' },
+  { code: 'am', name: 'Amharic', nativeName: 'አማርኛ', script: 'Ethi', direction: 'ltr' },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية', script: 'Arab', direction: 'rtl' },
+  { code: 'hy', name: 'Armenian', nativeName: 'Հայերեն', script: 'Armn', direction: 'ltr' },
+  { code: 'as', name: 'Assamese', nativeName: 'অসমীয়া', script: 'Beng', direction: 'ltr' },
+  { code: 'ay', name: 'Aymara', nativeName: 'Aymar aru', script: 'Latn', direction: 'ltr' },
+  { code: 'az', name: 'Azerbaijani', nativeName: 'Azərbaycan dili', script: 'Latn', direction: 'ltr' },
+  { code: 'bm', name: 'Bambara', nativeName: 'Bamanankan', script: 'Latn', direction: 'ltr' },
+  { code: 'ba', name: 'Bashkir', nativeName: 'Башҡортса', script: 'Cyrl', direction: 'ltr' },
+  { code: 'eu', name: 'Basque', nativeName: 'Euskara', script: 'Latn', direction: 'ltr' },
+  { code: 'be', name: 'Belarusian', nativeName: 'Беларуская', script: 'Cyrl', direction: 'ltr' },
+  { code: 'bn', name: 'Bengali', nativeName: 'বাংলা', script: 'Beng', direction: 'ltr' },
+  { code: 'bho', name: 'Bhojpuri', nativeName: 'भोजपुरी', script: 'Deva', direction: 'ltr' },
+  { code: 'bs', name: 'Bosnian', nativeName: 'Bosanski', script: 'Latn', direction: 'ltr' },
+  { code: 'br', name: 'Breton', nativeName: 'Brezhoneg', script: 'Latn', direction: 'ltr' },
+  { code: 'bg', name: 'Bulgarian', nativeName: 'Български', script: 'Cyrl', direction: 'ltr' },
+  { code: 'my', name: 'Burmese', nativeName: 'မြန်မာ', script: 'Mymr', direction: 'ltr' },
+  { code: 'ca', name: 'Catalan', nativeName: 'Català', script: 'Latn', direction: 'ltr' },
+  { code: 'ceb', name: 'Cebuano', nativeName: 'Cebuano', script: 'Latn', direction: 'ltr' },
+  { code: 'ny', name: 'Chichewa', nativeName: 'Chichewa', script: 'Latn', direction: 'ltr' },
+  {
+    code: 'zh',
+    name: 'Chinese',
+    nativeName: '中文',
+    script: 'Hans',
+    direction: 'ltr',
+    variants: [
+      { code: 'zh-Hans', name: 'Chinese (Simplified)', nativeName: '简体中文', script: 'Hans' },
+      { code: 'zh-Hant', name: 'Chinese (Traditional)', nativeName: '繁體中文', script: 'Hant' },
+    ],
+  },
+  { code: 'cv', name: 'Chuvash', nativeName: 'Чӑвашла', script: 'Cyrl', direction: 'ltr' },
+  { code: 'co', name: 'Corsican', nativeName: 'Corsu', script: 'Latn', direction: 'ltr' },
+  { code: 'hr', name: 'Croatian', nativeName: 'Hrvatski', script: 'Latn', direction: 'ltr' },
+  { code: 'cs', name: 'Czech', nativeName: 'Čeština', script: 'Latn', direction: 'ltr' },
+  { code: 'da', name: 'Danish', nativeName: 'Dansk', script: 'Latn', direction: 'ltr' },
+  { code: 'dv', name: 'Dhivehi', nativeName: 'ދިވެހި', script: 'Thaa', direction: 'rtl' },
+  { code: 'nl', name: 'Dutch', nativeName: 'Nederlands', script: 'Latn', direction: 'ltr' },
+  { code: 'dz', name: 'Dzongkha', nativeName: 'རྫོང་ཁ', script: 'Tibt', direction: 'ltr' },
+  {
+    code: 'en',
+    name: 'English',
+    nativeName: 'English',
+    script: 'Latn',
+    direction: 'ltr',
+    variants: [
+      { code: 'en-GB', name: 'English (United Kingdom)', nativeName: 'English (United Kingdom)' },
+      { code: 'en-US', name: 'English (United States)', nativeName: 'English (United States)' },
+    ],
+  },
+  { code: 'eo', name: 'Esperanto', nativeName: 'Esperanto', script: 'Latn', direction: 'ltr' },
+  { code: 'et', name: 'Estonian', nativeName: 'Eesti', script: 'Latn', direction: 'ltr' },
+  { code: 'ee', name: 'Ewe', nativeName: 'Eʋegbe', script: 'Latn', direction: 'ltr' },
+  { code: 'fo', name: 'Faroese', nativeName: 'Føroyskt', script: 'Latn', direction: 'ltr' },
+  { code: 'fil', name: 'Filipino', nativeName: 'Filipino', script: 'Latn', direction: 'ltr' },
+  { code: 'fi', name: 'Finnish', nativeName: 'Suomi', script: 'Latn', direction: 'ltr' },
+  {
+    code: 'fr',
+    name: 'French',
+    nativeName: 'Français',
+    script: 'Latn',
+    direction: 'ltr',
+    variants: [
+      { code: 'fr-CA', name: 'French (Canada)', nativeName: 'Français (Canada)' },
+      { code: 'fr-FR', name: 'French (France)', nativeName: 'Français (France)' },
+    ],
+  },
+  { code: 'fy', name: 'Frisian', nativeName: 'Frysk', script: 'Latn', direction: 'ltr' },
+  { code: 'gl', name: 'Galician', nativeName: 'Galego', script: 'Latn', direction: 'ltr' },
+  { code: 'ka', name: 'Georgian', nativeName: 'ქართული', script: 'Geor', direction: 'ltr' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch', script: 'Latn', direction: 'ltr' },
+  { code: 'el', name: 'Greek', nativeName: 'Ελληνικά', script: 'Grek', direction: 'ltr' },
+  { code: 'gn', name: 'Guarani', nativeName: 'Avañeʼẽ', script: 'Latn', direction: 'ltr' },
+  { code: 'gu', name: 'Gujarati', nativeName: 'ગુજરાતી', script: 'Gujr', direction: 'ltr' },
+  { code: 'ht', name: 'Haitian Creole', nativeName: 'Kreyòl ayisyen', script: 'Latn', direction: 'ltr' },
+  { code: 'ha', name: 'Hausa', nativeName: 'Hausa', script: 'Latn', direction: 'ltr' },
+  { code: 'haw', name: 'Hawaiian', nativeName: 'ʻŌlelo Hawaiʻi', script: 'Latn', direction: 'ltr' },
+  { code: 'he', name: 'Hebrew', nativeName: 'עברית', script: 'Hebr', direction: 'rtl' },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', script: 'Deva', direction: 'ltr' },
+  { code: 'hmn', name: 'Hmong', nativeName: 'Hmoob', script: 'Latn', direction: 'ltr' },
+  { code: 'hu', name: 'Hungarian', nativeName: 'Magyar', script: 'Latn', direction: 'ltr' },
+  { code: 'is', name: 'Icelandic', nativeName: 'Íslenska', script: 'Latn', direction: 'ltr' },
+  { code: 'ig', name: 'Igbo', nativeName: 'Igbo', script: 'Latn', direction: 'ltr' },
+  { code: 'ilo', name: 'Ilocano', nativeName: 'Ilokano', script: 'Latn', direction: 'ltr' },
+  { code: 'id', name: 'Indonesian', nativeName: 'Bahasa Indonesia', script: 'Latn', direction: 'ltr' },
+  { code: 'ga', name: 'Irish', nativeName: 'Gaeilge', script: 'Latn', direction: 'ltr' },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano', script: 'Latn', direction: 'ltr' },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語', script: 'Jpan', direction: 'ltr' },
+  { code: 'jv', name: 'Javanese', nativeName: 'Basa Jawa', script: 'Latn', direction: 'ltr' },
+  { code: 'kn', name: 'Kannada', nativeName: 'ಕನ್ನಡ', script: 'Knda', direction: 'ltr' },
+  { code: 'kk', name: 'Kazakh', nativeName: 'Қазақ тілі', script: 'Cyrl', direction: 'ltr' },
+  { code: 'km', name: 'Khmer', nativeName: 'ខ្មែរ', script: 'Khmr', direction: 'ltr' },
+  { code: 'rw', name: 'Kinyarwanda', nativeName: 'Ikinyarwanda', script: 'Latn', direction: 'ltr' },
+  { code: 'kok', name: 'Konkani', nativeName: 'कोंकणी', script: 'Deva', direction: 'ltr' },
+  { code: 'ko', name: 'Korean', nativeName: '한국어', script: 'Kore', direction: 'ltr' },
+  { code: 'ku', name: 'Kurdish (Kurmanji)', nativeName: 'Kurmancî', script: 'Latn', direction: 'ltr' },
+  { code: 'ckb', name: 'Kurdish (Sorani)', nativeName: 'کوردیی ناوەندی', script: 'Arab', direction: 'rtl' },
+  { code: 'ky', name: 'Kyrgyz', nativeName: 'Кыргызча', script: 'Cyrl', direction: 'ltr' },
+  { code: 'lo', name: 'Lao', nativeName: 'ລາວ', script: 'Laoo', direction: 'ltr' },
+  { code: 'la', name: 'Latin', nativeName: 'Latina', script: 'Latn', direction: 'ltr' },
+  { code: 'lv', name: 'Latvian', nativeName: 'Latviešu', script: 'Latn', direction: 'ltr' },
+  { code: 'ln', name: 'Lingala', nativeName: 'Lingála', script: 'Latn', direction: 'ltr' },
+  { code: 'lt', name: 'Lithuanian', nativeName: 'Lietuvių', script: 'Latn', direction: 'ltr' },
+  { code: 'lg', name: 'Luganda', nativeName: 'Luganda', script: 'Latn', direction: 'ltr' },
+  { code: 'lb', name: 'Luxembourgish', nativeName: 'Lëtzebuergesch', script: 'Latn', direction: 'ltr' },
+  { code: 'mk', name: 'Macedonian', nativeName: 'Македонски', script: 'Cyrl', direction: 'ltr' },
+  { code: 'mai', name: 'Maithili', nativeName: 'मैथिली', script: 'Deva', direction: 'ltr' },
+  { code: 'mg', name: 'Malagasy', nativeName: 'Malagasy', script: 'Latn', direction: 'ltr' },
+  { code: 'ms', name: 'Malay', nativeName: 'Bahasa Melayu', script: 'Latn', direction: 'ltr' },
+  { code: 'ml', name: 'Malayalam', nativeName: 'മലയാളം', script: 'Mlym', direction: 'ltr' },
+  { code: 'mt', name: 'Maltese', nativeName: 'Malti', script: 'Latn', direction: 'ltr' },
+  { code: 'mi', name: 'Maori', nativeName: 'Te Reo Māori', script: 'Latn', direction: 'ltr' },
+  { code: 'mr', name: 'Marathi', nativeName: 'मराठी', script: 'Deva', direction: 'ltr' },
+  { code: 'mn', name: 'Mongolian', nativeName: 'Монгол', script: 'Cyrl', direction: 'ltr' },
+  { code: 'ne', name: 'Nepali', nativeName: 'नेपाली', script: 'Deva', direction: 'ltr' },
+  { code: 'nb', name: 'Norwegian Bokmål', nativeName: 'Norsk bokmål', script: 'Latn', direction: 'ltr' },
+  { code: 'nn', name: 'Norwegian Nynorsk', nativeName: 'Norsk nynorsk', script: 'Latn', direction: 'ltr' },
+  { code: 'oc', name: 'Occitan', nativeName: 'Occitan', script: 'Latn', direction: 'ltr' },
+  { code: 'or', name: 'Odia', nativeName: 'ଓଡ଼ିଆ', script: 'Orya', direction: 'ltr' },
+  { code: 'om', name: 'Oromo', nativeName: 'Afaan Oromoo', script: 'Latn', direction: 'ltr' },
+  { code: 'ps', name: 'Pashto', nativeName: 'پښتو', script: 'Arab', direction: 'rtl' },
+  { code: 'fa', name: 'Persian', nativeName: 'فارسی', script: 'Arab', direction: 'rtl' },
+  { code: 'pl', name: 'Polish', nativeName: 'Polski', script: 'Latn', direction: 'ltr' },
+  {
+    code: 'pt',
+    name: 'Portuguese',
+    nativeName: 'Português',
+    script: 'Latn',
+    direction: 'ltr',
+    variants: [
+      { code: 'pt-BR', name: 'Portuguese (Brazil)', nativeName: 'Português (Brasil)' },
+      { code: 'pt-PT', name: 'Portuguese (Portugal)', nativeName: 'Português (Portugal)' },
+    ],
+  },
+  { code: 'pa', name: 'Punjabi', nativeName: 'ਪੰਜਾਬੀ', script: 'Guru', direction: 'ltr' },
+  { code: 'qu', name: 'Quechua', nativeName: 'Runa Simi', script: 'Latn', direction: 'ltr' },
+  { code: 'ro', name: 'Romanian', nativeName: 'Română', script: 'Latn', direction: 'ltr' },
+  { code: 'ru', name: 'Russian', nativeName: 'Русский', script: 'Cyrl', direction: 'ltr' },
+  { code: 'sm', name: 'Samoan', nativeName: 'Gagana Sāmoa', script: 'Latn', direction: 'ltr' },
+  { code: 'sa', name: 'Sanskrit', nativeName: 'संस्कृतम्', script: 'Deva', direction: 'ltr' },
+  { code: 'gd', name: 'Scottish Gaelic', nativeName: 'Gàidhlig', script: 'Latn', direction: 'ltr' },
+  {
+    code: 'sr',
+    name: 'Serbian',
+    nativeName: 'Српски',
+    script: 'Cyrl',
+    direction: 'ltr',
+    variants: [
+      { code: 'sr-Cyrl', name: 'Serbian (Cyrillic)', nativeName: 'Српски (ћирилица)', script: 'Cyrl' },
+      { code: 'sr-Latn', name: 'Serbian (Latin)', nativeName: 'Srpski (latinica)', script: 'Latn' },
+    ],
+  },
+  { code: 'st', name: 'Sesotho', nativeName: 'Sesotho', script: 'Latn', direction: 'ltr' },
+  { code: 'sn', name: 'Shona', nativeName: 'chiShona', script: 'Latn', direction: 'ltr' },
+  { code: 'sd', name: 'Sindhi', nativeName: 'سنڌي', script: 'Arab', direction: 'rtl' },
+  { code: 'si', name: 'Sinhala', nativeName: 'සිංහල', script: 'Sinh', direction: 'ltr' },
+  { code: 'sk', name: 'Slovak', nativeName: 'Slovenčina', script: 'Latn', direction: 'ltr' },
+  { code: 'sl', name: 'Slovenian', nativeName: 'Slovenščina', script: 'Latn', direction: 'ltr' },
+  { code: 'so', name: 'Somali', nativeName: 'Soomaali', script: 'Latn', direction: 'ltr' },
+  {
+    code: 'es',
+    name: 'Spanish',
+    nativeName: 'Español',
+    script: 'Latn',
+    direction: 'ltr',
+    variants: [
+      { code: 'es-419', name: 'Spanish (Latin America)', nativeName: 'Español (Latinoamérica)' },
+      { code: 'es-ES', name: 'Spanish (Spain)', nativeName: 'Español (España)' },
+    ],
+  },
+  { code: 'su', name: 'Sundanese', nativeName: 'Basa Sunda', script: 'Latn', direction: 'ltr' },
+  { code: 'sw', name: 'Swahili', nativeName: 'Kiswahili', script: 'Latn', direction: 'ltr' },
+  { code: 'sv', name: 'Swedish', nativeName: 'Svenska', script: 'Latn', direction: 'ltr' },
+  { code: 'tg', name: 'Tajik', nativeName: 'Тоҷикӣ', script: 'Cyrl', direction: 'ltr' },
+  { code: 'ta', name: 'Tamil', nativeName: 'தமிழ்', script: 'Taml', direction: 'ltr' },
+  { code: 'tt', name: 'Tatar', nativeName: 'Татарча', script: 'Cyrl', direction: 'ltr' },
+  { code: 'te', name: 'Telugu', nativeName: 'తెలుగు', script: 'Telu', direction: 'ltr' },
+  { code: 'th', name: 'Thai', nativeName: 'ไทย', script: 'Thai', direction: 'ltr' },
+  { code: 'bo', name: 'Tibetan', nativeName: 'བོད་སྐད', script: 'Tibt', direction: 'ltr' },
+  { code: 'ti', name: 'Tigrinya', nativeName: 'ትግርኛ', script: 'Ethi', direction: 'ltr' },
+  { code: 'ts', name: 'Tsonga', nativeName: 'Xitsonga', script: 'Latn', direction: 'ltr' },
+  { code: 'tn', name: 'Tswana', nativeName: 'Setswana', script: 'Latn', direction: 'ltr' },
+  { code: 'tr', name: 'Turkish', nativeName: 'Türkçe', script: 'Latn', direction: 'ltr' },
+  { code: 'tk', name: 'Turkmen', nativeName: 'Türkmençe', script: 'Latn', direction: 'ltr' },
+  { code: 'uk', name: 'Ukrainian', nativeName: 'Українська', script: 'Cyrl', direction: 'ltr' },
+  { code: 'ur', name: 'Urdu', nativeName: 'اردو', script: 'Arab', direction: 'rtl' },
+  { code: 'ug', name: 'Uyghur', nativeName: 'ئۇيغۇرچە', script: 'Arab', direction: 'rtl' },
+  { code: 'uz', name: 'Uzbek', nativeName: 'Oʻzbekcha', script: 'Latn', direction: 'ltr' },
+  { code: 'vi', name: 'Vietnamese', nativeName: 'Tiếng Việt', script: 'Latn', direction: 'ltr' },
+  { code: 'cy', name: 'Welsh', nativeName: 'Cymraeg', script: 'Latn', direction: 'ltr' },
+  { code: 'wo', name: 'Wolof', nativeName: 'Wolof', script: 'Latn', direction: 'ltr' },
+  { code: 'xh', name: 'Xhosa', nativeName: 'isiXhosa', script: 'Latn', direction: 'ltr' },
+  { code: 'yi', name: 'Yiddish', nativeName: 'ייִדיש', script: 'Hebr', direction: 'rtl' },
+  { code: 'yo', name: 'Yoruba', nativeName: 'Yorùbá', script: 'Latn', direction: 'ltr' },
+  { code: 'zu', name: 'Zulu', nativeName: 'isiZulu', script: 'Latn', direction: 'ltr' },
+];
+
+/** The ISO 15924 scripts the languages are written in */
+export const SCRIPTS: Record<string, Script> = {
+  Arab: { name: 'Arabic', writingSystem: 'arabic' },
+  Armn: { name: 'Armenian', writingSystem: 'armenian' },
+  Beng: { name: 'Bengali', writingSystem: 'bengali' },
+  Cyrl: { name: 'Cyrillic', writingSystem: 'cyrillic' },
+  Deva: { name: 'Devanagari', writingSystem: 'devanagari' },
+  Ethi: { name: 'Ethiopic', writingSystem: 'ethiopic' },
+  Geor: { name: 'Georgian', writingSystem: 'georgian' },
+  Grek: { name: 'Greek', writingSystem: 'greek' },
+  Gujr: { name: 'Gujarati', writingSystem: 'gujarati' },
+  Guru: { name: 'Gurmukhi', writingSystem: 'gurmukhi' },
+  // Simplified and Traditional characters share pinyin
+  Hans: { name: 'Simplified Chinese', writingSystem: 'chinese' },
+  Hant: { name: 'Traditional Chinese', writingSystem: 'chinese' },
+  Hebr: { name: 'Hebrew', writingSystem: 'hebrew' },
+  Jpan: { name: 'Japanese', writingSystem: 'japanese' },
+  Khmr: { name: 'Khmer', writingSystem: 'khmer' },
+  Knda: { name: 'Kannada', writingSystem: 'kannada' },
+  Kore: { name: 'Korean', writingSystem: 'korean' },
+  Laoo: { name: 'Lao', writingSystem: 'lao' },
+  Latn: { name: 'Latin', writingSystem: 'latin' },
+  Mlym: { name: 'Malayalam', writingSystem: 'malayalam' },
+  Mymr: { name: 'Myanmar', writingSystem: 'myanmar' },
+  Orya: { name: 'Odia', writingSystem: 'odia' },
+  Sinh: { name: 'Sinhala', writingSystem: 'sinhala' },
+  Taml: { name: 'Tamil', writingSystem: 'tamil' },
+  Telu: { name: 'Telugu', writingSystem: 'telugu' },
+  Thaa: { name: 'Thaana', writingSystem: 'thaana' },
+  Thai: { name: 'Thai', writingSystem: 'thai' },
+  Tibt: { name: 'Tibetan', writingSystem: 'tibetan' },
+};
+
+/** Codes models and browsers use for listed languages, e.g. region subtags where the registry has a script */
+export const LANGUAGE_ALIASES: Record<string, string> = {
+  'zh-CN': 'zh-Hans',
+  'zh-SG': 'zh-Hans',
+  'zh-TW': 'zh-Hant',
+  'zh-HK': 'zh-Hant',
+  'zh-MO': 'zh-Hant',
+  'no': 'nb',
+  'tl': 'fil',
+  'iw': 'he',
+  'in': 'id',
+  'ji': 'yi',
+  'jw': 'jv',
+};
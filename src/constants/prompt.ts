@@ -0,0 +1,82 @@
+import type { PromptPlaceholder, PromptSettings } from '../types';
+
+// Bump whenever the built-in templates change, so cached translations made with the old prompt are not reused
+export const PROMPT_VERSION = 10;
+
+/** Name shown for results produced by the built-in templates */
+export const DEFAULT_PROMPT_VERSION_NAME = 'Default';
+
+export const PROMPT_PLACEHOLDERS: { name: PromptPlaceholder; description: string }[] = [
+  { name: 'sourceText', description: 'The text to translate' },
+  { name: 'fromLanguage', description: 'Source language code' },
+  { name: 'toLanguage', description: 'Target language code' },
+  { name: 'languageInstruction', description: 'Names of the language codes, and the script and variant to write in' },
+  { name: 'context', description: 'The context you entered, or empty' },
+  { name: 'transcriptionInstruction', description: 'Romanization request when the scripts differ, or empty' },
+  { name: 'glossaryInstruction', description: 'Glossary terms found in the text, or empty' },
+  { name: 'memoryInstruction', description: 'Similar past translations from the translation memory, or empty' },
+  { name: 'placeholderInstruction', description: 'Request to keep the tokens standing for protected text, or empty' },
+  { name: 'glossInstruction', description: 'Request for a word-by-word gloss with the words of the text, or empty' },
+  { name: 'furiganaInstruction', description: 'Request for the readings of a Japanese translation, or empty' },
+];
+
+export const DEFAULT_SYSTEM_PROMPT_TEMPLATE = `You are an expert translator. Provide translations that are culturally appropriate and contextually accurate. 
+Return ONLY a valid JSON object with the following structure (no markdown, no extra text):
+{
+  "translation": "the translated text in the target language",
+  "explanation": "explanation of translation choices, ambiguities, and cultural notes (ALWAYS in English)",
+  "transcription": "romanized transcription of the TRANSLATED text if source and target language use different writing systems (omit if not applicable)",
+  "detectedLanguage": "BCP-47 code of the language the source text is written in, with a script or region subtag only when it shows (e.g. ja for Japanese, pt-BR for Brazilian Portuguese, zh-Hant for Traditional Chinese)",
+  "alternatives": [
+    {
+      "text": "another valid translation in a different register or tone",
+      "register": "short register or tone label, e.g. casual, neutral, formal, polite",
+      "whenToUse": "when this alternative is the right choice (ALWAYS in English)",
+      "transcription": "romanized transcription of this alternative, under the same rules as above"
+    }
+  ],
+  "gloss": [
+    {
+      "source": "a word or phrase of the SOURCE text, copied exactly",
+      "target": "its counterpart in the translation",
+      "partOfSpeech": "part of speech in English, e.g. noun, verb, particle",
+      "dictionaryForm": "the form a dictionary lists the source word under",
+      "reading": "romanized reading of the source word if it is not written in Latin letters (empty otherwise)"
+    }
+  ],
+  "furigana": [
+    {
+      "text": "a run of the TRANSLATED text; the runs join back into the translation exactly",
+      "reading": "hiragana reading of the run if it contains kanji (empty otherwise)"
+    }
+  ]
+}
+
+IMPORTANT:
+- The "explanation" field must ALWAYS be written in English, regardless of source or target language
+- The "transcription" field should be a ROMANIZATION of the TRANSLATED (destination) text, NOT IPA phonetic symbols. Ex: "こんにちは" should be transcribed as "konnichiwa"
+- Use the romanization standard the user asks for; otherwise a standard system such as Hepburn romaji for Japanese or pinyin for Chinese
+- Do NOT use IPA symbols like ə, ʊ, ˈ - use Latin letters only
+- Ensure the JSON is complete and properly formatted
+- Only give "alternatives" for short phrases where other registers or tones are also correct, with at most 3 entries and none repeating "translation"; otherwise return an empty array
+- Only fill "gloss" when asked for a word-by-word gloss; otherwise return an empty array
+- Only fill "furigana" when asked for readings of a Japanese translation; otherwise return an empty array
+- Keep explanations concise but informative. Do not mention transcription in the explanation, explanation should just be an explanation of the translation itself.`;
+
+// {{#name}}...{{/name}} sections are left out when the placeholder is empty
+export const DEFAULT_USER_PROMPT_TEMPLATE =
+  'Translate the following text from {{fromLanguage}} to {{toLanguage}}:\n\n{{sourceText}}' +
+  '{{#languageInstruction}}\n\n{{languageInstruction}}{{/languageInstruction}}' +
+  '{{#context}}\n\nContext: {{context}}{{/context}}' +
+  '{{#glossaryInstruction}}\n\n{{glossaryInstruction}}{{/glossaryInstruction}}' +
+  '{{#memoryInstruction}}\n\n{{memoryInstruction}}{{/memoryInstruction}}' +
+  '{{#placeholderInstruction}}\n\n{{placeholderInstruction}}{{/placeholderInstruction}}' +
+  '{{#glossInstruction}}\n\n{{glossInstruction}}{{/glossInstruction}}' +
+  '{{#furiganaInstruction}}\n\n{{furiganaInstruction}}{{/furiganaInstruction}}' +
+  '{{#transcriptionInstruction}}\n\n{{transcriptionInstruction}}{{/transcriptionInstruction}}' +
+  '\n\nRemember: Write the explanation in English.';
+
+export const EMPTY_PROMPT_SETTINGS: PromptSettings = {
+  versions: [],
+  activeVersionId: null,
+};
@@ -0,0 +1,4 @@
+export const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+
+// Ollama's OpenAI-compatible API; LM Studio and vLLM default to :1234 and :8000
+export const CUSTOM_ENDPOINT_DEFAULT_BASE_URL = 'http://localhost:11434/v1';
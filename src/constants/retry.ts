@@ -0,0 +1,17 @@
+import type { RetryPolicy } from '../types';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: 0.2,
+  retryableErrors: [
+    'rate_limit',
+    'network',
+    'invalid_response',
+    'placeholder_mismatch',
+    'provider_timeout',
+    'unknown',
+  ],
+  honorRetryAfter: true,
+};
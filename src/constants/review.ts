@@ -0,0 +1,12 @@
+import type { ReviewDimension } from '../types';
+
+// Judge scores run from 1 (unusable) to this
+export const MAX_REVIEW_SCORE = 5;
+
+export const REVIEW_DIMENSIONS: { id: ReviewDimension; name: string; description: string }[] = [
+  { id: 'accuracy', name: 'Accuracy', description: 'the translation means the same as the source' },
+  { id: 'fluency', name: 'Fluency', description: 'the translation reads naturally in the target language' },
+  { id: 'terminology', name: 'Terminology', description: 'names and domain terms are translated correctly and consistently' },
+  { id: 'register', name: 'Register', description: 'the tone and formality match the source and context' },
+  { id: 'omissions', name: 'Omissions', description: 'nothing in the source was left out or added (5 = nothing missing)' },
+];
@@ -0,0 +1,47 @@
+import type { RomanizationStandard } from '../types';
+
+export interface RomanizationOption {
+  id: RomanizationStandard;
+  label: string;
+  /** How the prompt names the standard, with examples so the model can tell them apart */
+  description: string;
+}
+
+/** The standards to choose from per writing system; the first one is the default */
+export const ROMANIZATION_STANDARDS: Record<string, RomanizationOption[]> = {
+  japanese: [
+    { id: 'hepburn', label: 'Hepburn', description: 'Hepburn romaji (e.g. "shinbun", "chotto", "tsuzuku")' },
+    { id: 'kunrei', label: 'Kunrei-shiki', description: 'Kunrei-shiki romaji (e.g. "sinbun", "tyotto", "tuzuku")' },
+    {
+      id: 'nihon-shiki',
+      label: 'Nihon-shiki',
+      description: 'Nihon-shiki romaji (e.g. "sinbun", "tyotto", "tuduku", and "wo" for を)',
+    },
+  ],
+  chinese: [
+    { id: 'pinyin-marks', label: 'Pinyin with tone marks', description: 'pinyin with tone marks (e.g. "nǐ hǎo")' },
+    {
+      id: 'pinyin-numbers',
+      label: 'Pinyin with tone numbers',
+      description: 'pinyin with a tone number after each syllable and no tone marks (e.g. "ni3 hao3")',
+    },
+  ],
+  korean: [
+    { id: 'revised', label: 'Revised Romanization', description: 'the Revised Romanization of Korean (e.g. "annyeonghaseyo")' },
+    {
+      id: 'mccune-reischauer',
+      label: 'McCune–Reischauer',
+      description: 'McCune-Reischauer, with breves and apostrophes (e.g. "annyŏnghaseyo", "p\'yŏnji")',
+    },
+    { id: 'yale', label: 'Yale', description: 'Yale romanization, letter by letter (e.g. "annyenghaseyyo")' },
+  ],
+  cyrillic: [
+    { id: 'simple', label: 'Simple', description: 'simple Latin letters (e.g. "privet", "zhurnal", "Shchukin")' },
+    {
+      id: 'scientific',
+      label: 'Scientific',
+      description: 'scientific transliteration with háčeks (e.g. "privet", "žurnal", "Ščukin")',
+    },
+    { id: 'iso9', label: 'ISO 9 / GOST 7.79', description: 'ISO 9 (GOST 7.79 System A) (e.g. "privet", "žurnal", "Ŝukin")' },
+  ],
+};
@@ -0,0 +1,68 @@
+import { ChunkedTranslationService, type ChunkedTranslateOptions } from './ChunkedTranslationService';
+import { diffWords } from '../utils/wordDiff';
+import type { BackTranslationCheck, TokenUsage, TranslationProvider, TranslationRequest } from '../types';
+
+export interface BackTranslationResult extends BackTranslationCheck {
+  /** The model that produced the back-translation, which differs from the requested one after a fallback */
+  model?: string;
+  /** Tokens used by the back-translation, separately from the meaning review */
+  translationUsage?: TokenUsage;
+}
+
+export class BackTranslationService {
+  /**
+   * Translate a translation back into the source language, diff it against the
+   * original and ask the model to flag changes in meaning
+   * @param provider The translation provider
+   * @param request The request that produced the translation, with a known source language
+   * @param translation The translated text to check
+   * @param options Cancellation, retry policy, the selected model and the chunking mode
+   * @returns Promise that resolves to the back-translation, its diff and the review
+   * @throws OpenRouterError if the back-translation or the review fails
+   */
+  static async check(
+    provider: TranslationProvider,
+    request: TranslationRequest,
+    translation: string,
+    options: Omit<ChunkedTranslateOptions, 'onProgress'> = {}
+  ): Promise<BackTranslationResult> {
+    const back = await ChunkedTranslationService.translate(
+      provider,
+      {
+        ...request,
+        sourceText: translation,
+        fromLanguage: request.toLanguage,
+        toLanguage: request.fromLanguage,
+        // The context describes the original, and sending it could leak its wording into the back-translation
+        context: undefined,
+        // Glossary entries, memory matches and the romanization standard are for the other direction,
+        // and nobody reads this gloss
+        glossary: undefined,
+        memoryMatches: undefined,
+        includeGloss: undefined,
+        romanization: undefined,
+      },
+      options
+    );
+
+    const review = await provider.reviewMeaning(
+      {
+        apiKey: request.apiKey,
+        baseUrl: request.baseUrl,
+        model: request.model,
+        originalText: request.sourceText,
+        backTranslation: back.translation,
+        language: request.fromLanguage,
+      },
+      { signal: options.signal }
+    );
+
+    return {
+      backTranslation: back.translation,
+      diff: diffWords(request.sourceText, back.translation, request.fromLanguage),
+      review,
+      model: back.model,
+      translationUsage: back.usage,
+    };
+  }
+}
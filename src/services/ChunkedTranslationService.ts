@@ -0,0 +1,254 @@
+import {
+  estimateTokens,
+  getChunkTokenBudget,
+  getMaxOutputTokens,
+  getTextTail,
+  splitIntoChunks,
+  type TextChunk,
+} from '../utils/chunking';
+import type {
+  Model,
+  TokenUsage,
+  TranslateOptions,
+  TranslationProvider,
+  TranslationRequest,
+  TranslationResponse,
+} from '../types';
+
+// Chunks translated at the same time in parallel mode
+const CONCURRENCY = 3;
+
+// Most characters of the previous chunk passed on as a terminology and tone hint, cut at a sentence boundary
+const HINT_LENGTH = 400;
+
+export interface ChunkedTranslateOptions extends TranslateOptions {
+  model?: Model;
+  parallel?: boolean;
+}
+
+export class ChunkedTranslationService {
+  /**
+   * Translate text of any length, splitting it into chunks that fit the model's context.
+   * Sequential mode passes the last sentences of each translated chunk to the next as a hint.
+   * Parallel mode is faster but carries no hint between chunks; they share only what the
+   * request holds for the whole text, such as the context, glossary and memory matches.
+   * @param provider The translation provider
+   * @param request The translation request for the whole text
+   * @param options Cancellation, progress callback, the selected model and the chunking mode
+   * @returns Promise that resolves to the reassembled translation
+   * @throws OpenRouterError if any chunk fails
+   */
+  static async translate(
+    provider: TranslationProvider,
+    request: TranslationRequest,
+    options: ChunkedTranslateOptions = {}
+  ): Promise<TranslationResponse> {
+    const { model, parallel = false, signal, onProgress, retryPolicy, onRetry } = options;
+    const locale = request.fromLanguage === 'auto' ? undefined : request.fromLanguage;
+    const chunks = splitIntoChunks(request.sourceText, getChunkTokenBudget(model), locale);
+
+    if (chunks.length === 1) {
+      return provider.translate(
+        { ...request, maxTokens: getMaxOutputTokens(estimateTokens(request.sourceText), model) },
+        { signal, onProgress, retryPolicy, onRetry }
+      );
+    }
+
+    const results = parallel
+      ? await this.translateParallel(provider, request, chunks, options)
+      : await this.translateSequential(provider, request, chunks, options);
+
+    return this.mergeResults(chunks, results);
+  }
+
+  /**
+   * Translate chunks one after another, streaming each into the combined output
+   * @returns Promise that resolves to one response per chunk
+   */
+  private static async translateSequential(
+    provider: TranslationProvider,
+    request: TranslationRequest,
+    chunks: TextChunk[],
+    { model, signal, onProgress, retryPolicy, onRetry }: ChunkedTranslateOptions
+  ): Promise<TranslationResponse[]> {
+    const results: TranslationResponse[] = [];
+
+    for (let i = 0; i < chunks.length; i++) {
+      const previous = i > 0 ? { source: chunks[i - 1].text, translation: results[i - 1].translation } : undefined;
+      const result = await provider.translate(
+        this.buildChunkRequest(request, chunks, i, model, previous),
+        {
+          signal,
+          retryPolicy,
+          onRetry,
+          onProgress: onProgress && ((partial) => {
+            onProgress(this.mergeResults(chunks, [...results, { translation: '', ...partial }]));
+          }),
+        }
+      );
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  /**
+   * Translate up to CONCURRENCY chunks at a time, reporting the finished prefix of the text.
+   * When a chunk fails, the chunks still running are aborted so they stop billing.
+   * @returns Promise that resolves to one response per chunk
+   */
+  private static async translateParallel(
+    provider: TranslationProvider,
+    request: TranslationRequest,
+    chunks: TextChunk[],
+    { model, signal, onProgress, retryPolicy, onRetry }: ChunkedTranslateOptions
+  ): Promise<TranslationResponse[]> {
+    const results: (TranslationResponse | undefined)[] = new Array(chunks.length).fill(undefined);
+    let next = 0;
+    let failed = false;
+
+    // Aborted by the caller's signal, or by the first chunk that fails
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (signal?.aborted) {
+      abort();
+    }
+    signal?.addEventListener('abort', abort);
+
+    const worker = async () => {
+      while (next < chunks.length && !failed) {
+        const index = next++;
+        try {
+          results[index] = await provider.translate(
+            this.buildChunkRequest(request, chunks, index, model),
+            { signal: controller.signal, retryPolicy, onRetry }
+          );
+        } catch (error) {
+          if (!failed) {
+            failed = true;
+            abort();
+          }
+          throw error;
+        }
+
+        const firstMissing = results.indexOf(undefined);
+        const done = (firstMissing === -1 ? results : results.slice(0, firstMissing)) as TranslationResponse[];
+        onProgress?.(this.mergeResults(chunks, done));
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: Math.min(CONCURRENCY, chunks.length) }, worker));
+    } finally {
+      signal?.removeEventListener('abort', abort);
+    }
+    return results as TranslationResponse[];
+  }
+
+  /**
+   * Build the request for one chunk, telling the model where it is in the document
+   * @param request The request for the whole text
+   * @param chunks All chunks
+   * @param index The chunk to translate
+   * @param model The selected model
+   * @param previous The previous chunk and its translation, in sequential mode
+   * @returns The chunk's translation request
+   */
+  private static buildChunkRequest(
+    request: TranslationRequest,
+    chunks: TextChunk[],
+    index: number,
+    model: Model | undefined,
+    previous?: { source: string; translation: string }
+  ): TranslationRequest {
+    const sourceText = chunks[index].text;
+    const sourceLocale = request.fromLanguage === 'auto' ? undefined : request.fromLanguage;
+    const context = [
+      request.context,
+      `This is part ${index + 1} of ${chunks.length} of a longer document. Translate only this part.`,
+      previous &&
+        'For consistent terminology and tone, the previous part ended with:\n' +
+        `"${getTextTail(previous.source, HINT_LENGTH, sourceLocale)}"\n` +
+        `which was translated as:\n"${getTextTail(previous.translation, HINT_LENGTH, request.toLanguage)}"`,
+    ].filter(Boolean).join('\n\n');
+
+    return {
+      ...request,
+      sourceText,
+      context,
+      maxTokens: getMaxOutputTokens(estimateTokens(sourceText), model),
+    };
+  }
+
+  /**
+   * Reassemble chunk translations, keeping the original whitespace between chunks
+   * @param chunks The chunks, for their separators
+   * @param results The responses for the first results.length chunks
+   * @returns The combined response
+   */
+  private static mergeResults(chunks: TextChunk[], results: Partial<TranslationResponse>[]): TranslationResponse {
+    const join = (field: 'translation' | 'transcription') =>
+      results
+        .map((result, i) => (result[field] ?? '') + (i < results.length - 1 ? chunks[i].separator : ''))
+        .join('');
+
+    const explanations = results
+      .map((result, i) => ({ part: i + 1, text: result.explanation?.trim() }))
+      .filter((e): e is { part: number; text: string } => !!e.text);
+
+    const usages = results.map((result) => result.usage).filter((u): u is TokenUsage => !!u);
+    const modelUsage = this.getModelUsage(results);
+    // Chunks can end up on different models when some of them fall back; name the one that translated most
+    const mostUsed = modelUsage.reduce((most, entry) => (entry.chunks > most.chunks ? entry : most), modelUsage[0]);
+
+    return {
+      translation: join('translation'),
+      transcription: results.some((result) => result.transcription) ? join('transcription') : undefined,
+      explanation: explanations.length === 0
+        ? undefined
+        : explanations.map(({ part, text }) => `Part ${part}: ${text}`).join('\n\n'),
+      detectedLanguage: results[0]?.detectedLanguage,
+      gloss: results.some((result) => result.gloss) ? results.flatMap((result) => result.gloss ?? []) : undefined,
+      // Readings only replace the translation if every part has them
+      furigana: results.every((result) => result.furigana)
+        ? results.flatMap((result, i) => [
+          ...(result.furigana ?? []),
+          ...(i < results.length - 1 && chunks[i].separator ? [{ text: chunks[i].separator }] : []),
+        ])
+        : undefined,
+      outputMode: results[0]?.outputMode,
+      usage: usages.length === 0 ? undefined : {
+        promptTokens: usages.reduce((sum, u) => sum + u.promptTokens, 0),
+        completionTokens: usages.reduce((sum, u) => sum + u.completionTokens, 0),
+      },
+      model: mostUsed?.model,
+      // Priced per model, since the fallbacks can cost more or less than the selected model
+      modelUsage: modelUsage.length > 1
+        ? modelUsage.flatMap(({ model, usage }) => usage ? [{ model, usage }] : [])
+        : undefined,
+    };
+  }
+
+  /**
+   * Group the chunks by the model that translated them, in order of first use
+   * @param results The chunk responses
+   * @returns Per model, how many chunks it translated and the tokens it used, if reported
+   */
+  private static getModelUsage(
+    results: Partial<TranslationResponse>[]
+  ): { model?: string; chunks: number; usage?: TokenUsage }[] {
+    const byModel = new Map<string | undefined, { model?: string; chunks: number; usage?: TokenUsage }>();
+    for (const result of results) {
+      const entry = byModel.get(result.model) ?? { model: result.model, chunks: 0 };
+      entry.chunks++;
+      if (result.usage) {
+        entry.usage = {
+          promptTokens: (entry.usage?.promptTokens ?? 0) + result.usage.promptTokens,
+          completionTokens: (entry.usage?.completionTokens ?? 0) + result.usage.completionTokens,
+        };
+      }
+      byModel.set(result.model, entry);
+    }
+    return Array.from(byModel.values());
+  }
+}
@@ -1,25 +1,162 @@
-import type { Model, TranslationRequest, TranslationResponse, OpenRouterError } from '../types';
-import { needsTranscription } from '../utils/writingSystem';
+import type {
+  GlossEntry,
+  MeaningChange,
+  MeaningReview,
+  MeaningReviewRequest,
+  Model,
+  ModelPricing,
+  TranslationAlternative,
+  TranslationRequest,
+  TranslationResponse,
+  OpenRouterError,
+  OutputMode,
+  RubySegment,
+  ReviewDimension,
+  ReviewRequest,
+  DimensionScore,
+  TranslationReview,
+  RetryPolicy,
+  RetryStatus,
+  TokenUsage
+} from '../types';
+import { extractPartialTranslation } from '../utils/partialJson';
+import { getProviderPrefix } from '../utils/modelFilters';
+import { OPENROUTER_BASE_URL } from '../constants/providers';
+import { DEFAULT_RETRY_POLICY } from '../constants/retry';
+import { DEFAULT_SYSTEM_PROMPT_TEMPLATE, DEFAULT_USER_PROMPT_TEMPLATE } from '../constants/prompt';
+import { MAX_REVIEW_SCORE, REVIEW_DIMENSIONS } from '../constants/review';
+import { getRetryDelay, parseRetryAfter, sleep } from '../utils/retry';
+import { classifyApiError, isStructuredOutputRejection, parseErrorBody } from '../utils/apiErrors';
+import { getPromptVariables, renderTemplate } from '../utils/promptTemplate';
+import { getWritingSystem, needsTranscription } from '../utils/writingSystem';
+import { protectSpans, restoreSpans, type ProtectedSpan } from '../utils/protectedSpans';
+import { matchesTranslation } from '../utils/furigana';
 
-const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
-const MAX_RETRIES = 3;
+const DEFAULT_MAX_TOKENS = 4000;
+
+// Failures that another model might not have; anything else (bad key, flagged input) would fail there too
+const FALLBACK_ERROR_TYPES: OpenRouterError['type'][] = [
+  'model_unavailable',
+  'provider_timeout',
+  'context_length_exceeded',
+  'invalid_response',
+  'placeholder_mismatch',
+  'rate_limit',
+  'unknown',
+];
+
+/**
+ * JSON schema for TranslationResponse, sent as `response_format` to models that
+ * support structured outputs. Strict mode requires every property to be listed
+ * in `required`, so optional fields are returned as empty strings instead.
+ */
+const TRANSLATION_RESPONSE_SCHEMA = {
+  name: 'translation_response',
+  strict: true,
+  schema: {
+    type: 'object',
+    properties: {
+      translation: {
+        type: 'string',
+        description: 'The translated text in the target language'
+      },
+      explanation: {
+        type: 'string',
+        description: 'Explanation of translation choices, ambiguities, and cultural notes, in English'
+      },
+      transcription: {
+        type: 'string',
+        description: 'Romanization of the translated text, or an empty string if not applicable'
+      },
+      detectedLanguage: {
+        type: 'string',
+        description: 'ISO 639-1 code of the language the source text is written in'
+      },
+      alternatives: {
+        type: 'array',
+        description: 'Other renderings in different registers, for short phrases only, or an empty array',
+        items: {
+          type: 'object',
+          properties: {
+            text: { type: 'string', description: 'The alternative translation' },
+            register: { type: 'string', description: 'Register or tone label, e.g. casual or formal' },
+            whenToUse: { type: 'string', description: 'When this alternative is the right choice, in English' },
+            transcription: { type: 'string', description: 'Romanization of the alternative, or an empty string' }
+          },
+          required: ['text', 'register', 'whenToUse', 'transcription'],
+          additionalProperties: false
+        }
+      },
+      gloss: {
+        type: 'array',
+        description: 'Word-by-word breakdown of the source text when asked for one, or an empty array',
+        items: {
+          type: 'object',
+          properties: {
+            source: { type: 'string', description: 'A word or phrase of the source text, copied exactly' },
+            target: { type: 'string', description: 'Its counterpart in the translation' },
+            partOfSpeech: { type: 'string', description: 'Part of speech, in English' },
+            dictionaryForm: { type: 'string', description: 'The form a dictionary lists the source word under' },
+            reading: { type: 'string', description: 'Romanized reading of the source word, or an empty string' }
+          },
+          required: ['source', 'target', 'partOfSpeech', 'dictionaryForm', 'reading'],
+          additionalProperties: false
+        }
+      },
+      furigana: {
+        type: 'array',
+        description: 'The Japanese translation split into runs with their readings, or an empty array',
+        items: {
+          type: 'object',
+          properties: {
+            text: { type: 'string', description: 'A run of the translation' },
+            reading: { type: 'string', description: 'Hiragana reading of a run with kanji, or an empty string' }
+          },
+          required: ['text', 'reading'],
+          additionalProperties: false
+        }
+      }
+    },
+    required: ['translation', 'explanation', 'transcription', 'detectedLanguage', 'alternatives', 'gloss', 'furigana'],
+    additionalProperties: false
+  }
+} as const;
+
+/**
+ * JSON schema for a judge review, with a score and justification per dimension
+ */
+const REVIEW_RESPONSE_SCHEMA = {
+  name: 'translation_review',
+  strict: true,
+  schema: {
+    type: 'object',
+    properties: Object.fromEntries(REVIEW_DIMENSIONS.map(({ id, description }) => [id, {
+      type: 'object',
+      description: `How well ${description}`,
+      properties: {
+        score: { type: 'integer', description: `From 1 (unusable) to ${MAX_REVIEW_SCORE} (flawless)` },
+        justification: { type: 'string', description: 'One short sentence explaining the score, in English' }
+      },
+      required: ['score', 'justification'],
+      additionalProperties: false
+    }])),
+    required: REVIEW_DIMENSIONS.map(({ id }) => id),
+    additionalProperties: false
+  }
+} as const;
 
 export class OpenRouterService {
   /**
    * Validate an API key by making a test request to OpenRouter
    * @param key The API key to validate
+   * @param baseUrl The API base URL
    * @returns Promise that resolves to true if valid, false otherwise
    */
-  static async validateApiKey(key: string): Promise<boolean> {
+  static async validateApiKey(key: string, baseUrl: string = OPENROUTER_BASE_URL): Promise<boolean> {
     try {
-      const response = await fetch(`${OPENROUTER_BASE_URL}/models`, {
+      const response = await fetch(`${baseUrl}/models`, {
         method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${key}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': window.location.origin,
-          'X-Title': 'Clanker Translate'
-        }
+        headers: this.buildHeaders(key, baseUrl)
       });
 
       return response.ok;
@@ -31,19 +168,15 @@ export class OpenRouterService {
   /**
    * Fetch available models from OpenRouter
    * @param key The API key for authentication
+   * @param baseUrl The API base URL
    * @returns Promise that resolves to array of models
    * @throws OpenRouterError if the request fails
    */
-  static async fetchModels(key: string): Promise<Model[]> {
+  static async fetchModels(key: string, baseUrl: string = OPENROUTER_BASE_URL): Promise<Model[]> {
     try {
-      const response = await fetch(`${OPENROUTER_BASE_URL}/models`, {
+      const response = await fetch(`${baseUrl}/models`, {
         method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${key}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': window.location.origin,
-          'X-Title': 'Clanker Translate'
-        }
+        headers: this.buildHeaders(key, baseUrl)
       });
 
       if (!response.ok) {
@@ -66,7 +199,12 @@ export class OpenRouterService {
         id: model.id,
         name: model.name || model.id,
         description: model.description,
-        contextLength: model.context_length
+        contextLength: model.context_length,
+        maxCompletionTokens: model.top_provider?.max_completion_tokens ?? undefined,
+        supportedParameters: model.supported_parameters,
+        pricing: this.parsePricing(model.pricing),
+        inputModalities: model.architecture?.input_modalities,
+        provider: getProviderPrefix(model.id)
       }));
     } catch (error) {
       if ((error as OpenRouterError).type) {
@@ -78,40 +216,70 @@ export class OpenRouterService {
 
   /**
    * Generate the system prompt for translation
+   * @param request Optional translation request, for its custom template and placeholder values
    * @returns The system prompt string
    */
-  static generateSystemPrompt(): string {
-    return `You are an expert translator. Provide translations that are culturally appropriate and contextually accurate. 
-Return ONLY a valid JSON object with the following structure (no markdown, no extra text):
-{
-  "translation": "the translated text in the target language",
-  "explanation": "explanation of translation choices, ambiguities, and cultural notes (ALWAYS in English)",
-  "transcription": "romanized transcription of the TRANSLATED text if source and target language use different writing systems (omit if not applicable)"
-}
+  static generateSystemPrompt(request?: TranslationRequest): string {
+    const template = request?.promptTemplate?.system ?? DEFAULT_SYSTEM_PROMPT_TEMPLATE;
+    return renderTemplate(template, request ? getPromptVariables(request) : {});
+  }
+
+  /**
+   * Translate text using OpenRouter with retry logic, moving on to the request's
+   * fallback models in order when a model fails in a way another model might not
+   * @param request The translation request
+   * @param signal Optional AbortSignal for request cancellation, including backoff waits
+   * @param onProgress Optional callback; when given, the response is streamed and
+   *   called with the fields received so far
+   * @param retry Optional retry policy and a callback run before each backoff wait
+   * @returns Promise that resolves to translation response, with the model that produced it
+   * @throws OpenRouterError if the request fails after all retries on every model
+   */
+  static async translate(
+    request: TranslationRequest,
+    signal?: AbortSignal,
+    onProgress?: (partial: Partial<TranslationResponse>) => void,
+    retry: { policy?: RetryPolicy; onRetry?: (status: RetryStatus) => void } = {}
+  ): Promise<TranslationResponse> {
+    const models = [request.model, ...(request.fallbackModels ?? []).filter((m) => m !== request.model)];
 
-IMPORTANT:
-- The "explanation" field must ALWAYS be written in English, regardless of source or target language
-- The "transcription" field should be a ROMANIZATION of the TRANSLATED (destination) text, NOT IPA phonetic symbols. Ex: "こんにちは" should be transcribed as "konnichiwa"
-- Use standard romanization systems: romaji for Japanese, pinyin for Chinese, etc.
-- Do NOT use IPA symbols like ə, ʊ, ˈ - use simple Latin letters only
-- Ensure the JSON is complete and properly formatted
-- Keep explanations concise but informative. Do not mention transcription in the explanation, explanation should just be an explanation of the translation itself.`;
+    for (let i = 0; ; i++) {
+      try {
+        const result = await this.translateWithRetries({ ...request, model: models[i] }, signal, onProgress, retry);
+        return { ...this.applyDetectedLanguage(request, result), model: models[i] };
+      } catch (err) {
+        const canFallBack = (err as Error).name !== 'AbortError' &&
+          FALLBACK_ERROR_TYPES.includes((err as OpenRouterError).type);
+        if (!canFallBack || i === models.length - 1) {
+          throw err;
+        }
+        console.warn(`[OpenRouterService] ${models[i]} failed, falling back to ${models[i + 1]}:`, err);
+      }
+    }
   }
 
   /**
-   * Translate text using OpenRouter with retry logic
+   * Translate with a single model, retrying according to the policy
    * @param request The translation request
-   * @param signal Optional AbortSignal for request cancellation
+   * @param signal Optional AbortSignal for request cancellation, including backoff waits
+   * @param onProgress Optional callback for streamed partial results
+   * @param retry Optional retry policy and a callback run before each backoff wait
    * @returns Promise that resolves to translation response
    * @throws OpenRouterError if the request fails after all retries
    */
-  static async translate(request: TranslationRequest, signal?: AbortSignal): Promise<TranslationResponse> {
-    let lastError: Error | null = null;
+  private static async translateWithRetries(
+    request: TranslationRequest,
+    signal?: AbortSignal,
+    onProgress?: (partial: Partial<TranslationResponse>) => void,
+    retry: { policy?: RetryPolicy; onRetry?: (status: RetryStatus) => void } = {}
+  ): Promise<TranslationResponse> {
+    const policy = retry.policy ?? DEFAULT_RETRY_POLICY;
 
-    for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+    for (let attempt = 1; ; attempt++) {
+      let error: OpenRouterError;
       try {
-        console.log(`[OpenRouterService] Translation attempt ${attempt}/${MAX_RETRIES}`);
-        const result = await this.translateAttempt(request, signal);
+        console.log(`[OpenRouterService] Translation attempt ${attempt}/${policy.maxAttempts}`);
+        const result = await this.translateAttempt(request, signal, onProgress);
         
         // Validate the response schema
         if (this.isValidTranslationResponse(result)) {
@@ -123,74 +291,258 @@ IMPORTANT:
         
         // Invalid schema - log and retry
         console.warn(`[OpenRouterService] Invalid response schema on attempt ${attempt}:`, result);
-        lastError = new Error('Invalid response schema');
+        error = this.createError('invalid_response', 'Invalid response schema');
         
-      } catch (error) {
-        lastError = error as Error;
-        
-        // Don't retry on auth, rate limit, or abort errors
-        if ((error as OpenRouterError).type === 'auth' || 
-            (error as OpenRouterError).type === 'rate_limit' ||
-            (error as Error).name === 'AbortError') {
-          throw error;
+      } catch (err) {
+        if ((err as Error).name === 'AbortError') {
+          throw err;
         }
-        
-        console.warn(`[OpenRouterService] Translation attempt ${attempt} failed:`, error);
-        
-        // Don't retry if this was the last attempt
-        if (attempt === MAX_RETRIES) {
-          break;
+        error = err as OpenRouterError;
+        console.warn(`[OpenRouterService] Translation attempt ${attempt} failed:`, err);
+      }
+
+      const delayMs = getRetryDelay(policy, attempt, error);
+      if (delayMs === null) {
+        if (attempt > 1) {
+          console.error(`[OpenRouterService] Giving up after ${attempt} translation attempts`);
+        }
+        throw error;
+      }
+
+      retry.onRetry?.({ attempt: attempt + 1, maxAttempts: policy.maxAttempts, delayMs });
+      await sleep(delayMs, signal);
+    }
+  }
+
+  /**
+   * Ask a model whether a back-translation still means the same as the original text
+   * @param request The original text, its back-translation and the model to ask
+   * @param signal Optional AbortSignal for request cancellation
+   * @returns Promise that resolves to the changes in meaning the model found
+   * @throws OpenRouterError if the request fails or the review can't be parsed
+   */
+  static async reviewMeaning(request: MeaningReviewRequest, signal?: AbortSignal): Promise<MeaningReview> {
+    const { content, usage } = await this.requestJson(request, [
+      { role: 'system', content: this.generateMeaningReviewPrompt() },
+      {
+        role: 'user',
+        content: `Original (${request.language}):\n\n${request.originalText}\n\n` +
+          `Back-translation (${request.language}):\n\n${request.backTranslation}`
+      }
+    ], { signal });
+
+    return { ...this.parseMeaningReview(content), usage };
+  }
+
+  /**
+   * Generate the system prompt for reviewing a back-translation
+   * @returns The system prompt string
+   */
+  static generateMeaningReviewPrompt(): string {
+    return `You are an expert translator checking a translation for changes in meaning.
+You are given an original text and a back-translation: the translation of the original, translated back into the original language.
+Wording and word order will differ; only flag differences in meaning, such as added, omitted or altered facts, negation, numbers, names, tone or intent.
+Return ONLY a valid JSON object with the following structure (no markdown, no extra text):
+{
+  "meaningPreserved": true or false,
+  "changes": [
+    {
+      "original": "the phrase from the original text",
+      "backTranslation": "the corresponding phrase from the back-translation, or an empty string if it was omitted",
+      "explanation": "how the meaning changed (ALWAYS in English)"
+    }
+  ]
+}
+Use an empty "changes" array when the meaning is preserved.`;
+  }
+
+  /**
+   * Parse the JSON meaning review from the AI model
+   * @param content The content string from the API response
+   * @returns The parsed review, keeping only well-formed changes
+   * @throws OpenRouterError if the content is not a JSON review
+   */
+  static parseMeaningReview(content: string): MeaningReview {
+    let parsed: { meaningPreserved?: unknown; changes?: unknown };
+    try {
+      parsed = JSON.parse(this.stripCodeFence(content));
+    } catch {
+      console.error('[OpenRouterService] Failed to parse meaning review:', content.substring(0, 500));
+      throw this.createError('invalid_response', 'The meaning review was not valid JSON');
+    }
+
+    const changes = (Array.isArray(parsed.changes) ? parsed.changes : []).filter(
+      (change): change is MeaningChange =>
+        typeof change?.original === 'string' &&
+        typeof change?.backTranslation === 'string' &&
+        typeof change?.explanation === 'string'
+    );
+
+    return {
+      meaningPreserved: typeof parsed.meaningPreserved === 'boolean' ? parsed.meaningPreserved : changes.length === 0,
+      changes
+    };
+  }
+
+  /**
+   * Ask a judge model to score a translation on each review dimension
+   * @param request The source, its translation and the judge model
+   * @param signal Optional AbortSignal for request cancellation
+   * @returns Promise that resolves to the scores with justifications
+   * @throws OpenRouterError if the request fails or the judge returns an invalid review
+   */
+  static async reviewTranslation(request: ReviewRequest, signal?: AbortSignal): Promise<TranslationReview> {
+    const { content, usage } = await this.requestJson(request, [
+      { role: 'system', content: this.generateReviewPrompt() },
+      { role: 'user', content: this.buildReviewPrompt(request) }
+    ], { schema: request.structuredOutput ? REVIEW_RESPONSE_SCHEMA : undefined, signal });
+
+    const review = this.parseReviewResponse(content);
+    if (!this.isValidReviewResponse(review)) {
+      throw this.createError('invalid_response', 'Invalid review schema');
+    }
+
+    return { model: request.model, scores: review.scores, usage };
+  }
+
+  /**
+   * Generate the system prompt for judging a translation
+   * @returns The system prompt string
+   */
+  static generateReviewPrompt(): string {
+    const dimensions = REVIEW_DIMENSIONS.map(({ id, description }) => `- ${id}: ${description}`).join('\n');
+    const fields = REVIEW_DIMENSIONS.map(({ id }) =>
+      `  "${id}": { "score": 1-${MAX_REVIEW_SCORE}, "justification": "one short sentence (ALWAYS in English)" }`
+    ).join(',\n');
+
+    return `You are an expert translation reviewer. Score the translation on each dimension from 1 (unusable) to ${MAX_REVIEW_SCORE} (flawless):
+${dimensions}
+
+Return ONLY a valid JSON object with the following structure (no markdown, no extra text):
+{
+${fields}
+}
+
+Be strict: only give ${MAX_REVIEW_SCORE} when there is nothing to improve, and point to the specific words behind a low score.`;
+  }
+
+  /**
+   * Build the user prompt for judging a translation
+   * @param request The review request
+   * @returns The formatted user prompt
+   */
+  static buildReviewPrompt(request: ReviewRequest): string {
+    let prompt = `Source (${request.fromLanguage}):\n\n${request.sourceText}\n\n` +
+      `Translation (${request.toLanguage}):\n\n${request.translation}`;
+
+    if (request.context) {
+      prompt += `\n\nContext: ${request.context}`;
+    }
+
+    return prompt;
+  }
+
+  /**
+   * Parse the JSON review from the judge model
+   * @param content The content string from the API response
+   * @returns The scores found, which may be incomplete; check with isValidReviewResponse
+   */
+  static parseReviewResponse(content: string): { scores: Partial<Record<ReviewDimension, DimensionScore>> } {
+    try {
+      const parsed = JSON.parse(this.stripCodeFence(content));
+      const scores: Partial<Record<ReviewDimension, DimensionScore>> = {};
+
+      for (const { id } of REVIEW_DIMENSIONS) {
+        const entry = parsed[id];
+        if (entry && typeof entry === 'object') {
+          scores[id] = {
+            // Some models quote numbers
+            score: typeof entry.score === 'string' ? Number(entry.score) : entry.score,
+            justification: entry.justification
+          };
         }
-        
-        // Wait before retrying (exponential backoff)
-        await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt - 1) * 1000));
       }
+
+      return { scores };
+    } catch (error) {
+      console.error('[OpenRouterService] Failed to parse review response:', error);
+      console.error('[OpenRouterService] Raw content:', content.substring(0, 500));
+      return { scores: {} };
     }
+  }
 
-    console.error(`[OpenRouterService] All ${MAX_RETRIES} translation attempts failed`);
-    throw lastError || this.createError('unknown', 'Translation failed after multiple attempts');
+  /**
+   * Validate that a review has a whole score in range and a justification for every dimension
+   * @param review The parsed review
+   * @returns true if valid, false otherwise
+   */
+  static isValidReviewResponse(
+    review: { scores: Partial<Record<ReviewDimension, DimensionScore>> }
+  ): review is { scores: Record<ReviewDimension, DimensionScore> } {
+    for (const { id } of REVIEW_DIMENSIONS) {
+      const entry = review.scores[id];
+      if (!entry) {
+        console.warn(`[OpenRouterService] Invalid review: missing ${id}`);
+        return false;
+      }
+
+      if (!Number.isInteger(entry.score) || entry.score < 1 || entry.score > MAX_REVIEW_SCORE) {
+        console.warn(`[OpenRouterService] Invalid review: ${id} score is not 1-${MAX_REVIEW_SCORE}`);
+        return false;
+      }
+
+      if (typeof entry.justification !== 'string') {
+        console.warn(`[OpenRouterService] Invalid review: ${id} justification is not a string`);
+        return false;
+      }
+    }
+
+    return true;
   }
 
   /**
-   * Single translation attempt
+   * Single translation attempt. Placeholders, tags, URLs and other protected text are sent
+   * as tokens and restored in the result.
    * @param request The translation request
    * @param signal Optional AbortSignal for request cancellation
+   * @param onProgress Optional callback for streamed partial results
    * @returns Promise that resolves to translation response
-   * @throws OpenRouterError if the request fails
+   * @throws OpenRouterError if the request fails or the translation loses or repeats a token
    */
-  private static async translateAttempt(request: TranslationRequest, signal?: AbortSignal): Promise<TranslationResponse> {
-    const systemPrompt = this.generateSystemPrompt();
-    const userPrompt = this.buildUserPrompt(request);
+  private static async translateAttempt(
+    request: TranslationRequest,
+    signal?: AbortSignal,
+    onProgress?: (partial: Partial<TranslationResponse>) => void
+  ): Promise<TranslationResponse> {
+    const baseUrl = request.baseUrl ?? OPENROUTER_BASE_URL;
+    let outputMode: OutputMode = request.structuredOutput ? 'json_schema' : 'prompt';
+    const { text, spans } = protectSpans(request.sourceText);
+    const protectedRequest = { ...request, sourceText: text };
 
     try {
-      const response = await fetch(`${OPENROUTER_BASE_URL}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${request.apiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': window.location.origin,
-          'X-Title': 'Clanker Translate'
-        },
-        body: JSON.stringify({
-          model: request.model,
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt }
-          ],
-          temperature: 0.3,
-          max_tokens: 4000
-        }),
-        signal
-      });
+      let response = await this.requestCompletion(protectedRequest, baseUrl, outputMode, !!onProgress, signal);
 
-      if (!response.ok) {
-        if (response.status === 401 || response.status === 403) {
-          throw this.createError('auth', 'Invalid API key', response.status);
-        }
-        if (response.status === 429) {
-          throw this.createError('rate_limit', 'Rate limit exceeded. Please try again later.', response.status);
+      // Some providers behind a model reject response_format even when the model advertises it.
+      // Other bad requests would only fail again, so they are not resent.
+      if (response.status === 400 && outputMode === 'json_schema') {
+        const body = await this.readErrorBody(response);
+        if (!isStructuredOutputRejection(response.status, parseErrorBody(body))) {
+          throw this.createResponseError(response, body);
         }
-        throw this.createError('unknown', `Translation request failed with status ${response.status}`, response.status);
+        console.warn('[OpenRouterService] Structured output rejected, falling back to prompt-only JSON');
+        outputMode = 'prompt_fallback';
+        response = await this.requestCompletion(protectedRequest, baseUrl, outputMode, !!onProgress, signal);
+      }
+
+      if (!response.ok) {
+        throw await this.readResponseError(response);
+      }
+
+      if (onProgress) {
+        const { content, usage } = await this.readStream(response, (partial) => {
+          onProgress(this.restorePartial(partial, spans));
+        });
+        return { ...this.restoreProtectedSpans(this.parseTranslationResponse(content), spans), outputMode, usage };
       }
 
       const data = await response.json();
@@ -200,15 +552,322 @@ IMPORTANT:
       }
 
       const content = data.choices[0].message.content;
-      return this.parseTranslationResponse(content);
+      return {
+        ...this.restoreProtectedSpans(this.parseTranslationResponse(content), spans),
+        outputMode,
+        usage: this.parseUsage(data.usage),
+      };
     } catch (error) {
-      if ((error as OpenRouterError).type) {
+      if ((error as OpenRouterError).type || (error as Error).name === 'AbortError') {
         throw error;
       }
       throw this.createError('network', 'Network error occurred during translation');
     }
   }
 
+  /**
+   * Send a chat completion request for a translation
+   * @param request The translation request
+   * @param baseUrl The API base URL
+   * @param outputMode Whether to constrain the output with a JSON schema or rely on the prompt
+   * @param stream Whether to request a server-sent event stream
+   * @param signal Optional AbortSignal for request cancellation
+   * @returns Promise that resolves to the raw fetch response
+   */
+  private static requestCompletion(
+    request: TranslationRequest,
+    baseUrl: string,
+    outputMode: OutputMode,
+    stream: boolean,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    return fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.buildHeaders(request.apiKey, baseUrl),
+      body: JSON.stringify({
+        model: request.model,
+        messages: [
+          { role: 'system', content: this.generateSystemPrompt(request) },
+          { role: 'user', content: this.buildUserPrompt(request) }
+        ],
+        temperature: 0.3,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(outputMode === 'json_schema'
+          ? { response_format: { type: 'json_schema', json_schema: TRANSLATION_RESPONSE_SCHEMA } }
+          : {}),
+        // Usage arrives in a final chunk only when asked for
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {})
+      }),
+      signal
+    });
+  }
+
+  /**
+   * Send a one-off chat completion that answers in JSON, such as a review
+   * @param request The API key, base URL and model
+   * @param messages The system and user messages
+   * @param options Optional JSON schema to constrain the output, and AbortSignal for request cancellation
+   * @returns Promise that resolves to the message content and token usage, if reported
+   * @throws OpenRouterError if the request fails or the response has no content
+   */
+  private static async requestJson(
+    request: { apiKey: string; baseUrl?: string; model: string },
+    messages: { role: 'system' | 'user'; content: string }[],
+    options: { schema?: object; signal?: AbortSignal } = {}
+  ): Promise<{ content: string; usage?: TokenUsage }> {
+    const baseUrl = request.baseUrl ?? OPENROUTER_BASE_URL;
+    const send = (schema?: object) => fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.buildHeaders(request.apiKey, baseUrl),
+      body: JSON.stringify({
+        model: request.model,
+        messages,
+        temperature: 0,
+        max_tokens: DEFAULT_MAX_TOKENS,
+        ...(schema ? { response_format: { type: 'json_schema', json_schema: schema } } : {})
+      }),
+      signal: options.signal
+    });
+
+    try {
+      let response = await send(options.schema);
+
+      // Some providers behind a model reject response_format even when the model advertises it
+      if (response.status === 400 && options.schema) {
+        const body = await this.readErrorBody(response);
+        if (!isStructuredOutputRejection(response.status, parseErrorBody(body))) {
+          throw this.createResponseError(response, body);
+        }
+        response = await send();
+      }
+
+      if (!response.ok) {
+        throw await this.readResponseError(response);
+      }
+
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw this.createError('invalid_response', 'Invalid response format from API');
+      }
+
+      return { content, usage: this.parseUsage(data.usage) };
+    } catch (error) {
+      if ((error as OpenRouterError).type || (error as Error).name === 'AbortError') {
+        throw error;
+      }
+      throw this.createError('network', 'Network error occurred');
+    }
+  }
+
+  /**
+   * Read a server-sent event stream of chat completion chunks
+   * @param response The streaming fetch response
+   * @param onProgress Called with the translation fields received so far
+   * @returns Promise that resolves to the full message content and token usage, if reported
+   * @throws OpenRouterError if the stream is missing or reports an error
+   */
+  private static async readStream(
+    response: Response,
+    onProgress: (partial: Partial<TranslationResponse>) => void
+  ): Promise<{ content: string; usage?: TokenUsage }> {
+    if (!response.body) {
+      throw this.createError('invalid_response', 'Streaming response has no body');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let content = '';
+    let usage: TokenUsage | undefined;
+
+    for (;;) {
+      const { done, value } = await reader.read();
+
+      buffer += decoder.decode(value, { stream: !done });
+      const lines = buffer.split('\n');
+      // Keep the last, possibly incomplete, line for the next read; once the stream ends it is complete
+      buffer = done ? '' : lines.pop() ?? '';
+
+      let changed = false;
+      for (const line of lines) {
+        const chunk = this.parseStreamLine(line);
+        if (chunk === null) {
+          continue;
+        }
+        if (chunk === undefined) {
+          // Release the connection rather than wait for the server to close it
+          await reader.cancel().catch(() => undefined);
+          return { content, usage };
+        }
+        usage = chunk.usage ?? usage;
+        if (chunk.delta) {
+          content += chunk.delta;
+          changed = true;
+        }
+      }
+
+      if (done) {
+        return { content, usage };
+      }
+      if (changed) {
+        onProgress(extractPartialTranslation(content));
+      }
+    }
+  }
+
+  /**
+   * Parse a single line of a chat completion event stream
+   * @param line The raw line
+   * @returns The content delta and usage, null for lines without data, or undefined at end of stream
+   * @throws OpenRouterError if the chunk reports an error
+   */
+  private static parseStreamLine(line: string): { delta: string; usage?: TokenUsage } | null | undefined {
+    const trimmed = line.trim();
+
+    // Blank lines separate events; lines starting with ':' are comments (keep-alives)
+    if (!trimmed.startsWith('data:')) {
+      return null;
+    }
+
+    const payload = trimmed.slice('data:'.length).trim();
+    if (payload === '[DONE]') {
+      return undefined;
+    }
+
+    let chunk;
+    try {
+      chunk = JSON.parse(payload);
+    } catch {
+      console.warn('[OpenRouterService] Skipping malformed stream chunk:', payload.substring(0, 200));
+      return null;
+    }
+
+    if (chunk.error) {
+      const body = parseErrorBody(chunk.error);
+      const type = body.code === undefined ? 'unknown' : classifyApiError(body.code, body);
+      throw this.createError(type, body.message || 'Streaming translation failed', body.code, { details: body.details });
+    }
+
+    return {
+      delta: chunk.choices?.[0]?.delta?.content || '',
+      usage: this.parseUsage(chunk.usage)
+    };
+  }
+
+  /**
+   * Parse the usage block of a chat completion response
+   * @param usage The raw usage object
+   * @returns The token usage, or undefined if the server did not report it
+   */
+  private static parseUsage(usage?: { prompt_tokens?: unknown; completion_tokens?: unknown }): TokenUsage | undefined {
+    if (!usage || typeof usage.prompt_tokens !== 'number' || typeof usage.completion_tokens !== 'number') {
+      return undefined;
+    }
+    return {
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens
+    };
+  }
+
+  /**
+   * Parse the pricing object of a model listing
+   * @param pricing The raw pricing object, with prices per token as decimal strings
+   * @returns The pricing, or undefined if not listed
+   */
+  private static parsePricing(pricing?: { prompt?: string; completion?: string }): ModelPricing | undefined {
+    const prompt = parseFloat(pricing?.prompt ?? '');
+    const completion = parseFloat(pricing?.completion ?? '');
+    if (Number.isNaN(prompt) || Number.isNaN(completion)) {
+      return undefined;
+    }
+    return { prompt, completion };
+  }
+
+  /**
+   * Put protected text back in place of its tokens
+   * @param response The parsed translation of the text with tokens
+   * @param spans The protected spans of the source text
+   * @returns The translation with the spans restored; alternatives that lost or repeated a token are dropped
+   * @throws OpenRouterError if the translation lost or repeated a token
+   */
+  private static restoreProtectedSpans(response: TranslationResponse, spans: ProtectedSpan[]): TranslationResponse {
+    if (spans.length === 0) {
+      return response;
+    }
+
+    const { text, missing, duplicated } = restoreSpans(response.translation, spans);
+    if (missing.length > 0 || duplicated.length > 0) {
+      const problems = [
+        ...missing.map((span) => `missing ${span.text}`),
+        ...duplicated.map((span) => `repeated ${span.text}`),
+      ];
+      throw this.createError('placeholder_mismatch', problems.join(', '));
+    }
+
+    const alternatives = response.alternatives?.flatMap((alternative) => {
+      const restored = restoreSpans(alternative.text, spans);
+      if (restored.missing.length > 0 || restored.duplicated.length > 0) {
+        return [];
+      }
+      const transcription = alternative.transcription && restoreSpans(alternative.transcription, spans).text;
+      return [{ ...alternative, text: restored.text, transcription }];
+    });
+
+    return {
+      ...this.restorePartial(response, spans),
+      translation: text,
+      alternatives: alternatives?.length ? alternatives : undefined,
+    };
+  }
+
+  /**
+   * Put protected text back wherever its tokens appear, without checking that each appears once
+   * @param partial Translation fields, possibly still streaming
+   * @param spans The protected spans of the source text
+   * @returns The fields with the spans restored
+   */
+  private static restorePartial<T extends Partial<TranslationResponse>>(partial: T, spans: ProtectedSpan[]): T {
+    if (spans.length === 0) {
+      return partial;
+    }
+    const restore = (value: string | undefined) => value && restoreSpans(value, spans).text;
+    return {
+      ...partial,
+      translation: restore(partial.translation),
+      explanation: restore(partial.explanation),
+      transcription: restore(partial.transcription),
+      gloss: partial.gloss?.map((entry) => ({
+        ...entry,
+        source: restoreSpans(entry.source, spans).text,
+        target: restoreSpans(entry.target, spans).text,
+      })),
+      furigana: partial.furigana?.map((segment) => ({ ...segment, text: restoreSpans(segment.text, spans).text })),
+    };
+  }
+
+  /**
+   * Drop a transcription the detected source language turns out not to need.
+   * With 'auto' the prompt can only ask for one conditionally, so the model may add one anyway.
+   * @param request The translation request
+   * @param response The translation
+   * @returns The translation, without its transcription if source and target share a writing system
+   */
+  private static applyDetectedLanguage(request: TranslationRequest, response: TranslationResponse): TranslationResponse {
+    if (request.fromLanguage !== 'auto' || !response.detectedLanguage) {
+      return response;
+    }
+    const detectedSystem = getWritingSystem(response.detectedLanguage);
+    if (detectedSystem !== 'unknown' && !needsTranscription(response.detectedLanguage, request.toLanguage)) {
+      return {
+        ...response,
+        transcription: undefined,
+        alternatives: response.alternatives?.map((alternative) => ({ ...alternative, transcription: undefined })),
+      };
+    }
+    return response;
+  }
+
   /**
    * Validate that a translation response conforms to the expected schema
    * @param response The response to validate
@@ -243,40 +902,13 @@ IMPORTANT:
   }
 
   /**
-   * Build the user prompt for translation
+   * Build the user prompt for translation from the request's template, or the built-in one
    * @param request The translation request
    * @returns The formatted user prompt
    */
   static buildUserPrompt(request: TranslationRequest): string {
-    let prompt = `Translate the following text from ${request.fromLanguage} to ${request.toLanguage}:\n\n${request.sourceText}`;
-    
-    if (request.context) {
-      prompt += `\n\nContext: ${request.context}`;
-    }
-
-    // Request transcription if languages use different writing systems
-    if (needsTranscription(request.fromLanguage, request.toLanguage)) {
-      prompt += `\n\nPlease include a ROMANIZATION of the TRANSLATED text (the translated ${request.toLanguage} text)`;
-      
-      // Add specific transcription format based on source language
-      if (request.fromLanguage === 'ja') {
-        prompt += ' using romaji (e.g., "konnichiwa" not "kõ̞nːit͡ɕiɰᵝa̠")';
-      } else if (request.fromLanguage === 'zh' || request.fromLanguage === 'zh-CN' || request.fromLanguage === 'zh-TW') {
-        prompt += ' using pinyin with tone marks (e.g., "nǐ hǎo")';
-      } else if (request.fromLanguage === 'ko') {
-        prompt += ' using revised romanization (e.g., "annyeonghaseyo")';
-      } else if (request.fromLanguage === 'ar') {
-        prompt += ' using simple Latin letters (e.g., "marhaban")';
-      } else if (request.fromLanguage === 'ru') {
-        prompt += ' using simple Latin letters (e.g., "privet")';
-      }
-      
-      prompt += '. Use ONLY Latin letters (a-z), NO IPA symbols.';
-    }
-
-    prompt += '\n\nRemember: Write the explanation in English.';
-
-    return prompt;
+    const template = request.promptTemplate?.user ?? DEFAULT_USER_PROMPT_TEMPLATE;
+    return renderTemplate(template, getPromptVariables(request));
   }
 
   /**
@@ -286,15 +918,7 @@ IMPORTANT:
    */
   static parseTranslationResponse(content: string): TranslationResponse {
     try {
-      // Remove markdown code blocks if present (```json ... ```)
-      let cleanContent = content.trim();
-      if (cleanContent.startsWith('```')) {
-        // Remove opening ```json or ```
-        cleanContent = cleanContent.replace(/^```(?:json)?\s*\n?/, '');
-        // Remove closing ```
-        cleanContent = cleanContent.replace(/\n?```\s*$/, '');
-      }
-      
+      const cleanContent = this.stripCodeFence(content);
       const parsed = JSON.parse(cleanContent);
       
       // Log if JSON was successfully parsed but might be incomplete
@@ -306,7 +930,13 @@ IMPORTANT:
         translation: parsed.translation || '',
         explanation: parsed.explanation,
         transcription: parsed.transcription,
-        detectedLanguage: parsed.detectedLanguage
+        // Structured output returns an empty string when no language was detected
+        detectedLanguage: typeof parsed.detectedLanguage === 'string'
+          ? parsed.detectedLanguage.trim().toLowerCase() || undefined
+          : parsed.detectedLanguage,
+        alternatives: this.parseAlternatives(parsed.alternatives, parsed.translation),
+        gloss: this.parseGloss(parsed.gloss),
+        furigana: this.parseFurigana(parsed.furigana, parsed.translation)
       };
     } catch (error) {
       // Log JSON parsing failures
@@ -322,18 +952,193 @@ IMPORTANT:
     }
   }
 
+  /**
+   * Keep the well-formed alternatives that differ from the main translation
+   * @param value The parsed `alternatives` field
+   * @param translation The main translation
+   * @returns The alternatives, or undefined if there are none
+   */
+  private static parseAlternatives(value: unknown, translation: unknown): TranslationAlternative[] | undefined {
+    if (!Array.isArray(value)) {
+      return undefined;
+    }
+
+    const alternatives = value
+      .filter((item): item is Record<string, unknown> =>
+        !!item && typeof item.text === 'string' && item.text.trim() !== '' && item.text !== translation
+      )
+      .map((item) => ({
+        text: item.text as string,
+        register: typeof item.register === 'string' ? item.register : '',
+        whenToUse: typeof item.whenToUse === 'string' ? item.whenToUse : '',
+        // Structured output returns an empty string when there is no transcription
+        transcription: typeof item.transcription === 'string' && item.transcription ? item.transcription : undefined,
+      }));
+
+    return alternatives.length > 0 ? alternatives : undefined;
+  }
+
+  /**
+   * Keep the well-formed gloss entries
+   * @param value The parsed `gloss` field
+   * @returns The entries, or undefined if there are none
+   */
+  private static parseGloss(value: unknown): GlossEntry[] | undefined {
+    if (!Array.isArray(value)) {
+      return undefined;
+    }
+
+    const text = (field: unknown) => typeof field === 'string' ? field : '';
+    const gloss = value
+      .filter((item): item is Record<string, unknown> =>
+        !!item && typeof item.source === 'string' && item.source.trim() !== ''
+      )
+      .map((item) => ({
+        source: item.source as string,
+        target: text(item.target),
+        partOfSpeech: text(item.partOfSpeech),
+        dictionaryForm: text(item.dictionaryForm),
+        // Structured output returns an empty string for words written in Latin letters
+        reading: text(item.reading) || undefined,
+      }));
+
+    return gloss.length > 0 ? gloss : undefined;
+  }
+
+  /**
+   * Keep the furigana segments if they join back into the translation, so they can be shown in its place
+   * @param value The parsed `furigana` field
+   * @param translation The main translation
+   * @returns The segments, or undefined if there are none or they do not match the translation
+   */
+  private static parseFurigana(value: unknown, translation: unknown): RubySegment[] | undefined {
+    if (!Array.isArray(value) || typeof translation !== 'string') {
+      return undefined;
+    }
+
+    const segments = value
+      .filter((item): item is Record<string, unknown> => !!item && typeof item.text === 'string')
+      .map((item) => ({
+        text: item.text as string,
+        reading: typeof item.reading === 'string' && item.reading ? item.reading : undefined,
+      }));
+
+    return segments.length > 0 && matchesTranslation(segments, translation) ? segments : undefined;
+  }
+
+  /**
+   * Remove a markdown code block (```json ... ```) wrapped around a JSON response
+   * @param content The content string from the API response
+   * @returns The trimmed content without the code fence
+   */
+  private static stripCodeFence(content: string): string {
+    let cleanContent = content.trim();
+    if (cleanContent.startsWith('```')) {
+      // Remove opening ```json or ```
+      cleanContent = cleanContent.replace(/^```(?:json)?\s*\n?/, '');
+      // Remove closing ```
+      cleanContent = cleanContent.replace(/\n?```\s*$/, '');
+    }
+    return cleanContent;
+  }
+
+  /**
+   * Build request headers for an OpenAI-compatible API
+   * @param apiKey The API key, or an empty string for servers without auth
+   * @param baseUrl The API base URL
+   * @returns The headers to send
+   */
+  private static buildHeaders(apiKey: string, baseUrl: string): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    // OpenRouter app attribution; other servers would reject these in CORS preflight
+    if (baseUrl.startsWith(OPENROUTER_BASE_URL)) {
+      headers['HTTP-Referer'] = window.location.origin;
+      headers['X-Title'] = 'Clanker Translate';
+    }
+
+    return headers;
+  }
+
+  /**
+   * Turn a failed translation response into a typed error, using the JSON error body if there is one
+   * @param response The non-ok response
+   * @returns OpenRouterError object
+   */
+  private static async readResponseError(response: Response): Promise<OpenRouterError> {
+    return this.createResponseError(response, await this.readErrorBody(response));
+  }
+
+  /**
+   * Read the JSON error body of a failed response
+   * @param response The non-ok response
+   * @returns The parsed body, or undefined if it is not JSON
+   */
+  private static async readErrorBody(response: Response): Promise<unknown> {
+    try {
+      return await response.json();
+    } catch {
+      // Not JSON; classify by status alone
+      return undefined;
+    }
+  }
+
+  /**
+   * Turn a failed response and its error body into a typed error
+   * @param response The non-ok response
+   * @param body The parsed error body, if there was one
+   * @returns OpenRouterError object
+   */
+  private static createResponseError(response: Response, body: unknown): OpenRouterError {
+    const parsed = parseErrorBody(body);
+    const type = classifyApiError(response.status, parsed);
+    const extra = {
+      retryAfterMs: parseRetryAfter(response.headers?.get('Retry-After')),
+      details: parsed.details,
+    };
+
+    switch (type) {
+      case 'auth':
+        return this.createError(type, 'Invalid API key', response.status, extra);
+      case 'rate_limit':
+        return this.createError(type, 'Rate limit exceeded. Please try again later.', response.status, extra);
+      default:
+        return this.createError(
+          type,
+          parsed.message ?? `Translation request failed with status ${response.status}`,
+          response.status,
+          extra
+        );
+    }
+  }
+
   /**
    * Create a typed error object
    * @param type The error type
    * @param message The error message
    * @param statusCode Optional HTTP status code
+   * @param extra Optional Retry-After delay and details from the error body; empty fields are left out
    * @returns OpenRouterError object
    */
   private static createError(
     type: OpenRouterError['type'],
     message: string,
-    statusCode?: number
+    statusCode?: number,
+    extra: Pick<OpenRouterError, 'retryAfterMs' | 'details'> = {}
   ): OpenRouterError {
-    return { type, message, statusCode };
+    const error: OpenRouterError = { type, message, statusCode };
+    if (extra.retryAfterMs !== undefined) {
+      error.retryAfterMs = extra.retryAfterMs;
+    }
+    if (extra.details && Object.keys(extra.details).length > 0) {
+      error.details = extra.details;
+    }
+    return error;
   }
 }
@@ -1,49 +1,181 @@
-import type { LanguagePrefs } from '../types';
+import type {
+  FuriganaSettings,
+  GlossaryEntry,
+  LanguagePrefs,
+  Model,
+  ModelRatings,
+  OutputMode,
+  OutputModeStats,
+  PromptSettings,
+  ProviderId,
+  ProviderSettings,
+  RetryPolicy,
+  TokenUsage,
+  TranscriptionSettings,
+  TranslationMemoryUnit,
+  UsageStats,
+} from '../types';
+import { addUsage, toDayKey, EMPTY_USAGE_TOTALS } from '../utils/usage';
+import { applyVote } from '../utils/ratings';
+import { DEFAULT_RETRY_POLICY } from '../constants/retry';
+import { DEFAULT_FURIGANA_SETTINGS } from '../constants/furigana';
+import { EMPTY_PROMPT_SETTINGS } from '../constants/prompt';
 
 const STORAGE_KEYS = {
   API_KEY: 'clanker_translate_api_key',
   SELECTED_MODEL: 'clanker_translate_selected_model',
   LANGUAGE_PREFS: 'clanker_translate_language_prefs',
+  ACTIVE_PROVIDER: 'clanker_translate_active_provider',
+  PROVIDER_SETTINGS: 'clanker_translate_provider_settings',
+  OUTPUT_MODE_STATS: 'clanker_translate_output_mode_stats',
+  USAGE_STATS: 'clanker_translate_usage_stats',
+  PARALLEL_CHUNKS: 'clanker_translate_parallel_chunks',
+  BYPASS_CACHE: 'clanker_translate_bypass_cache',
+  BACK_TRANSLATION: 'clanker_translate_back_translation',
+  GLOSS_MODE: 'clanker_translate_gloss_mode',
+  FURIGANA_SETTINGS: 'clanker_translate_furigana_settings',
+  TRANSCRIPTION_SETTINGS: 'clanker_translate_transcription_settings',
+  JUDGE_MODEL: 'clanker_translate_judge_model',
+  PROMPT_SETTINGS: 'clanker_translate_prompt_settings',
+  GLOSSARY: 'clanker_translate_glossary',
+  TRANSLATION_MEMORY: 'clanker_translate_translation_memory',
+  RETRY_POLICY: 'clanker_translate_retry_policy',
+  MODEL_RATINGS: 'clanker_translate_model_ratings',
 } as const;
 
+const DEFAULT_PROVIDER: ProviderId = 'openrouter';
+
+const EMPTY_PROVIDER_SETTINGS: ProviderSettings = {
+  apiKey: null,
+  baseUrl: null,
+  selectedModel: null,
+  fallbackModels: [],
+  models: [],
+};
+
 export class StorageService {
   /**
-   * Get the stored API key
+   * Get the active translation provider
+   * @returns The provider ID, defaulting to OpenRouter
+   */
+  static getActiveProvider(): ProviderId {
+    return (localStorage.getItem(STORAGE_KEYS.ACTIVE_PROVIDER) as ProviderId | null) || DEFAULT_PROVIDER;
+  }
+
+  /**
+   * Store the active translation provider
+   * @param provider The provider ID to store
+   */
+  static setActiveProvider(provider: ProviderId): void {
+    localStorage.setItem(STORAGE_KEYS.ACTIVE_PROVIDER, provider);
+  }
+
+  /**
+   * Get the stored settings for a provider
+   * @param provider The provider ID
+   * @returns The provider's settings, with defaults for anything not stored
+   */
+  static getProviderSettings(provider: ProviderId): ProviderSettings {
+    const all = this.readProviderSettings();
+    return { ...EMPTY_PROVIDER_SETTINGS, ...all[provider] };
+  }
+
+  /**
+   * Update the stored settings for a provider
+   * @param provider The provider ID
+   * @param updates The settings to change
+   */
+  static updateProviderSettings(provider: ProviderId, updates: Partial<ProviderSettings>): void {
+    const all = this.readProviderSettings();
+    all[provider] = { ...EMPTY_PROVIDER_SETTINGS, ...all[provider], ...updates };
+    localStorage.setItem(STORAGE_KEYS.PROVIDER_SETTINGS, JSON.stringify(all));
+  }
+
+  /**
+   * Get the stored API key for the active provider
    * @returns The API key or null if not found
    */
   static getApiKey(): string | null {
-    return localStorage.getItem(STORAGE_KEYS.API_KEY);
+    return this.getProviderSettings(this.getActiveProvider()).apiKey;
   }
 
   /**
-   * Store the API key
+   * Store the API key for the active provider
    * @param key The API key to store
    */
   static setApiKey(key: string): void {
-    localStorage.setItem(STORAGE_KEYS.API_KEY, key);
+    this.updateProviderSettings(this.getActiveProvider(), { apiKey: key });
   }
 
   /**
-   * Clear the stored API key
+   * Clear the stored API key for the active provider
    */
   static clearApiKey(): void {
-    localStorage.removeItem(STORAGE_KEYS.API_KEY);
+    this.updateProviderSettings(this.getActiveProvider(), { apiKey: null });
+  }
+
+  /**
+   * Get the base URL override for the active provider
+   * @returns The base URL or null to use the provider default
+   */
+  static getBaseUrl(): string | null {
+    return this.getProviderSettings(this.getActiveProvider()).baseUrl;
+  }
+
+  /**
+   * Store the base URL override for the active provider
+   * @param baseUrl The base URL, or null to use the provider default
+   */
+  static setBaseUrl(baseUrl: string | null): void {
+    this.updateProviderSettings(this.getActiveProvider(), { baseUrl });
   }
 
   /**
-   * Get the selected model
+   * Get the selected model for the active provider
    * @returns The model ID or null if not found
    */
   static getSelectedModel(): string | null {
-    return localStorage.getItem(STORAGE_KEYS.SELECTED_MODEL);
+    return this.getProviderSettings(this.getActiveProvider()).selectedModel;
   }
 
   /**
-   * Store the selected model
+   * Store the selected model for the active provider
    * @param model The model ID to store
    */
   static setSelectedModel(model: string): void {
-    localStorage.setItem(STORAGE_KEYS.SELECTED_MODEL, model);
+    this.updateProviderSettings(this.getActiveProvider(), { selectedModel: model });
+  }
+
+  /**
+   * Get the fallback models for the active provider
+   * @returns Model IDs to try in order when the selected model fails
+   */
+  static getFallbackModels(): string[] {
+    return this.getProviderSettings(this.getActiveProvider()).fallbackModels;
+  }
+
+  /**
+   * Store the fallback models for the active provider
+   * @param models Model IDs to try in order when the selected model fails
+   */
+  static setFallbackModels(models: string[]): void {
+    this.updateProviderSettings(this.getActiveProvider(), { fallbackModels: models });
+  }
+
+  /**
+   * Get the last fetched model list for the active provider
+   * @returns The cached models, or an empty list
+   */
+  static getCachedModels(): Model[] {
+    return this.getProviderSettings(this.getActiveProvider()).models;
+  }
+
+  /**
+   * Store the fetched model list for the active provider
+   * @param models The models to cache
+   */
+  static setCachedModels(models: Model[]): void {
+    this.updateProviderSettings(this.getActiveProvider(), { models });
   }
 
   /**
@@ -70,4 +202,342 @@ export class StorageService {
   static setLanguagePreferences(prefs: LanguagePrefs): void {
     localStorage.setItem(STORAGE_KEYS.LANGUAGE_PREFS, JSON.stringify(prefs));
   }
+
+  /**
+   * Get whether long texts are translated with chunks in parallel
+   * @returns True for parallel, false (the default) for sequential
+   */
+  static getParallelChunking(): boolean {
+    return localStorage.getItem(STORAGE_KEYS.PARALLEL_CHUNKS) === 'true';
+  }
+
+  /**
+   * Store whether long texts are translated with chunks in parallel
+   * @param enabled True for parallel, false for sequential
+   */
+  static setParallelChunking(enabled: boolean): void {
+    localStorage.setItem(STORAGE_KEYS.PARALLEL_CHUNKS, String(enabled));
+  }
+
+  /**
+   * Get whether translations skip the cache lookup
+   * @returns True to always translate afresh, false (the default) to use cached translations
+   */
+  static getBypassCache(): boolean {
+    return localStorage.getItem(STORAGE_KEYS.BYPASS_CACHE) === 'true';
+  }
+
+  /**
+   * Store whether translations skip the cache lookup
+   * @param enabled True to always translate afresh
+   */
+  static setBypassCache(enabled: boolean): void {
+    localStorage.setItem(STORAGE_KEYS.BYPASS_CACHE, String(enabled));
+  }
+
+  /**
+   * Get whether each translation is checked with a back-translation
+   * @returns True to check, false (the default) to skip the extra requests
+   */
+  static getBackTranslationCheck(): boolean {
+    return localStorage.getItem(STORAGE_KEYS.BACK_TRANSLATION) === 'true';
+  }
+
+  /**
+   * Store whether each translation is checked with a back-translation
+   * @param enabled True to check
+   */
+  static setBackTranslationCheck(enabled: boolean): void {
+    localStorage.setItem(STORAGE_KEYS.BACK_TRANSLATION, String(enabled));
+  }
+
+  /**
+   * Get whether translations come with a word-by-word gloss
+   * @returns True to ask for one, false (the default) to save the tokens
+   */
+  static getGlossMode(): boolean {
+    return localStorage.getItem(STORAGE_KEYS.GLOSS_MODE) === 'true';
+  }
+
+  /**
+   * Store whether translations come with a word-by-word gloss
+   * @param enabled True to ask for one
+   */
+  static setGlossMode(enabled: boolean): void {
+    localStorage.setItem(STORAGE_KEYS.GLOSS_MODE, String(enabled));
+  }
+
+  /**
+   * Get the model that reviews translations
+   * @returns The judge model ID, or null to review with the translation model
+   */
+  static getJudgeModel(): string | null {
+    return localStorage.getItem(STORAGE_KEYS.JUDGE_MODEL);
+  }
+
+  /**
+   * Store the model that reviews translations
+   * @param modelId The judge model ID
+   */
+  static setJudgeModel(modelId: string): void {
+    localStorage.setItem(STORAGE_KEYS.JUDGE_MODEL, modelId);
+  }
+
+  /**
+   * Get the saved prompt versions and the one in use
+   * @returns The stored prompt settings, or no versions with the built-in templates in use
+   */
+  static getPromptSettings(): PromptSettings {
+    const stored = localStorage.getItem(STORAGE_KEYS.PROMPT_SETTINGS);
+    if (stored) {
+      try {
+        return { ...EMPTY_PROMPT_SETTINGS, ...JSON.parse(stored) };
+      } catch {
+        return EMPTY_PROMPT_SETTINGS;
+      }
+    }
+    return EMPTY_PROMPT_SETTINGS;
+  }
+
+  /**
+   * Store the saved prompt versions and the one in use
+   * @param settings The prompt settings
+   */
+  static setPromptSettings(settings: PromptSettings): void {
+    localStorage.setItem(STORAGE_KEYS.PROMPT_SETTINGS, JSON.stringify(settings));
+  }
+
+  /**
+   * Get the glossary
+   * @returns The glossary entries of every language pair, or empty if none stored
+   */
+  static getGlossary(): GlossaryEntry[] {
+    const stored = localStorage.getItem(STORAGE_KEYS.GLOSSARY);
+    if (stored) {
+      try {
+        return JSON.parse(stored) as GlossaryEntry[];
+      } catch {
+        return [];
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Store the glossary
+   * @param entries The glossary entries of every language pair
+   */
+  static setGlossary(entries: GlossaryEntry[]): void {
+    localStorage.setItem(STORAGE_KEYS.GLOSSARY, JSON.stringify(entries));
+  }
+
+  /**
+   * Get the translation memory
+   * @returns The approved segment translations of every language pair, or empty if none stored
+   */
+  static getTranslationMemory(): TranslationMemoryUnit[] {
+    const stored = localStorage.getItem(STORAGE_KEYS.TRANSLATION_MEMORY);
+    if (stored) {
+      try {
+        return JSON.parse(stored) as TranslationMemoryUnit[];
+      } catch {
+        return [];
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Store the translation memory
+   * @param units The approved segment translations of every language pair
+   */
+  static setTranslationMemory(units: TranslationMemoryUnit[]): void {
+    localStorage.setItem(STORAGE_KEYS.TRANSLATION_MEMORY, JSON.stringify(units));
+  }
+
+  /**
+   * Get the retry policy for failed translations
+   * @returns The stored policy, with defaults for anything not stored
+   */
+  static getRetryPolicy(): RetryPolicy {
+    const stored = localStorage.getItem(STORAGE_KEYS.RETRY_POLICY);
+    if (stored) {
+      try {
+        return { ...DEFAULT_RETRY_POLICY, ...JSON.parse(stored) };
+      } catch {
+        return DEFAULT_RETRY_POLICY;
+      }
+    }
+    return DEFAULT_RETRY_POLICY;
+  }
+
+  /**
+   * Store the retry policy for failed translations
+   * @param policy The policy to store
+   */
+  static setRetryPolicy(policy: RetryPolicy): void {
+    localStorage.setItem(STORAGE_KEYS.RETRY_POLICY, JSON.stringify(policy));
+  }
+
+  /**
+   * Get how readings are shown above Japanese translations
+   * @returns The stored settings, with defaults for anything not stored
+   */
+  static getFuriganaSettings(): FuriganaSettings {
+    const stored = localStorage.getItem(STORAGE_KEYS.FURIGANA_SETTINGS);
+    if (stored) {
+      try {
+        return { ...DEFAULT_FURIGANA_SETTINGS, ...JSON.parse(stored) };
+      } catch {
+        return DEFAULT_FURIGANA_SETTINGS;
+      }
+    }
+    return DEFAULT_FURIGANA_SETTINGS;
+  }
+
+  /**
+   * Store how readings are shown above Japanese translations
+   * @param settings The settings to store
+   */
+  static setFuriganaSettings(settings: FuriganaSettings): void {
+    localStorage.setItem(STORAGE_KEYS.FURIGANA_SETTINGS, JSON.stringify(settings));
+  }
+
+  /**
+   * Get the chosen romanization standard per target language
+   * @returns Standards keyed by language code; languages left out use their default
+   */
+  static getTranscriptionSettings(): TranscriptionSettings {
+    const stored = localStorage.getItem(STORAGE_KEYS.TRANSCRIPTION_SETTINGS);
+    if (stored) {
+      try {
+        return JSON.parse(stored);
+      } catch {
+        return {};
+      }
+    }
+    return {};
+  }
+
+  /**
+   * Store the chosen romanization standard per target language
+   * @param settings Standards keyed by language code
+   */
+  static setTranscriptionSettings(settings: TranscriptionSettings): void {
+    localStorage.setItem(STORAGE_KEYS.TRANSCRIPTION_SETTINGS, JSON.stringify(settings));
+  }
+
+  /**
+   * Get how many translations used each JSON output mode
+   * @returns Counts per output mode
+   */
+  static getOutputModeStats(): OutputModeStats {
+    const defaults: OutputModeStats = { json_schema: 0, prompt: 0, prompt_fallback: 0 };
+    const stored = localStorage.getItem(STORAGE_KEYS.OUTPUT_MODE_STATS);
+    if (stored) {
+      try {
+        return { ...defaults, ...JSON.parse(stored) };
+      } catch {
+        return defaults;
+      }
+    }
+    return defaults;
+  }
+
+  /**
+   * Count a translation towards its output mode
+   * @param mode The output mode the translation used
+   */
+  static recordOutputMode(mode: OutputMode): void {
+    const stats = this.getOutputModeStats();
+    stats[mode] += 1;
+    localStorage.setItem(STORAGE_KEYS.OUTPUT_MODE_STATS, JSON.stringify(stats));
+  }
+
+  /**
+   * Get the running token usage and cost totals
+   * @returns Totals per model and per day
+   */
+  static getUsageStats(): UsageStats {
+    const stored = localStorage.getItem(STORAGE_KEYS.USAGE_STATS);
+    if (stored) {
+      try {
+        const parsed = JSON.parse(stored) as Partial<UsageStats>;
+        return { byModel: parsed.byModel ?? {}, byDay: parsed.byDay ?? {} };
+      } catch {
+        return { byModel: {}, byDay: {} };
+      }
+    }
+    return { byModel: {}, byDay: {} };
+  }
+
+  /**
+   * Add a translation's usage to the running totals
+   * @param model The model ID the translation used
+   * @param usage The tokens used
+   * @param cost The cost in USD, or undefined if the model has no pricing
+   * @param date When the translation was made
+   */
+  static recordUsage(model: string, usage: TokenUsage, cost: number | undefined, date: Date = new Date()): void {
+    const stats = this.getUsageStats();
+    const day = toDayKey(date);
+    stats.byModel[model] = addUsage(stats.byModel[model] ?? EMPTY_USAGE_TOTALS, usage, cost);
+    stats.byDay[day] = addUsage(stats.byDay[day] ?? EMPTY_USAGE_TOTALS, usage, cost);
+    localStorage.setItem(STORAGE_KEYS.USAGE_STATS, JSON.stringify(stats));
+  }
+
+  /**
+   * Get the model ratings from comparison votes
+   * @returns Ratings per language pair and model, or empty if none stored
+   */
+  static getModelRatings(): ModelRatings {
+    const stored = localStorage.getItem(STORAGE_KEYS.MODEL_RATINGS);
+    if (stored) {
+      try {
+        return JSON.parse(stored) as ModelRatings;
+      } catch {
+        return {};
+      }
+    }
+    return {};
+  }
+
+  /**
+   * Update the ratings of a language pair with a comparison vote
+   * @param languagePair The language pair key
+   * @param winner The model whose translation was preferred
+   * @param losers The other models in the comparison
+   */
+  static recordVote(languagePair: string, winner: string, losers: string[]): void {
+    const ratings = this.getModelRatings();
+    ratings[languagePair] = applyVote(ratings[languagePair] ?? {}, winner, losers);
+    localStorage.setItem(STORAGE_KEYS.MODEL_RATINGS, JSON.stringify(ratings));
+  }
+
+  /**
+   * Read the settings of all providers, migrating the pre-provider OpenRouter keys
+   * @returns Settings keyed by provider ID
+   */
+  private static readProviderSettings(): Partial<Record<ProviderId, Partial<ProviderSettings>>> {
+    const stored = localStorage.getItem(STORAGE_KEYS.PROVIDER_SETTINGS);
+    if (stored) {
+      try {
+        return JSON.parse(stored);
+      } catch {
+        // Fall through to migration / empty settings
+      }
+    }
+
+    const legacyKey = localStorage.getItem(STORAGE_KEYS.API_KEY);
+    const legacyModel = localStorage.getItem(STORAGE_KEYS.SELECTED_MODEL);
+    if (legacyKey === null && legacyModel === null) {
+      return {};
+    }
+
+    localStorage.removeItem(STORAGE_KEYS.API_KEY);
+    localStorage.removeItem(STORAGE_KEYS.SELECTED_MODEL);
+    const migrated = { openrouter: { apiKey: legacyKey, selectedModel: legacyModel } };
+    localStorage.setItem(STORAGE_KEYS.PROVIDER_SETTINGS, JSON.stringify(migrated));
+    return migrated;
+  }
 }
@@ -0,0 +1,291 @@
+import { PROMPT_VERSION } from '../constants/prompt';
+import type { TranslationRequest, TranslationResponse, TranslationReview } from '../types';
+
+const DB_NAME = 'clanker_translate_cache';
+const STORE_NAME = 'translations';
+
+// Entries older than this are treated as missing
+const TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Least recently used entries are evicted once the cache grows past this many characters of JSON
+const MAX_CACHE_SIZE = 5 * 1024 * 1024;
+
+interface CacheEntry {
+  key: string;
+  response: TranslationResponse;
+  createdAt: number;
+  lastAccessed: number;
+  size: number;
+}
+
+interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  getAll(): Promise<CacheEntry[]>;
+  put(entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ * @param request The request
+ * @returns Promise that resolves to the request's result
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+class IndexedDbStore implements CacheStore {
+  private db: Promise<IDBDatabase>;
+
+  constructor() {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    };
+    this.db = promisify(request);
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    return (await this.db).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return promisify((await this.store('readonly')).get(key));
+  }
+
+  async getAll(): Promise<CacheEntry[]> {
+    return promisify((await this.store('readonly')).getAll());
+  }
+
+  async put(entry: CacheEntry): Promise<void> {
+    await promisify((await this.store('readwrite')).put(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    await promisify((await this.store('readwrite')).delete(key));
+  }
+
+  async clear(): Promise<void> {
+    await promisify((await this.store('readwrite')).clear());
+  }
+}
+
+// Used where IndexedDB is unavailable (tests, some private browsing modes)
+class MemoryStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return this.entries.get(key);
+  }
+
+  async getAll(): Promise<CacheEntry[]> {
+    return [...this.entries.values()];
+  }
+
+  async put(entry: CacheEntry): Promise<void> {
+    this.entries.set(entry.key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+export class TranslationCache {
+  private static store: CacheStore = typeof indexedDB === 'undefined' ? new MemoryStore() : new IndexedDbStore();
+  private static inFlight = new Map<string, Promise<TranslationResponse>>();
+  // Bumped by clear() so translations that finish afterwards are not written back
+  private static generation = 0;
+
+  /**
+   * Return a cached translation, or run the translation and cache its result.
+   * Identical requests made while one is in flight share its promise.
+   * @param request The translation request
+   * @param translate Performs the translation on a cache miss
+   * @param options bypass skips the cache lookup (the fresh result is still stored);
+   *   signal drops the shared promise when its request is cancelled
+   * @returns Promise that resolves to the translation; cache hits have `cached: true` and no usage.
+   *   Results from a fallback model are not cached, so later requests try the requested model again.
+   */
+  static async getOrTranslate(
+    request: TranslationRequest,
+    translate: () => Promise<TranslationResponse>,
+    options: { bypass?: boolean; signal?: AbortSignal } = {}
+  ): Promise<TranslationResponse> {
+    const key = await this.getKey(request);
+
+    if (!options.bypass) {
+      const pending = this.inFlight.get(key);
+      if (pending) {
+        return pending;
+      }
+
+      const cached = await this.read(key);
+      if (cached) {
+        return { ...cached, usage: undefined, cached: true };
+      }
+    }
+
+    const generation = this.generation;
+    const promise = translate().then(async (response) => {
+      if (generation === this.generation && this.isFromRequestedModel(request, response)) {
+        await this.write(key, response);
+      }
+      return response;
+    });
+
+    this.inFlight.set(key, promise);
+    const forget = () => {
+      if (this.inFlight.get(key) === promise) {
+        this.inFlight.delete(key);
+      }
+    };
+    // A cancelled request must not be joined by the request that replaces it
+    options.signal?.addEventListener('abort', forget);
+
+    try {
+      return await promise;
+    } finally {
+      forget();
+      options.signal?.removeEventListener('abort', forget);
+    }
+  }
+
+  /**
+   * Check that the requested model produced the whole translation, and no part of it fell back
+   * @param request The translation request
+   * @param response The translation
+   * @returns True if the translation can be cached under the request's key
+   */
+  private static isFromRequestedModel(request: TranslationRequest, response: TranslationResponse): boolean {
+    return !response.modelUsage && (!response.model || response.model === request.model);
+  }
+
+  /**
+   * Store a judge review with a cached translation, so later cache hits come back reviewed
+   * @param request The request that produced the translation
+   * @param review The review; its usage is not stored, since cache hits use no tokens
+   */
+  static async attachReview(request: TranslationRequest, review: TranslationReview): Promise<void> {
+    try {
+      const key = await this.getKey(request);
+      const entry = await this.store.get(key);
+      if (!entry) {
+        return;
+      }
+      const response = { ...entry.response, review: { ...review, usage: undefined } };
+      await this.store.put({ ...entry, response, size: JSON.stringify(response).length });
+    } catch (error) {
+      console.warn('[TranslationCache] Failed to store review:', error);
+    }
+  }
+
+  /**
+   * Remove every cached translation, including results of translations still in flight
+   */
+  static async clear(): Promise<void> {
+    this.generation++;
+    this.inFlight.clear();
+    try {
+      await this.store.clear();
+    } catch (error) {
+      console.warn('[TranslationCache] Failed to clear cache:', error);
+    }
+  }
+
+  /**
+   * Compute the cache key for a request
+   * @param request The translation request
+   * @returns SHA-256 hex digest of the request without its API key, plus the prompt version, any custom templates, the glossary, translation memory matches and whether a gloss was asked for
+   */
+  static async getKey(request: TranslationRequest): Promise<string> {
+    // Spell out the fields so the key does not depend on property order
+    const keyed = {
+      promptVersion: PROMPT_VERSION,
+      baseUrl: request.baseUrl ?? null,
+      model: request.model,
+      sourceText: request.sourceText,
+      fromLanguage: request.fromLanguage,
+      toLanguage: request.toLanguage,
+      context: request.context ?? null,
+      structuredOutput: request.structuredOutput ?? false,
+      promptTemplate: request.promptTemplate ?? null,
+      glossary: request.glossary ?? null,
+      memoryMatches: request.memoryMatches ?? null,
+      includeGloss: request.includeGloss ?? false,
+      romanization: request.romanization ?? null,
+    };
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(keyed)));
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * Read an entry, dropping it if expired
+   * @param key The cache key
+   * @returns The cached response, or undefined on a miss
+   */
+  private static async read(key: string): Promise<TranslationResponse | undefined> {
+    try {
+      const entry = await this.store.get(key);
+      if (!entry) {
+        return undefined;
+      }
+      const now = Date.now();
+      if (now - entry.createdAt > TTL_MS) {
+        await this.store.delete(key);
+        return undefined;
+      }
+      await this.store.put({ ...entry, lastAccessed: now });
+      return entry.response;
+    } catch (error) {
+      console.warn('[TranslationCache] Failed to read cache:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a response, then evict expired entries and least recently used entries until the cache fits
+   * @param key The cache key
+   * @param response The response to store
+   */
+  private static async write(key: string, response: TranslationResponse): Promise<void> {
+    try {
+      const now = Date.now();
+      const size = JSON.stringify(response).length;
+      await this.store.put({ key, response, createdAt: now, lastAccessed: now, size });
+
+      const entries = await this.store.getAll();
+      const live: CacheEntry[] = [];
+      for (const entry of entries) {
+        if (now - entry.createdAt > TTL_MS) {
+          await this.store.delete(entry.key);
+        } else {
+          live.push(entry);
+        }
+      }
+
+      let total = live.reduce((sum, entry) => sum + entry.size, 0);
+      const leastRecentFirst = live
+        .filter((entry) => entry.key !== key)
+        .sort((a, b) => a.lastAccessed - b.lastAccessed);
+      for (const entry of leastRecentFirst) {
+        if (total <= MAX_CACHE_SIZE) {
+          break;
+        }
+        await this.store.delete(entry.key);
+        total -= entry.size;
+      }
+    } catch (error) {
+      // Caching is best effort; the translation itself succeeded
+      console.warn('[TranslationCache] Failed to write cache:', error);
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BackTranslationService } from '../BackTranslationService';
+import type { MeaningReview, TranslationProvider, TranslationRequest } from '../../types';
+
+describe('BackTranslationService', () => {
+  const request: TranslationRequest = {
+    apiKey: 'key',
+    model: 'openai/gpt-4',
+    sourceText: 'The meeting is on Friday.',
+    fromLanguage: 'en',
+    toLanguage: 'ja',
+    context: 'An email to a client',
+  };
+
+  const review: MeaningReview = {
+    meaningPreserved: false,
+    changes: [{ original: 'Friday', backTranslation: 'Saturday', explanation: 'The day changed' }],
+  };
+
+  const createProvider = (): TranslationProvider => ({
+    id: 'openrouter',
+    name: 'OpenRouter',
+    defaultBaseUrl: 'https://openrouter.ai/api/v1',
+    requiresApiKey: true,
+    validateKey: vi.fn(),
+    listModels: vi.fn(),
+    translate: vi.fn().mockResolvedValue({
+      translation: 'The meeting is on Saturday.',
+      model: 'openai/gpt-4',
+      usage: { promptTokens: 30, completionTokens: 10 },
+    }),
+    reviewMeaning: vi.fn().mockResolvedValue(review),
+    reviewTranslation: vi.fn(),
+  });
+
+  it('should translate the translation back with the languages reversed and without the context', async () => {
+    const provider = createProvider();
+
+    await BackTranslationService.check(provider, request, '会議は土曜日です。');
+
+    expect(provider.translate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sourceText: '会議は土曜日です。',
+        fromLanguage: 'ja',
+        toLanguage: 'en',
+        context: undefined,
+      }),
+      expect.anything()
+    );
+  });
+
+  it('should review the back-translation against the original in the source language', async () => {
+    const provider = createProvider();
+    const signal = new AbortController().signal;
+
+    await BackTranslationService.check(provider, request, '会議は土曜日です。', { signal });
+
+    expect(provider.reviewMeaning).toHaveBeenCalledWith(
+      {
+        apiKey: 'key',
+        baseUrl: undefined,
+        model: 'openai/gpt-4',
+        originalText: 'The meeting is on Friday.',
+        backTranslation: 'The meeting is on Saturday.',
+        language: 'en',
+      },
+      { signal }
+    );
+  });
+
+  it('should return the back-translation, a word diff against the original and the review', async () => {
+    const result = await BackTranslationService.check(createProvider(), request, '会議は土曜日です。');
+
+    expect(result.backTranslation).toBe('The meeting is on Saturday.');
+    expect(result.review).toEqual(review);
+    expect(result.translationUsage).toEqual({ promptTokens: 30, completionTokens: 10 });
+    expect(result.diff).toContainEqual({ type: 'removed', text: 'Friday' });
+    expect(result.diff).toContainEqual({ type: 'added', text: 'Saturday' });
+  });
+
+  it('should not review when the back-translation fails', async () => {
+    const provider = createProvider();
+    vi.mocked(provider.translate).mockRejectedValue({ type: 'network', message: 'Network error' });
+
+    await expect(BackTranslationService.check(provider, request, '会議は土曜日です。'))
+      .rejects.toMatchObject({ type: 'network' });
+    expect(provider.reviewMeaning).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ChunkedTranslationService } from '../ChunkedTranslationService';
+import type { TranslationProvider, TranslationRequest } from '../../types';
+
+describe('ChunkedTranslationService', () => {
+  // 4096-token context gives ~1000-token chunks, so each paragraph below is its own chunk
+  const model = { id: 'openai/gpt-4', name: 'GPT-4', contextLength: 4096 };
+  const paragraph = (word: string) => `${word} `.repeat(700).trim();
+
+  const request: TranslationRequest = {
+    apiKey: 'key',
+    model: 'openai/gpt-4',
+    sourceText: 'Hello',
+    fromLanguage: 'en',
+    toLanguage: 'ja',
+    context: 'A letter to a friend',
+  };
+
+  const createProvider = (translate: TranslationProvider['translate']): TranslationProvider => ({
+    id: 'openrouter',
+    name: 'OpenRouter',
+    defaultBaseUrl: 'https://openrouter.ai/api/v1',
+    requiresApiKey: true,
+    validateKey: vi.fn(),
+    listModels: vi.fn(),
+    translate: vi.fn(translate),
+    reviewMeaning: vi.fn(),
+    reviewTranslation: vi.fn(),
+  });
+
+  it('should send short text in a single request sized to the model', async () => {
+    const provider = createProvider(async () => ({ translation: 'こんにちは' }));
+    const onProgress = vi.fn();
+
+    const result = await ChunkedTranslationService.translate(provider, request, { model, onProgress });
+
+    expect(result.translation).toBe('こんにちは');
+    expect(provider.translate).toHaveBeenCalledTimes(1);
+    expect(provider.translate).toHaveBeenCalledWith(
+      { ...request, maxTokens: 1006 },
+      { signal: undefined, onProgress }
+    );
+  });
+
+  it('should translate long text chunk by chunk and reassemble it', async () => {
+    const provider = createProvider(async (chunkRequest) => ({
+      translation: chunkRequest.sourceText.startsWith('one') ? 'ONE' : 'TWO',
+      transcription: chunkRequest.sourceText.startsWith('one') ? 'wan' : 'tsu',
+      explanation: chunkRequest.sourceText.startsWith('one') ? 'First note' : '',
+      usage: { promptTokens: 10, completionTokens: 5 },
+    }));
+
+    const result = await ChunkedTranslationService.translate(
+      provider,
+      { ...request, sourceText: `${paragraph('one')}\n\n${paragraph('two')}` },
+      { model }
+    );
+
+    expect(provider.translate).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({
+      translation: 'ONE\n\nTWO',
+      transcription: 'wan\n\ntsu',
+      explanation: 'Part 1: First note',
+      usage: { promptTokens: 20, completionTokens: 10 },
+    });
+  });
+
+  it('should tell each chunk its position and pass the previous translation on', async () => {
+    const provider = createProvider(async (chunkRequest) => ({
+      translation: chunkRequest.sourceText.startsWith('one') ? 'ONE' : 'TWO',
+    }));
+
+    await ChunkedTranslationService.translate(
+      provider,
+      { ...request, sourceText: `${paragraph('one')}\n\n${paragraph('two')}` },
+      { model }
+    );
+
+    const calls = vi.mocked(provider.translate).mock.calls;
+    expect(calls[0][0].context).toBe(
+      'A letter to a friend\n\nThis is part 1 of 2 of a longer document. Translate only this part.'
+    );
+    expect(calls[1][0].context).toContain('part 2 of 2');
+    expect(calls[1][0].context).toContain('which was translated as:\n"ONE"');
+  });
+
+  it('should cut the previous translation at a sentence boundary for the hint', async () => {
+    const long = Array.from({ length: 40 }, (_, i) => `Sentence ${i}.`).join(' ');
+    const provider = createProvider(async (chunkRequest) => ({
+      translation: chunkRequest.sourceText.startsWith('one') ? long : 'TWO',
+    }));
+
+    await ChunkedTranslationService.translate(
+      provider,
+      { ...request, sourceText: `${paragraph('one')}\n\n${paragraph('two')}` },
+      { model }
+    );
+
+    const hint = vi.mocked(provider.translate).mock.calls[1][0].context!.split('which was translated as:\n')[1];
+    expect(hint).toMatch(/^"Sentence \d+\./);
+    expect(hint.endsWith('Sentence 39."')).toBe(true);
+    expect(hint.length).toBeLessThanOrEqual(402);
+  });
+
+  it('should stream progress across chunks', async () => {
+    const provider = createProvider(async (chunkRequest, options) => {
+      const translation = chunkRequest.sourceText.startsWith('one') ? 'ONE' : 'TWO';
+      options?.onProgress?.({ translation: translation.slice(0, 1) });
+      return { translation };
+    });
+    const onProgress = vi.fn();
+
+    await ChunkedTranslationService.translate(
+      provider,
+      { ...request, sourceText: `${paragraph('one')}\n\n${paragraph('two')}` },
+      { model, onProgress }
+    );
+
+    expect(onProgress).toHaveBeenNthCalledWith(1, expect.objectContaining({ translation: 'O' }));
+    expect(onProgress).toHaveBeenNthCalledWith(2, expect.objectContaining({ translation: 'ONE\n\nT' }));
+  });
+
+  it('should translate chunks in parallel without the previous-part hint', async () => {
+    const resolvers: (() => void)[] = [];
+    const provider = createProvider((chunkRequest) => new Promise((resolve) => {
+      resolvers.push(() => resolve({ translation: chunkRequest.sourceText.slice(0, 3).toUpperCase() }));
+    }));
+
+    const promise = ChunkedTranslationService.translate(
+      provider,
+      { ...request, sourceText: `${paragraph('one')}\n\n${paragraph('two')}\n\n${paragraph('six')}` },
+      { model, parallel: true }
+    );
+
+    await vi.waitFor(() => expect(provider.translate).toHaveBeenCalledTimes(3));
+    resolvers.reverse().forEach((resolve) => resolve());
+
+    expect((await promise).translation).toBe('ONE\n\nTWO\n\nSIX');
+    expect(vi.mocked(provider.translate).mock.calls[2][0].context).not.toContain('previous part');
+  });
+
+  it('should name the model that translated most chunks and report tokens per model', async () => {
+    const provider = createProvider(async (chunkRequest) => ({
+      translation: 'X',
+      model: chunkRequest.sourceText.startsWith('one') ? 'openai/gpt-4' : 'anthropic/claude-3-haiku',
+      usage: { promptTokens: 100, completionTokens: 10 },
+    }));
+
+    const result = await ChunkedTranslationService.translate(
+      provider,
+      { ...request, sourceText: `${paragraph('one')}\n\n${paragraph('two')}\n\n${paragraph('six')}` },
+      { model }
+    );
+
+    expect(result.model).toBe('anthropic/claude-3-haiku');
+    expect(result.usage).toEqual({ promptTokens: 300, completionTokens: 30 });
+    expect(result.modelUsage).toEqual([
+      { model: 'openai/gpt-4', usage: { promptTokens: 100, completionTokens: 10 } },
+      { model: 'anthropic/claude-3-haiku', usage: { promptTokens: 200, completionTokens: 20 } },
+    ]);
+  });
+
+  it('should leave out tokens per model when one model translated every chunk', async () => {
+    const provider = createProvider(async () => ({
+      translation: 'X',
+      model: 'openai/gpt-4',
+      usage: { promptTokens: 100, completionTokens: 10 },
+    }));
+
+    const result = await ChunkedTranslationService.translate(
+      provider,
+      { ...request, sourceText: `${paragraph('one')}\n\n${paragraph('two')}` },
+      { model }
+    );
+
+    expect(result.model).toBe('openai/gpt-4');
+    expect(result.modelUsage).toBeUndefined();
+  });
+
+  it('should abort the other parallel chunks when one fails', async () => {
+    const error = { type: 'network', message: 'Network error occurred' };
+    const signals: AbortSignal[] = [];
+    const provider = createProvider((chunkRequest, options) => new Promise((_, reject) => {
+      signals.push(options!.signal!);
+      if (chunkRequest.sourceText.startsWith('two')) {
+        setTimeout(() => reject(error), 0);
+      }
+    }));
+
+    await expect(ChunkedTranslationService.translate(
+      provider,
+      { ...request, sourceText: `${paragraph('one')}\n\n${paragraph('two')}\n\n${paragraph('six')}` },
+      { model, parallel: true }
+    )).rejects.toBe(error);
+
+    expect(signals).toHaveLength(3);
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+  });
+
+  it('should pass the caller\'s abort on to parallel chunks', async () => {
+    const controller = new AbortController();
+    const signals: AbortSignal[] = [];
+    const provider = createProvider((_, options) => new Promise((_resolve, reject) => {
+      signals.push(options!.signal!);
+      options!.signal!.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }));
+
+    const promise = ChunkedTranslationService.translate(
+      provider,
+      { ...request, sourceText: `${paragraph('one')}\n\n${paragraph('two')}` },
+      { model, parallel: true, signal: controller.signal }
+    );
+    await vi.waitFor(() => expect(signals).toHaveLength(2));
+    controller.abort();
+
+    await expect(promise).rejects.toThrow('Aborted');
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+  });
+
+  it('should fail when a chunk fails', async () => {
+    const error = { type: 'network', message: 'Network error occurred' };
+    const provider = createProvider(async (chunkRequest) => {
+      if (chunkRequest.sourceText.startsWith('two')) {
+        throw error;
+      }
+      return { translation: 'ONE' };
+    });
+
+    await expect(ChunkedTranslationService.translate(
+      provider,
+      { ...request, sourceText: `${paragraph('one')}\n\n${paragraph('two')}` },
+      { model }
+    )).rejects.toBe(error);
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { OpenRouterService } from '../OpenRouterService';
+import { DEFAULT_RETRY_POLICY } from '../../constants/retry';
+import type { RetryPolicy } from '../../types';
 
 describe('OpenRouterService', () => {
   beforeEach(() => {
@@ -42,6 +44,27 @@ describe('OpenRouterService', () => {
       const result = await OpenRouterService.validateApiKey('test-key');
       expect(result).toBe(false);
     });
+
+    it('should send OpenRouter attribution headers only to OpenRouter', async () => {
+      global.fetch = vi.fn().mockResolvedValue({ ok: true });
+
+      await OpenRouterService.validateApiKey('test-key');
+      await OpenRouterService.validateApiKey('test-key', 'http://localhost:11434/v1');
+
+      const [openRouterCall, customCall] = vi.mocked(fetch).mock.calls;
+      expect(openRouterCall[1]!.headers).toHaveProperty('X-Title');
+      expect(customCall[0]).toBe('http://localhost:11434/v1/models');
+      expect(customCall[1]!.headers).not.toHaveProperty('X-Title');
+      expect(customCall[1]!.headers).not.toHaveProperty('HTTP-Referer');
+    });
+
+    it('should omit the Authorization header when no key is given', async () => {
+      global.fetch = vi.fn().mockResolvedValue({ ok: true });
+
+      await OpenRouterService.validateApiKey('', 'http://localhost:11434/v1');
+
+      expect(vi.mocked(fetch).mock.calls[0][1]!.headers).not.toHaveProperty('Authorization');
+    });
   });
 
   describe('fetchModels', () => {
@@ -74,16 +97,66 @@ describe('OpenRouterService', () => {
         id: 'openai/gpt-4',
         name: 'GPT-4',
         description: 'Most capable model',
-        contextLength: 8192
+        contextLength: 8192,
+        provider: 'openai'
       });
       expect(result[1]).toEqual({
         id: 'openai/gpt-3.5-turbo',
         name: 'GPT-3.5 Turbo',
         description: undefined,
-        contextLength: 4096
+        contextLength: 4096,
+        provider: 'openai'
       });
     });
 
+    it('should parse per-token pricing', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          data: [
+            { id: 'openai/gpt-4o', name: 'GPT-4o', pricing: { prompt: '0.0000025', completion: '0.00001' } },
+            { id: 'llama3', name: 'llama3' }
+          ]
+        })
+      });
+
+      const result = await OpenRouterService.fetchModels('valid-key');
+
+      expect(result[0].pricing).toEqual({ prompt: 0.0000025, completion: 0.00001 });
+      expect(result[1].pricing).toBeUndefined();
+    });
+
+    it('should map the maximum completion tokens', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          data: [{ id: 'openai/gpt-4o', name: 'GPT-4o', top_provider: { max_completion_tokens: 16384 } }]
+        })
+      });
+
+      const result = await OpenRouterService.fetchModels('valid-key');
+
+      expect(result[0].maxCompletionTokens).toBe(16384);
+    });
+
+    it('should map input modalities and provider prefix', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          data: [
+            { id: 'google/gemini-2.5-flash', name: 'Gemini 2.5 Flash', architecture: { input_modalities: ['text', 'image'] } },
+            { id: 'llama3', name: 'llama3' }
+          ]
+        })
+      });
+
+      const result = await OpenRouterService.fetchModels('valid-key');
+
+      expect(result[0].inputModalities).toEqual(['text', 'image']);
+      expect(result[0].provider).toBe('google');
+      expect(result[1].provider).toBeUndefined();
+    });
+
     it('should throw auth error for invalid API key', async () => {
       global.fetch = vi.fn().mockResolvedValue({
         ok: false,
@@ -154,6 +227,23 @@ describe('OpenRouterService', () => {
       expect(systemPrompt).toContain('"explanation"');
       expect(systemPrompt).toContain('"transcription"');
     });
+
+    it('should ask for the detected source language', () => {
+      expect(OpenRouterService.generateSystemPrompt()).toContain('"detectedLanguage"');
+    });
+
+    it('should render a custom system template', () => {
+      const systemPrompt = OpenRouterService.generateSystemPrompt({
+        apiKey: 'test-key',
+        model: 'openai/gpt-4',
+        sourceText: 'Hello',
+        fromLanguage: 'en',
+        toLanguage: 'de',
+        promptTemplate: { system: 'Translate into {{toLanguage}} only.', user: '{{sourceText}}' },
+      });
+
+      expect(systemPrompt).toBe('Translate into de only.');
+    });
   });
 
   describe('buildUserPrompt', () => {
@@ -335,6 +425,25 @@ describe('OpenRouterService', () => {
     });
   });
 
+  describe('buildUserPrompt with a custom template', () => {
+    it('should render the custom user template', () => {
+      const userPrompt = OpenRouterService.buildUserPrompt({
+        apiKey: 'test-key',
+        model: 'openai/gpt-4',
+        sourceText: 'Hello',
+        fromLanguage: 'en',
+        toLanguage: 'de',
+        context: 'A greeting',
+        promptTemplate: {
+          system: 'System',
+          user: '{{sourceText}}{{#context}} [{{context}}]{{/context}}',
+        },
+      });
+
+      expect(userPrompt).toBe('Hello [A greeting]');
+    });
+  });
+
   describe('parseTranslationResponse', () => {
     it('should parse valid JSON response with all fields', () => {
       const jsonContent = JSON.stringify({
@@ -352,6 +461,60 @@ describe('OpenRouterService', () => {
       expect(result.detectedLanguage).toBe('en');
     });
 
+    it('should normalize the detected language and drop an empty one', () => {
+      expect(OpenRouterService.parseTranslationResponse(JSON.stringify({ translation: 'Hi', detectedLanguage: ' JA ' }))
+        .detectedLanguage).toBe('ja');
+      expect(OpenRouterService.parseTranslationResponse(JSON.stringify({ translation: 'Hi', detectedLanguage: '' }))
+        .detectedLanguage).toBeUndefined();
+    });
+
+    it('should parse alternatives, dropping malformed ones and repeats of the translation', () => {
+      const result = OpenRouterService.parseTranslationResponse(JSON.stringify({
+        translation: 'こんにちは',
+        alternatives: [
+          { text: 'やあ', register: 'casual', whenToUse: 'With friends', transcription: 'yaa' },
+          { text: 'こんにちは', register: 'neutral', whenToUse: 'Anywhere', transcription: 'konnichiwa' },
+          { register: 'formal' },
+          { text: 'ごきげんよう', register: 'formal', whenToUse: 'Very polite', transcription: '' },
+        ]
+      }));
+
+      expect(result.alternatives).toEqual([
+        { text: 'やあ', register: 'casual', whenToUse: 'With friends', transcription: 'yaa' },
+        { text: 'ごきげんよう', register: 'formal', whenToUse: 'Very polite', transcription: undefined },
+      ]);
+    });
+
+    it('should parse gloss entries, dropping ones without a source word', () => {
+      const result = OpenRouterService.parseTranslationResponse(JSON.stringify({
+        translation: 'I like cats',
+        gloss: [
+          { source: '猫', target: 'cats', partOfSpeech: 'noun', dictionaryForm: '猫', reading: 'neko' },
+          { source: '', target: 'the' },
+          { source: 'OK', target: 'OK', partOfSpeech: 'interjection', dictionaryForm: 'OK', reading: '' },
+        ]
+      }));
+
+      expect(result.gloss).toEqual([
+        { source: '猫', target: 'cats', partOfSpeech: 'noun', dictionaryForm: '猫', reading: 'neko' },
+        { source: 'OK', target: 'OK', partOfSpeech: 'interjection', dictionaryForm: 'OK', reading: undefined },
+      ]);
+    });
+
+    it('should keep furigana only if the segments spell out the translation', () => {
+      const furigana = [{ text: '猫', reading: 'ねこ' }, { text: 'です', reading: '' }];
+
+      expect(OpenRouterService.parseTranslationResponse(JSON.stringify({ translation: '猫です', furigana })).furigana)
+        .toEqual([{ text: '猫', reading: 'ねこ' }, { text: 'です', reading: undefined }]);
+      expect(OpenRouterService.parseTranslationResponse(JSON.stringify({ translation: '犬です', furigana })).furigana)
+        .toBeUndefined();
+    });
+
+    it('should leave out an empty list of alternatives', () => {
+      expect(OpenRouterService.parseTranslationResponse(JSON.stringify({ translation: 'Hi', alternatives: [] }))
+        .alternatives).toBeUndefined();
+    });
+
     it('should parse JSON response with only translation field', () => {
       const jsonContent = JSON.stringify({
         translation: 'Bonjour'
@@ -463,6 +626,53 @@ describe('OpenRouterService', () => {
   });
 
   describe('translate', () => {
+    it('should drop a transcription the detected language does not need', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          choices: [{
+            message: {
+              content: JSON.stringify({ translation: 'Hola', transcription: 'o-la', detectedLanguage: 'en' })
+            }
+          }]
+        })
+      });
+
+      const result = await OpenRouterService.translate({
+        apiKey: 'valid-key',
+        model: 'openai/gpt-4',
+        sourceText: 'Hello',
+        fromLanguage: 'auto',
+        toLanguage: 'es'
+      });
+
+      expect(result.detectedLanguage).toBe('en');
+      expect(result.transcription).toBeUndefined();
+    });
+
+    it('should keep the transcription when the detected language uses another writing system', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          choices: [{
+            message: {
+              content: JSON.stringify({ translation: 'こんにちは', transcription: 'konnichiwa', detectedLanguage: 'en' })
+            }
+          }]
+        })
+      });
+
+      const result = await OpenRouterService.translate({
+        apiKey: 'valid-key',
+        model: 'openai/gpt-4',
+        sourceText: 'Hello',
+        fromLanguage: 'auto',
+        toLanguage: 'ja'
+      });
+
+      expect(result.transcription).toBe('konnichiwa');
+    });
+
     it('should translate text successfully', async () => {
       const mockResponse = {
         choices: [
@@ -608,5 +818,747 @@ describe('OpenRouterService', () => {
         message: 'Network error occurred during translation'
       });
     });
+
+    describe('max tokens', () => {
+      const okResponse = {
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: '{"translation": "Hola"}' } }] })
+      };
+      const request = {
+        apiKey: 'valid-key',
+        model: 'openai/gpt-4',
+        sourceText: 'Hello',
+        fromLanguage: 'en',
+        toLanguage: 'es'
+      };
+
+      it('should default to 4000 tokens', async () => {
+        global.fetch = vi.fn().mockResolvedValue(okResponse);
+
+        await OpenRouterService.translate(request);
+
+        const callBody = JSON.parse(vi.mocked(fetch).mock.calls[0][1]!.body as string);
+        expect(callBody.max_tokens).toBe(4000);
+      });
+
+      it('should use the requested limit', async () => {
+        global.fetch = vi.fn().mockResolvedValue(okResponse);
+
+        await OpenRouterService.translate({ ...request, maxTokens: 12000 });
+
+        const callBody = JSON.parse(vi.mocked(fetch).mock.calls[0][1]!.body as string);
+        expect(callBody.max_tokens).toBe(12000);
+      });
+    });
+
+    describe('usage', () => {
+      it('should return token usage from the response', async () => {
+        global.fetch = vi.fn().mockResolvedValue({
+          ok: true,
+          json: async () => ({
+            choices: [{ message: { content: '{"translation": "Hola"}' } }],
+            usage: { prompt_tokens: 95, completion_tokens: 12, total_tokens: 107 }
+          })
+        });
+
+        const result = await OpenRouterService.translate({
+          apiKey: 'valid-key',
+          model: 'openai/gpt-4',
+          sourceText: 'Hello',
+          fromLanguage: 'en',
+          toLanguage: 'es'
+        });
+
+        expect(result.usage).toEqual({ promptTokens: 95, completionTokens: 12 });
+      });
+
+      it('should leave usage undefined when the server does not report it', async () => {
+        global.fetch = vi.fn().mockResolvedValue({
+          ok: true,
+          json: async () => ({ choices: [{ message: { content: '{"translation": "Hola"}' } }] })
+        });
+
+        const result = await OpenRouterService.translate({
+          apiKey: 'valid-key',
+          model: 'openai/gpt-4',
+          sourceText: 'Hello',
+          fromLanguage: 'en',
+          toLanguage: 'es'
+        });
+
+        expect(result.usage).toBeUndefined();
+      });
+    });
+
+    describe('structured output', () => {
+      const request = {
+        apiKey: 'valid-key',
+        model: 'openai/gpt-4o',
+        sourceText: 'Hello',
+        fromLanguage: 'en',
+        toLanguage: 'es',
+        structuredOutput: true
+      };
+
+      const okResponse = {
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: '{"translation": "Hola", "explanation": "", "transcription": ""}' } }] })
+      };
+
+      it('should send a strict JSON schema when requested', async () => {
+        global.fetch = vi.fn().mockResolvedValue(okResponse);
+
+        const result = await OpenRouterService.translate(request);
+
+        const callBody = JSON.parse(vi.mocked(fetch).mock.calls[0][1]!.body as string);
+        expect(callBody.response_format.type).toBe('json_schema');
+        expect(callBody.response_format.json_schema.strict).toBe(true);
+        expect(callBody.response_format.json_schema.schema.required).toEqual(
+          ['translation', 'explanation', 'transcription', 'detectedLanguage', 'alternatives', 'gloss', 'furigana']
+        );
+        expect(result.outputMode).toBe('json_schema');
+      });
+
+      it('should use the prompt only for models without structured output', async () => {
+        global.fetch = vi.fn().mockResolvedValue(okResponse);
+
+        const result = await OpenRouterService.translate({ ...request, structuredOutput: false });
+
+        const callBody = JSON.parse(vi.mocked(fetch).mock.calls[0][1]!.body as string);
+        expect(callBody.response_format).toBeUndefined();
+        expect(result.outputMode).toBe('prompt');
+      });
+
+      it('should fall back to the prompt when the schema is rejected', async () => {
+        global.fetch = vi.fn()
+          .mockResolvedValueOnce({
+            ok: false,
+            status: 400,
+            json: async () => ({ error: { code: 400, message: 'response_format is not supported by this provider' } })
+          })
+          .mockResolvedValueOnce(okResponse);
+
+        const result = await OpenRouterService.translate(request);
+
+        const retryBody = JSON.parse(vi.mocked(fetch).mock.calls[1][1]!.body as string);
+        expect(retryBody.response_format).toBeUndefined();
+        expect(result.translation).toBe('Hola');
+        expect(result.outputMode).toBe('prompt_fallback');
+      });
+
+      it('should not resend other bad requests without the schema', async () => {
+        global.fetch = vi.fn().mockResolvedValue({
+          ok: false,
+          status: 400,
+          json: async () => ({ error: { code: 400, message: "This model's maximum context length is 8192 tokens" } })
+        });
+
+        await expect(OpenRouterService.translate(request)).rejects.toMatchObject({
+          type: 'context_length_exceeded',
+          statusCode: 400
+        });
+        expect(fetch).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('streaming', () => {
+      const request = {
+        apiKey: 'valid-key',
+        model: 'openai/gpt-4',
+        sourceText: 'Hello',
+        fromLanguage: 'en',
+        toLanguage: 'es'
+      };
+
+      const sseChunk = (content: string) =>
+        `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+
+      const streamResponse = (events: string[]) => {
+        const encoder = new TextEncoder();
+        return {
+          ok: true,
+          body: new ReadableStream({
+            start(controller) {
+              events.forEach(event => controller.enqueue(encoder.encode(event)));
+              controller.close();
+            }
+          })
+        };
+      };
+
+      it('should request a stream and report partial fields as they arrive', async () => {
+        global.fetch = vi.fn().mockResolvedValue(streamResponse([
+          ': OPENROUTER PROCESSING\n\n',
+          sseChunk('{"translation": "Ho'),
+          sseChunk('la", "explanation": "Simple'),
+          sseChunk(' greeting"}'),
+          'data: [DONE]\n\n'
+        ]));
+        const onProgress = vi.fn();
+
+        const result = await OpenRouterService.translate(request, undefined, onProgress);
+
+        const callBody = JSON.parse(vi.mocked(fetch).mock.calls[0][1]!.body as string);
+        expect(callBody.stream).toBe(true);
+        expect(onProgress).toHaveBeenNthCalledWith(1, { translation: 'Ho' });
+        expect(onProgress).toHaveBeenNthCalledWith(2, { translation: 'Hola', explanation: 'Simple' });
+        expect(result).toMatchObject({ translation: 'Hola', explanation: 'Simple greeting' });
+      });
+
+      it('should handle events split across reads', async () => {
+        const event = sseChunk('{"translation": "Bonjour"}');
+        global.fetch = vi.fn().mockResolvedValue(streamResponse([
+          event.slice(0, 10),
+          event.slice(10),
+          'data: [DONE]\n\n'
+        ]));
+
+        const result = await OpenRouterService.translate(request, undefined, vi.fn());
+
+        expect(result.translation).toBe('Bonjour');
+      });
+
+      it('should read a final event that has no trailing newline', async () => {
+        const usage = { prompt_tokens: 10, completion_tokens: 5 };
+        global.fetch = vi.fn().mockResolvedValue(streamResponse([
+          sseChunk('{"translation": "Ciao"}'),
+          `data: ${JSON.stringify({ choices: [], usage })}`
+        ]));
+
+        const result = await OpenRouterService.translate(request, undefined, vi.fn());
+
+        expect(result.translation).toBe('Ciao');
+        expect(result.usage).toEqual({ promptTokens: 10, completionTokens: 5 });
+      });
+
+      it('should cancel the stream once it is done', async () => {
+        const cancel = vi.fn();
+        const encoder = new TextEncoder();
+        global.fetch = vi.fn().mockResolvedValue({
+          ok: true,
+          // Left open, as a server may keep the connection alive after the last event
+          body: new ReadableStream({
+            start(controller) {
+              controller.enqueue(encoder.encode(sseChunk('{"translation": "Hallo"}')));
+              controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+            },
+            cancel
+          })
+        });
+
+        const result = await OpenRouterService.translate(request, undefined, vi.fn());
+
+        expect(result.translation).toBe('Hallo');
+        expect(cancel).toHaveBeenCalled();
+      });
+
+      it('should not send stream flag without a progress callback', async () => {
+        global.fetch = vi.fn().mockResolvedValue({
+          ok: true,
+          json: async () => ({ choices: [{ message: { content: '{"translation": "Hola"}' } }] })
+        });
+
+        await OpenRouterService.translate(request);
+
+        const callBody = JSON.parse(vi.mocked(fetch).mock.calls[0][1]!.body as string);
+        expect(callBody.stream).toBeUndefined();
+      });
+
+      it('should request and return usage from the final chunk', async () => {
+        global.fetch = vi.fn().mockResolvedValue(streamResponse([
+          sseChunk('{"translation": "Hola"}'),
+          `data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 120, completion_tokens: 8 } })}\n\n`,
+          'data: [DONE]\n\n'
+        ]));
+
+        const result = await OpenRouterService.translate(request, undefined, vi.fn());
+
+        const callBody = JSON.parse(vi.mocked(fetch).mock.calls[0][1]!.body as string);
+        expect(callBody.stream_options).toEqual({ include_usage: true });
+        expect(result.usage).toEqual({ promptTokens: 120, completionTokens: 8 });
+      });
+
+      it('should surface errors reported inside the stream', async () => {
+        global.fetch = vi.fn().mockImplementation(async () => streamResponse([
+          `data: ${JSON.stringify({ error: { message: 'Provider returned error', code: 502 } })}\n\n`
+        ]));
+
+        await expect(OpenRouterService.translate(request, undefined, vi.fn())).rejects.toMatchObject({
+          message: 'Provider returned error'
+        });
+      });
+
+      it('should stop without retrying when aborted', async () => {
+        const abortError = new DOMException('The operation was aborted.', 'AbortError');
+        global.fetch = vi.fn().mockRejectedValue(abortError);
+
+        await expect(
+          OpenRouterService.translate(request, new AbortController().signal, vi.fn())
+        ).rejects.toBe(abortError);
+        expect(fetch).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('protected spans', () => {
+      const request = {
+        apiKey: 'valid-key',
+        model: 'openai/gpt-4',
+        sourceText: 'Hello {name}, open <b>Settings</b>',
+        fromLanguage: 'en',
+        toLanguage: 'es'
+      };
+      const respondWith = (translation: string) => ({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: JSON.stringify({ translation }) } }] })
+      });
+
+      it('should send placeholders and tags as tokens and restore them', async () => {
+        global.fetch = vi.fn().mockResolvedValue(respondWith('Hola {{PH0}}, abre {{PH1}}Ajustes{{PH2}}'));
+
+        const result = await OpenRouterService.translate(request);
+
+        const callBody = JSON.parse(vi.mocked(fetch).mock.calls[0][1]!.body as string);
+        const userPrompt = callBody.messages[1].content;
+        expect(userPrompt).toContain('Hello {{PH0}}, open {{PH1}}Settings{{PH2}}');
+        expect(userPrompt).toContain('Copy each placeholder ({{PH0}}, {{PH1}}, {{PH2}})');
+        expect(result.translation).toBe('Hola {name}, abre <b>Ajustes</b>');
+      });
+
+      it('should fail when a token is lost or repeated', async () => {
+        global.fetch = vi.fn().mockResolvedValue(respondWith('Hola {{PH0}} {{PH0}}, abre Ajustes{{PH2}}'));
+
+        await expect(
+          OpenRouterService.translate(request, undefined, undefined, { policy: { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 } })
+        ).rejects.toMatchObject({ type: 'placeholder_mismatch', message: 'missing <b>, repeated {name}' });
+      });
+    });
+
+    describe('retry policy', () => {
+      const request = {
+        apiKey: 'valid-key',
+        model: 'openai/gpt-4',
+        sourceText: 'Hello',
+        fromLanguage: 'en',
+        toLanguage: 'es'
+      };
+      const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1, jitter: 0 };
+      const okResponse = {
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: '{"translation": "Hola"}' } }] })
+      };
+      const rateLimited = (retryAfter: string) => ({
+        ok: false,
+        status: 429,
+        headers: new Headers({ 'Retry-After': retryAfter }),
+        json: async () => ({ error: { message: 'Rate limited' } })
+      });
+
+      it('should wait as long as Retry-After asks before retrying', async () => {
+        global.fetch = vi.fn()
+          .mockResolvedValueOnce(rateLimited('0.02'))
+          .mockResolvedValueOnce(okResponse);
+        const onRetry = vi.fn();
+
+        const result = await OpenRouterService.translate(request, undefined, undefined, { policy, onRetry });
+
+        expect(result.translation).toBe('Hola');
+        expect(onRetry).toHaveBeenCalledWith({ attempt: 2, maxAttempts: 3, delayMs: 20 });
+      });
+
+      it('should give up when Retry-After is longer than the maximum delay', async () => {
+        global.fetch = vi.fn().mockResolvedValue(rateLimited('120'));
+
+        await expect(
+          OpenRouterService.translate(request, undefined, undefined, { policy })
+        ).rejects.toMatchObject({ type: 'rate_limit', retryAfterMs: 120000 });
+        expect(fetch).toHaveBeenCalledTimes(1);
+      });
+
+      it('should not retry errors the policy does not list', async () => {
+        global.fetch = vi.fn().mockResolvedValue({
+          ok: false,
+          status: 401,
+          json: async () => ({ error: { message: 'Invalid key' } })
+        });
+
+        await expect(
+          OpenRouterService.translate(request, undefined, undefined, { policy })
+        ).rejects.toMatchObject({ type: 'auth' });
+        expect(fetch).toHaveBeenCalledTimes(1);
+      });
+
+      it('should stop after maxAttempts', async () => {
+        global.fetch = vi.fn().mockRejectedValue(new Error('Network error'));
+
+        await expect(
+          OpenRouterService.translate(request, undefined, undefined, { policy: { ...policy, maxAttempts: 5 } })
+        ).rejects.toMatchObject({ type: 'network' });
+        expect(fetch).toHaveBeenCalledTimes(5);
+      });
+
+      it('should stop waiting when aborted during the backoff', async () => {
+        const controller = new AbortController();
+        global.fetch = vi.fn().mockResolvedValue(rateLimited('10'));
+
+        const promise = OpenRouterService.translate(request, controller.signal, undefined, {
+          policy,
+          onRetry: () => controller.abort(),
+        });
+
+        await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+        expect(fetch).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('error bodies', () => {
+      const request = {
+        apiKey: 'valid-key',
+        model: 'openai/gpt-4',
+        sourceText: 'Hello',
+        fromLanguage: 'en',
+        toLanguage: 'es'
+      };
+      const failed = (status: number, error: object) => ({
+        ok: false,
+        status,
+        json: async () => ({ error })
+      });
+
+      it('should report insufficient credits without retrying', async () => {
+        global.fetch = vi.fn().mockResolvedValue(failed(402, { code: 402, message: 'Insufficient credits' }));
+
+        await expect(OpenRouterService.translate(request)).rejects.toEqual({
+          type: 'insufficient_credits',
+          message: 'Insufficient credits',
+          statusCode: 402
+        });
+        expect(fetch).toHaveBeenCalledTimes(1);
+      });
+
+      it('should report moderation reasons', async () => {
+        global.fetch = vi.fn().mockResolvedValue(failed(403, {
+          code: 403,
+          message: 'Input flagged',
+          metadata: { reasons: ['harassment'], flagged_input: 'Hello', provider_name: 'OpenAI' }
+        }));
+
+        await expect(OpenRouterService.translate(request)).rejects.toMatchObject({
+          type: 'moderation',
+          details: { moderationReasons: ['harassment'], providerName: 'OpenAI' }
+        });
+      });
+
+      it('should report context length errors without retrying', async () => {
+        global.fetch = vi.fn().mockResolvedValue(failed(400, {
+          code: 400,
+          message: "This endpoint's maximum context length is 4096 tokens"
+        }));
+
+        await expect(OpenRouterService.translate(request)).rejects.toMatchObject({
+          type: 'context_length_exceeded',
+          statusCode: 400
+        });
+        expect(fetch).toHaveBeenCalledTimes(1);
+      });
+
+      it('should fall back to the status when the body is not JSON', async () => {
+        global.fetch = vi.fn().mockResolvedValue({
+          ok: false,
+          status: 404,
+          json: async () => { throw new SyntaxError('Unexpected token'); }
+        });
+
+        await expect(OpenRouterService.translate(request)).rejects.toMatchObject({
+          type: 'model_unavailable',
+          message: 'Translation request failed with status 404'
+        });
+      });
+
+      it('should classify errors reported inside a stream', async () => {
+        const encoder = new TextEncoder();
+        global.fetch = vi.fn().mockResolvedValue({
+          ok: true,
+          status: 200,
+          body: new ReadableStream({
+            start(controller) {
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+                error: { code: 408, message: 'Provider timed out', metadata: { provider_name: 'Together' } }
+              })}\n\n`));
+              controller.close();
+            }
+          })
+        });
+
+        await expect(
+          OpenRouterService.translate(request, undefined, vi.fn(), { policy: { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 } })
+        ).rejects.toMatchObject({
+          type: 'provider_timeout',
+          details: { providerName: 'Together' }
+        });
+      });
+    });
+
+    describe('fallback models', () => {
+      const request = {
+        apiKey: 'valid-key',
+        model: 'openai/gpt-4',
+        sourceText: 'Hello',
+        fromLanguage: 'en',
+        toLanguage: 'es',
+        fallbackModels: ['anthropic/claude-3-haiku', 'google/gemini-flash']
+      };
+      const retry = { policy: { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 } };
+      const ok = (translation: string) => ({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: JSON.stringify({ translation }) } }] })
+      });
+      const unavailable = {
+        ok: false,
+        status: 404,
+        json: async () => ({ error: { code: 404, message: 'No endpoints found for openai/gpt-4' } })
+      };
+      const requestedModels = () =>
+        vi.mocked(fetch).mock.calls.map(([, init]) => JSON.parse(init!.body as string).model);
+
+      it('should report the primary model when it succeeds', async () => {
+        global.fetch = vi.fn().mockResolvedValue(ok('Hola'));
+
+        const result = await OpenRouterService.translate(request, undefined, undefined, retry);
+
+        expect(result.model).toBe('openai/gpt-4');
+        expect(requestedModels()).toEqual(['openai/gpt-4']);
+      });
+
+      it('should move to the next model when the model is unavailable', async () => {
+        global.fetch = vi.fn()
+          .mockResolvedValueOnce(unavailable)
+          .mockResolvedValueOnce(ok('Hola'));
+
+        const result = await OpenRouterService.translate(request, undefined, undefined, retry);
+
+        expect(result).toMatchObject({ translation: 'Hola', model: 'anthropic/claude-3-haiku' });
+        expect(requestedModels()).toEqual(['openai/gpt-4', 'anthropic/claude-3-haiku']);
+      });
+
+      it('should move to the next model after repeated schema failures', async () => {
+        const invalid = { ok: true, json: async () => ({ choices: [{ message: { content: '{"translation": ""}' } }] }) };
+        global.fetch = vi.fn()
+          .mockResolvedValueOnce(invalid)
+          .mockResolvedValueOnce(invalid)
+          .mockResolvedValueOnce(ok('Hola'));
+
+        const result = await OpenRouterService.translate(request, undefined, undefined, {
+          policy: { ...DEFAULT_RETRY_POLICY, maxAttempts: 2, baseDelayMs: 1 }
+        });
+
+        expect(result.model).toBe('anthropic/claude-3-haiku');
+        expect(requestedModels()).toEqual(['openai/gpt-4', 'openai/gpt-4', 'anthropic/claude-3-haiku']);
+      });
+
+      it('should not fall back on errors every model would hit', async () => {
+        global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 401, json: async () => ({}) });
+
+        await expect(OpenRouterService.translate(request, undefined, undefined, retry))
+          .rejects.toMatchObject({ type: 'auth' });
+        expect(fetch).toHaveBeenCalledTimes(1);
+      });
+
+      it('should throw the last error when every model fails', async () => {
+        global.fetch = vi.fn().mockResolvedValue(unavailable);
+
+        await expect(OpenRouterService.translate(request, undefined, undefined, retry))
+          .rejects.toMatchObject({ type: 'model_unavailable' });
+        expect(requestedModels()).toEqual(['openai/gpt-4', 'anthropic/claude-3-haiku', 'google/gemini-flash']);
+      });
+
+      it('should skip the primary model if it is also listed as a fallback', async () => {
+        global.fetch = vi.fn().mockResolvedValue(unavailable);
+
+        await expect(OpenRouterService.translate(
+          { ...request, fallbackModels: ['openai/gpt-4', 'google/gemini-flash'] }, undefined, undefined, retry
+        )).rejects.toMatchObject({ type: 'model_unavailable' });
+        expect(requestedModels()).toEqual(['openai/gpt-4', 'google/gemini-flash']);
+      });
+    });
+  });
+
+  describe('reviewMeaning', () => {
+    const request = {
+      apiKey: 'valid-key',
+      model: 'openai/gpt-4',
+      originalText: 'The meeting is on Friday.',
+      backTranslation: 'The meeting is not on Friday.',
+      language: 'en'
+    };
+    const review = {
+      meaningPreserved: false,
+      changes: [{ original: 'is on', backTranslation: 'is not on', explanation: 'The sentence became negative' }]
+    };
+
+    it('should send the original and back-translation and parse the review', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          choices: [{ message: { content: JSON.stringify(review) } }],
+          usage: { prompt_tokens: 120, completion_tokens: 40 }
+        })
+      });
+
+      const result = await OpenRouterService.reviewMeaning(request);
+
+      expect(result).toEqual({ ...review, usage: { promptTokens: 120, completionTokens: 40 } });
+      const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]!.body as string);
+      expect(body.model).toBe('openai/gpt-4');
+      expect(body.messages[1].content).toContain('The meeting is on Friday.');
+      expect(body.messages[1].content).toContain('The meeting is not on Friday.');
+    });
+
+    it('should throw typed errors for failed requests', async () => {
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 401, json: async () => ({}) });
+
+      await expect(OpenRouterService.reviewMeaning(request)).rejects.toMatchObject({ type: 'auth' });
+    });
+  });
+
+  describe('parseMeaningReview', () => {
+    it('should strip markdown code blocks', () => {
+      const result = OpenRouterService.parseMeaningReview('```json\n{"meaningPreserved": true, "changes": []}\n```');
+      expect(result).toEqual({ meaningPreserved: true, changes: [] });
+    });
+
+    it('should drop malformed changes', () => {
+      const result = OpenRouterService.parseMeaningReview(JSON.stringify({
+        meaningPreserved: false,
+        changes: [
+          { original: 'Friday', backTranslation: 'Saturday', explanation: 'Different day' },
+          { original: 'meeting' },
+          'not a change'
+        ]
+      }));
+
+      expect(result.changes).toEqual([{ original: 'Friday', backTranslation: 'Saturday', explanation: 'Different day' }]);
+    });
+
+    it('should infer the verdict from the changes when it is missing', () => {
+      expect(OpenRouterService.parseMeaningReview('{"changes": []}').meaningPreserved).toBe(true);
+      expect(OpenRouterService.parseMeaningReview(
+        '{"changes": [{"original": "a", "backTranslation": "", "explanation": "Omitted"}]}'
+      ).meaningPreserved).toBe(false);
+    });
+
+    it('should throw an invalid_response error for non-JSON content', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      expect(() => OpenRouterService.parseMeaningReview('Looks fine to me')).toThrowError(
+        expect.objectContaining({ type: 'invalid_response' })
+      );
+    });
+  });
+
+  describe('reviewTranslation', () => {
+    const request = {
+      apiKey: 'valid-key',
+      model: 'anthropic/claude-3-haiku',
+      sourceText: 'Please find the invoice attached.',
+      translation: '請求書を添付しました。',
+      fromLanguage: 'en',
+      toLanguage: 'ja',
+      context: 'An email to a client'
+    };
+    const scores = {
+      accuracy: { score: 5, justification: 'Same meaning' },
+      fluency: { score: 4, justification: 'Natural' },
+      terminology: { score: 5, justification: '請求書 is the standard term' },
+      register: { score: 3, justification: 'Could be more polite for a client' },
+      omissions: { score: 5, justification: 'Nothing missing' }
+    };
+    const ok = (content: string) => ({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content } }], usage: { prompt_tokens: 200, completion_tokens: 80 } })
+    });
+
+    it('should send the source and translation to the judge model and return its scores', async () => {
+      global.fetch = vi.fn().mockResolvedValue(ok(JSON.stringify(scores)));
+
+      const result = await OpenRouterService.reviewTranslation(request);
+
+      expect(result).toEqual({
+        model: 'anthropic/claude-3-haiku',
+        scores,
+        usage: { promptTokens: 200, completionTokens: 80 }
+      });
+      const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]!.body as string);
+      expect(body.model).toBe('anthropic/claude-3-haiku');
+      expect(body.messages[1].content).toContain('Please find the invoice attached.');
+      expect(body.messages[1].content).toContain('請求書を添付しました。');
+      expect(body.messages[1].content).toContain('Context: An email to a client');
+      expect(body.response_format).toBeUndefined();
+    });
+
+    it('should constrain the output with a schema for models that support it', async () => {
+      global.fetch = vi.fn().mockResolvedValue(ok(JSON.stringify(scores)));
+
+      await OpenRouterService.reviewTranslation({ ...request, structuredOutput: true });
+
+      const body = JSON.parse(vi.mocked(fetch).mock.calls[0][1]!.body as string);
+      expect(body.response_format.json_schema.schema.required).toEqual(
+        ['accuracy', 'fluency', 'terminology', 'register', 'omissions']
+      );
+    });
+
+    it('should throw an invalid_response error when a dimension is missing', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      global.fetch = vi.fn().mockResolvedValue(ok(JSON.stringify({ ...scores, omissions: undefined })));
+
+      await expect(OpenRouterService.reviewTranslation(request)).rejects.toMatchObject({ type: 'invalid_response' });
+    });
+  });
+
+  describe('parseReviewResponse', () => {
+    it('should strip markdown code blocks and accept quoted scores', () => {
+      const result = OpenRouterService.parseReviewResponse(
+        '```json\n{"accuracy": {"score": "4", "justification": "Minor shift"}}\n```'
+      );
+      expect(result.scores.accuracy).toEqual({ score: 4, justification: 'Minor shift' });
+    });
+
+    it('should return no scores for non-JSON content', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      expect(OpenRouterService.parseReviewResponse('Great translation!')).toEqual({ scores: {} });
+    });
+  });
+
+  describe('isValidReviewResponse', () => {
+    const valid = {
+      scores: {
+        accuracy: { score: 5, justification: '' },
+        fluency: { score: 1, justification: 'Unreadable' },
+        terminology: { score: 3, justification: 'OK' },
+        register: { score: 4, justification: 'OK' },
+        omissions: { score: 5, justification: 'OK' }
+      }
+    };
+
+    beforeEach(() => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    it('should accept whole scores from 1 to 5 for every dimension', () => {
+      expect(OpenRouterService.isValidReviewResponse(valid)).toBe(true);
+    });
+
+    it('should reject scores out of range or not whole', () => {
+      expect(OpenRouterService.isValidReviewResponse({
+        scores: { ...valid.scores, fluency: { score: 0, justification: 'x' } }
+      })).toBe(false);
+      expect(OpenRouterService.isValidReviewResponse({
+        scores: { ...valid.scores, fluency: { score: 4.5, justification: 'x' } }
+      })).toBe(false);
+    });
+
+    it('should reject missing justifications', () => {
+      expect(OpenRouterService.isValidReviewResponse({
+        scores: { ...valid.scores, register: { score: 4 } as unknown as { score: number; justification: string } }
+      })).toBe(false);
+    });
   });
 });
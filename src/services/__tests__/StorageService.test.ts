@@ -1,5 +1,8 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { StorageService } from '../StorageService';
+import { DEFAULT_RETRY_POLICY } from '../../constants/retry';
+import { DEFAULT_FURIGANA_SETTINGS } from '../../constants/furigana';
+import { EMPTY_PROMPT_SETTINGS } from '../../constants/prompt';
 import type { LanguagePrefs } from '../../types';
 
 describe('StorageService', () => {
@@ -87,4 +90,323 @@ describe('StorageService', () => {
       });
     });
   });
+
+  describe('Provider Settings', () => {
+    it('should default to the OpenRouter provider', () => {
+      expect(StorageService.getActiveProvider()).toBe('openrouter');
+    });
+
+    it('should store and retrieve the active provider', () => {
+      StorageService.setActiveProvider('openrouter');
+      expect(StorageService.getActiveProvider()).toBe('openrouter');
+    });
+
+    it('should return empty settings for a provider with nothing stored', () => {
+      expect(StorageService.getProviderSettings('openrouter')).toEqual({
+        apiKey: null,
+        baseUrl: null,
+        selectedModel: null,
+        fallbackModels: [],
+        models: [],
+      });
+    });
+
+    it('should merge updates into existing provider settings', () => {
+      StorageService.updateProviderSettings('openrouter', { apiKey: 'key-1' });
+      StorageService.updateProviderSettings('openrouter', { baseUrl: 'https://proxy.example.com/v1' });
+
+      expect(StorageService.getProviderSettings('openrouter')).toMatchObject({
+        apiKey: 'key-1',
+        baseUrl: 'https://proxy.example.com/v1',
+      });
+    });
+
+    it('should scope key, base URL, model and models to the active provider', () => {
+      const models = [{ id: 'openai/gpt-4', name: 'GPT-4' }];
+      StorageService.setApiKey('key-1');
+      StorageService.setBaseUrl('https://proxy.example.com/v1');
+      StorageService.setSelectedModel('openai/gpt-4');
+      StorageService.setCachedModels(models);
+
+      expect(StorageService.getProviderSettings('openrouter')).toEqual({
+        apiKey: 'key-1',
+        baseUrl: 'https://proxy.example.com/v1',
+        selectedModel: 'openai/gpt-4',
+        fallbackModels: [],
+        models,
+      });
+      expect(StorageService.getBaseUrl()).toBe('https://proxy.example.com/v1');
+      expect(StorageService.getCachedModels()).toEqual(models);
+    });
+
+    it('should store fallback models for the active provider', () => {
+      StorageService.setFallbackModels(['anthropic/claude-3-haiku', 'google/gemini-flash']);
+
+      expect(StorageService.getFallbackModels()).toEqual(['anthropic/claude-3-haiku', 'google/gemini-flash']);
+      expect(StorageService.getProviderSettings('custom').fallbackModels).toEqual([]);
+    });
+
+    it('should migrate API key and model stored before providers existed', () => {
+      localStorage.setItem('clanker_translate_api_key', 'legacy-key');
+      localStorage.setItem('clanker_translate_selected_model', 'openai/gpt-4');
+
+      expect(StorageService.getApiKey()).toBe('legacy-key');
+      expect(StorageService.getSelectedModel()).toBe('openai/gpt-4');
+      expect(localStorage.getItem('clanker_translate_api_key')).toBeNull();
+    });
+  });
+
+  describe('Output Mode Statistics', () => {
+    it('should start with zero counts', () => {
+      expect(StorageService.getOutputModeStats()).toEqual({
+        json_schema: 0,
+        prompt: 0,
+        prompt_fallback: 0,
+      });
+    });
+
+    it('should count each recorded output mode', () => {
+      StorageService.recordOutputMode('json_schema');
+      StorageService.recordOutputMode('json_schema');
+      StorageService.recordOutputMode('prompt_fallback');
+
+      expect(StorageService.getOutputModeStats()).toEqual({
+        json_schema: 2,
+        prompt: 0,
+        prompt_fallback: 1,
+      });
+    });
+  });
+
+  describe('Usage Statistics', () => {
+    it('should start with no usage', () => {
+      expect(StorageService.getUsageStats()).toEqual({ byModel: {}, byDay: {} });
+    });
+
+    it('should keep running totals per model and per day', () => {
+      const day1 = new Date(2025, 0, 15, 10);
+      const day2 = new Date(2025, 0, 16, 9);
+      StorageService.recordUsage('openai/gpt-4o', { promptTokens: 100, completionTokens: 20 }, 0.0005, day1);
+      StorageService.recordUsage('openai/gpt-4o', { promptTokens: 50, completionTokens: 10 }, 0.00025, day2);
+      StorageService.recordUsage('llama3', { promptTokens: 80, completionTokens: 30 }, undefined, day2);
+
+      const stats = StorageService.getUsageStats();
+      expect(stats.byModel['openai/gpt-4o']).toEqual({
+        requests: 2,
+        promptTokens: 150,
+        completionTokens: 30,
+        cost: 0.00075,
+      });
+      expect(stats.byModel['llama3']).toEqual({
+        requests: 1,
+        promptTokens: 80,
+        completionTokens: 30,
+        cost: 0,
+      });
+      expect(stats.byDay['2025-01-15'].requests).toBe(1);
+      expect(stats.byDay['2025-01-16']).toMatchObject({ requests: 2, promptTokens: 130 });
+    });
+
+    it('should return empty usage when stored data is invalid JSON', () => {
+      localStorage.setItem('clanker_translate_usage_stats', 'invalid-json');
+      expect(StorageService.getUsageStats()).toEqual({ byModel: {}, byDay: {} });
+    });
+  });
+
+  describe('Parallel Chunking', () => {
+    it('should default to sequential chunking', () => {
+      expect(StorageService.getParallelChunking()).toBe(false);
+    });
+
+    it('should store and retrieve the chunking mode', () => {
+      StorageService.setParallelChunking(true);
+      expect(StorageService.getParallelChunking()).toBe(true);
+      StorageService.setParallelChunking(false);
+      expect(StorageService.getParallelChunking()).toBe(false);
+    });
+  });
+
+  describe('Cache Bypass', () => {
+    it('should use the cache by default', () => {
+      expect(StorageService.getBypassCache()).toBe(false);
+    });
+
+    it('should store and retrieve the bypass setting', () => {
+      StorageService.setBypassCache(true);
+      expect(StorageService.getBypassCache()).toBe(true);
+    });
+  });
+
+  describe('Back-translation Check', () => {
+    it('should be off by default', () => {
+      expect(StorageService.getBackTranslationCheck()).toBe(false);
+    });
+
+    it('should store and retrieve the setting', () => {
+      StorageService.setBackTranslationCheck(true);
+      expect(StorageService.getBackTranslationCheck()).toBe(true);
+    });
+  });
+
+  describe('Gloss Mode', () => {
+    it('should be off by default', () => {
+      expect(StorageService.getGlossMode()).toBe(false);
+    });
+
+    it('should store and retrieve the setting', () => {
+      StorageService.setGlossMode(true);
+      expect(StorageService.getGlossMode()).toBe(true);
+    });
+  });
+
+  describe('Judge Model', () => {
+    it('should have no judge model by default', () => {
+      expect(StorageService.getJudgeModel()).toBeNull();
+    });
+
+    it('should store and retrieve the judge model', () => {
+      StorageService.setJudgeModel('anthropic/claude-3-haiku');
+      expect(StorageService.getJudgeModel()).toBe('anthropic/claude-3-haiku');
+    });
+  });
+
+  describe('Prompt Settings', () => {
+    it('should have no saved versions by default', () => {
+      expect(StorageService.getPromptSettings()).toEqual(EMPTY_PROMPT_SETTINGS);
+    });
+
+    it('should store and retrieve the versions and the active one', () => {
+      const settings = {
+        versions: [{ id: 'v1', name: 'Formal', createdAt: 1, system: 'Be formal.', user: '{{sourceText}}' }],
+        activeVersionId: 'v1',
+      };
+      StorageService.setPromptSettings(settings);
+      expect(StorageService.getPromptSettings()).toEqual(settings);
+    });
+
+    it('should return no versions for corrupted data', () => {
+      localStorage.setItem('clanker_translate_prompt_settings', 'not json');
+      expect(StorageService.getPromptSettings()).toEqual(EMPTY_PROMPT_SETTINGS);
+    });
+  });
+
+  describe('Glossary', () => {
+    it('should have no entries by default', () => {
+      expect(StorageService.getGlossary()).toEqual([]);
+    });
+
+    it('should store and retrieve the entries', () => {
+      const entries = [{
+        id: '1',
+        sourceTerm: 'dashboard',
+        targetTerm: 'ダッシュボード',
+        fromLanguage: 'en',
+        toLanguage: 'ja',
+        caseSensitive: false,
+        forbiddenTranslations: ['管理画面'],
+      }];
+      StorageService.setGlossary(entries);
+      expect(StorageService.getGlossary()).toEqual(entries);
+    });
+
+    it('should return no entries for corrupted data', () => {
+      localStorage.setItem('clanker_translate_glossary', 'not json');
+      expect(StorageService.getGlossary()).toEqual([]);
+    });
+  });
+
+  describe('Translation Memory', () => {
+    it('should have no units by default', () => {
+      expect(StorageService.getTranslationMemory()).toEqual([]);
+    });
+
+    it('should store and retrieve the units', () => {
+      const units = [{
+        id: '1',
+        sourceText: 'Bug fixes.',
+        targetText: 'Fehlerbehebungen.',
+        fromLanguage: 'en',
+        toLanguage: 'de',
+        createdAt: 1,
+      }];
+      StorageService.setTranslationMemory(units);
+      expect(StorageService.getTranslationMemory()).toEqual(units);
+    });
+
+    it('should return no units for corrupted data', () => {
+      localStorage.setItem('clanker_translate_translation_memory', 'not json');
+      expect(StorageService.getTranslationMemory()).toEqual([]);
+    });
+  });
+
+  describe('Retry Policy', () => {
+    it('should return the default policy when none is stored', () => {
+      expect(StorageService.getRetryPolicy()).toEqual(DEFAULT_RETRY_POLICY);
+    });
+
+    it('should store and retrieve the policy', () => {
+      const policy = { ...DEFAULT_RETRY_POLICY, maxAttempts: 5, honorRetryAfter: false };
+      StorageService.setRetryPolicy(policy);
+      expect(StorageService.getRetryPolicy()).toEqual(policy);
+    });
+
+    it('should fill in defaults for fields missing from the stored policy', () => {
+      localStorage.setItem('clanker_translate_retry_policy', JSON.stringify({ maxAttempts: 1 }));
+      expect(StorageService.getRetryPolicy()).toEqual({ ...DEFAULT_RETRY_POLICY, maxAttempts: 1 });
+    });
+
+    it('should return the default policy for corrupted data', () => {
+      localStorage.setItem('clanker_translate_retry_policy', 'not json');
+      expect(StorageService.getRetryPolicy()).toEqual(DEFAULT_RETRY_POLICY);
+    });
+  });
+
+  describe('Furigana Settings', () => {
+    it('should return the default settings when none are stored', () => {
+      expect(StorageService.getFuriganaSettings()).toEqual(DEFAULT_FURIGANA_SETTINGS);
+    });
+
+    it('should store and retrieve the settings', () => {
+      StorageService.setFuriganaSettings({ style: 'romaji', hideCommonKanji: true });
+      expect(StorageService.getFuriganaSettings()).toEqual({ style: 'romaji', hideCommonKanji: true });
+    });
+  });
+
+  describe('Transcription Settings', () => {
+    it('should return no choices by default', () => {
+      expect(StorageService.getTranscriptionSettings()).toEqual({});
+    });
+
+    it('should store and retrieve the chosen standards', () => {
+      StorageService.setTranscriptionSettings({ ja: 'kunrei', ko: 'yale' });
+      expect(StorageService.getTranscriptionSettings()).toEqual({ ja: 'kunrei', ko: 'yale' });
+    });
+
+    it('should return no choices for corrupted data', () => {
+      localStorage.setItem('clanker_translate_transcription_settings', '{broken');
+      expect(StorageService.getTranscriptionSettings()).toEqual({});
+    });
+  });
+
+  describe('Model Ratings', () => {
+    it('should return no ratings by default', () => {
+      expect(StorageService.getModelRatings()).toEqual({});
+    });
+
+    it('should rate each language pair separately', () => {
+      StorageService.recordVote('en>ja', 'openai/gpt-4', ['anthropic/claude-3-haiku']);
+      StorageService.recordVote('en>ja', 'openai/gpt-4', ['anthropic/claude-3-haiku']);
+      StorageService.recordVote('ja>en', 'anthropic/claude-3-haiku', ['openai/gpt-4']);
+
+      const ratings = StorageService.getModelRatings();
+      expect(ratings['en>ja']['openai/gpt-4'].votes).toBe(2);
+      expect(ratings['en>ja']['openai/gpt-4'].rating).toBeGreaterThan(ratings['en>ja']['anthropic/claude-3-haiku'].rating);
+      expect(ratings['ja>en']['anthropic/claude-3-haiku'].votes).toBe(1);
+    });
+
+    it('should return no ratings for corrupted data', () => {
+      localStorage.setItem('clanker_translate_model_ratings', '{broken');
+      expect(StorageService.getModelRatings()).toEqual({});
+    });
+  });
 });
@@ -0,0 +1,234 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TranslationCache } from '../TranslationCache';
+import type { TranslationRequest } from '../../types';
+
+describe('TranslationCache', () => {
+  const request: TranslationRequest = {
+    apiKey: 'key-1',
+    baseUrl: 'https://openrouter.ai/api/v1',
+    model: 'openai/gpt-4o',
+    sourceText: 'Hello',
+    fromLanguage: 'en',
+    toLanguage: 'ja',
+    context: 'greeting',
+  };
+
+  const response = {
+    translation: 'こんにちは',
+    usage: { promptTokens: 100, completionTokens: 10 },
+  };
+
+  beforeEach(async () => {
+    await TranslationCache.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('getKey', () => {
+    it('should ignore the API key', async () => {
+      expect(await TranslationCache.getKey({ ...request, apiKey: 'key-2' }))
+        .toBe(await TranslationCache.getKey(request));
+    });
+
+    it('should not depend on property order', async () => {
+      const { sourceText, ...rest } = request;
+      expect(await TranslationCache.getKey({ sourceText, ...rest }))
+        .toBe(await TranslationCache.getKey(request));
+    });
+
+    it('should differ when any translation input differs', async () => {
+      const key = await TranslationCache.getKey(request);
+      expect(await TranslationCache.getKey({ ...request, model: 'openai/gpt-4o-mini' })).not.toBe(key);
+      expect(await TranslationCache.getKey({ ...request, toLanguage: 'ko' })).not.toBe(key);
+      expect(await TranslationCache.getKey({ ...request, context: undefined })).not.toBe(key);
+      expect(await TranslationCache.getKey({ ...request, baseUrl: 'http://localhost:11434/v1' })).not.toBe(key);
+      expect(await TranslationCache.getKey({ ...request, promptTemplate: { system: 'Be brief.', user: '{{sourceText}}' } }))
+        .not.toBe(key);
+    });
+
+    it('should be a SHA-256 hex digest', async () => {
+      expect(await TranslationCache.getKey(request)).toMatch(/^[0-9a-f]{64}$/);
+    });
+  });
+
+  describe('getOrTranslate', () => {
+    it('should translate on a miss and serve the cached result next time', async () => {
+      const translate = vi.fn().mockResolvedValue(response);
+
+      const first = await TranslationCache.getOrTranslate(request, translate);
+      const second = await TranslationCache.getOrTranslate({ ...request, apiKey: 'other-key' }, translate);
+
+      expect(translate).toHaveBeenCalledTimes(1);
+      expect(first).toEqual(response);
+      expect(second).toEqual({ translation: 'こんにちは', usage: undefined, cached: true });
+    });
+
+    it('should translate again when bypassing the cache', async () => {
+      const translate = vi.fn().mockResolvedValue(response);
+
+      await TranslationCache.getOrTranslate(request, translate);
+      const result = await TranslationCache.getOrTranslate(request, translate, { bypass: true });
+
+      expect(translate).toHaveBeenCalledTimes(2);
+      expect(result.cached).toBeUndefined();
+    });
+
+    it('should not cache a translation that finishes after the cache is cleared', async () => {
+      let resolveFirst: (value: typeof response) => void = () => {};
+      const slow = vi.fn(() => new Promise<typeof response>((resolve) => {
+        resolveFirst = resolve;
+      }));
+      const translate = vi.fn().mockResolvedValue(response);
+
+      const first = TranslationCache.getOrTranslate(request, slow);
+      await vi.waitFor(() => expect(slow).toHaveBeenCalled());
+      await TranslationCache.clear();
+      resolveFirst(response);
+      await first;
+
+      const second = await TranslationCache.getOrTranslate(request, translate);
+      expect(translate).toHaveBeenCalledTimes(1);
+      expect(second.cached).toBeUndefined();
+    });
+
+    it('should not cache a translation from a fallback model', async () => {
+      const translate = vi.fn()
+        .mockResolvedValueOnce({ ...response, model: 'anthropic/claude-3-haiku' })
+        .mockResolvedValueOnce({ ...response, model: request.model });
+
+      await TranslationCache.getOrTranslate(request, translate);
+      const second = await TranslationCache.getOrTranslate(request, translate);
+      const third = await TranslationCache.getOrTranslate(request, translate);
+
+      expect(translate).toHaveBeenCalledTimes(2);
+      expect(second.cached).toBeUndefined();
+      expect(third.cached).toBe(true);
+    });
+
+    it('should not cache a chunked translation where some chunks fell back', async () => {
+      const usage = { promptTokens: 1, completionTokens: 1 };
+      const translate = vi.fn().mockResolvedValue({
+        ...response,
+        model: request.model,
+        modelUsage: [{ model: request.model, usage }, { model: 'anthropic/claude-3-haiku', usage }],
+      });
+
+      await TranslationCache.getOrTranslate(request, translate);
+      await TranslationCache.getOrTranslate(request, translate);
+
+      expect(translate).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache failed translations', async () => {
+      const error = { type: 'network', message: 'Network error occurred' };
+      const translate = vi.fn().mockRejectedValueOnce(error).mockResolvedValueOnce(response);
+
+      await expect(TranslationCache.getOrTranslate(request, translate)).rejects.toBe(error);
+      expect(await TranslationCache.getOrTranslate(request, translate)).toEqual(response);
+      expect(translate).toHaveBeenCalledTimes(2);
+    });
+
+    it('should expire entries after the TTL', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const translate = vi.fn().mockResolvedValue(response);
+
+      await TranslationCache.getOrTranslate(request, translate);
+      vi.setSystemTime(Date.now() + 31 * 24 * 60 * 60 * 1000);
+      await TranslationCache.getOrTranslate(request, translate);
+
+      expect(translate).toHaveBeenCalledTimes(2);
+    });
+
+    it('should evict the least recently used entries when full', async () => {
+      // Each response is about 2 MB of JSON, so only two fit in the 5 MB cache
+      const large = (char: string) => ({ translation: char.repeat(2 * 1024 * 1024) });
+      const translate = vi.fn((text: string) => Promise.resolve(large(text)));
+      const requestFor = (sourceText: string) => ({ ...request, sourceText });
+
+      vi.useFakeTimers({ toFake: ['Date'] });
+      await TranslationCache.getOrTranslate(requestFor('a'), () => translate('a'));
+      vi.advanceTimersByTime(1000);
+      await TranslationCache.getOrTranslate(requestFor('b'), () => translate('b'));
+      vi.advanceTimersByTime(1000);
+      // Reading 'a' makes 'b' the least recently used
+      await TranslationCache.getOrTranslate(requestFor('a'), () => translate('a'));
+      vi.advanceTimersByTime(1000);
+      await TranslationCache.getOrTranslate(requestFor('c'), () => translate('c'));
+
+      translate.mockClear();
+      await TranslationCache.getOrTranslate(requestFor('a'), () => translate('a'));
+      await TranslationCache.getOrTranslate(requestFor('b'), () => translate('b'));
+
+      expect(translate).toHaveBeenCalledTimes(1);
+      expect(translate).toHaveBeenCalledWith('b');
+    });
+
+    it('should coalesce identical in-flight requests', async () => {
+      let resolve: (value: typeof response) => void = () => {};
+      const translate = vi.fn(() => new Promise<typeof response>((r) => { resolve = r; }));
+
+      const first = TranslationCache.getOrTranslate(request, translate);
+      const second = TranslationCache.getOrTranslate(request, translate);
+      await vi.waitFor(() => expect(translate).toHaveBeenCalled());
+      resolve(response);
+
+      expect(await first).toEqual(response);
+      expect(await second).toEqual(response);
+      expect(translate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not join a request that was cancelled', async () => {
+      const controller = new AbortController();
+      const abortError = new DOMException('The operation was aborted.', 'AbortError');
+      let reject: (error: unknown) => void = () => {};
+      const translate = vi.fn()
+        .mockImplementationOnce(() => new Promise((_, r) => { reject = r; }))
+        .mockResolvedValueOnce(response);
+
+      const first = TranslationCache.getOrTranslate(request, translate, { signal: controller.signal });
+      await vi.waitFor(() => expect(translate).toHaveBeenCalledTimes(1));
+      controller.abort();
+      const second = TranslationCache.getOrTranslate(request, translate);
+      reject(abortError);
+
+      await expect(first).rejects.toBe(abortError);
+      expect(await second).toEqual(response);
+    });
+  });
+
+  describe('attachReview', () => {
+    const review = {
+      model: 'anthropic/claude-3-haiku',
+      scores: {
+        accuracy: { score: 5, justification: 'Same meaning' },
+        fluency: { score: 5, justification: 'Natural' },
+        terminology: { score: 5, justification: 'Correct' },
+        register: { score: 4, justification: 'Slightly casual' },
+        omissions: { score: 5, justification: 'Nothing missing' },
+      },
+      usage: { promptTokens: 200, completionTokens: 80 },
+    };
+
+    it('should return the review, without its usage, with later cache hits', async () => {
+      const translate = vi.fn().mockResolvedValue(response);
+      await TranslationCache.getOrTranslate(request, translate);
+
+      await TranslationCache.attachReview(request, review);
+      const cached = await TranslationCache.getOrTranslate(request, translate);
+
+      expect(cached.review).toEqual({ ...review, usage: undefined });
+    });
+
+    it('should do nothing for translations that are not cached', async () => {
+      const translate = vi.fn().mockResolvedValue(response);
+
+      await TranslationCache.attachReview(request, review);
+      const result = await TranslationCache.getOrTranslate(request, translate);
+
+      expect(translate).toHaveBeenCalledTimes(1);
+      expect(result.review).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import type {
+  MeaningReview,
+  MeaningReviewRequest,
+  Model,
+  ProviderId,
+  ReviewRequest,
+  TranslateOptions,
+  TranslationProvider,
+  TranslationRequest,
+  TranslationResponse,
+  TranslationReview,
+} from '../../types';
+import { OpenRouterService } from '../OpenRouterService';
+
+/** What sets one OpenAI-compatible provider apart from another */
+export interface OpenAICompatibleProviderConfig {
+  id: ProviderId;
+  name: string;
+  defaultBaseUrl: string;
+  requiresApiKey: boolean;
+  keyUrl?: string;
+}
+
+/**
+ * Any server exposing the OpenAI `/chat/completions` and `/models` endpoints, such as
+ * OpenRouter, Ollama, LM Studio or vLLM. Requests, prompts and response parsing are shared;
+ * only the base URL and authentication differ. OpenRouter's attribution headers are added
+ * by OpenRouterService for its base URL, since other servers would reject them.
+ */
+export class OpenAICompatibleProvider implements TranslationProvider {
+  readonly id: ProviderId;
+  readonly name: string;
+  readonly defaultBaseUrl: string;
+  readonly requiresApiKey: boolean;
+  readonly keyUrl?: string;
+
+  /**
+   * Create a provider
+   * @param config The provider's ID, name, default base URL and key requirement
+   */
+  constructor(config: OpenAICompatibleProviderConfig) {
+    this.id = config.id;
+    this.name = config.name;
+    this.defaultBaseUrl = config.defaultBaseUrl;
+    this.requiresApiKey = config.requiresApiKey;
+    this.keyUrl = config.keyUrl;
+  }
+
+  /**
+   * Check that the server accepts an API key
+   * @param apiKey The API key, or an empty string if the server has no auth
+   * @param baseUrl The API base URL
+   * @returns Promise that resolves to true if the server accepted the request, false otherwise
+   */
+  validateKey(apiKey: string, baseUrl: string): Promise<boolean> {
+    return OpenRouterService.validateApiKey(apiKey, baseUrl);
+  }
+
+  /**
+   * List the models served by the server
+   * @param apiKey The API key, or an empty string if the server has no auth
+   * @param baseUrl The API base URL
+   * @returns Promise that resolves to array of models
+   */
+  listModels(apiKey: string, baseUrl: string): Promise<Model[]> {
+    return OpenRouterService.fetchModels(apiKey, baseUrl);
+  }
+
+  /**
+   * Translate text through the server
+   * @param request The translation request
+   * @param options Optional abort signal, streaming callback and retry policy
+   * @returns Promise that resolves to translation response
+   */
+  translate(request: TranslationRequest, options: TranslateOptions = {}): Promise<TranslationResponse> {
+    return OpenRouterService.translate(request, options.signal, options.onProgress, {
+      policy: options.retryPolicy,
+      onRetry: options.onRetry,
+    });
+  }
+
+  /**
+   * Ask a model whether a back-translation kept the original's meaning
+   * @param request The original text, its back-translation and the model to ask
+   * @param options Optional abort signal
+   * @returns Promise that resolves to the changes in meaning found
+   */
+  reviewMeaning(request: MeaningReviewRequest, options: Pick<TranslateOptions, 'signal'> = {}): Promise<MeaningReview> {
+    return OpenRouterService.reviewMeaning(request, options.signal);
+  }
+
+  /**
+   * Score a translation with a judge model
+   * @param request The source, its translation and the judge model
+   * @param options Optional abort signal
+   * @returns Promise that resolves to the per-dimension scores
+   */
+  reviewTranslation(request: ReviewRequest, options: Pick<TranslateOptions, 'signal'> = {}): Promise<TranslationReview> {
+    return OpenRouterService.reviewTranslation(request, options.signal);
+  }
+}
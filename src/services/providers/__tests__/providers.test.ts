@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { getProvider, listProviders, DEFAULT_PROVIDER_ID, PROVIDERS } from '..';
+import { OpenRouterService } from '../../OpenRouterService';
+import { DEFAULT_RETRY_POLICY } from '../../../constants/retry';
+
+describe('providers', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('getProvider', () => {
+    it('should return the provider for a known ID', () => {
+      expect(getProvider('openrouter')).toBe(PROVIDERS.openrouter);
+    });
+
+    it('should fall back to the default provider for unknown IDs', () => {
+      expect(getProvider('does-not-exist').id).toBe(DEFAULT_PROVIDER_ID);
+      expect(getProvider(null).id).toBe(DEFAULT_PROVIDER_ID);
+    });
+  });
+
+  describe('listProviders', () => {
+    it('should include OpenRouter and custom endpoints', () => {
+      expect(listProviders().map(p => p.id)).toEqual(['openrouter', 'custom']);
+    });
+  });
+
+  describe('OpenRouter', () => {
+    const provider = PROVIDERS.openrouter;
+
+    it('should use the OpenRouter API as its default base URL', () => {
+      expect(provider.defaultBaseUrl).toBe('https://openrouter.ai/api/v1');
+    });
+
+    it('should validate keys against the given base URL', async () => {
+      const spy = vi.spyOn(OpenRouterService, 'validateApiKey').mockResolvedValue(true);
+
+      await expect(provider.validateKey('key', 'https://proxy.example.com/v1')).resolves.toBe(true);
+      expect(spy).toHaveBeenCalledWith('key', 'https://proxy.example.com/v1');
+    });
+
+    it('should list models from the given base URL', async () => {
+      const spy = vi.spyOn(OpenRouterService, 'fetchModels').mockResolvedValue([]);
+
+      await provider.listModels('key', 'https://proxy.example.com/v1');
+      expect(spy).toHaveBeenCalledWith('key', 'https://proxy.example.com/v1');
+    });
+
+    it('should pass the abort signal, progress callback and retry options to translate', async () => {
+      const spy = vi.spyOn(OpenRouterService, 'translate').mockResolvedValue({ translation: 'Hola' });
+      const request = {
+        apiKey: 'key',
+        model: 'openai/gpt-4',
+        sourceText: 'Hello',
+        fromLanguage: 'en',
+        toLanguage: 'es',
+      };
+      const signal = new AbortController().signal;
+      const onProgress = vi.fn();
+      const onRetry = vi.fn();
+      const retryPolicy = { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+
+      await provider.translate(request, { signal, onProgress, retryPolicy, onRetry });
+      expect(spy).toHaveBeenCalledWith(request, signal, onProgress, { policy: retryPolicy, onRetry });
+    });
+  });
+
+  describe('custom endpoint', () => {
+    const provider = PROVIDERS.custom;
+
+    it('should not require an API key', () => {
+      expect(provider.requiresApiKey).toBe(false);
+    });
+
+    it('should default to a local OpenAI-compatible server', () => {
+      expect(provider.defaultBaseUrl).toBe('http://localhost:11434/v1');
+    });
+
+    it('should send chat completions to the configured server', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: '{"translation": "Hola"}' } }] })
+      });
+
+      const result = await provider.translate({
+        apiKey: '',
+        baseUrl: 'http://localhost:1234/v1',
+        model: 'llama3',
+        sourceText: 'Hello',
+        fromLanguage: 'en',
+        toLanguage: 'es',
+      });
+
+      expect(result.translation).toBe('Hola');
+      expect(fetch).toHaveBeenCalledWith('http://localhost:1234/v1/chat/completions', expect.anything());
+    });
+  });
+});
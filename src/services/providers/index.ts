@@ -0,0 +1,41 @@
+import type { ProviderId, TranslationProvider } from '../../types';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { CUSTOM_ENDPOINT_DEFAULT_BASE_URL, OPENROUTER_BASE_URL } from '../../constants/providers';
+
+export const DEFAULT_PROVIDER_ID: ProviderId = 'openrouter';
+
+export const PROVIDERS: Record<ProviderId, TranslationProvider> = {
+  openrouter: new OpenAICompatibleProvider({
+    id: 'openrouter',
+    name: 'OpenRouter',
+    defaultBaseUrl: OPENROUTER_BASE_URL,
+    requiresApiKey: true,
+    keyUrl: 'https://openrouter.ai/keys',
+  }),
+  custom: new OpenAICompatibleProvider({
+    id: 'custom',
+    name: 'Custom endpoint',
+    defaultBaseUrl: CUSTOM_ENDPOINT_DEFAULT_BASE_URL,
+    requiresApiKey: false,
+  }),
+};
+
+/**
+ * Look up a translation provider by ID
+ * @param id The provider ID
+ * @returns The provider, or the default provider if the ID is unknown
+ */
+export function getProvider(id: string | null | undefined): TranslationProvider {
+  if (id && id in PROVIDERS) {
+    return PROVIDERS[id as ProviderId];
+  }
+  return PROVIDERS[DEFAULT_PROVIDER_ID];
+}
+
+/**
+ * List all available translation providers
+ * @returns The providers in display order
+ */
+export function listProviders(): TranslationProvider[] {
+  return Object.values(PROVIDERS);
+}
@@ -1,8 +1,11 @@
 import { afterEach } from 'vitest'
 import { cleanup } from '@testing-library/react'
 import '@testing-library/jest-dom/vitest'
+import { TranslationCache } from '../services/TranslationCache'
 
 // Cleanup after each test
-afterEach(() => {
+afterEach(async () => {
   cleanup()
+  // Translations cached by one test must not be served to the next
+  await TranslationCache.clear()
 })
@@ -3,15 +3,146 @@ export interface Model {
   name: string;
   description?: string;
   contextLength?: number;
+  maxCompletionTokens?: number;
+  supportedParameters?: string[];
+  pricing?: ModelPricing;
+  inputModalities?: string[];
+  /** Provider prefix of the ID (e.g., 'openai' for 'openai/gpt-4o') */
+  provider?: string;
+}
+
+/**
+ * Model prices in USD per token, as listed by the provider's /models endpoint
+ */
+export interface ModelPricing {
+  prompt: number;
+  completion: number;
 }
 
 export interface TranslationRequest {
   apiKey: string;
+  baseUrl?: string;
   model: string;
   sourceText: string;
   fromLanguage: string;
   toLanguage: string;
   context?: string;
+  structuredOutput?: boolean;
+  maxTokens?: number;
+  /** Models to try in order if `model` fails with a provider error or keeps returning invalid JSON */
+  fallbackModels?: string[];
+  /** Custom prompt templates; the built-in ones are used when missing */
+  promptTemplate?: PromptTemplate;
+  /** Glossary entries for the language pair; the prompt includes those whose source term appears in the text */
+  glossary?: GlossaryEntry[];
+  /** Similar past translations; the prompt includes those whose segment appears in the text */
+  memoryMatches?: TranslationMemoryMatch[];
+  /** Ask for a word-by-word gloss of the source text */
+  includeGloss?: boolean;
+  /** Romanization standard for the transcription; the target language's default when missing */
+  romanization?: RomanizationStandard;
+}
+
+/**
+ * How the model was asked for JSON: constrained by a schema, by the prompt alone
+ * because the model lacks structured outputs, or by the prompt after the schema was rejected
+ */
+export type OutputMode = 'json_schema' | 'prompt' | 'prompt_fallback';
+
+/** Another valid rendering of a short phrase, in a different register or tone */
+export interface TranslationAlternative {
+  text: string;
+  /** Register or tone, e.g. "casual" or "formal" */
+  register: string;
+  /** When this rendering is the right choice */
+  whenToUse: string;
+  transcription?: string;
+}
+
+/** A word or phrase of the source text with its counterpart in the translation, for learners */
+export interface GlossEntry {
+  source: string;
+  target: string;
+  /** e.g. "noun" or "particle" */
+  partOfSpeech: string;
+  /** The form a dictionary lists the word under */
+  dictionaryForm: string;
+  /** Romanized reading of the source word, when it is not written in Latin letters */
+  reading?: string;
+}
+
+/** A run of the translation and its reading, shown as furigana above it; kana and punctuation have no reading */
+export interface RubySegment {
+  text: string;
+  /** Reading in hiragana */
+  reading?: string;
+}
+
+export type JapaneseRomanization = 'hepburn' | 'kunrei' | 'nihon-shiki';
+export type ChineseRomanization = 'pinyin-marks' | 'pinyin-numbers';
+export type KoreanRomanization = 'revised' | 'mccune-reischauer' | 'yale';
+export type CyrillicRomanization = 'simple' | 'scientific' | 'iso9';
+
+/** A system for writing a script in Latin letters */
+export type RomanizationStandard =
+  | JapaneseRomanization
+  | ChineseRomanization
+  | KoreanRomanization
+  | CyrillicRomanization;
+
+/** The chosen romanization standard per target language code */
+export type TranscriptionSettings = Record<string, RomanizationStandard>;
+
+/** How readings are written above Japanese translations */
+export type FuriganaStyle = 'hiragana' | 'romaji';
+
+export interface FuriganaSettings {
+  style: FuriganaStyle;
+  /** Leave the readings off kanji that learners know first */
+  hideCommonKanji: boolean;
+}
+
+/** A glossary term that must be translated the same way every time */
+export interface GlossaryEntry {
+  id: string;
+  sourceTerm: string;
+  targetTerm: string;
+  fromLanguage: string;
+  toLanguage: string;
+  caseSensitive: boolean;
+  /** Translations of the source term that must not be used */
+  forbiddenTranslations: string[];
+  notes?: string;
+}
+
+/**
+ * A translation that breaks a glossary entry: the required target term is missing,
+ * or a forbidden translation was used
+ */
+export interface GlossaryViolation {
+  type: 'missing' | 'forbidden';
+  entry: GlossaryEntry;
+  /** The missing target term or the forbidden translation found */
+  term: string;
+}
+
+/** An approved translation of one segment, reused when the same or a similar segment is translated again */
+export interface TranslationMemoryUnit {
+  id: string;
+  sourceText: string;
+  targetText: string;
+  fromLanguage: string;
+  toLanguage: string;
+  createdAt: number;
+}
+
+/** A translation memory unit similar to a segment of the text being translated */
+export interface TranslationMemoryMatch {
+  /** The segment of the input that was matched */
+  segment: string;
+  unit: TranslationMemoryUnit;
+  /** Similarity from 0 to 100, where 100 is an exact match */
+  score: number;
 }
 
 export interface TranslationResponse {
@@ -19,13 +150,252 @@ export interface TranslationResponse {
   explanation?: string;
   transcription?: string;
   detectedLanguage?: string;
+  /** Other renderings, for short phrases that several registers fit */
+  alternatives?: TranslationAlternative[];
+  /** Word-by-word breakdown of the source text, when one was asked for */
+  gloss?: GlossEntry[];
+  /** The translation split into runs with their readings, for Japanese translations */
+  furigana?: RubySegment[];
+  outputMode?: OutputMode;
+  usage?: TokenUsage;
+  cached?: boolean;
+  /** The model that produced the translation, which differs from the requested one after a fallback */
+  model?: string;
+  /** Tokens per model, when chunks of a long text fell back to different models and are billed at their own prices */
+  modelUsage?: ModelUsage[];
+  /** The judge model's scores, once the translation has been reviewed */
+  review?: TranslationReview;
+  /** Name of the prompt version that produced the translation */
+  promptVersion?: string;
+}
+
+/** Tokens used by one model; a missing model is the requested one */
+export interface ModelUsage {
+  model?: string;
+  usage: TokenUsage;
+}
+
+/** A variable that prompt templates can use as {{name}} or as a {{#name}}...{{/name}} section */
+export type PromptPlaceholder =
+  | 'sourceText'
+  | 'fromLanguage'
+  | 'toLanguage'
+  | 'languageInstruction'
+  | 'context'
+  | 'transcriptionInstruction'
+  | 'glossaryInstruction'
+  | 'memoryInstruction'
+  | 'placeholderInstruction'
+  | 'glossInstruction'
+  | 'furiganaInstruction';
+
+export interface PromptTemplate {
+  system: string;
+  user: string;
+}
+
+/** A saved, named prompt template */
+export interface PromptVersion extends PromptTemplate {
+  id: string;
+  name: string;
+  createdAt: number;
 }
 
+export interface PromptSettings {
+  versions: PromptVersion[];
+  /** The version used for translations, or null for the built-in templates */
+  activeVersionId: string | null;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/** A model's Elo-style rating from comparison votes */
+export interface ModelRating {
+  rating: number;
+  votes: number;
+}
+
+/** Ratings keyed by language pair (see getLanguagePairKey), then by model ID */
+export type ModelRatings = Record<string, Record<string, ModelRating>>;
+
+/** One model's column in compare mode */
+export interface ComparisonEntry {
+  modelId: string;
+  response?: TranslationResponse;
+  error?: OpenRouterError;
+  isStreaming: boolean;
+}
+
+/** A run of text in a word diff: in both texts, only the original, or only the revision */
+export interface DiffSegment {
+  type: 'equal' | 'removed' | 'added';
+  text: string;
+}
+
+export interface MeaningReviewRequest {
+  apiKey: string;
+  baseUrl?: string;
+  model: string;
+  /** The text that was translated */
+  originalText: string;
+  /** The translation, translated back into the original's language */
+  backTranslation: string;
+  language: string;
+}
+
+/** A difference in meaning the model found between the original and the back-translation */
+export interface MeaningChange {
+  original: string;
+  backTranslation: string;
+  explanation: string;
+}
+
+export interface MeaningReview {
+  meaningPreserved: boolean;
+  changes: MeaningChange[];
+  usage?: TokenUsage;
+}
+
+/** The result of translating a translation back and reviewing it against the original */
+export interface BackTranslationCheck {
+  backTranslation: string;
+  diff: DiffSegment[];
+  review: MeaningReview;
+}
+
+/** An aspect of translation quality scored by a judge model */
+export type ReviewDimension = 'accuracy' | 'fluency' | 'terminology' | 'register' | 'omissions';
+
+export interface DimensionScore {
+  /** From 1 to MAX_REVIEW_SCORE */
+  score: number;
+  justification: string;
+}
+
+export interface ReviewRequest {
+  apiKey: string;
+  baseUrl?: string;
+  /** The judge model */
+  model: string;
+  sourceText: string;
+  translation: string;
+  fromLanguage: string;
+  toLanguage: string;
+  context?: string;
+  structuredOutput?: boolean;
+}
+
+export interface TranslationReview {
+  /** The judge model */
+  model: string;
+  scores: Record<ReviewDimension, DimensionScore>;
+  usage?: TokenUsage;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+/**
+ * Running usage totals keyed by model ID and by local date (YYYY-MM-DD)
+ */
+export interface UsageStats {
+  byModel: Record<string, UsageTotals>;
+  byDay: Record<string, UsageTotals>;
+}
+
+export type OutputModeStats = Record<OutputMode, number>;
+
 export interface LanguagePrefs {
   fromLanguage: string;
   toLanguage: string;
 }
 
+export type TextDirection = 'ltr' | 'rtl';
+
+/** A language in the registry, identified by its BCP-47 code */
+export interface Language {
+  code: string;
+  /** English name */
+  name: string;
+  /** Name in the language itself */
+  nativeName: string;
+  /** ISO 15924 script code, e.g. Latn or Cyrl */
+  script: string;
+  direction: TextDirection;
+  /** Regional or script variants, selectable alongside the language */
+  variants?: LanguageVariant[];
+}
+
+/** A regional or script variant, with the script and direction of its language unless it sets a script */
+export interface LanguageVariant {
+  code: string;
+  name: string;
+  nativeName: string;
+  script?: string;
+}
+
+/** An ISO 15924 script */
+export interface Script {
+  name: string;
+  /** The writing system family, shared by scripts that need no romanization between them */
+  writingSystem: string;
+}
+
+export type ProviderId = 'openrouter' | 'custom';
+
+export interface ProviderSettings {
+  apiKey: string | null;
+  baseUrl: string | null;
+  selectedModel: string | null;
+  fallbackModels: string[];
+  models: Model[];
+}
+
+export interface TranslateOptions {
+  signal?: AbortSignal;
+  onProgress?: (partial: Partial<TranslationResponse>) => void;
+  retryPolicy?: RetryPolicy;
+  onRetry?: (status: RetryStatus) => void;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Fraction (0-1) of each backoff delay that is randomly shaved off */
+  jitter: number;
+  retryableErrors: OpenRouterError['type'][];
+  /** Wait as long as a Retry-After header asks, giving up if that is longer than maxDelayMs */
+  honorRetryAfter: boolean;
+}
+
+export interface RetryStatus {
+  /** The attempt about to be made, starting at 2 */
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+}
+
+export interface TranslationProvider {
+  id: ProviderId;
+  name: string;
+  defaultBaseUrl: string;
+  requiresApiKey: boolean;
+  keyUrl?: string;
+  validateKey(apiKey: string, baseUrl: string): Promise<boolean>;
+  listModels(apiKey: string, baseUrl: string): Promise<Model[]>;
+  translate(request: TranslationRequest, options?: TranslateOptions): Promise<TranslationResponse>;
+  reviewMeaning(request: MeaningReviewRequest, options?: Pick<TranslateOptions, 'signal'>): Promise<MeaningReview>;
+  reviewTranslation(request: ReviewRequest, options?: Pick<TranslateOptions, 'signal'>): Promise<TranslationReview>;
+}
+
 export interface StoredSettings {
   apiKey: string;
   selectedModel: string;
@@ -33,7 +403,29 @@ export interface StoredSettings {
 }
 
 export interface OpenRouterError {
-  type: 'auth' | 'rate_limit' | 'network' | 'invalid_response' | 'unknown';
+  type:
+    | 'auth'
+    | 'rate_limit'
+    | 'network'
+    | 'invalid_response'
+    | 'placeholder_mismatch'
+    | 'insufficient_credits'
+    | 'moderation'
+    | 'model_unavailable'
+    | 'context_length_exceeded'
+    | 'provider_timeout'
+    | 'bad_request'
+    | 'unknown';
   message: string;
   statusCode?: number;
+  retryAfterMs?: number;
+  /** Extra information from the API's error body */
+  details?: ApiErrorDetails;
+}
+
+export interface ApiErrorDetails {
+  /** The upstream provider that failed, when the API reports it */
+  providerName?: string;
+  /** Why the moderation check flagged the input */
+  moderationReasons?: string[];
 }
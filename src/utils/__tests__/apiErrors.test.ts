@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { classifyApiError, isStructuredOutputRejection, parseErrorBody } from '../apiErrors';
+
+describe('parseErrorBody', () => {
+  it('should read the message, code and metadata of an OpenRouter error', () => {
+    const body = parseErrorBody({
+      error: {
+        message: 'Input flagged',
+        code: 403,
+        metadata: { reasons: ['violence'], provider_name: 'OpenAI', flagged_input: '...' },
+      },
+    });
+
+    expect(body).toEqual({
+      message: 'Input flagged',
+      code: 403,
+      details: { moderationReasons: ['violence'], providerName: 'OpenAI' },
+    });
+  });
+
+  it('should accept the error object itself, as sent inside a stream', () => {
+    expect(parseErrorBody({ message: 'Provider returned error', code: 502 })).toEqual({
+      message: 'Provider returned error',
+      code: 502,
+      details: {},
+    });
+  });
+
+  it('should ignore missing and malformed fields', () => {
+    expect(parseErrorBody(undefined)).toEqual({ message: undefined, code: undefined, details: {} });
+    expect(parseErrorBody({ error: { message: 42, code: '500', metadata: { reasons: 'spam' } } }))
+      .toEqual({ message: undefined, code: undefined, details: {} });
+  });
+});
+
+describe('classifyApiError', () => {
+  const body = (message?: string, details = {}) => ({ message, details });
+
+  it('should classify by status code', () => {
+    expect(classifyApiError(400, body('Invalid temperature'))).toBe('bad_request');
+    expect(classifyApiError(401, body())).toBe('auth');
+    expect(classifyApiError(402, body())).toBe('insufficient_credits');
+    expect(classifyApiError(403, body())).toBe('auth');
+    expect(classifyApiError(404, body())).toBe('model_unavailable');
+    expect(classifyApiError(408, body())).toBe('provider_timeout');
+    expect(classifyApiError(429, body())).toBe('rate_limit');
+    expect(classifyApiError(500, body())).toBe('unknown');
+    expect(classifyApiError(503, body())).toBe('model_unavailable');
+    expect(classifyApiError(504, body())).toBe('provider_timeout');
+  });
+
+  it('should recognize moderation from its reasons', () => {
+    expect(classifyApiError(403, body('Input flagged', { moderationReasons: ['hate'] }))).toBe('moderation');
+    expect(classifyApiError(403, body('Your input was flagged by moderation'))).toBe('moderation');
+  });
+
+  it('should recognize context length errors whatever the status', () => {
+    expect(classifyApiError(400, body("This model's maximum context length is 8192 tokens"))).toBe('context_length_exceeded');
+    expect(classifyApiError(413, body())).toBe('context_length_exceeded');
+  });
+
+  it('should recognize unavailable models from the message', () => {
+    expect(classifyApiError(400, body('No endpoints found for openai/gpt-5'))).toBe('model_unavailable');
+  });
+
+  it('should recognize timeouts reported with other statuses', () => {
+    expect(classifyApiError(502, body('Upstream request timed out'))).toBe('provider_timeout');
+  });
+});
+
+describe('isStructuredOutputRejection', () => {
+  const body = (message?: string) => ({ message, details: {} });
+
+  it('should recognize bad requests that name response_format or structured output', () => {
+    expect(isStructuredOutputRejection(400, body('response_format is not supported'))).toBe(true);
+    expect(isStructuredOutputRejection(400, body('Provider does not support structured outputs'))).toBe(true);
+    expect(isStructuredOutputRejection(400, body('Invalid json_schema'))).toBe(true);
+  });
+
+  it('should not match other bad requests or statuses', () => {
+    expect(isStructuredOutputRejection(400, body('maximum context length is 8192 tokens'))).toBe(false);
+    expect(isStructuredOutputRejection(400, body())).toBe(false);
+    expect(isStructuredOutputRejection(500, body('response_format is not supported'))).toBe(false);
+  });
+});
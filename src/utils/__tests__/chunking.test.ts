@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  estimateTokens,
+  getChunkTokenBudget,
+  getMaxOutputTokens,
+  getTextTail,
+  splitIntoChunks,
+  type TextChunk,
+} from '../chunking';
+
+const reassemble = (chunks: TextChunk[]) => chunks.map((c) => c.text + c.separator).join('');
+
+describe('chunking', () => {
+  describe('estimateTokens', () => {
+    it('should count about four Latin characters per token', () => {
+      expect(estimateTokens('Hello world!')).toBe(3);
+    });
+
+    it('should count one token per CJK or Hangul character', () => {
+      expect(estimateTokens('こんにちは')).toBe(5);
+      expect(estimateTokens('안녕')).toBe(2);
+    });
+  });
+
+  describe('getChunkTokenBudget', () => {
+    it('should leave room for the prompt and the output', () => {
+      expect(getChunkTokenBudget({ id: 'm', name: 'm', contextLength: 4096 })).toBe(1032);
+    });
+
+    it('should cap chunks for large contexts', () => {
+      expect(getChunkTokenBudget({ id: 'm', name: 'm', contextLength: 1_000_000 })).toBe(2000);
+    });
+
+    it('should assume an 8K context for unknown models', () => {
+      expect(getChunkTokenBudget(undefined)).toBe(2000);
+    });
+  });
+
+  describe('getMaxOutputTokens', () => {
+    it('should return undefined when the context length is unknown', () => {
+      expect(getMaxOutputTokens(100, { id: 'm', name: 'm' })).toBeUndefined();
+    });
+
+    it('should scale with the input', () => {
+      expect(getMaxOutputTokens(500, { id: 'm', name: 'm', contextLength: 128000 })).toBe(2500);
+    });
+
+    it('should fit in the remaining context', () => {
+      expect(getMaxOutputTokens(2000, { id: 'm', name: 'm', contextLength: 4096 })).toBe(1096);
+    });
+
+    it('should respect the model output limit', () => {
+      expect(
+        getMaxOutputTokens(2000, { id: 'm', name: 'm', contextLength: 128000, maxCompletionTokens: 4096 })
+      ).toBe(4096);
+    });
+  });
+
+  describe('splitIntoChunks', () => {
+    it('should keep short text in one chunk', () => {
+      expect(splitIntoChunks('Hello world.', 100)).toEqual([{ text: 'Hello world.', separator: '' }]);
+    });
+
+    it('should split on paragraph boundaries first', () => {
+      const paragraph = 'word '.repeat(30).trim();
+      const text = `${paragraph}\n\n${paragraph}\n\n${paragraph}`;
+
+      const chunks = splitIntoChunks(text, 80);
+
+      expect(chunks).toHaveLength(2);
+      expect(chunks[0].text).toBe(`${paragraph}\n\n${paragraph}`);
+      expect(chunks[0].separator).toBe('\n\n');
+      expect(reassemble(chunks)).toBe(text);
+    });
+
+    it('should split long paragraphs into sentences', () => {
+      const sentence = `This is ${'word '.repeat(18).trim()}.`;
+      const text = `${sentence} ${sentence} ${sentence}`;
+
+      const chunks = splitIntoChunks(text, 30, 'en');
+
+      expect(chunks.map((c) => c.text)).toEqual([sentence, sentence, sentence]);
+      expect(reassemble(chunks)).toBe(text);
+    });
+
+    it('should split Japanese sentences', () => {
+      const sentence = 'これは長い日本語の文です。';
+      const text = sentence.repeat(4);
+
+      const chunks = splitIntoChunks(text, 30, 'ja');
+
+      expect(chunks.map((c) => c.text)).toEqual([sentence.repeat(2), sentence.repeat(2)]);
+      expect(reassemble(chunks)).toBe(text);
+    });
+
+    it('should cut text without boundaries at the token limit', () => {
+      const text = 'a'.repeat(100);
+
+      const chunks = splitIntoChunks(text, 10);
+
+      expect(chunks.every((c) => estimateTokens(c.text) <= 10)).toBe(true);
+      expect(reassemble(chunks)).toBe(text);
+    });
+  });
+
+  describe('getTextTail', () => {
+    it('should keep the last whole sentences that fit', () => {
+      expect(getTextTail('First sentence. Second one. Third one.', 25)).toBe('Second one. Third one.');
+    });
+
+    it('should cut a long last sentence at a word boundary', () => {
+      expect(getTextTail('A sentence without any ending punctuation at all', 20)).toBe('punctuation at all');
+    });
+
+    it('should never split a surrogate pair', () => {
+      expect(getTextTail('😀'.repeat(5), 5)).toBe('😀😀');
+    });
+
+    it('should return short text whole', () => {
+      expect(getTextTail('  Short.  ', 400)).toBe('Short.');
+    });
+  });
+});
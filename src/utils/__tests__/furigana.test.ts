@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { getDisplayReading, getFuriganaInstruction, matchesTranslation, toRubyHtml } from '../furigana';
+
+describe('getFuriganaInstruction', () => {
+  it('should only ask for readings of Japanese translations', () => {
+    expect(getFuriganaInstruction('ja')).toContain('reading in hiragana');
+    expect(getFuriganaInstruction('zh')).toBe('');
+  });
+});
+
+describe('matchesTranslation', () => {
+  it('should check that the segments join back into the translation', () => {
+    expect(matchesTranslation([{ text: '猫', reading: 'ねこ' }, { text: 'です' }], '猫です')).toBe(true);
+    expect(matchesTranslation([{ text: '猫', reading: 'ねこ' }], '猫です')).toBe(false);
+  });
+});
+
+describe('getDisplayReading', () => {
+  const hiragana = { style: 'hiragana' as const, hideCommonKanji: false };
+
+  it('should only show readings for segments with kanji', () => {
+    expect(getDisplayReading({ text: '東京', reading: 'とうきょう' }, hiragana)).toBe('とうきょう');
+    expect(getDisplayReading({ text: 'ひらがな', reading: 'ひらがな' }, hiragana)).toBeUndefined();
+  });
+
+  it('should romanize the reading and hide it for common kanji when asked', () => {
+    const settings = { style: 'romaji' as const, hideCommonKanji: true };
+
+    expect(getDisplayReading({ text: '漢字', reading: 'かんじ' }, settings)).toBe('kanji');
+    expect(getDisplayReading({ text: '山', reading: 'やま' }, settings)).toBeUndefined();
+  });
+});
+
+describe('toRubyHtml', () => {
+  it('should annotate kanji and escape the text', () => {
+    expect(toRubyHtml([{ text: '<猫>', reading: 'ねこ' }, { text: '&' }], { style: 'hiragana', hideCommonKanji: false }))
+      .toBe('<ruby>&lt;猫&gt;<rp>(</rp><rt>ねこ</rt><rp>)</rp></ruby>&amp;');
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { alignGloss, getGlossInstruction, getWordTokens } from '../gloss';
+import type { GlossEntry } from '../../types';
+
+const entry = (source: string, target: string): GlossEntry => ({
+  source,
+  target,
+  partOfSpeech: 'noun',
+  dictionaryForm: source,
+});
+
+describe('getWordTokens', () => {
+  it('should split Japanese written without spaces into words, leaving out punctuation', () => {
+    expect(getWordTokens('私は学生です。', 'ja').map((token) => token.text)).toEqual(['私', 'は', '学生', 'です']);
+  });
+
+  it('should split Chinese into words', () => {
+    expect(getWordTokens('我喜欢猫', 'zh')).toEqual([
+      { text: '我', index: 0 },
+      { text: '喜欢', index: 1 },
+      { text: '猫', index: 3 },
+    ]);
+  });
+});
+
+describe('getGlossInstruction', () => {
+  it('should list the words of the text', () => {
+    expect(getGlossInstruction('Hello, world!', 'en')).toContain('It splits into these words: Hello | world');
+    expect(getGlossInstruction('?!', 'auto')).toBe('');
+  });
+});
+
+describe('alignGloss', () => {
+  it('should give each entry one column, spanning the words of a phrase', () => {
+    const columns = alignGloss('我喜欢猫', [entry('我', 'I'), entry('喜欢猫', 'like cats')], 'zh');
+
+    expect(columns.map(({ source, entry }) => [source, entry?.target])).toEqual([
+      ['我', 'I'],
+      ['喜欢猫', 'like cats'],
+    ]);
+  });
+
+  it('should keep skipped words as empty columns and put unknown entries last', () => {
+    const columns = alignGloss('the red car', [entry('car', 'Auto'), entry('bike', 'Rad'), entry('red', 'rot')], 'en');
+
+    expect(columns.map(({ source, entry }) => [source, entry?.target])).toEqual([
+      ['the', undefined],
+      ['red', undefined],
+      ['car', 'Auto'],
+      ['bike', 'Rad'],
+      ['red', 'rot'],
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { checkGlossary, findTerm, getGlossaryInstruction, getMatchingEntries, highlightViolations } from '../glossary';
+import type { GlossaryEntry } from '../../types';
+
+const createEntry = (fields: Partial<GlossaryEntry>): GlossaryEntry => ({
+  id: fields.sourceTerm ?? 'id',
+  sourceTerm: 'dashboard',
+  targetTerm: 'ダッシュボード',
+  fromLanguage: 'en',
+  toLanguage: 'ja',
+  caseSensitive: false,
+  forbiddenTranslations: [],
+  ...fields,
+});
+
+describe('findTerm', () => {
+  it('should match whole words only in spaced scripts', () => {
+    expect(findTerm('Open the dashboard.', 'dashboard', false)).toEqual([{ start: 9, end: 18 }]);
+    expect(findTerm('Open the dashboards.', 'dashboard', false)).toEqual([]);
+  });
+
+  it('should respect case sensitivity', () => {
+    expect(findTerm('Apple pie and apple juice', 'Apple', true)).toHaveLength(1);
+    expect(findTerm('Apple pie and apple juice', 'Apple', false)).toHaveLength(2);
+  });
+
+  it('should match inside words in scripts written without spaces', () => {
+    expect(findTerm('新しいダッシュボードを開く', 'ダッシュボード', false)).toHaveLength(1);
+  });
+
+  it('should treat regular expression characters literally', () => {
+    expect(findTerm('Use C++ (v2)', 'C++', false)).toHaveLength(1);
+  });
+});
+
+describe('getMatchingEntries', () => {
+  const glossary = [
+    createEntry({ sourceTerm: 'dashboard' }),
+    createEntry({ sourceTerm: 'invoice', targetTerm: '請求書' }),
+    createEntry({ sourceTerm: 'dashboard', targetTerm: 'Übersicht', toLanguage: 'de' }),
+  ];
+
+  it('should keep entries of the language pair whose source term is in the text', () => {
+    expect(getMatchingEntries(glossary, 'Open the dashboard', 'en', 'ja')).toEqual([glossary[0]]);
+  });
+
+  it('should match entries from any source language when detecting it', () => {
+    expect(getMatchingEntries(glossary, 'Open the dashboard', 'auto', 'de')).toEqual([glossary[2]]);
+  });
+
+  it('should apply entries of a plain language to its variants, but not across variants', () => {
+    const regional = [
+      createEntry({ sourceTerm: 'dashboard', fromLanguage: 'en-US', toLanguage: 'pt-BR' }),
+      createEntry({ sourceTerm: 'invoice', fromLanguage: 'en', toLanguage: 'pt' }),
+    ];
+
+    expect(getMatchingEntries(regional, 'dashboard invoice', 'en', 'pt-BR')).toEqual(regional);
+    expect(getMatchingEntries(regional, 'dashboard invoice', 'en-GB', 'pt-PT')).toEqual([regional[1]]);
+  });
+});
+
+describe('getGlossaryInstruction', () => {
+  it('should list each term with its forbidden translations and notes', () => {
+    const instruction = getGlossaryInstruction([
+      createEntry({ forbiddenTranslations: ['管理画面', 'ボード'], notes: 'UI label' }),
+    ]);
+
+    expect(instruction).toContain('- "dashboard" → "ダッシュボード" (never "管理画面" or "ボード"): UI label');
+  });
+
+  it('should be empty without entries', () => {
+    expect(getGlossaryInstruction([])).toBe('');
+  });
+});
+
+describe('checkGlossary', () => {
+  const entry = createEntry({ forbiddenTranslations: ['管理画面'] });
+
+  it('should report a missing target term and forbidden translations used', () => {
+    expect(checkGlossary([entry], '管理画面を開く')).toEqual([
+      { type: 'missing', entry, term: 'ダッシュボード' },
+      { type: 'forbidden', entry, term: '管理画面' },
+    ]);
+  });
+
+  it('should report nothing when the glossary is followed', () => {
+    expect(checkGlossary([entry], 'ダッシュボードを開く')).toEqual([]);
+  });
+});
+
+describe('highlightViolations', () => {
+  it('should highlight every use of a forbidden translation', () => {
+    const entry = createEntry({ forbiddenTranslations: ['管理画面'] });
+
+    expect(highlightViolations('管理画面と管理画面', checkGlossary([entry], '管理画面と管理画面'))).toEqual([
+      { text: '管理画面', highlighted: true },
+      { text: 'と', highlighted: false },
+      { text: '管理画面', highlighted: true },
+    ]);
+  });
+});
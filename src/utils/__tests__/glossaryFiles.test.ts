@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { exportGlossaryCsv, exportGlossaryTbx, parseGlossaryCsv, parseGlossaryTbx } from '../glossaryFiles';
+import type { GlossaryEntry } from '../../types';
+
+const entries: GlossaryEntry[] = [
+  {
+    id: '1',
+    sourceTerm: 'Clanker, Inc.',
+    targetTerm: 'クランカー社',
+    fromLanguage: 'en',
+    toLanguage: 'ja',
+    caseSensitive: true,
+    forbiddenTranslations: ['クランカー株式会社', 'Clanker "Co"'],
+    notes: 'Company name <legal>',
+  },
+  {
+    id: '2',
+    sourceTerm: 'dashboard',
+    targetTerm: 'ダッシュボード',
+    fromLanguage: 'en',
+    toLanguage: 'ja',
+    caseSensitive: false,
+    forbiddenTranslations: [],
+  },
+  {
+    id: '3',
+    sourceTerm: 'ログイン',
+    targetTerm: 'sign in',
+    fromLanguage: 'ja',
+    toLanguage: 'en',
+    caseSensitive: false,
+    forbiddenTranslations: ['login'],
+  },
+];
+
+// IDs are generated on import
+const withoutIds = (list: GlossaryEntry[]) => list.map((entry) => ({ ...entry, id: undefined }));
+
+describe('CSV', () => {
+  it('should round-trip entries, including quotes, commas and forbidden translations', () => {
+    const { entries: imported, skipped } = parseGlossaryCsv(exportGlossaryCsv(entries));
+
+    expect(skipped).toBe(0);
+    expect(withoutIds(imported)).toEqual(withoutIds(entries));
+  });
+
+  it('should find columns by header in any order and skip incomplete rows', () => {
+    const csv = 'target_language,source_language,target_term,source_term\nja,en,ボタン,button\nja,en,,link\n';
+    const { entries: imported, skipped } = parseGlossaryCsv(csv);
+
+    expect(imported).toHaveLength(1);
+    expect(imported[0]).toMatchObject({ sourceTerm: 'button', targetTerm: 'ボタン', caseSensitive: false });
+    expect(skipped).toBe(1);
+  });
+
+  it('should resolve region-tagged and uppercase language codes to the listed ones', () => {
+    const csv = 'source_term,target_term,source_language,target_language\n' +
+      'button,Schaltfläche,EN-us,de-DE\nbutton,botão,en_US,PT-br\n';
+    const { entries: imported } = parseGlossaryCsv(csv);
+
+    expect(imported.map(({ fromLanguage, toLanguage }) => [fromLanguage, toLanguage])).toEqual([
+      ['en-US', 'de'],
+      ['en-US', 'pt-BR'],
+    ]);
+  });
+
+  it('should reject a file without the required columns', () => {
+    expect(() => parseGlossaryCsv('term,translation\nbutton,ボタン'))
+      .toThrow('Missing CSV columns: source_term, target_term, source_language, target_language');
+  });
+});
+
+describe('TBX', () => {
+  it('should round-trip entries', () => {
+    const { entries: imported, skipped } = parseGlossaryTbx(exportGlossaryTbx(entries));
+
+    expect(skipped).toBe(0);
+    expect(withoutIds(imported)).toEqual(withoutIds(entries));
+  });
+
+  it('should read TBX 2008 files with several target languages', () => {
+    const tbx = `<?xml version="1.0"?>
+      <martif type="TBX" xml:lang="en">
+        <text><body>
+          <termEntry id="c1">
+            <langSet xml:lang="en"><tig><term>checkout</term></tig></langSet>
+            <langSet xml:lang="de">
+              <tig><term>Kasse</term></tig>
+              <tig><term>Checkout</term><termNote type="administrativeStatus">deprecatedTerm-admn-sts</termNote></tig>
+            </langSet>
+            <langSet xml:lang="fr"><ntig><termGrp><term>paiement</term></termGrp></ntig></langSet>
+          </termEntry>
+        </body></text>
+      </martif>`;
+
+    const { entries: imported } = parseGlossaryTbx(tbx);
+
+    expect(withoutIds(imported)).toEqual([
+      { id: undefined, sourceTerm: 'checkout', targetTerm: 'Kasse', fromLanguage: 'en', toLanguage: 'de', caseSensitive: false, forbiddenTranslations: ['Checkout'], notes: undefined },
+      { id: undefined, sourceTerm: 'checkout', targetTerm: 'paiement', fromLanguage: 'en', toLanguage: 'fr', caseSensitive: false, forbiddenTranslations: [], notes: undefined },
+    ]);
+  });
+
+  it('should resolve the region-tagged xml:lang values of CAT tools', () => {
+    const tbx = `<?xml version="1.0"?>
+      <martif type="TBX" xml:lang="en-US">
+        <text><body>
+          <termEntry id="c1">
+            <langSet xml:lang="EN-US"><tig><term>checkout</term></tig></langSet>
+            <langSet xml:lang="de-DE"><tig><term>Kasse</term></tig></langSet>
+            <langSet xml:lang="zh-TW"><tig><term>結帳</term></tig></langSet>
+          </termEntry>
+        </body></text>
+      </martif>`;
+
+    const { entries: imported } = parseGlossaryTbx(tbx);
+
+    expect(imported.map(({ fromLanguage, toLanguage }) => [fromLanguage, toLanguage])).toEqual([
+      ['en-US', 'de'],
+      ['en-US', 'zh-Hant'],
+    ]);
+  });
+
+  it('should reject a file that is not XML', () => {
+    expect(() => parseGlossaryTbx('source,target')).toThrow('Not a valid TBX file');
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { kanaToRomaji, toHiragana } from '../kana';
+
+describe('toHiragana', () => {
+  it('should convert katakana and leave other text alone', () => {
+    expect(toHiragana('コーヒーとtea')).toBe('こーひーとtea');
+  });
+});
+
+describe('kanaToRomaji', () => {
+  it('should romanize basic syllables', () => {
+    expect(kanaToRomaji('こんにちは')).toBe('konnichiha');
+    expect(kanaToRomaji('ふじさん')).toBe('fujisan');
+  });
+
+  it('should combine small ya, yu and yo with the kana before them', () => {
+    expect(kanaToRomaji('きょう')).toBe('kyou');
+    expect(kanaToRomaji('しゃしん')).toBe('shashin');
+    expect(kanaToRomaji('ちゃ')).toBe('cha');
+    expect(kanaToRomaji('じゅう')).toBe('juu');
+  });
+
+  it('should double the consonant after a small tsu', () => {
+    expect(kanaToRomaji('がっこう')).toBe('gakkou');
+    expect(kanaToRomaji('まっちゃ')).toBe('matcha');
+  });
+
+  it('should mark n before a vowel or y', () => {
+    expect(kanaToRomaji('きんえん')).toBe("kin'en");
+    expect(kanaToRomaji('こんや')).toBe("kon'ya");
+  });
+
+  it('should romanize katakana with long vowels and borrowed sounds', () => {
+    expect(kanaToRomaji('コーヒー')).toBe('koohii');
+    expect(kanaToRomaji('パーティー')).toBe('paatii');
+    expect(kanaToRomaji('ファイル')).toBe('fairu');
+  });
+
+  it('should follow Kunrei-shiki and Nihon-shiki spellings', () => {
+    expect(kanaToRomaji('しんぶん', 'kunrei')).toBe('sinbun');
+    expect(kanaToRomaji('ちょっと', 'kunrei')).toBe('tyotto');
+    expect(kanaToRomaji('つづく', 'kunrei')).toBe('tuzuku');
+    expect(kanaToRomaji('つづく', 'nihon-shiki')).toBe('tuduku');
+    expect(kanaToRomaji('ふじ', 'nihon-shiki')).toBe('huzi');
+  });
+});
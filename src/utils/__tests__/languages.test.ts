@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findLanguage,
+  getLanguageName,
+  getLanguageOptions,
+  getScript,
+  getTextDirection,
+  languagesMatch,
+  toLanguageCode,
+} from '../languages';
+
+describe('languages', () => {
+  describe('getLanguageOptions', () => {
+    it('should list over a hundred languages with unique codes', () => {
+      const codes = getLanguageOptions().map((language) => language.code);
+
+      expect(codes.length).toBeGreaterThan(100);
+      expect(new Set(codes).size).toBe(codes.length);
+    });
+
+    it('should give variants the script and direction of their language unless they set a script', () => {
+      expect(findLanguage('pt-BR')).toMatchObject({ name: 'Portuguese (Brazil)', script: 'Latn', direction: 'ltr' });
+      expect(findLanguage('sr-Latn')).toMatchObject({ script: 'Latn' });
+      expect(findLanguage('sr')).toMatchObject({ script: 'Cyrl' });
+    });
+
+    it('should list a script known to the registry for every language', () => {
+      for (const language of getLanguageOptions()) {
+        expect(getScript(language.code), language.code).toBeDefined();
+      }
+    });
+  });
+
+  describe('findLanguage', () => {
+    it('should ignore case and underscores', () => {
+      expect(findLanguage('PT_br')?.code).toBe('pt-BR');
+      expect(findLanguage('zh-hant')?.code).toBe('zh-Hant');
+    });
+
+    it('should follow aliases for region codes and old codes', () => {
+      expect(findLanguage('zh-TW')?.code).toBe('zh-Hant');
+      expect(findLanguage('zh-CN')?.code).toBe('zh-Hans');
+      expect(findLanguage('iw')?.code).toBe('he');
+    });
+
+    it('should fall back to the language for unlisted regions', () => {
+      expect(findLanguage('pt-AO')?.code).toBe('pt');
+      expect(findLanguage('sr-Latn-RS')?.code).toBe('sr-Latn');
+    });
+
+    it('should find nothing for auto or unknown codes', () => {
+      expect(findLanguage('auto')).toBeUndefined();
+      expect(findLanguage('xyz')).toBeUndefined();
+      expect(findLanguage('')).toBeUndefined();
+      expect(findLanguage(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('toLanguageCode', () => {
+    it('should resolve tags to listed codes and keep the primary language of unlisted ones', () => {
+      expect(toLanguageCode('EN')).toBe('en');
+      expect(toLanguageCode('de-DE')).toBe('de');
+      expect(toLanguageCode('zh-TW')).toBe('zh-Hant');
+      expect(toLanguageCode('XX-yy')).toBe('xx');
+    });
+  });
+
+  describe('languagesMatch', () => {
+    it('should let a plain language cover its variants', () => {
+      expect(languagesMatch('EN', 'en')).toBe(true);
+      expect(languagesMatch('en', 'en-US')).toBe(true);
+      expect(languagesMatch('pt-BR', 'pt')).toBe(true);
+      expect(languagesMatch('pt-BR', 'pt-PT')).toBe(false);
+      expect(languagesMatch('de', 'nl')).toBe(false);
+    });
+  });
+
+  describe('getLanguageName', () => {
+    it('should name listed languages and keep unknown codes', () => {
+      expect(getLanguageName('es-419')).toBe('Spanish (Latin America)');
+      expect(getLanguageName('xyz')).toBe('xyz');
+    });
+  });
+
+  describe('getTextDirection', () => {
+    it('should lay out right-to-left languages and leave unknown ones to the browser', () => {
+      expect(getTextDirection('ar')).toBe('rtl');
+      expect(getTextDirection('he')).toBe('rtl');
+      expect(getTextDirection('ja')).toBe('ltr');
+      expect(getTextDirection('auto')).toBe('auto');
+    });
+  });
+});
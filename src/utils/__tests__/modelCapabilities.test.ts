@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { supportsStructuredOutput } from '../modelCapabilities';
+
+describe('modelCapabilities', () => {
+  describe('supportsStructuredOutput', () => {
+    it('should return true when the model advertises structured_outputs', () => {
+      expect(supportsStructuredOutput({
+        id: 'openai/gpt-4o',
+        name: 'GPT-4o',
+        supportedParameters: ['temperature', 'response_format', 'structured_outputs'],
+      })).toBe(true);
+    });
+
+    it('should return false for JSON mode without schema support', () => {
+      expect(supportsStructuredOutput({
+        id: 'some/model',
+        name: 'Some Model',
+        supportedParameters: ['response_format'],
+      })).toBe(false);
+    });
+
+    it('should return false when supported parameters are unknown', () => {
+      expect(supportsStructuredOutput({ id: 'llama3', name: 'llama3' })).toBe(false);
+    });
+
+    it('should return false for an unknown model', () => {
+      expect(supportsStructuredOutput(undefined)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  filterModels,
+  sortModels,
+  groupModelsByProvider,
+  getProviderPrefix,
+  getPricePerMillion,
+  isFreeModel,
+  DEFAULT_MODEL_FILTERS,
+} from '../modelFilters';
+import type { Model } from '../../types';
+
+describe('modelFilters', () => {
+  const models: Model[] = [
+    {
+      id: 'openai/gpt-4o',
+      name: 'GPT-4o',
+      contextLength: 128000,
+      pricing: { prompt: 0.0000025, completion: 0.00001 },
+      supportedParameters: ['structured_outputs'],
+      provider: 'openai',
+    },
+    {
+      id: 'meta-llama/llama-3.3-70b-instruct:free',
+      name: 'Llama 3.3 70B (free)',
+      contextLength: 65536,
+      pricing: { prompt: 0, completion: 0 },
+      provider: 'meta-llama',
+    },
+    {
+      id: 'openai/gpt-4o-mini',
+      name: 'GPT-4o mini',
+      contextLength: 128000,
+      pricing: { prompt: 0.00000015, completion: 0.0000006 },
+      supportedParameters: ['structured_outputs'],
+      provider: 'openai',
+    },
+    {
+      id: 'llama3',
+      name: 'llama3',
+    },
+  ];
+
+  const ids = (list: Model[]) => list.map((m) => m.id);
+
+  describe('getProviderPrefix', () => {
+    it('should return the part before the slash', () => {
+      expect(getProviderPrefix('anthropic/claude-3-opus')).toBe('anthropic');
+    });
+
+    it('should return undefined for unprefixed IDs', () => {
+      expect(getProviderPrefix('llama3')).toBeUndefined();
+    });
+  });
+
+  describe('getPricePerMillion', () => {
+    it('should use the higher of prompt and completion price', () => {
+      expect(getPricePerMillion(models[0])).toBeCloseTo(10);
+    });
+
+    it('should return undefined without pricing', () => {
+      expect(getPricePerMillion(models[3])).toBeUndefined();
+    });
+  });
+
+  describe('isFreeModel', () => {
+    it('should only treat zero-priced models as free', () => {
+      expect(isFreeModel(models[1])).toBe(true);
+      expect(isFreeModel(models[2])).toBe(false);
+      expect(isFreeModel(models[3])).toBe(false);
+    });
+  });
+
+  describe('filterModels', () => {
+    it('should return every model with default filters', () => {
+      expect(filterModels(models, DEFAULT_MODEL_FILTERS)).toEqual(models);
+    });
+
+    it('should keep only free models', () => {
+      expect(ids(filterModels(models, { ...DEFAULT_MODEL_FILTERS, freeOnly: true }))).toEqual([
+        'meta-llama/llama-3.3-70b-instruct:free',
+      ]);
+    });
+
+    it('should drop models above the max price and models without pricing', () => {
+      expect(ids(filterModels(models, { ...DEFAULT_MODEL_FILTERS, maxPricePerMillion: 1 }))).toEqual([
+        'meta-llama/llama-3.3-70b-instruct:free',
+        'openai/gpt-4o-mini',
+      ]);
+    });
+
+    it('should drop models below the min context length', () => {
+      expect(ids(filterModels(models, { ...DEFAULT_MODEL_FILTERS, minContextLength: 100000 }))).toEqual([
+        'openai/gpt-4o',
+        'openai/gpt-4o-mini',
+      ]);
+    });
+
+    it('should keep only models with structured output', () => {
+      expect(ids(filterModels(models, { ...DEFAULT_MODEL_FILTERS, structuredOutputOnly: true }))).toEqual([
+        'openai/gpt-4o',
+        'openai/gpt-4o-mini',
+      ]);
+    });
+  });
+
+  describe('sortModels', () => {
+    it('should keep the given order for relevance', () => {
+      expect(sortModels(models, 'relevance')).toEqual(models);
+    });
+
+    it('should sort by name', () => {
+      expect(ids(sortModels(models, 'name'))[0]).toBe('openai/gpt-4o');
+    });
+
+    it('should put the cheapest first and unpriced last', () => {
+      expect(ids(sortModels(models, 'price'))).toEqual([
+        'meta-llama/llama-3.3-70b-instruct:free',
+        'openai/gpt-4o-mini',
+        'openai/gpt-4o',
+        'llama3',
+      ]);
+    });
+
+    it('should put the largest context first', () => {
+      expect(ids(sortModels(models, 'context')).slice(-2)).toEqual([
+        'meta-llama/llama-3.3-70b-instruct:free',
+        'llama3',
+      ]);
+    });
+
+    it('should put the best rated first and unrated last', () => {
+      const ratings = {
+        'openai/gpt-4o-mini': { rating: 1540, votes: 3 },
+        'llama3': { rating: 1480, votes: 2 },
+      };
+      expect(ids(sortModels(models, 'rating', ratings)).slice(0, 2)).toEqual(['openai/gpt-4o-mini', 'llama3']);
+    });
+
+    it('should not mutate the input', () => {
+      const copy = [...models];
+      sortModels(models, 'name');
+      expect(models).toEqual(copy);
+    });
+  });
+
+  describe('groupModelsByProvider', () => {
+    it('should group by provider in order of first appearance', () => {
+      const groups = groupModelsByProvider(models);
+      expect(groups.map(([provider]) => provider)).toEqual(['openai', 'meta-llama', 'other']);
+      expect(ids(groups[0][1])).toEqual(['openai/gpt-4o', 'openai/gpt-4o-mini']);
+    });
+  });
+});
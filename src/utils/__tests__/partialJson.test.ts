@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { extractPartialField, extractPartialTranslation } from '../partialJson';
+
+describe('partialJson', () => {
+  describe('extractPartialField', () => {
+    it('should return undefined before the field has started', () => {
+      expect(extractPartialField('{"transl', 'translation')).toBeUndefined();
+    });
+
+    it('should return the value read so far for an unterminated string', () => {
+      expect(extractPartialField('{"translation": "Hol', 'translation')).toBe('Hol');
+    });
+
+    it('should return the full value once the string is closed', () => {
+      expect(extractPartialField('{"translation": "Hola", "expl', 'translation')).toBe('Hola');
+    });
+
+    it('should decode escape sequences', () => {
+      expect(extractPartialField('{"translation": "a\\nb \\"c\\" \\u3042', 'translation')).toBe('a\nb "c" あ');
+    });
+
+    it('should drop an escape sequence that is only partially received', () => {
+      expect(extractPartialField('{"translation": "abc\\', 'translation')).toBe('abc');
+      expect(extractPartialField('{"translation": "abc\\u30', 'translation')).toBe('abc');
+    });
+
+    it('should skip fields of nested objects that come before the top-level one', () => {
+      const buffer = '{"translation": "Hi", "alternatives": [{"text": "Hey", "transcription": "hei"}], ' +
+        '"explanation": "Casual {greeting}", "transcription": "ha';
+
+      expect(extractPartialField(buffer, 'transcription')).toBe('ha');
+      expect(extractPartialField(buffer, 'explanation')).toBe('Casual {greeting}');
+      expect(extractPartialField('{"alternatives": [{"transcription": "hei"', 'transcription')).toBeUndefined();
+    });
+
+    it('should not mistake a string value for a key', () => {
+      expect(extractPartialField('{"explanation": "translation", "translation": "Hola', 'translation')).toBe('Hola');
+    });
+
+    it('should find fields inside markdown code blocks', () => {
+      expect(extractPartialField('```json\n{"translation": "Hi', 'translation')).toBe('Hi');
+    });
+  });
+
+  describe('extractPartialTranslation', () => {
+    it('should only include fields that have started', () => {
+      expect(extractPartialTranslation('{"translation": "Hola", "explanation": "Gre')).toEqual({
+        translation: 'Hola',
+        explanation: 'Gre',
+      });
+    });
+
+    it('should return an empty object for an empty buffer', () => {
+      expect(extractPartialTranslation('')).toEqual({});
+    });
+  });
+});
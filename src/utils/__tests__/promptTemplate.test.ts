@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getLanguageInstruction,
+  getPromptVariables,
+  getTranscriptionInstruction,
+  renderTemplate,
+  validateTemplate,
+} from '../promptTemplate';
+import { DEFAULT_SYSTEM_PROMPT_TEMPLATE, DEFAULT_USER_PROMPT_TEMPLATE } from '../../constants/prompt';
+
+describe('renderTemplate', () => {
+  it('should replace placeholders with their values', () => {
+    expect(renderTemplate('From {{fromLanguage}} to {{ toLanguage }}', { fromLanguage: 'en', toLanguage: 'ja' }))
+      .toBe('From en to ja');
+  });
+
+  it('should keep a section only when its placeholder is not empty', () => {
+    const template = 'Text{{#context}} (context: {{context}}){{/context}}';
+    expect(renderTemplate(template, { context: 'A menu' })).toBe('Text (context: A menu)');
+    expect(renderTemplate(template, { context: '' })).toBe('Text');
+  });
+
+  it('should not treat braces in values as placeholders', () => {
+    expect(renderTemplate('{{sourceText}}', { sourceText: 'Hi {{context}}', context: 'secret' }))
+      .toBe('Hi {{context}}');
+  });
+});
+
+describe('validateTemplate', () => {
+  it('should accept the default templates', () => {
+    expect(validateTemplate(DEFAULT_SYSTEM_PROMPT_TEMPLATE)).toEqual([]);
+    expect(validateTemplate(DEFAULT_USER_PROMPT_TEMPLATE, { requireSourceText: true })).toEqual([]);
+  });
+
+  it('should report unknown placeholders', () => {
+    expect(validateTemplate('{{sourceText}} {{tone}}')).toEqual(['Unknown placeholder {{tone}}']);
+  });
+
+  it('should report unbalanced sections', () => {
+    expect(validateTemplate('{{#context}}{{context}}')).toEqual(['{{#context}} is never closed with {{/context}}']);
+    expect(validateTemplate('{{context}}{{/context}}')).toEqual(['{{/context}} closes a section that is not open']);
+  });
+
+  it('should report stray braces', () => {
+    expect(validateTemplate('{{sourceText}} }}')).toEqual(['Unmatched {{ or }}']);
+  });
+
+  it('should require the source text when asked to', () => {
+    expect(validateTemplate('Translate to {{toLanguage}}', { requireSourceText: true }))
+      .toEqual(['Must include {{sourceText}}']);
+  });
+});
+
+describe('getPromptVariables', () => {
+  it('should include empty instructions when they are not needed', () => {
+    expect(getPromptVariables({ apiKey: 'key', model: 'm', sourceText: 'Hello', fromLanguage: 'en', toLanguage: 'fr' }))
+      .toEqual({
+        sourceText: 'Hello',
+        fromLanguage: 'en',
+        toLanguage: 'fr',
+        languageInstruction: 'Language codes: en is English; fr is French (Français). Write the translation in Latin script.',
+        context: '',
+        transcriptionInstruction: '',
+        glossaryInstruction: '',
+        memoryInstruction: '',
+        placeholderInstruction: '',
+        glossInstruction: '',
+        furiganaInstruction: '',
+      });
+  });
+
+  it('should list only the glossary terms found in the text', () => {
+    const entry = {
+      id: '1',
+      sourceTerm: 'dashboard',
+      targetTerm: 'Übersicht',
+      fromLanguage: 'en',
+      toLanguage: 'de',
+      caseSensitive: false,
+      forbiddenTranslations: [],
+    };
+    const request = { apiKey: 'key', model: 'm', sourceText: 'Open the dashboard', fromLanguage: 'en', toLanguage: 'de' };
+
+    expect(getPromptVariables({ ...request, glossary: [entry] }).glossaryInstruction).toContain('"dashboard" → "Übersicht"');
+    expect(getPromptVariables({ ...request, sourceText: 'Open the menu', glossary: [entry] }).glossaryInstruction).toBe('');
+  });
+
+  it('should list only the memory matches found in the text', () => {
+    const match = {
+      segment: 'Bug fix.',
+      unit: { id: '1', sourceText: 'Bug fixes.', targetText: 'Fehlerbehebungen.', fromLanguage: 'en', toLanguage: 'de', createdAt: 1 },
+      score: 90,
+    };
+    const request = { apiKey: 'key', model: 'm', sourceText: 'Bug fix.', fromLanguage: 'en', toLanguage: 'de' };
+
+    expect(getPromptVariables({ ...request, memoryMatches: [match] }).memoryInstruction).toContain('"Bug fixes." → "Fehlerbehebungen."');
+    expect(getPromptVariables({ ...request, sourceText: 'New features.', memoryMatches: [match] }).memoryInstruction).toBe('');
+  });
+
+  it('should ask for a gloss of the words only when gloss mode is on', () => {
+    const request = { apiKey: 'key', model: 'm', sourceText: '猫が好き', fromLanguage: 'ja', toLanguage: 'en' };
+
+    expect(getPromptVariables({ ...request, includeGloss: true }).glossInstruction).toContain('猫 | が | 好き');
+    expect(getPromptVariables(request).glossInstruction).toBe('');
+  });
+
+  it('should ask for a romanization between writing systems', () => {
+    expect(getTranscriptionInstruction('en', 'ja')).toContain('ROMANIZATION');
+    expect(getTranscriptionInstruction('en', 'de')).toBe('');
+  });
+
+  it('should name the chosen romanization standard', () => {
+    expect(getTranscriptionInstruction('en', 'ja')).toContain('Hepburn romaji');
+    expect(getTranscriptionInstruction('en', 'ja', 'kunrei')).toContain('Kunrei-shiki romaji');
+    expect(getTranscriptionInstruction('en', 'ko', 'yale')).toContain('Yale romanization');
+    expect(getTranscriptionInstruction('en', 'ar')).toContain('simple Latin letters');
+  });
+
+  it('should name the target language in the romanization request', () => {
+    expect(getTranscriptionInstruction('en', 'sr-Cyrl')).toContain('the translated Serbian (Cyrillic) text');
+  });
+
+  it('should ask for a romanization conditionally when the source language is detected', () => {
+    expect(getTranscriptionInstruction('auto', 'ja')).toContain('If the source text is not written in the japanese writing system');
+    expect(getTranscriptionInstruction('auto', 'xx')).toBe('');
+  });
+});
+
+describe('getLanguageInstruction', () => {
+  it('should name the languages behind the codes', () => {
+    expect(getLanguageInstruction('en', 'ja'))
+      .toBe('Language codes: en is English; ja is Japanese (日本語). Write the translation in Japanese script.');
+  });
+
+  it('should ask for the script and usage of a variant', () => {
+    const instruction = getLanguageInstruction('auto', 'sr-Latn');
+    expect(instruction).toContain('sr-Latn is Serbian (Latin) (Srpski (latinica))');
+    expect(instruction).toContain('Write the translation in Latin script, with the spelling, vocabulary and conventions of Serbian (Latin).');
+    expect(getLanguageInstruction('en', 'es-419')).toContain('of Spanish (Latin America)');
+  });
+
+  it('should be empty for an unlisted target language', () => {
+    expect(getLanguageInstruction('en', 'xyz')).toBe('');
+  });
+});
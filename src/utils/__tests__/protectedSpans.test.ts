@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { getPlaceholderInstruction, protectSpans, restoreSpans } from '../protectedSpans';
+
+describe('protectSpans', () => {
+  it('should replace placeholders, tags, URLs, emails and inline code with tokens', () => {
+    const { text, spans } = protectSpans(
+      'Hi {name}, you have {{count}} files (%s, %1$d, %.2f). <b>Open</b> https://example.com/a?b=1. ' +
+      'Mail help@example.com or run `npm start`.'
+    );
+
+    expect(text).toBe(
+      'Hi {{PH0}}, you have {{PH1}} files ({{PH2}}, {{PH3}}, {{PH4}}). {{PH5}}Open{{PH6}} {{PH7}}. ' +
+      'Mail {{PH8}} or run {{PH9}}.'
+    );
+    expect(spans.map((span) => span.text)).toEqual([
+      '{name}', '{{count}}', '%s', '%1$d', '%.2f', '<b>', '</b>', 'https://example.com/a?b=1',
+      'help@example.com', '`npm start`',
+    ]);
+  });
+
+  it('should protect user-marked regions without their brackets', () => {
+    expect(protectSpans('Made by ⟦Clanker Labs⟧.')).toEqual({
+      text: 'Made by {{PH0}}.',
+      spans: [{ token: '{{PH0}}', text: 'Clanker Labs' }],
+    });
+  });
+
+  it('should leave percentages and plain text alone', () => {
+    expect(protectSpans('100% sure, a 20%increase, x < y').spans).toEqual([]);
+  });
+});
+
+describe('getPlaceholderInstruction', () => {
+  it('should list the tokens in the text', () => {
+    expect(getPlaceholderInstruction('{{PH0}} and {{PH1}}')).toContain('Copy each placeholder ({{PH0}}, {{PH1}})');
+    expect(getPlaceholderInstruction('Hello')).toBe('');
+  });
+});
+
+describe('restoreSpans', () => {
+  const { spans } = protectSpans('Hi {name}, open <b>');
+
+  it('should put the spans back, accepting spaces inside tokens', () => {
+    expect(restoreSpans('Hola {{ PH0 }}, abre {{PH1}}', spans)).toEqual({
+      text: 'Hola {name}, abre <b>',
+      missing: [],
+      duplicated: [],
+    });
+  });
+
+  it('should report missing and repeated tokens', () => {
+    expect(restoreSpans('{{PH0}} {{PH0}}', spans)).toEqual({
+      text: '{name} {name}',
+      missing: [spans[1]],
+      duplicated: [spans[0]],
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { applyVote, expectedScore, getLanguagePairKey, DEFAULT_RATING } from '../ratings';
+
+describe('getLanguagePairKey', () => {
+  it('should keep the direction of the pair', () => {
+    expect(getLanguagePairKey('en', 'ja')).toBe('en>ja');
+    expect(getLanguagePairKey('ja', 'en')).not.toBe(getLanguagePairKey('en', 'ja'));
+  });
+});
+
+describe('expectedScore', () => {
+  it('should be even for equal ratings', () => {
+    expect(expectedScore(1500, 1500)).toBe(0.5);
+  });
+
+  it('should favor the higher rating, with the scores summing to one', () => {
+    const favorite = expectedScore(1700, 1500);
+    expect(favorite).toBeCloseTo(0.76, 2);
+    expect(favorite + expectedScore(1500, 1700)).toBeCloseTo(1);
+  });
+});
+
+describe('applyVote', () => {
+  it('should start unrated models at the default rating', () => {
+    const ratings = applyVote({}, 'a', ['b']);
+
+    expect(ratings.a).toEqual({ rating: DEFAULT_RATING + 16, votes: 1 });
+    expect(ratings.b).toEqual({ rating: DEFAULT_RATING - 16, votes: 1 });
+  });
+
+  it('should score the winner against each loser', () => {
+    const ratings = applyVote({}, 'a', ['b', 'c']);
+
+    expect(ratings.a.rating).toBe(DEFAULT_RATING + 32);
+    expect(ratings.b.rating).toBe(DEFAULT_RATING - 16);
+    expect(ratings.c.rating).toBe(DEFAULT_RATING - 16);
+  });
+
+  it('should move ratings less when the favorite wins', () => {
+    const before = { a: { rating: 1700, votes: 5 }, b: { rating: 1500, votes: 5 } };
+    const ratings = applyVote(before, 'a', ['b']);
+
+    expect(ratings.a.rating - 1700).toBeLessThan(16);
+    expect(ratings.a.votes).toBe(6);
+    expect(ratings.b.votes).toBe(6);
+  });
+
+  it('should leave models outside the comparison alone', () => {
+    const before = { d: { rating: 1600, votes: 3 } };
+    expect(applyVote(before, 'a', ['b']).d).toBe(before.d);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { getRetryDelay, parseRetryAfter, sleep } from '../retry';
+import { DEFAULT_RETRY_POLICY } from '../../constants/retry';
+import type { OpenRouterError } from '../../types';
+
+const error = (type: OpenRouterError['type'], retryAfterMs?: number): OpenRouterError => ({
+  type,
+  message: 'Failed',
+  retryAfterMs,
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse a delay in seconds', () => {
+    expect(parseRetryAfter('5')).toBe(5000);
+    expect(parseRetryAfter(' 1.5 ')).toBe(1500);
+  });
+
+  it('should parse an HTTP date relative to now', () => {
+    const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:27:00 GMT', now)).toBe(0);
+  });
+
+  it('should return undefined for missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('')).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('getRetryDelay', () => {
+  const policy = { ...DEFAULT_RETRY_POLICY, jitter: 0 };
+
+  it('should back off exponentially up to the maximum delay', () => {
+    const long = { ...policy, maxAttempts: 10 };
+    expect(getRetryDelay(long, 1, error('network'))).toBe(1000);
+    expect(getRetryDelay(long, 2, error('network'))).toBe(2000);
+    expect(getRetryDelay(long, 3, error('network'))).toBe(4000);
+    expect(getRetryDelay(long, 9, error('network'))).toBe(30000);
+  });
+
+  it('should shorten the delay by up to the jitter fraction', () => {
+    const jittery = { ...policy, jitter: 0.5 };
+    expect(getRetryDelay(jittery, 1, error('network'), () => 0)).toBe(1000);
+    expect(getRetryDelay(jittery, 1, error('network'), () => 1)).toBe(500);
+  });
+
+  it('should return null after the last attempt', () => {
+    expect(getRetryDelay(policy, 3, error('network'))).toBeNull();
+  });
+
+  it('should return null for errors the policy does not retry', () => {
+    expect(getRetryDelay(policy, 1, error('auth'))).toBeNull();
+    expect(getRetryDelay({ ...policy, retryableErrors: [] }, 1, error('network'))).toBeNull();
+  });
+
+  it('should use Retry-After when the policy honors it', () => {
+    expect(getRetryDelay(policy, 1, error('rate_limit', 7000))).toBe(7000);
+    expect(getRetryDelay({ ...policy, honorRetryAfter: false }, 1, error('rate_limit', 7000))).toBe(1000);
+  });
+
+  it('should give up when Retry-After exceeds the maximum delay', () => {
+    expect(getRetryDelay(policy, 1, error('rate_limit', 60000))).toBeNull();
+  });
+});
+
+describe('sleep', () => {
+  it('should resolve after the delay', async () => {
+    await expect(sleep(1)).resolves.toBeUndefined();
+  });
+
+  it('should reject with an AbortError when aborted', async () => {
+    const controller = new AbortController();
+    const promise = sleep(10000, controller.signal);
+    controller.abort();
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('should reject immediately if already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(sleep(10000, controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
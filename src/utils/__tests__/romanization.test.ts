@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import {
+  chooseTranscription,
+  getRomanizationOption,
+  getRomanizationStandard,
+  hasNonLatinOrIpa,
+  romanizeArabic,
+  romanizeCyrillic,
+  romanizeJapanese,
+  romanizeKorean,
+  romanizeKoreanYale,
+  romanizeLocally,
+} from '../romanization';
+
+describe('romanizeKorean', () => {
+  it('should romanize Hangul syllables from their jamo', () => {
+    expect(romanizeKorean('안녕하세요')).toBe('annyeonghaseyo');
+    expect(romanizeKorean('서울, 부산')).toBe('seoul, busan');
+  });
+
+  it('should carry a final consonant over to a following vowel', () => {
+    expect(romanizeKorean('한국어')).toBe('hangugeo');
+    expect(romanizeKorean('좋아요')).toBe('joayo');
+  });
+
+  it('should nasalize stops and read ㄴㄹ as ll', () => {
+    expect(romanizeKorean('감사합니다')).toBe('gamsahamnida');
+    expect(romanizeKorean('신라')).toBe('silla');
+  });
+});
+
+describe('romanizeKoreanYale', () => {
+  it('should spell each jamo the same way regardless of its neighbours', () => {
+    expect(romanizeKoreanYale('안녕하세요')).toBe('annyenghaseyyo');
+    expect(romanizeKoreanYale('한국어')).toBe('hankwuke');
+  });
+
+  it('should write u rather than wu after bilabials', () => {
+    expect(romanizeKoreanYale('불')).toBe('pul');
+  });
+});
+
+describe('romanizeCyrillic', () => {
+  it('should use plain letters with the simple scheme', () => {
+    expect(romanizeCyrillic('Привет, как дела?')).toBe('Privet, kak dela?');
+    expect(romanizeCyrillic('Щука и ёж')).toBe('Shchuka i yozh');
+  });
+
+  it('should use one letter per Cyrillic letter with ISO 9', () => {
+    expect(romanizeCyrillic('Щука и ёж', 'iso9')).toBe('Ŝuka i ëž');
+  });
+
+  it('should use háčeks with the scientific scheme', () => {
+    expect(romanizeCyrillic('Щука и ёж', 'scientific')).toBe('Ščuka i ëž');
+  });
+});
+
+describe('romanizeArabic', () => {
+  it('should transliterate the consonants, and vowels where they are marked', () => {
+    expect(romanizeArabic('شكرا')).toBe('shkra');
+    expect(romanizeArabic('مُحَمَّد')).toBe('muhammad');
+  });
+});
+
+describe('romanizeJapanese', () => {
+  it('should romanize kana and read kanji from the furigana', () => {
+    expect(romanizeJapanese('ありがとう。')).toBe('arigatou.');
+    expect(romanizeJapanese('私は学生です', [
+      { text: '私', reading: 'わたし' },
+      { text: 'は' },
+      { text: '学生', reading: 'がくせい' },
+      { text: 'です' },
+    ])).toBe('watashi wa gakusei desu');
+  });
+
+  it('should follow the chosen system', () => {
+    const furigana = [{ text: '新聞', reading: 'しんぶん' }, { text: 'を' }, { text: '読む', reading: 'よむ' }];
+    expect(romanizeJapanese('新聞を読む', furigana, 'kunrei')).toBe('sinbun o yomu');
+    expect(romanizeJapanese('新聞を読む', furigana, 'nihon-shiki')).toBe('sinbun wo yomu');
+  });
+
+  it('should give up on kanji without readings', () => {
+    expect(romanizeJapanese('学生です')).toBeNull();
+  });
+});
+
+describe('romanizeLocally', () => {
+  it('should pick the engine for the language', () => {
+    expect(romanizeLocally('Привет', 'ru')).toEqual({ text: 'Privet', exact: true });
+    expect(romanizeLocally('شكرا', 'ar')).toEqual({ text: 'shkra', exact: false });
+    expect(romanizeLocally('你好', 'zh')).toBeNull();
+  });
+
+  it('should leave other languages written in the same scripts to the model', () => {
+    expect(romanizeLocally('Привіт', 'uk')).toBeNull();
+    expect(romanizeLocally('سلام', 'fa')).toBeNull();
+  });
+
+  it('should use the chosen standard', () => {
+    expect(romanizeLocally('щи', 'ru', { standard: 'iso9' })).toEqual({ text: 'ŝi', exact: true });
+    expect(romanizeLocally('불', 'ko', { standard: 'yale' })).toEqual({ text: 'pul', exact: true });
+    expect(romanizeLocally('불', 'ko', { standard: 'mccune-reischauer' })).toBeNull();
+  });
+});
+
+describe('getRomanizationOption', () => {
+  it('should fall back to the default for a missing or mismatched standard', () => {
+    expect(getRomanizationOption('ja')?.id).toBe('hepburn');
+    expect(getRomanizationOption('ja', 'kunrei')?.id).toBe('kunrei');
+    expect(getRomanizationOption('ja', 'yale')?.id).toBe('hepburn');
+    expect(getRomanizationOption('ar')).toBeUndefined();
+  });
+});
+
+describe('getRomanizationStandard', () => {
+  it('should look up the standard for the target language', () => {
+    expect(getRomanizationStandard({ ko: 'yale' }, 'ko')).toBe('yale');
+    expect(getRomanizationStandard({ ko: 'yale' }, 'ru')).toBe('simple');
+    expect(getRomanizationStandard({}, 'de')).toBeUndefined();
+  });
+});
+
+describe('hasNonLatinOrIpa', () => {
+  it('should flag other scripts and IPA symbols, but not romanization marks', () => {
+    expect(hasNonLatinOrIpa('kõ̞nːit͡ɕiɰᵝa̠')).toBe(true);
+    expect(hasNonLatinOrIpa('privet привет')).toBe(true);
+    expect(hasNonLatinOrIpa('nǐ hǎo')).toBe(false);
+    expect(hasNonLatinOrIpa('Tōkyō')).toBe(false);
+  });
+
+  it('should allow the primes of the scientific and ISO 9 schemes', () => {
+    expect(hasNonLatinOrIpa(romanizeCyrillic('объявление мальчик', 'scientific'))).toBe(false);
+    expect(hasNonLatinOrIpa(romanizeCyrillic('объявление мальчик', 'iso9'))).toBe(false);
+    expect(hasNonLatinOrIpa('malʹčik obʺjavlenie Hawaiʻi')).toBe(false);
+  });
+});
+
+describe('chooseTranscription', () => {
+  const local = { text: 'watashi wa gakusei desu', exact: true };
+
+  it('should prefer the rule-based romanization when the model used IPA', () => {
+    expect(chooseTranscription('wataɕi wa ɡakɯseː desɯ', local)).toEqual({ text: local.text, source: 'local' });
+  });
+
+  it('should keep a model transcription written with primes', () => {
+    const russian = { text: 'malʹčik', exact: true };
+    expect(chooseTranscription('malʹčik', russian)).toEqual({ text: 'malʹčik', source: 'model', matchesLocal: true });
+  });
+
+  it('should keep the model\'s transcription and say whether it agrees', () => {
+    expect(chooseTranscription('Watashi wa gakusei desu.', local).matchesLocal).toBe(true);
+    expect(chooseTranscription('watashi ga gakusei desu', local).matchesLocal).toBe(false);
+    expect(chooseTranscription('marhaban', { text: 'mrhba', exact: false }).matchesLocal).toBeUndefined();
+  });
+});
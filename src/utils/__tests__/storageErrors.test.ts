@@ -0,0 +1,14 @@
+import { describe, it, expect } from 'vitest';
+import { getStorageErrorReason } from '../storageErrors';
+
+describe('getStorageErrorReason', () => {
+  it('should suggest making room when storage is full, under either browser name', () => {
+    const reason = 'not enough browser storage. Export the glossary and remove entries you no longer need, then try again.';
+    expect(getStorageErrorReason(new DOMException('Full', 'QuotaExceededError'), 'the glossary')).toBe(reason);
+    expect(getStorageErrorReason(new DOMException('Full', 'NS_ERROR_DOM_QUOTA_REACHED'), 'the glossary')).toBe(reason);
+  });
+
+  it('should pass other errors through', () => {
+    expect(getStorageErrorReason(new Error('Not a valid TBX file'), 'the glossary')).toBe('Not a valid TBX file');
+  });
+});
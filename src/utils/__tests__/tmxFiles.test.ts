@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { exportTmx, parseTmx } from '../tmxFiles';
+import type { TranslationMemoryUnit } from '../../types';
+
+describe('TMX', () => {
+  const units: TranslationMemoryUnit[] = [
+    {
+      id: '1',
+      sourceText: 'Save & close',
+      targetText: 'Speichern & schließen',
+      fromLanguage: 'en',
+      toLanguage: 'de',
+      createdAt: Date.UTC(2024, 0, 31, 9, 30),
+    },
+    {
+      id: '2',
+      sourceText: 'ファイルを開く',
+      targetText: 'Open file',
+      fromLanguage: 'ja',
+      toLanguage: 'en',
+      createdAt: Date.UTC(2024, 1, 1),
+    },
+  ];
+
+  it('should round-trip units through TMX', () => {
+    const tmx = exportTmx(units);
+
+    expect(tmx).toContain('<tu srclang="en" creationdate="20240131T093000Z">');
+    expect(parseTmx(tmx)).toEqual({
+      units: units.map((unit) => ({ ...unit, id: expect.any(String) })),
+      skipped: 0,
+    });
+  });
+
+  it('should read regional language tags, inline codes and units with several targets', () => {
+    const tmx = `<?xml version="1.0"?>
+      <tmx version="1.4">
+        <header srclang="en-US" datatype="html"/>
+        <body>
+          <tu>
+            <tuv xml:lang="en-US"><seg>Click <bpt i="1">&lt;b&gt;</bpt>Save<ept i="1">&lt;/b&gt;</ept>.</seg></tuv>
+            <tuv xml:lang="de-DE"><seg>Klicken Sie auf <bpt i="1">&lt;b&gt;</bpt>Speichern<ept i="1">&lt;/b&gt;</ept>.</seg></tuv>
+            <tuv xml:lang="fr-FR"><seg>Cliquez sur Enregistrer.</seg></tuv>
+          </tu>
+          <tu>
+            <tuv xml:lang="en-US"><seg>Untranslated</seg></tuv>
+          </tu>
+        </body>
+      </tmx>`;
+
+    expect(parseTmx(tmx)).toEqual({
+      units: [
+        expect.objectContaining({ sourceText: 'Click Save.', targetText: 'Klicken Sie auf Speichern.', fromLanguage: 'en-US', toLanguage: 'de' }),
+        expect.objectContaining({ sourceText: 'Click Save.', targetText: 'Cliquez sur Enregistrer.', fromLanguage: 'en-US', toLanguage: 'fr-FR' }),
+      ],
+      skipped: 1,
+    });
+  });
+
+  it('should keep regional and script variants through a round trip', () => {
+    const variants: TranslationMemoryUnit[] = [
+      { ...units[0], targetText: 'Salvar e fechar', toLanguage: 'pt-BR' },
+      { ...units[0], id: '3', targetText: 'Сачувај и затвори', fromLanguage: 'en', toLanguage: 'sr-Cyrl' },
+      { ...units[0], id: '4', targetText: '儲存並關閉', toLanguage: 'zh-Hant' },
+    ];
+
+    expect(parseTmx(exportTmx(variants)).units).toEqual(
+      variants.map((unit) => ({ ...unit, id: expect.any(String) }))
+    );
+  });
+
+  it('should resolve region tags and unlisted tags', () => {
+    const tmx = `<?xml version="1.0"?>
+      <tmx version="1.4">
+        <header srclang="EN_us"/>
+        <body>
+          <tu>
+            <tuv xml:lang="EN_us"><seg>Save</seg></tuv>
+            <tuv xml:lang="zh-TW"><seg>儲存</seg></tuv>
+            <tuv xml:lang="xx-YY"><seg>Sav</seg></tuv>
+          </tu>
+        </body>
+      </tmx>`;
+
+    expect(parseTmx(tmx).units.map(({ fromLanguage, toLanguage }) => [fromLanguage, toLanguage])).toEqual([
+      ['en-US', 'zh-Hant'],
+      ['en-US', 'xx'],
+    ]);
+  });
+
+  it('should reject documents that are not TMX', () => {
+    expect(() => parseTmx('<tbx></tbx>')).toThrow('Not a valid TMX file');
+    expect(() => parseTmx('not xml')).toThrow('Not a valid TMX file');
+  });
+});
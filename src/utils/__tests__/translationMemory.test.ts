@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createUnits,
+  FUZZY_MATCH_THRESHOLD,
+  getExactTranslation,
+  getMemoryInstruction,
+  getSimilarity,
+  indexUnits,
+  lookupSegments,
+  mergeUnits,
+  splitSegments,
+} from '../translationMemory';
+import type { TranslationMemoryUnit } from '../../types';
+
+const unit = (sourceText: string, targetText: string, overrides: Partial<TranslationMemoryUnit> = {}) => ({
+  id: sourceText,
+  sourceText,
+  targetText,
+  fromLanguage: 'en',
+  toLanguage: 'de',
+  createdAt: 1,
+  ...overrides,
+});
+
+describe('splitSegments', () => {
+  it('should split sentences and lines, keeping the whitespace after each', () => {
+    expect(splitSegments('Bug fixes. New features.\n\nThanks!', 'en')).toEqual([
+      { text: 'Bug fixes.', separator: ' ' },
+      { text: 'New features.', separator: '\n\n' },
+      { text: 'Thanks!', separator: '' },
+    ]);
+  });
+});
+
+describe('getSimilarity', () => {
+  it('should score identical segments 100, ignoring extra whitespace', () => {
+    expect(getSimilarity('Bug  fixes.', ' Bug fixes.')).toBe(100);
+  });
+
+  it('should score by edit distance, rounding down', () => {
+    expect(getSimilarity('Bug fixes and improvement.', 'Bug fixes and improvements.')).toBe(96);
+    expect(getSimilarity('Bug fixes.', 'bug fixes.')).toBe(90);
+  });
+});
+
+describe('lookupSegments', () => {
+  const memory = [
+    unit('Bug fixes.', 'Fehlerbehebungen.'),
+    unit('Bug fixes and improvements.', 'Fehlerbehebungen und Verbesserungen.'),
+    unit('New features.', 'Nouvelles fonctionnalités.', { toLanguage: 'fr' }),
+  ];
+
+  it('should find the best match for each segment in the language pair', () => {
+    const lookups = lookupSegments(indexUnits(memory), 'Bug fixes. Bug fixes and improvement. New features.', 'en', 'de');
+
+    expect(lookups.map(({ match }) => match && [match.unit.targetText, match.score])).toEqual([
+      ['Fehlerbehebungen.', 100],
+      ['Fehlerbehebungen und Verbesserungen.', 96],
+      undefined,
+    ]);
+  });
+
+  it('should prefer the most recent of equally good matches', () => {
+    const lookups = lookupSegments(
+      indexUnits([unit('Bug fixes.', 'Old'), unit('Bug fixes.', 'New', { id: '2', createdAt: 2 })]),
+      'Bug fixes.',
+      'auto',
+      'de'
+    );
+    expect(lookups[0].match?.unit.targetText).toBe('New');
+  });
+
+  it('should match units from any source language only when the source is auto', () => {
+    const index = indexUnits([unit('Bugfixes.', 'Fehlerbehebungen.', { fromLanguage: 'nl' })]);
+
+    expect(lookupSegments(index, 'Bugfixes.', 'en', 'de')[0].match).toBeUndefined();
+    expect(lookupSegments(index, 'Bugfixes.', 'auto', 'de')[0].match?.score).toBe(100);
+  });
+
+  it('should score matches at the threshold the same as getSimilarity', () => {
+    const index = indexUnits([unit('abcdefghij', 'at threshold'), unit('abcdefvwqr', 'below threshold')]);
+
+    const [{ match }] = lookupSegments(index, 'abcdefgxyz', 'en', 'de');
+
+    expect(match?.unit.targetText).toBe('at threshold');
+    expect(match?.score).toBe(getSimilarity('abcdefgxyz', 'abcdefghij'));
+    expect(getSimilarity('abcdefgxyz', 'abcdefvwqr')).toBeLessThan(FUZZY_MATCH_THRESHOLD);
+  });
+});
+
+describe('getExactTranslation', () => {
+  const memory = [unit('Bug fixes.', 'Fehlerbehebungen.'), unit('New features.', 'Neue Funktionen.')];
+
+  it('should join the exact matches with the original whitespace', () => {
+    const lookups = lookupSegments(indexUnits(memory), 'New features.\nBug fixes.', 'en', 'de');
+    expect(getExactTranslation(lookups)).toBe('Neue Funktionen.\nFehlerbehebungen.');
+  });
+
+  it('should return null unless every segment matches exactly', () => {
+    expect(getExactTranslation(lookupSegments(indexUnits(memory), 'New features. Bug fix.', 'en', 'de'))).toBeNull();
+    expect(getExactTranslation([])).toBeNull();
+  });
+});
+
+describe('getMemoryInstruction', () => {
+  it('should list the matches with their scores', () => {
+    const match = { segment: 'Bug fix.', unit: unit('Bug fixes.', 'Fehlerbehebungen.'), score: 90 };
+    expect(getMemoryInstruction([match])).toContain('- (90% match) "Bug fixes." → "Fehlerbehebungen."');
+    expect(getMemoryInstruction([])).toBe('');
+  });
+});
+
+describe('createUnits', () => {
+  it('should pair sentences when both sides have the same number', () => {
+    expect(createUnits('Bug fixes. New features.', 'Fehlerbehebungen. Neue Funktionen.', 'en', 'de')).toEqual([
+      expect.objectContaining({ sourceText: 'Bug fixes.', targetText: 'Fehlerbehebungen.' }),
+      expect.objectContaining({ sourceText: 'New features.', targetText: 'Neue Funktionen.' }),
+    ]);
+  });
+
+  it('should keep the whole text as one unit when the sentences do not line up', () => {
+    expect(createUnits('Bug fixes. New features.', 'Fehlerbehebungen und neue Funktionen.', 'en', 'de')).toEqual([
+      expect.objectContaining({
+        sourceText: 'Bug fixes. New features.',
+        targetText: 'Fehlerbehebungen und neue Funktionen.',
+      }),
+    ]);
+  });
+});
+
+describe('mergeUnits', () => {
+  it('should replace older translations of the same segment', () => {
+    const old = unit('Bug fixes.', 'Fehlerkorrekturen.');
+    const other = unit('New features.', 'Neue Funktionen.');
+    const updated = unit('Bug fixes. ', 'Fehlerbehebungen.', { id: '2' });
+
+    expect(mergeUnits([old, other], [updated])).toEqual({ memory: [other, updated], replaced: 1 });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { addUsage, calculateCost, formatCost, toDayKey, EMPTY_USAGE_TOTALS } from '../usage';
+
+describe('usage', () => {
+  describe('calculateCost', () => {
+    it('should price prompt and completion tokens separately', () => {
+      const cost = calculateCost(
+        { promptTokens: 1000, completionTokens: 200 },
+        { prompt: 0.0000025, completion: 0.00001 }
+      );
+      expect(cost).toBeCloseTo(0.0045);
+    });
+
+    it('should return undefined without pricing', () => {
+      expect(calculateCost({ promptTokens: 1000, completionTokens: 200 }, undefined)).toBeUndefined();
+    });
+
+    it('should return zero for free models', () => {
+      expect(calculateCost({ promptTokens: 1000, completionTokens: 200 }, { prompt: 0, completion: 0 })).toBe(0);
+    });
+  });
+
+  describe('addUsage', () => {
+    it('should add tokens, cost and one request', () => {
+      const totals = addUsage(EMPTY_USAGE_TOTALS, { promptTokens: 10, completionTokens: 5 }, 0.01);
+      expect(addUsage(totals, { promptTokens: 20, completionTokens: 1 }, undefined)).toEqual({
+        requests: 2,
+        promptTokens: 30,
+        completionTokens: 6,
+        cost: 0.01,
+      });
+    });
+  });
+
+  describe('formatCost', () => {
+    it('should show cents for amounts of a cent or more', () => {
+      expect(formatCost(1.254)).toBe('$1.25');
+      expect(formatCost(0.01)).toBe('$0.01');
+    });
+
+    it('should keep two significant digits for sub-cent amounts', () => {
+      expect(formatCost(0.00042)).toBe('$0.00042');
+    });
+
+    it('should format zero and negligible amounts', () => {
+      expect(formatCost(0)).toBe('$0.00');
+      expect(formatCost(0.0000001)).toBe('<$0.000001');
+    });
+  });
+
+  describe('toDayKey', () => {
+    it('should use the local date', () => {
+      expect(toDayKey(new Date(2025, 2, 5, 23, 59))).toBe('2025-03-05');
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { diffWords, tokenizeWords } from '../wordDiff';
+
+describe('tokenizeWords', () => {
+  it('should keep whitespace and punctuation so tokens join back into the text', () => {
+    const text = 'Hello, world!  How are you?';
+    expect(tokenizeWords(text).join('')).toBe(text);
+    expect(tokenizeWords(text)).toContain('world');
+  });
+
+  it('should split text written without spaces into words', () => {
+    expect(tokenizeWords('我喜欢猫', 'zh').length).toBeGreaterThan(1);
+  });
+});
+
+describe('diffWords', () => {
+  it('should return a single equal segment for identical texts', () => {
+    expect(diffWords('The cat sat.', 'The cat sat.')).toEqual([{ type: 'equal', text: 'The cat sat.' }]);
+  });
+
+  it('should mark words only in one text as removed or added', () => {
+    expect(diffWords('The meeting is on Friday.', 'The meeting is on Saturday.')).toEqual([
+      { type: 'equal', text: 'The meeting is on ' },
+      { type: 'removed', text: 'Friday' },
+      { type: 'added', text: 'Saturday' },
+      { type: 'equal', text: '.' },
+    ]);
+  });
+
+  it('should mark inserted words as added', () => {
+    const segments = diffWords('I like cats', 'I do not like cats');
+    expect(segments.filter(s => s.type === 'added').map(s => s.text).join('')).toContain('not');
+    expect(segments.some(s => s.type === 'removed')).toBe(false);
+  });
+
+  it('should ignore case and differences in whitespace', () => {
+    const segments = diffWords('Good  morning', 'good morning');
+    expect(segments.every(s => s.type === 'equal')).toBe(true);
+  });
+
+  it('should find the changes in long texts and keep every word', () => {
+    const words = Array.from({ length: 3000 }, (_, i) => `word${i}`);
+    const revised = [...words];
+    revised[1000] = 'changed';
+    revised.splice(2500, 1);
+
+    const segments = diffWords(words.join(' '), revised.join(' '));
+
+    expect(segments.filter(s => s.type === 'removed').map(s => s.text.trim())).toEqual(['word1000', 'word2500']);
+    expect(segments.filter(s => s.type === 'added').map(s => s.text)).toEqual(['changed']);
+    expect(segments.filter(s => s.type !== 'added').map(s => s.text).join('')).toBe(words.join(' '));
+    expect(segments.filter(s => s.type !== 'removed').map(s => s.text).join('')).toBe(revised.join(' '));
+  });
+
+  it('should handle empty texts', () => {
+    expect(diffWords('', '')).toEqual([]);
+    expect(diffWords('Hello', '')).toEqual([{ type: 'removed', text: 'Hello' }]);
+  });
+});
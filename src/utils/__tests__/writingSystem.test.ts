@@ -50,6 +50,14 @@ describe('writingSystem', () => {
     it('should return unknown for unsupported language codes', () => {
       expect(getWritingSystem('xyz')).toBe('unknown');
     });
+
+    it('should follow the script of regional and script variants', () => {
+      expect(getWritingSystem('zh-TW')).toBe('chinese');
+      expect(getWritingSystem('zh-Hant')).toBe('chinese');
+      expect(getWritingSystem('sr-Latn')).toBe('latin');
+      expect(getWritingSystem('sr-Cyrl')).toBe('cyrillic');
+      expect(getWritingSystem('hi')).toBe('devanagari');
+    });
   });
 
   describe('needsTranscription', () => {
@@ -101,6 +109,12 @@ describe('writingSystem', () => {
       expect(needsTranscription('en', 'en')).toBe(false);
     });
 
+    it('should compare the scripts of variants', () => {
+      expect(needsTranscription('zh-Hans', 'zh-Hant')).toBe(false);
+      expect(needsTranscription('sr-Latn', 'sr-Cyrl')).toBe(true);
+      expect(needsTranscription('en', 'pt-BR')).toBe(false);
+    });
+
     it('should return false when either language is unknown', () => {
       expect(needsTranscription('xyz', 'en')).toBe(false);
       expect(needsTranscription('en', 'xyz')).toBe(false);
@@ -0,0 +1,102 @@
+/**
+ * Utility functions for interpreting error bodies returned by OpenAI-compatible APIs
+ */
+
+import type { ApiErrorDetails, OpenRouterError } from '../types';
+
+/** The useful parts of an `{ error: { message, code, metadata } }` body */
+export interface ApiErrorBody {
+  message?: string;
+  code?: number;
+  details: ApiErrorDetails;
+}
+
+const CONTEXT_LENGTH_PATTERN = /context length|context_length|context window|maximum.*tokens|too many tokens|prompt is too long/i;
+const MODEL_UNAVAILABLE_PATTERN = /no endpoints found|model.*(not found|does not exist|unavailable)|not a valid model/i;
+const TIMEOUT_PATTERN = /timed? ?out|timeout/i;
+const MODERATION_PATTERN = /flagged|moderation/i;
+const CREDITS_PATTERN = /insufficient (credits|balance|funds)|more credits|out of credits/i;
+const STRUCTURED_OUTPUT_PATTERN = /response_format|json_schema|structured[ _-]?outputs?/i;
+
+/**
+ * Extract the message, code and metadata from an error body
+ * @param body The parsed JSON body, or the `error` object of a stream chunk
+ * @returns The error fields that were present and well-formed
+ */
+export function parseErrorBody(body: unknown): ApiErrorBody {
+  const root = (body ?? {}) as { error?: unknown };
+  const error = (typeof root.error === 'object' && root.error !== null ? root.error : root) as {
+    message?: unknown;
+    code?: unknown;
+    metadata?: { provider_name?: unknown; reasons?: unknown };
+  };
+  const metadata = error.metadata ?? {};
+
+  const details: ApiErrorDetails = {};
+  if (typeof metadata.provider_name === 'string') {
+    details.providerName = metadata.provider_name;
+  }
+  if (Array.isArray(metadata.reasons)) {
+    details.moderationReasons = metadata.reasons.filter((r): r is string => typeof r === 'string');
+  }
+
+  return {
+    message: typeof error.message === 'string' && error.message ? error.message : undefined,
+    code: typeof error.code === 'number' ? error.code : undefined,
+    details,
+  };
+}
+
+/**
+ * Classify a failed request by its status code and error body
+ * @param status The HTTP status, or the code reported inside a stream
+ * @param body The parsed error body
+ * @returns The error type
+ */
+export function classifyApiError(status: number, body: ApiErrorBody): OpenRouterError['type'] {
+  const message = body.message ?? '';
+
+  // Messages are checked first because providers report these under a variety of statuses
+  if (body.details.moderationReasons?.length || (status === 403 && MODERATION_PATTERN.test(message))) {
+    return 'moderation';
+  }
+  if (status === 402 || CREDITS_PATTERN.test(message)) {
+    return 'insufficient_credits';
+  }
+  if (status === 413 || CONTEXT_LENGTH_PATTERN.test(message)) {
+    return 'context_length_exceeded';
+  }
+  if (MODEL_UNAVAILABLE_PATTERN.test(message)) {
+    return 'model_unavailable';
+  }
+
+  switch (status) {
+    case 400:
+    case 422:
+      return 'bad_request';
+    case 401:
+    case 403:
+      return 'auth';
+    case 404:
+    case 503:
+      return 'model_unavailable';
+    case 408:
+    case 504:
+    case 524:
+      return 'provider_timeout';
+    case 429:
+      return 'rate_limit';
+    default:
+      return TIMEOUT_PATTERN.test(message) ? 'provider_timeout' : 'unknown';
+  }
+}
+
+/**
+ * Check whether a bad request was rejected because the provider does not support response_format
+ * @param status The HTTP status
+ * @param body The parsed error body
+ * @returns True if the request can be resent without a JSON schema
+ */
+export function isStructuredOutputRejection(status: number, body: ApiErrorBody): boolean {
+  return status === 400 && STRUCTURED_OUTPUT_PATTERN.test(body.message ?? '');
+}
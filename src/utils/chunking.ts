@@ -0,0 +1,181 @@
+/**
+ * Utility functions for splitting long inputs into chunks that fit a model's context
+ */
+
+import type { Model } from '../types';
+
+/** A piece of the input, plus the whitespace that followed it in the original text */
+export interface TextChunk {
+  text: string;
+  separator: string;
+}
+
+/** Context length assumed for models that don't report one */
+export const DEFAULT_CONTEXT_LENGTH = 8192;
+
+// Tokens reserved for the system prompt, instructions, user context and the hint from earlier chunks
+const PROMPT_OVERHEAD_TOKENS = 1000;
+
+// Larger chunks fit in big contexts but give worse explanations and longer waits for the first output
+const MAX_CHUNK_TOKENS = 2000;
+
+const MIN_CHUNK_TOKENS = 100;
+
+// Kana, CJK ideographs and Hangul, where one character is roughly one token
+const DENSE_SCRIPT_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/g;
+
+/**
+ * Roughly estimate how many tokens a text uses
+ * @param text The text
+ * @returns One token per CJK/Hangul character plus one per four other characters
+ */
+export function estimateTokens(text: string): number {
+  const dense = text.match(DENSE_SCRIPT_PATTERN)?.length ?? 0;
+  return dense + Math.ceil((text.length - dense) / 4);
+}
+
+/**
+ * Get the largest input chunk to send to a model
+ * @param model The selected model, if known
+ * @returns The chunk size in estimated tokens
+ */
+export function getChunkTokenBudget(model: Model | undefined): number {
+  const contextLength = model?.contextLength ?? DEFAULT_CONTEXT_LENGTH;
+  // The output (translation, transcription and explanation) can be about twice the input
+  const budget = Math.floor((contextLength - PROMPT_OVERHEAD_TOKENS) / 3);
+  return Math.max(MIN_CHUNK_TOKENS, Math.min(MAX_CHUNK_TOKENS, budget));
+}
+
+/**
+ * Get the `max_tokens` to request for translating a chunk
+ * @param inputTokens The estimated tokens of the chunk
+ * @param model The selected model
+ * @returns The output token limit, or undefined if the model's context length is unknown
+ */
+export function getMaxOutputTokens(inputTokens: number, model: Model | undefined): number | undefined {
+  if (!model?.contextLength) {
+    return undefined;
+  }
+  const remaining = model.contextLength - PROMPT_OVERHEAD_TOKENS - inputTokens;
+  const wanted = inputTokens * 3 + PROMPT_OVERHEAD_TOKENS;
+  return Math.max(MIN_CHUNK_TOKENS, Math.min(wanted, remaining, model.maxCompletionTokens ?? Infinity));
+}
+
+/**
+ * Split text into paragraphs, keeping the blank lines between them
+ * @param text The text
+ * @returns The paragraphs with their trailing separators
+ */
+function splitParagraphs(text: string): TextChunk[] {
+  const parts = text.split(/(\n\s*\n)/);
+  const paragraphs: TextChunk[] = [];
+  for (let i = 0; i < parts.length; i += 2) {
+    paragraphs.push({ text: parts[i], separator: parts[i + 1] ?? '' });
+  }
+  return paragraphs;
+}
+
+/**
+ * Split a paragraph into sentences with Intl.Segmenter
+ * @param paragraph The paragraph
+ * @param locale The language of the text, for sentence rules
+ * @returns The sentences with their trailing whitespace; the last keeps the paragraph's separator
+ */
+function splitSentences(paragraph: TextChunk, locale: string | undefined): TextChunk[] {
+  const segmenter = new Intl.Segmenter(locale, { granularity: 'sentence' });
+  const sentences = Array.from(segmenter.segment(paragraph.text), ({ segment }) => {
+    const text = segment.trimEnd();
+    return { text, separator: segment.slice(text.length) };
+  });
+  sentences[sentences.length - 1].separator += paragraph.separator;
+  return sentences;
+}
+
+/**
+ * Cut a piece of text that has no usable boundaries into pieces of at most maxTokens
+ * @param piece The text and its trailing separator
+ * @param maxTokens The largest piece in estimated tokens
+ * @returns The pieces; only the last keeps the separator
+ */
+function splitHard(piece: TextChunk, maxTokens: number): TextChunk[] {
+  const pieces: TextChunk[] = [];
+  let current = '';
+  let dense = 0;
+  let other = 0;
+  // Iterate by code point so surrogate pairs are never split
+  for (const char of piece.text) {
+    const isDense = char.search(DENSE_SCRIPT_PATTERN) === 0;
+    const tokens = dense + (isDense ? 1 : 0) + Math.ceil((other + (isDense ? 0 : 1)) / 4);
+    if (current && tokens > maxTokens) {
+      pieces.push({ text: current, separator: '' });
+      current = '';
+      dense = 0;
+      other = 0;
+    }
+    current += char;
+    if (isDense) {
+      dense++;
+    } else {
+      other++;
+    }
+  }
+  pieces.push({ text: current, separator: piece.separator });
+  return pieces;
+}
+
+/**
+ * Split text into chunks that each fit in maxTokens, preferring paragraph boundaries,
+ * then sentence boundaries, then arbitrary character positions
+ * @param text The text to split
+ * @param maxTokens The largest chunk in estimated tokens
+ * @param locale The language of the text, for sentence rules
+ * @returns The chunks; joining each chunk's text and separator gives back the original text
+ */
+export function splitIntoChunks(text: string, maxTokens: number, locale?: string): TextChunk[] {
+  const units = splitParagraphs(text).flatMap((paragraph) => {
+    if (estimateTokens(paragraph.text) <= maxTokens) {
+      return [paragraph];
+    }
+    return splitSentences(paragraph, locale).flatMap((sentence) =>
+      estimateTokens(sentence.text) <= maxTokens ? [sentence] : splitHard(sentence, maxTokens)
+    );
+  });
+
+  const chunks: TextChunk[] = [];
+  let current: TextChunk | null = null;
+  for (const unit of units) {
+    if (current && estimateTokens(current.text + current.separator + unit.text) <= maxTokens) {
+      current = { text: current.text + current.separator + unit.text, separator: unit.separator };
+    } else {
+      if (current) {
+        chunks.push(current);
+      }
+      current = { ...unit };
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * Take the end of a text, cut at a sentence boundary, or at a word or character boundary
+ * when the last sentence alone is too long, so words and surrogate pairs are never split
+ * @param text The text
+ * @param maxLength The most UTF-16 code units to keep
+ * @param locale The language of the text, for sentence and word rules
+ * @returns The last whole sentences that fit, or else the last whole words or characters
+ */
+export function getTextTail(text: string, maxLength: number, locale?: string): string {
+  const trimmed = text.trim();
+  for (const granularity of ['sentence', 'word', 'grapheme'] as const) {
+    const segmenter = new Intl.Segmenter(locale, { granularity });
+    for (const { index } of segmenter.segment(trimmed)) {
+      if (trimmed.length - index <= maxLength) {
+        return trimmed.slice(index).trim();
+      }
+    }
+  }
+  return '';
+}
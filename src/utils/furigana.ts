@@ -0,0 +1,84 @@
+/**
+ * Utility functions for furigana readings on Japanese translations
+ */
+
+import { getWritingSystem } from './writingSystem';
+import { kanaToRomaji } from './kana';
+import { COMMON_KANJI } from '../constants/furigana';
+import type { FuriganaSettings, JapaneseRomanization, RubySegment } from '../types';
+
+const KANJI_PATTERN = /\p{Script=Han}/gu;
+
+/**
+ * Build the prompt instruction asking for the readings of the translation
+ * @param toLanguage Target language code
+ * @returns The instruction, or an empty string if the translation is not Japanese
+ */
+export function getFuriganaInstruction(toLanguage: string): string {
+  if (getWritingSystem(toLanguage) !== 'japanese') {
+    return '';
+  }
+  return 'Fill "furigana" with the translation split into segments that join back into it exactly. ' +
+    'Give each word written with kanji its reading in hiragana, and leave the reading empty for kana, ' +
+    'Latin letters, numbers and punctuation.';
+}
+
+/**
+ * Check that the segments join back into the translation, so rendering them shows the same text
+ * @param segments The segments from the model
+ * @param translation The translation
+ * @returns True if the segments cover the translation exactly
+ */
+export function matchesTranslation(segments: RubySegment[], translation: string): boolean {
+  return segments.map((segment) => segment.text).join('') === translation;
+}
+
+/**
+ * Get the reading to show above a segment
+ * @param segment The segment
+ * @param settings Furigana style and whether to hide readings of common kanji
+ * @param system The romanization system for romaji readings
+ * @returns The reading, or undefined if the segment has no kanji or only common ones and those are hidden
+ */
+export function getDisplayReading(
+  segment: RubySegment,
+  settings: FuriganaSettings,
+  system?: JapaneseRomanization
+): string | undefined {
+  const kanji = segment.text.match(KANJI_PATTERN);
+  if (!segment.reading || !kanji) {
+    return undefined;
+  }
+  if (settings.hideCommonKanji && kanji.every((char) => COMMON_KANJI.has(char))) {
+    return undefined;
+  }
+  return settings.style === 'romaji' ? kanaToRomaji(segment.reading, system) : segment.reading;
+}
+
+/**
+ * Write the segments as HTML with <ruby> annotations, with <rp> parentheses for readers without ruby support
+ * @param segments The segments of the translation
+ * @param settings Furigana style and whether to hide readings of common kanji
+ * @param system The romanization system for romaji readings
+ * @returns The HTML
+ */
+export function toRubyHtml(segments: RubySegment[], settings: FuriganaSettings, system?: JapaneseRomanization): string {
+  return segments.map((segment) => {
+    const reading = getDisplayReading(segment, settings, system);
+    return reading
+      ? `<ruby>${escapeHtml(segment.text)}<rp>(</rp><rt>${escapeHtml(reading)}</rt><rp>)</rp></ruby>`
+      : escapeHtml(segment.text);
+  }).join('');
+}
+
+/**
+ * Escape text for use in HTML
+ * @param value The text
+ * @returns The escaped text
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
@@ -0,0 +1,94 @@
+/**
+ * Utility functions for word-by-word glosses of the source text
+ */
+
+import type { GlossEntry } from '../types';
+
+/** A word of the source text and where it starts */
+export interface WordToken {
+  text: string;
+  index: number;
+}
+
+/** One column of an interlinear gloss: a source word or phrase, and its entry if the model glossed it */
+export interface GlossColumn {
+  source: string;
+  entry?: GlossEntry;
+}
+
+/**
+ * Split text into words with Intl.Segmenter, which finds word boundaries in Chinese and Japanese
+ * text written without spaces. Punctuation and whitespace are left out.
+ * @param text The text to split
+ * @param locale Optional locale code for word boundaries
+ * @returns The words in reading order
+ */
+export function getWordTokens(text: string, locale?: string): WordToken[] {
+  const segmenter = new Intl.Segmenter(locale, { granularity: 'word' });
+  return Array.from(segmenter.segment(text))
+    .filter(({ isWordLike }) => isWordLike)
+    .map(({ segment, index }) => ({ text: segment, index }));
+}
+
+/**
+ * Build the prompt instruction asking for a gloss, listing the words the client split the text into
+ * so the model's entries line up with them
+ * @param text The text sent to the model
+ * @param locale Source language code, or 'auto'
+ * @returns The instruction, or an empty string if the text has no words
+ */
+export function getGlossInstruction(text: string, locale?: string): string {
+  const tokens = getWordTokens(text, locale === 'auto' ? undefined : locale);
+  if (tokens.length === 0) {
+    return '';
+  }
+  return 'Fill "gloss" with a word-by-word breakdown of the source text, in reading order. ' +
+    `It splits into these words: ${tokens.map((token) => token.text).join(' | ')}\n` +
+    'Give one entry per word, joining words into one entry only where they make sense together ' +
+    '(e.g. a verb and its endings). Copy "source" exactly as it appears in the source text.';
+}
+
+/**
+ * Line the gloss entries up with the words of the source text. Entries are matched in order;
+ * words the model skipped get a column without an entry, and entries not found in the text go last.
+ * @param text The source text
+ * @param entries The gloss entries from the model
+ * @param locale Optional locale code for word boundaries
+ * @returns The columns in reading order
+ */
+export function alignGloss(text: string, entries: GlossEntry[], locale?: string): GlossColumn[] {
+  const ranges: { start: number; end: number; entry: GlossEntry }[] = [];
+  const unplaced: GlossEntry[] = [];
+  let cursor = 0;
+  for (const entry of entries) {
+    const source = entry.source.trim();
+    const start = source ? text.indexOf(source, cursor) : -1;
+    if (start === -1) {
+      unplaced.push(entry);
+      continue;
+    }
+    ranges.push({ start, end: start + source.length, entry });
+    cursor = start + source.length;
+  }
+
+  const columns: GlossColumn[] = [];
+  const placed = new Set<GlossEntry>();
+  for (const token of getWordTokens(text, locale)) {
+    const range = ranges.find(({ start, end }) => token.index >= start && token.index < end);
+    if (!range) {
+      columns.push({ source: token.text });
+    } else if (!placed.has(range.entry)) {
+      placed.add(range.entry);
+      columns.push({ source: text.slice(range.start, range.end), entry: range.entry });
+    }
+  }
+
+  // Entries around punctuation only, which has no word tokens
+  for (const { entry } of ranges) {
+    if (!placed.has(entry)) {
+      unplaced.push(entry);
+    }
+  }
+
+  return [...columns, ...unplaced.map((entry) => ({ source: entry.source, entry }))];
+}
@@ -0,0 +1,140 @@
+/**
+ * Utility functions for matching glossary terms and checking translations against them
+ */
+
+import { languagesMatch } from './languages';
+import type { GlossaryEntry, GlossaryViolation } from '../types';
+
+/** A run of text, highlighted if it is a glossary violation */
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+// Scripts written without spaces, where a term can start or end in the middle of a word
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+
+/**
+ * Build a pattern that finds a term as a whole word, or anywhere in scripts written without spaces
+ * @param term The term
+ * @param caseSensitive Whether case must match
+ * @returns A global regular expression
+ */
+function getTermPattern(term: string, caseSensitive: boolean): RegExp {
+  const chars = Array.from(term);
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const start = UNSPACED_SCRIPT.test(chars[0]) ? '' : '(?<![\\p{L}\\p{N}])';
+  const end = UNSPACED_SCRIPT.test(chars[chars.length - 1]) ? '' : '(?![\\p{L}\\p{N}])';
+  return new RegExp(start + escaped + end, caseSensitive ? 'gu' : 'giu');
+}
+
+/**
+ * Find where a term occurs in a text
+ * @param text The text to search
+ * @param term The term
+ * @param caseSensitive Whether case must match
+ * @returns The start and end index of each occurrence
+ */
+export function findTerm(text: string, term: string, caseSensitive: boolean): { start: number; end: number }[] {
+  const trimmed = term.trim();
+  if (!trimmed) {
+    return [];
+  }
+  return Array.from(text.matchAll(getTermPattern(trimmed, caseSensitive)), (match) => ({
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+/**
+ * Get the glossary entries for a language pair whose source term appears in the text.
+ * Entries for a plain language, like en, also apply to its variants, like en-US, and the other way round.
+ * @param entries The whole glossary
+ * @param sourceText The text to translate
+ * @param fromLanguage Source language code, or 'auto' to match entries from any language
+ * @param toLanguage Target language code
+ * @returns The matching entries
+ */
+export function getMatchingEntries(
+  entries: GlossaryEntry[],
+  sourceText: string,
+  fromLanguage: string,
+  toLanguage: string
+): GlossaryEntry[] {
+  return entries.filter((entry) =>
+    languagesMatch(entry.toLanguage, toLanguage) &&
+    (fromLanguage === 'auto' || languagesMatch(entry.fromLanguage, fromLanguage)) &&
+    findTerm(sourceText, entry.sourceTerm, entry.caseSensitive).length > 0
+  );
+}
+
+/**
+ * Build the prompt instruction listing the glossary terms to use
+ * @param entries The entries that match the text
+ * @returns The instruction, or an empty string if there are no entries
+ */
+export function getGlossaryInstruction(entries: GlossaryEntry[]): string {
+  if (entries.length === 0) {
+    return '';
+  }
+
+  const lines = entries.map((entry) => {
+    let line = `- "${entry.sourceTerm}" → "${entry.targetTerm}"`;
+    if (entry.forbiddenTranslations.length > 0) {
+      line += ` (never ${entry.forbiddenTranslations.map((term) => `"${term}"`).join(' or ')})`;
+    }
+    return entry.notes ? `${line}: ${entry.notes}` : line;
+  });
+
+  return `Translate these terms exactly as the glossary says:\n${lines.join('\n')}`;
+}
+
+/**
+ * Check a translation against the glossary entries that matched its source text
+ * @param entries The matching entries
+ * @param translation The translated text
+ * @returns A violation for each missing target term and each forbidden translation used
+ */
+export function checkGlossary(entries: GlossaryEntry[], translation: string): GlossaryViolation[] {
+  return entries.flatMap((entry): GlossaryViolation[] => {
+    const violations: GlossaryViolation[] = entry.forbiddenTranslations
+      .filter((term) => findTerm(translation, term, entry.caseSensitive).length > 0)
+      .map((term) => ({ type: 'forbidden', entry, term }));
+
+    if (findTerm(translation, entry.targetTerm, entry.caseSensitive).length === 0) {
+      violations.unshift({ type: 'missing', entry, term: entry.targetTerm });
+    }
+    return violations;
+  });
+}
+
+/**
+ * Split a translation into runs, highlighting the forbidden translations it uses
+ * @param text The translated text
+ * @param violations The glossary violations of the translation
+ * @returns The runs in order, joining back into the text
+ */
+export function highlightViolations(text: string, violations: GlossaryViolation[]): HighlightSegment[] {
+  const ranges = violations
+    .filter((violation) => violation.type === 'forbidden')
+    .flatMap((violation) => findTerm(text, violation.term, violation.entry.caseSensitive))
+    .sort((a, b) => a.start - b.start);
+
+  const segments: HighlightSegment[] = [];
+  let position = 0;
+  for (const { start, end } of ranges) {
+    // Skip occurrences that overlap one already highlighted
+    if (start < position) {
+      continue;
+    }
+    if (start > position) {
+      segments.push({ text: text.slice(position, start), highlighted: false });
+    }
+    segments.push({ text: text.slice(start, end), highlighted: true });
+    position = end;
+  }
+  if (position < text.length) {
+    segments.push({ text: text.slice(position), highlighted: false });
+  }
+  return segments;
+}
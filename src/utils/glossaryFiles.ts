@@ -0,0 +1,311 @@
+/**
+ * Utility functions for importing and exporting glossaries as CSV and TBX
+ */
+
+import { toLanguageCode } from './languages';
+import type { GlossaryEntry } from '../types';
+
+/** Entries read from a file, and how many records were skipped for missing terms or languages */
+export interface GlossaryImport {
+  entries: GlossaryEntry[];
+  skipped: number;
+}
+
+const CSV_COLUMNS = [
+  'source_term',
+  'target_term',
+  'source_language',
+  'target_language',
+  'case_sensitive',
+  'forbidden_translations',
+  'notes',
+] as const;
+
+// Forbidden translations share one CSV cell
+const LIST_SEPARATOR = '|';
+
+const FORBIDDEN_STATUS = 'deprecatedTerm-admn-sts';
+const PREFERRED_STATUS = 'preferredTerm-admn-sts';
+
+/**
+ * Create a glossary entry, dropping blank forbidden translations and notes. Language tags
+ * from other tools, like "EN" or "de-DE", are resolved to the codes the language selector uses.
+ * @param fields The entry without an ID
+ * @returns The entry, or null if a term or language is missing
+ */
+function createEntry(fields: Omit<GlossaryEntry, 'id'>): GlossaryEntry | null {
+  const entry = {
+    id: crypto.randomUUID(),
+    sourceTerm: fields.sourceTerm.trim(),
+    targetTerm: fields.targetTerm.trim(),
+    fromLanguage: toLanguageCode(fields.fromLanguage),
+    toLanguage: toLanguageCode(fields.toLanguage),
+    caseSensitive: fields.caseSensitive,
+    forbiddenTranslations: fields.forbiddenTranslations.map((term) => term.trim()).filter(Boolean),
+    notes: fields.notes?.trim() || undefined,
+  };
+  return entry.sourceTerm && entry.targetTerm && entry.fromLanguage && entry.toLanguage ? entry : null;
+}
+
+/**
+ * Quote a CSV field if it contains a delimiter, quote or line break
+ * @param value The field value
+ * @returns The escaped field
+ */
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Split CSV text into rows of fields, following RFC 4180 quoting
+ * @param text The CSV text
+ * @returns The rows, without blank lines
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Write a glossary as CSV with a header row
+ * @param entries The glossary
+ * @returns The CSV text
+ */
+export function exportGlossaryCsv(entries: GlossaryEntry[]): string {
+  const rows = entries.map((entry) => [
+    entry.sourceTerm,
+    entry.targetTerm,
+    entry.fromLanguage,
+    entry.toLanguage,
+    entry.caseSensitive ? 'true' : 'false',
+    entry.forbiddenTranslations.join(LIST_SEPARATOR),
+    entry.notes ?? '',
+  ]);
+  return [[...CSV_COLUMNS], ...rows].map((row) => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Read a glossary from CSV. Columns are found by their header, in any order.
+ * @param text The CSV text
+ * @returns The entries and the number of rows skipped
+ * @throws Error if a required column is missing
+ */
+export function parseGlossaryCsv(text: string): GlossaryImport {
+  const [header = [], ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const missing = CSV_COLUMNS.slice(0, 4).filter((name) => !columns.includes(name));
+  if (missing.length > 0) {
+    throw new Error(`Missing CSV column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`);
+  }
+
+  const entries: GlossaryEntry[] = [];
+  let skipped = 0;
+  for (const row of rows) {
+    const get = (name: (typeof CSV_COLUMNS)[number]) => {
+      const index = columns.indexOf(name);
+      return index === -1 ? '' : row[index] ?? '';
+    };
+    const entry = createEntry({
+      sourceTerm: get('source_term'),
+      targetTerm: get('target_term'),
+      fromLanguage: get('source_language'),
+      toLanguage: get('target_language'),
+      caseSensitive: ['true', 'yes', '1'].includes(get('case_sensitive').trim().toLowerCase()),
+      forbiddenTranslations: get('forbidden_translations').split(LIST_SEPARATOR),
+      notes: get('notes'),
+    });
+    if (entry) {
+      entries.push(entry);
+    } else {
+      skipped++;
+    }
+  }
+  return { entries, skipped };
+}
+
+/**
+ * Escape text for XML content and attribute values
+ * @param value The text
+ * @returns The escaped text
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Write a glossary as TBX-Basic (ISO 30042:2019). Forbidden translations are deprecated terms.
+ * Case sensitivity is a termNote on the source term, which other tools ignore and which marks
+ * the source language of entries in a language other than the document's.
+ * @param entries The glossary
+ * @returns The TBX document
+ */
+export function exportGlossaryTbx(entries: GlossaryEntry[]): string {
+  // The document language is the source language other tools assume, so use the most common one
+  const counts = new Map<string, number>();
+  entries.forEach((entry) => counts.set(entry.fromLanguage, (counts.get(entry.fromLanguage) ?? 0) + 1));
+  const documentLanguage = [...counts].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 'en';
+
+  const concepts = entries.map((entry) => {
+    const targetTerms = [
+      `          <termSec>\n            <term>${escapeXml(entry.targetTerm)}</term>\n` +
+        `            <termNote type="administrativeStatus">${PREFERRED_STATUS}</termNote>\n          </termSec>`,
+      ...entry.forbiddenTranslations.map((term) =>
+        `          <termSec>\n            <term>${escapeXml(term)}</term>\n` +
+          `            <termNote type="administrativeStatus">${FORBIDDEN_STATUS}</termNote>\n          </termSec>`
+      ),
+    ];
+    return [
+      `      <conceptEntry id="${escapeXml(entry.id)}">`,
+      ...(entry.notes ? [`        <note>${escapeXml(entry.notes)}</note>`] : []),
+      `        <langSec xml:lang="${escapeXml(entry.fromLanguage)}">`,
+      `          <termSec>`,
+      `            <term>${escapeXml(entry.sourceTerm)}</term>`,
+      `            <termNote type="caseSensitive">${entry.caseSensitive}</termNote>`,
+      `          </termSec>`,
+      `        </langSec>`,
+      `        <langSec xml:lang="${escapeXml(entry.toLanguage)}">`,
+      ...targetTerms,
+      `        </langSec>`,
+      `      </conceptEntry>`,
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tbx type="TBX-Basic" style="dca" xml:lang="${escapeXml(documentLanguage)}" xmlns="urn:iso:std:iso:30042:ed-2">`,
+    '  <tbxHeader>',
+    '    <fileDesc>',
+    '      <sourceDesc><p>Clanker Translate glossary</p></sourceDesc>',
+    '    </fileDesc>',
+    '  </tbxHeader>',
+    '  <text>',
+    '    <body>',
+    ...concepts,
+    '    </body>',
+    '  </text>',
+    '</tbx>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Get the child elements of an element with any of the given tag names
+ * @param parent The parent element
+ * @param names Tag names, to accept both TBX 2019 and the older TBX 2008 (martif) names
+ * @returns The matching children in document order
+ */
+function getChildren(parent: Element, ...names: string[]): Element[] {
+  return Array.from(parent.children).filter((child) => names.includes(child.localName));
+}
+
+/**
+ * Read a term group: its term, its administrative status and whether it is case sensitive
+ * @param group A termSec, tig or ntig element
+ * @returns The term details, with caseSensitive undefined if the group does not say, or null if it has no term
+ */
+function readTermGroup(group: Element): { term: string; status: string; caseSensitive?: boolean } | null {
+  // An ntig wraps the term in a termGrp
+  const container = getChildren(group, 'termGrp')[0] ?? group;
+  const term = getChildren(container, 'term')[0]?.textContent?.trim();
+  if (!term) {
+    return null;
+  }
+  const notes = [...getChildren(container, 'termNote'), ...getChildren(group, 'termNote')];
+  const getNote = (type: string) => notes.find((note) => note.getAttribute('type') === type)?.textContent?.trim() ?? '';
+  const caseSensitive = getNote('caseSensitive');
+  return { term, status: getNote('administrativeStatus'), caseSensitive: caseSensitive ? caseSensitive === 'true' : undefined };
+}
+
+/**
+ * Read a glossary from TBX, both TBX 2019 (conceptEntry/langSec/termSec) and TBX 2008
+ * (termEntry/langSet/tig). The source language is the one with a case sensitivity note, as
+ * written by exportGlossaryTbx, or else the document language; every other language of a
+ * concept becomes an entry.
+ * @param text The TBX document
+ * @returns The entries and the number of concepts skipped
+ * @throws Error if the document is not valid XML
+ */
+export function parseGlossaryTbx(text: string): GlossaryImport {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || !doc.documentElement) {
+    throw new Error('Not a valid TBX file');
+  }
+
+  const documentLanguage = toLanguageCode(doc.documentElement.getAttribute('xml:lang') ?? '');
+  const concepts = Array.from(doc.getElementsByTagName('*'))
+    .filter((element) => element.localName === 'conceptEntry' || element.localName === 'termEntry');
+
+  const entries: GlossaryEntry[] = [];
+  let skipped = 0;
+  for (const concept of concepts) {
+    const notes = getChildren(concept, 'note', 'descrip').map((note) => note.textContent?.trim()).filter(Boolean).join(' ');
+    const languages = getChildren(concept, 'langSec', 'langSet').map((langSec) => ({
+      language: toLanguageCode(langSec.getAttribute('xml:lang') ?? ''),
+      terms: getChildren(langSec, 'termSec', 'tig', 'ntig')
+        .map(readTermGroup)
+        .filter((group): group is NonNullable<typeof group> => group !== null),
+    }));
+
+    const sourceLanguage = (
+      languages.find(({ terms }) => terms.some(({ caseSensitive }) => caseSensitive !== undefined)) ??
+      languages.find(({ language }) => language === documentLanguage)
+    )?.language ?? documentLanguage;
+    const source = languages.find(({ language }) => language === sourceLanguage)?.terms[0];
+    const targets = languages.filter(({ language }) => language !== sourceLanguage);
+    const conceptEntries = targets.map(({ language, terms }) => createEntry({
+      sourceTerm: source?.term ?? '',
+      targetTerm: terms.find(({ status }) => status !== FORBIDDEN_STATUS)?.term ?? '',
+      fromLanguage: sourceLanguage,
+      toLanguage: language,
+      caseSensitive: source?.caseSensitive ?? false,
+      forbiddenTranslations: terms.filter(({ status }) => status === FORBIDDEN_STATUS).map(({ term }) => term),
+      notes,
+    }));
+
+    const valid = conceptEntries.filter((entry): entry is GlossaryEntry => entry !== null);
+    entries.push(...valid);
+    if (valid.length === 0) {
+      skipped++;
+    }
+  }
+  return { entries, skipped };
+}
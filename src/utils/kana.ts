@@ -0,0 +1,112 @@
+/**
+ * Utility functions for converting Japanese kana to romaji
+ */
+
+import type { JapaneseRomanization } from '../types';
+
+const HIRAGANA_ROMAJI: Record<string, string> = {
+  'あ': 'a', 'い': 'i', 'う': 'u', 'え': 'e', 'お': 'o',
+  'か': 'ka', 'き': 'ki', 'く': 'ku', 'け': 'ke', 'こ': 'ko',
+  'さ': 'sa', 'し': 'shi', 'す': 'su', 'せ': 'se', 'そ': 'so',
+  'た': 'ta', 'ち': 'chi', 'つ': 'tsu', 'て': 'te', 'と': 'to',
+  'な': 'na', 'に': 'ni', 'ぬ': 'nu', 'ね': 'ne', 'の': 'no',
+  'は': 'ha', 'ひ': 'hi', 'ふ': 'fu', 'へ': 'he', 'ほ': 'ho',
+  'ま': 'ma', 'み': 'mi', 'む': 'mu', 'め': 'me', 'も': 'mo',
+  'や': 'ya', 'ゆ': 'yu', 'よ': 'yo',
+  'ら': 'ra', 'り': 'ri', 'る': 'ru', 'れ': 're', 'ろ': 'ro',
+  'わ': 'wa', 'ゐ': 'i', 'ゑ': 'e', 'を': 'o', 'ん': 'n',
+  'が': 'ga', 'ぎ': 'gi', 'ぐ': 'gu', 'げ': 'ge', 'ご': 'go',
+  'ざ': 'za', 'じ': 'ji', 'ず': 'zu', 'ぜ': 'ze', 'ぞ': 'zo',
+  'だ': 'da', 'ぢ': 'ji', 'づ': 'zu', 'で': 'de', 'ど': 'do',
+  'ば': 'ba', 'び': 'bi', 'ぶ': 'bu', 'べ': 'be', 'ぼ': 'bo',
+  'ぱ': 'pa', 'ぴ': 'pi', 'ぷ': 'pu', 'ぺ': 'pe', 'ぽ': 'po',
+  'ゔ': 'vu',
+  'ぁ': 'a', 'ぃ': 'i', 'ぅ': 'u', 'ぇ': 'e', 'ぉ': 'o', 'ゎ': 'wa',
+};
+
+// Kunrei-shiki writes each row with one consonant; Nihon-shiki also keeps ぢ, づ and を apart
+const SYSTEM_OVERRIDES: Record<JapaneseRomanization, Record<string, string>> = {
+  'hepburn': {},
+  'kunrei': { 'し': 'si', 'ち': 'ti', 'つ': 'tu', 'ふ': 'hu', 'じ': 'zi', 'ぢ': 'zi', 'づ': 'zu' },
+  'nihon-shiki': { 'し': 'si', 'ち': 'ti', 'つ': 'tu', 'ふ': 'hu', 'じ': 'zi', 'ぢ': 'di', 'づ': 'du', 'を': 'wo' },
+};
+
+// Small ya, yu and yo after an i-row kana: き + ゃ → kya, し + ゃ → sha
+const SMALL_Y: Record<string, string> = { 'ゃ': 'a', 'ゅ': 'u', 'ょ': 'o' };
+
+// Small vowels after a kana form sounds borrowed from other languages: ふ + ぁ → fa, て + ぃ → ti
+const SMALL_VOWELS: Record<string, string> = { 'ぁ': 'a', 'ぃ': 'i', 'ぅ': 'u', 'ぇ': 'e', 'ぉ': 'o' };
+
+const KATAKANA_START = 0x30a1;
+const KATAKANA_END = 0x30f6;
+const KATAKANA_OFFSET = 0x60;
+
+/**
+ * Convert katakana to hiragana, leaving everything else unchanged
+ * @param text The text to convert
+ * @returns The text with hiragana in place of katakana
+ */
+export function toHiragana(text: string): string {
+  return Array.from(text, (char) => {
+    const code = char.codePointAt(0) ?? 0;
+    return code >= KATAKANA_START && code <= KATAKANA_END ? String.fromCodePoint(code - KATAKANA_OFFSET) : char;
+  }).join('');
+}
+
+/**
+ * Romanize kana: っ doubles the next consonant, ー repeats the vowel before it
+ * and ん is written n' before a vowel or y. Characters that are not kana are kept.
+ * @param text Hiragana or katakana
+ * @param system Modified Hepburn (the default), Kunrei-shiki or Nihon-shiki
+ * @returns The romaji
+ */
+export function kanaToRomaji(text: string, system: JapaneseRomanization = 'hepburn'): string {
+  const chars = Array.from(toHiragana(text));
+  const table = { ...HIRAGANA_ROMAJI, ...SYSTEM_OVERRIDES[system] };
+  let romaji = '';
+  let doubleNext = false;
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const next = chars[i + 1];
+
+    if (char === 'っ') {
+      doubleNext = true;
+      continue;
+    }
+
+    if (char === 'ー') {
+      romaji += /[aeiou]$/.exec(romaji)?.[0] ?? '';
+      continue;
+    }
+
+    let syllable = table[char];
+    if (syllable === undefined) {
+      romaji += char;
+      doubleNext = false;
+      continue;
+    }
+
+    if (next && SMALL_Y[next] && syllable.endsWith('i') && syllable.length > 1) {
+      // shi + ゃ → sha, chi + ゃ → cha, ji + ゃ → ja, ki + ゃ → kya
+      const stem = syllable.slice(0, -1);
+      syllable = (/(sh|ch|j)$/.test(stem) ? stem : stem + 'y') + SMALL_Y[next];
+      i++;
+    } else if (next && SMALL_VOWELS[next] && syllable.length > 1) {
+      syllable = syllable.replace(/[aeiou]$/, '') + SMALL_VOWELS[next];
+      i++;
+    }
+
+    if (char === 'ん' && next && /^[aeiouy]/.test(table[next] ?? '')) {
+      syllable = "n'";
+    }
+
+    if (doubleNext) {
+      romaji += syllable.startsWith('ch') ? 't' : syllable[0];
+      doubleNext = false;
+    }
+    romaji += syllable;
+  }
+
+  return romaji;
+}
@@ -0,0 +1,99 @@
+/**
+ * Utility functions for looking up languages in the registry by BCP-47 code
+ */
+
+import { LANGUAGE_ALIASES, LANGUAGES, SCRIPTS } from '../constants/languages';
+import type { Language, Script, TextDirection } from '../types';
+
+// Each language followed by its variants, which take the language's script and direction unless they set a script
+const LANGUAGE_OPTIONS: Language[] = LANGUAGES.flatMap(({ variants = [], ...language }) => [
+  language,
+  ...variants.map((variant) => ({
+    ...language,
+    ...variant,
+    script: variant.script ?? language.script,
+  })),
+]);
+
+const LANGUAGES_BY_CODE = new Map(LANGUAGE_OPTIONS.map((language) => [language.code.toLowerCase(), language]));
+
+const ALIASES = new Map(Object.entries(LANGUAGE_ALIASES).map(([alias, code]) => [alias.toLowerCase(), code]));
+
+/**
+ * Get the languages that can be selected, each language followed by its variants
+ * @returns The languages in registry order
+ */
+export function getLanguageOptions(): Language[] {
+  return LANGUAGE_OPTIONS;
+}
+
+/**
+ * Find a language by BCP-47 code. Matching ignores case and the _ separator, follows aliases
+ * such as zh-TW for zh-Hant, and drops subtags from the end until a code matches, so pt-AO is Portuguese.
+ * @param code The language code
+ * @returns The language, or undefined if neither the code nor its language subtag is listed
+ */
+export function findLanguage(code: string | undefined): Language | undefined {
+  let subtags = (code ?? '').trim().replace(/_/g, '-').toLowerCase().split('-');
+  while (subtags.length > 0 && subtags[0]) {
+    const candidate = subtags.join('-');
+    const found = LANGUAGES_BY_CODE.get(ALIASES.get(candidate)?.toLowerCase() ?? candidate);
+    if (found) {
+      return found;
+    }
+    subtags = subtags.slice(0, -1);
+  }
+  return undefined;
+}
+
+/**
+ * Resolve a language tag to the code the registry lists for it, keeping regional and script variants
+ * @param tag A tag like "pt-BR", "zh-TW" or "de-DE"
+ * @returns The listed code, like "pt-BR", "zh-Hant" or "de", or the lowercase primary language if it is not listed
+ */
+export function toLanguageCode(tag: string): string {
+  return findLanguage(tag)?.code ?? tag.trim().split(/[-_]/)[0].toLowerCase();
+}
+
+/**
+ * Check whether two language tags name the same language. A language without a region or
+ * script covers its variants, so en matches en-US, but pt-BR does not match pt-PT.
+ * @param a A language tag
+ * @param b Another language tag
+ * @returns True if the tags resolve to the same code, or one is the plain language of the other
+ */
+export function languagesMatch(a: string, b: string): boolean {
+  const first = toLanguageCode(a);
+  const second = toLanguageCode(b);
+  const [firstBase] = first.split('-');
+  const [secondBase] = second.split('-');
+  return first === second || (firstBase === secondBase && (first === firstBase || second === secondBase));
+}
+
+/**
+ * Get the English name of a language
+ * @param code The language code
+ * @returns The name, or the code itself if the language is not listed
+ */
+export function getLanguageName(code: string): string {
+  return findLanguage(code)?.name ?? code;
+}
+
+/**
+ * Get the script a language is written in
+ * @param code The language code
+ * @returns The ISO 15924 script, or undefined if the language is not listed
+ */
+export function getScript(code: string): Script | undefined {
+  const language = findLanguage(code);
+  return language && SCRIPTS[language.script];
+}
+
+/**
+ * Get the direction to lay out text in a language
+ * @param code The language code, or 'auto'
+ * @returns The direction, or 'auto' to let the browser decide from the text when the language is not listed
+ */
+export function getTextDirection(code: string): TextDirection | 'auto' {
+  return findLanguage(code)?.direction ?? 'auto';
+}
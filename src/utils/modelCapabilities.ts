@@ -0,0 +1,14 @@
+/**
+ * Utility functions for checking what a model supports
+ */
+
+import type { Model } from '../types';
+
+/**
+ * Check if a model accepts `response_format: { type: 'json_schema' }`
+ * @param model The model, if known
+ * @returns True if the model advertises structured output support
+ */
+export function supportsStructuredOutput(model: Model | undefined): boolean {
+  return model?.supportedParameters?.includes('structured_outputs') ?? false;
+}
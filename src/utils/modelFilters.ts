@@ -0,0 +1,127 @@
+/**
+ * Utility functions for filtering, sorting and grouping the model list
+ */
+
+import type { Model, ModelRating } from '../types';
+import { supportsStructuredOutput } from './modelCapabilities';
+
+export interface ModelFilters {
+  freeOnly: boolean;
+  maxPricePerMillion: number | null;
+  minContextLength: number | null;
+  structuredOutputOnly: boolean;
+}
+
+export type ModelSortOrder = 'relevance' | 'name' | 'price' | 'context' | 'rating';
+
+export const DEFAULT_MODEL_FILTERS: ModelFilters = {
+  freeOnly: false,
+  maxPricePerMillion: null,
+  minContextLength: null,
+  structuredOutputOnly: false,
+};
+
+/**
+ * Get the provider prefix of a model ID
+ * @param modelId The model ID (e.g., 'openai/gpt-4o')
+ * @returns The part before the slash, or undefined for unprefixed IDs
+ */
+export function getProviderPrefix(modelId: string): string | undefined {
+  const slash = modelId.indexOf('/');
+  return slash > 0 ? modelId.slice(0, slash) : undefined;
+}
+
+/**
+ * Get the higher of a model's prompt and completion price per million tokens
+ * @param model The model
+ * @returns The price in USD, or undefined if the model has no pricing
+ */
+export function getPricePerMillion(model: Model): number | undefined {
+  if (!model.pricing) {
+    return undefined;
+  }
+  return Math.max(model.pricing.prompt, model.pricing.completion) * 1_000_000;
+}
+
+/**
+ * Check if a model costs nothing to use
+ * @param model The model
+ * @returns True if both prompt and completion are listed as free
+ */
+export function isFreeModel(model: Model): boolean {
+  return getPricePerMillion(model) === 0;
+}
+
+/**
+ * Filter models by price, context length and capabilities.
+ * Models with unknown pricing or context length never pass a filter on that field.
+ * @param models The models to filter
+ * @param filters The filters to apply
+ * @returns The models that pass every active filter, in their original order
+ */
+export function filterModels(models: Model[], filters: ModelFilters): Model[] {
+  return models.filter((model) => {
+    if (filters.freeOnly && !isFreeModel(model)) {
+      return false;
+    }
+    if (filters.maxPricePerMillion !== null) {
+      const price = getPricePerMillion(model);
+      if (price === undefined || price > filters.maxPricePerMillion) {
+        return false;
+      }
+    }
+    if (filters.minContextLength !== null && (model.contextLength ?? 0) < filters.minContextLength) {
+      return false;
+    }
+    if (filters.structuredOutputOnly && !supportsStructuredOutput(model)) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Sort models
+ * @param models The models to sort
+ * @param order 'relevance' keeps the given order; 'price' puts the cheapest first,
+ *   'context' the largest first and 'rating' the best rated first, with unknown values last
+ * @param ratings Comparison ratings by model ID, for 'rating'
+ * @returns A new sorted array
+ */
+export function sortModels(
+  models: Model[],
+  order: ModelSortOrder,
+  ratings: Record<string, ModelRating> = {}
+): Model[] {
+  const sorted = [...models];
+  switch (order) {
+    case 'name':
+      return sorted.sort((a, b) => a.name.localeCompare(b.name));
+    case 'price':
+      return sorted.sort(
+        (a, b) => (getPricePerMillion(a) ?? Infinity) - (getPricePerMillion(b) ?? Infinity)
+      );
+    case 'context':
+      return sorted.sort((a, b) => (b.contextLength ?? 0) - (a.contextLength ?? 0));
+    case 'rating':
+      return sorted.sort(
+        (a, b) => (ratings[b.id]?.rating ?? -Infinity) - (ratings[a.id]?.rating ?? -Infinity)
+      );
+    default:
+      return sorted;
+  }
+}
+
+/**
+ * Group models by provider, keeping the order of first appearance
+ * @param models The models to group
+ * @returns Pairs of provider name and its models; unprefixed models go under 'other'
+ */
+export function groupModelsByProvider(models: Model[]): [string, Model[]][] {
+  const groups = new Map<string, Model[]>();
+  for (const model of models) {
+    const provider = model.provider ?? 'other';
+    groups.set(provider, [...(groups.get(provider) ?? []), model]);
+  }
+  return [...groups.entries()];
+}
@@ -0,0 +1,134 @@
+/**
+ * Utility functions for reading fields out of JSON that is still being streamed
+ */
+
+import type { TranslationResponse } from '../types';
+
+const STREAMED_FIELDS = ['translation', 'transcription', 'explanation'] as const;
+
+type StreamedField = typeof STREAMED_FIELDS[number];
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  'b': '\b',
+  'f': '\f',
+  'n': '\n',
+  'r': '\r',
+  't': '\t',
+};
+
+/**
+ * Read a JSON string literal starting just after its opening quote.
+ * Stops at the end of the buffer if the closing quote has not arrived yet,
+ * dropping any escape sequence that is only partially received.
+ * @param buffer The (possibly incomplete) JSON text
+ * @param start Index of the first character after the opening quote
+ * @returns The decoded string value read so far
+ */
+function readPartialString(buffer: string, start: number): string {
+  let result = '';
+  let i = start;
+
+  while (i < buffer.length) {
+    const char = buffer[i];
+
+    if (char === '"') {
+      return result;
+    }
+
+    if (char !== '\\') {
+      result += char;
+      i++;
+      continue;
+    }
+
+    const next = buffer[i + 1];
+    if (next === undefined) {
+      break;
+    }
+
+    if (next === 'u') {
+      const hex = buffer.slice(i + 2, i + 6);
+      if (hex.length < 4) {
+        break;
+      }
+      result += String.fromCharCode(parseInt(hex, 16));
+      i += 6;
+      continue;
+    }
+
+    result += SIMPLE_ESCAPES[next] ?? next;
+    i += 2;
+  }
+
+  return result;
+}
+
+/**
+ * Find the closing quote of a JSON string literal
+ * @param buffer The (possibly incomplete) JSON text
+ * @param start Index of the first character after the opening quote
+ * @returns Index of the closing quote, or -1 if it has not arrived yet
+ */
+function findStringEnd(buffer: string, start: number): number {
+  for (let i = start; i < buffer.length; i++) {
+    if (buffer[i] === '\\') {
+      i++;
+    } else if (buffer[i] === '"') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Extract the string value of a top-level field from partial JSON. Keys of nested objects,
+ * such as the transcription of each alternative, are skipped even when they come first.
+ * @param buffer The (possibly incomplete) JSON text
+ * @param field The field name to look for
+ * @returns The value read so far, or undefined if the field has not started
+ */
+export function extractPartialField(buffer: string, field: string): string | undefined {
+  const valueStart = /\s*:\s*"/y;
+  let depth = 0;
+
+  for (let i = 0; i < buffer.length; i++) {
+    const char = buffer[i];
+    if (char === '"') {
+      const end = findStringEnd(buffer, i + 1);
+      if (end === -1) {
+        return undefined;
+      }
+      valueStart.lastIndex = end + 1;
+      if (depth === 1 && buffer.slice(i + 1, end) === field && valueStart.test(buffer)) {
+        return readPartialString(buffer, valueStart.lastIndex);
+      }
+      i = end;
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Extract the translation fields that have started arriving in a streamed response
+ * @param buffer The (possibly incomplete) JSON text accumulated so far
+ * @returns The translation fields that are present, with partial values
+ */
+export function extractPartialTranslation(buffer: string): Partial<TranslationResponse> {
+  const partial: Partial<Record<StreamedField, string>> = {};
+
+  for (const field of STREAMED_FIELDS) {
+    const value = extractPartialField(buffer, field);
+    if (value !== undefined) {
+      partial[field] = value;
+    }
+  }
+
+  return partial;
+}
@@ -0,0 +1,175 @@
+/**
+ * Utility functions for rendering and validating prompt templates
+ */
+
+import { getWritingSystem, needsTranscription } from './writingSystem';
+import { getGlossaryInstruction, getMatchingEntries } from './glossary';
+import { getMemoryInstruction } from './translationMemory';
+import { getPlaceholderInstruction } from './protectedSpans';
+import { getGlossInstruction } from './gloss';
+import { getFuriganaInstruction } from './furigana';
+import { getRomanizationOption } from './romanization';
+import { findLanguage, getLanguageName, getScript } from './languages';
+import { PROMPT_PLACEHOLDERS } from '../constants/prompt';
+import type { Language, PromptPlaceholder, RomanizationStandard, TranslationRequest } from '../types';
+
+export type PromptVariables = Record<PromptPlaceholder, string>;
+
+// {{name}}, {{#name}} or {{/name}}, allowing spaces inside the braces
+const TAG_PATTERN = /\{\{\s*([#/]?)\s*([^{}]*?)\s*\}\}/g;
+
+const SECTION_PATTERN = /\{\{\s*#\s*(\w+)\s*\}\}([\s\S]*?)\{\{\s*\/\s*\1\s*\}\}/g;
+
+/**
+ * Build the instruction naming the languages behind the codes, so regional and script variants
+ * such as es-419 or sr-Latn are written the way they should be
+ * @param fromLanguage Source language code, or 'auto'
+ * @param toLanguage Target language code
+ * @returns The instruction, or an empty string if the target language is not listed
+ */
+export function getLanguageInstruction(fromLanguage: string, toLanguage: string): string {
+  const target = findLanguage(toLanguage);
+  if (!target) {
+    return '';
+  }
+  const languages: [string, Language][] = [[toLanguage, target]];
+  const source = findLanguage(fromLanguage);
+  if (source && fromLanguage !== toLanguage) {
+    languages.unshift([fromLanguage, source]);
+  }
+  const names = languages.map(([code, language]) => {
+    const native = language.nativeName === language.name ? '' : ` (${language.nativeName})`;
+    return `${code} is ${language.name}${native}`;
+  });
+
+  const variant = target.code.includes('-') ? `, with the spelling, vocabulary and conventions of ${target.name}` : '';
+  return `Language codes: ${names.join('; ')}. ` +
+    `Write the translation in ${getScript(toLanguage)?.name ?? target.script} script${variant}.`;
+}
+
+/**
+ * Build the instruction asking for a romanization of the translation
+ * @param fromLanguage Source language code
+ * @param toLanguage Target language code
+ * @param standard Romanization standard; the target language's default when missing
+ * @returns The instruction, or an empty string if the languages share a writing system or it cannot be known
+ */
+export function getTranscriptionInstruction(
+  fromLanguage: string,
+  toLanguage: string,
+  standard?: RomanizationStandard
+): string {
+  // The romanization is of the translation, so the target language decides how it is written
+  const option = getRomanizationOption(toLanguage, standard);
+  const system = option ? `using ${option.description}` : 'using simple Latin letters';
+  const lettersOnly = 'Use ONLY Latin letters, with no diacritics beyond those of the standard, and NO IPA symbols.';
+
+  // The source language is only known once the model has detected it, so let the model decide
+  const toSystem = getWritingSystem(toLanguage);
+  if (fromLanguage === 'auto' && toSystem !== 'unknown') {
+    return `If the source text is not written in the ${toSystem} writing system, please include a ROMANIZATION ` +
+      `of the TRANSLATED text (the translated ${getLanguageName(toLanguage)} text) ${system}. ${lettersOnly}`;
+  }
+
+  if (!needsTranscription(fromLanguage, toLanguage)) {
+    return '';
+  }
+
+  return `Fill "transcription" with a ROMANIZATION of the TRANSLATED text (the translated ${getLanguageName(toLanguage)} text, ` +
+    `not the SOURCE text) ${system}. ${lettersOnly}`;
+}
+
+/**
+ * Get the placeholder values for a translation request
+ * @param request The translation request
+ * @returns The value of every placeholder
+ */
+export function getPromptVariables(request: TranslationRequest): PromptVariables {
+  return {
+    sourceText: request.sourceText,
+    fromLanguage: request.fromLanguage,
+    toLanguage: request.toLanguage,
+    languageInstruction: getLanguageInstruction(request.fromLanguage, request.toLanguage),
+    context: request.context ?? '',
+    transcriptionInstruction: getTranscriptionInstruction(request.fromLanguage, request.toLanguage, request.romanization),
+    // Only the terms in this text, which for a long document is a single chunk
+    glossaryInstruction: getGlossaryInstruction(
+      getMatchingEntries(request.glossary ?? [], request.sourceText, request.fromLanguage, request.toLanguage)
+    ),
+    memoryInstruction: getMemoryInstruction(
+      (request.memoryMatches ?? []).filter(({ segment }) => request.sourceText.includes(segment))
+    ),
+    placeholderInstruction: getPlaceholderInstruction(request.sourceText),
+    glossInstruction: request.includeGloss ? getGlossInstruction(request.sourceText, request.fromLanguage) : '',
+    furiganaInstruction: getFuriganaInstruction(request.toLanguage),
+  };
+}
+
+/**
+ * Render a template, keeping {{#name}}...{{/name}} sections only when the placeholder is not empty.
+ * Values are inserted once, so braces in the source text are not treated as placeholders.
+ * @param template The template
+ * @param variables The placeholder values
+ * @returns The rendered prompt
+ */
+export function renderTemplate(template: string, variables: Partial<PromptVariables>): string {
+  let rendered = template;
+  // Repeat so sections nested in other sections are resolved too
+  for (let previous = ''; previous !== rendered;) {
+    previous = rendered;
+    rendered = rendered.replace(SECTION_PATTERN, (_, name: string, body: string) =>
+      variables[name as PromptPlaceholder] ? body : ''
+    );
+  }
+
+  return rendered.replace(TAG_PATTERN, (tag, marker: string, name: string) =>
+    marker ? tag : variables[name as PromptPlaceholder] ?? ''
+  );
+}
+
+/**
+ * Check a template for unknown placeholders, unbalanced sections and stray braces
+ * @param template The template
+ * @param options requireSourceText reports a template that never includes {{sourceText}}
+ * @returns A description of each problem, or an empty list if the template is valid
+ */
+export function validateTemplate(template: string, options: { requireSourceText?: boolean } = {}): string[] {
+  const errors: string[] = [];
+  const known = new Set<string>(PROMPT_PLACEHOLDERS.map(({ name }) => name));
+  const openSections: string[] = [];
+  let usesSourceText = false;
+
+  for (const [, marker, name] of template.matchAll(TAG_PATTERN)) {
+    if (!known.has(name)) {
+      errors.push(`Unknown placeholder {{${name}}}`);
+      continue;
+    }
+
+    if (marker === '#') {
+      openSections.push(name);
+    } else if (marker === '/') {
+      if (openSections[openSections.length - 1] === name) {
+        openSections.pop();
+      } else {
+        errors.push(`{{/${name}}} closes a section that is not open`);
+      }
+    } else if (name === 'sourceText') {
+      usesSourceText = true;
+    }
+  }
+
+  for (const name of openSections) {
+    errors.push(`{{#${name}}} is never closed with {{/${name}}}`);
+  }
+
+  const withoutTags = template.replace(TAG_PATTERN, '');
+  if (withoutTags.includes('{{') || withoutTags.includes('}}')) {
+    errors.push('Unmatched {{ or }}');
+  }
+
+  if (options.requireSourceText && !usesSourceText) {
+    errors.push('Must include {{sourceText}}');
+  }
+
+  return errors;
+}
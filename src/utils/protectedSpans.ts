@@ -0,0 +1,101 @@
+/**
+ * Utility functions for swapping text that must not be translated for opaque tokens and back
+ */
+
+/** A span of the source text that must reach the translation unchanged, and the token standing in for it */
+export interface ProtectedSpan {
+  token: string;
+  text: string;
+}
+
+/** Text with its protected spans replaced by tokens */
+export interface ProtectedText {
+  text: string;
+  spans: ProtectedSpan[];
+}
+
+/** Brackets the user puts around text that must not be translated; they are dropped from the translation */
+export const DO_NOT_TRANSLATE_START = '⟦';
+export const DO_NOT_TRANSLATE_END = '⟧';
+
+// Alternatives are tried left to right at each position, so user-marked regions and inline code win
+const PROTECTED_PATTERNS = [
+  // ⟦do not translate⟧
+  `${DO_NOT_TRANSLATE_START}[^${DO_NOT_TRANSLATE_END}]*${DO_NOT_TRANSLATE_END}`,
+  // `inline code`
+  '`[^`\\n]+`',
+  // URLs, without trailing punctuation
+  'https?:\\/\\/[^\\s<>"\']*[^\\s<>"\'.,;:!?)\\]]',
+  // Email addresses
+  '[\\w.+-]+@[\\w-]+(?:\\.[\\w-]+)+',
+  // HTML and XML tags
+  '<\\/?[A-Za-z][\\w:-]*(?:\\s[^<>]*)?\\/?>',
+  // {{count}}
+  '\\{\\{[^{}]*\\}\\}',
+  // {name} and {0}
+  '\\{[\\w.]+\\}',
+  // printf: %s, %1$d, %.2f, and Python's %(name)s, but not "100% sure" or "20%increase"
+  '%(?:\\(\\w+\\))?(?:\\d+\\$)?[-+0#]*\\d*(?:\\.\\d+)?[sdifuxXoeEgGc@](?![A-Za-z])',
+];
+
+const PROTECTED_PATTERN = new RegExp(PROTECTED_PATTERNS.join('|'), 'g');
+
+// Tokens look like template placeholders, which models already know to copy unchanged
+const TOKEN_PATTERN = /\{\{\s*PH(\d+)\s*\}\}/gi;
+
+/**
+ * Replace placeholders, tags, URLs, emails, inline code and ⟦marked⟧ regions with numbered tokens.
+ * Every span gets its own token, so each must appear exactly once in the translation.
+ * @param text The source text
+ * @returns The text with tokens, and the spans they stand for
+ */
+export function protectSpans(text: string): ProtectedText {
+  const spans: ProtectedSpan[] = [];
+  const protectedText = text.replace(PROTECTED_PATTERN, (match) => {
+    const token = `{{PH${spans.length}}}`;
+    const isMarked = match.startsWith(DO_NOT_TRANSLATE_START);
+    spans.push({ token, text: isMarked ? match.slice(1, -1) : match });
+    return token;
+  });
+  return { text: protectedText, spans };
+}
+
+/**
+ * Build the prompt instruction asking the model to keep the tokens
+ * @param text The text sent to the model
+ * @returns The instruction, or an empty string if the text has no tokens
+ */
+export function getPlaceholderInstruction(text: string): string {
+  const tokens = [...new Set(text.match(TOKEN_PATTERN))];
+  if (tokens.length === 0) {
+    return '';
+  }
+  return `Copy each placeholder (${tokens.join(', ')}) into the translation exactly once and unchanged. ` +
+    'They stand for text that must not be translated.';
+}
+
+/**
+ * Put the protected spans back in place of their tokens
+ * @param text The translated text
+ * @param spans The spans protected in the source text
+ * @returns The restored text, with the spans whose token is missing or appears more than once
+ */
+export function restoreSpans(
+  text: string,
+  spans: ProtectedSpan[]
+): { text: string; missing: ProtectedSpan[]; duplicated: ProtectedSpan[] } {
+  const counts = new Array<number>(spans.length).fill(0);
+  const restored = text.replace(TOKEN_PATTERN, (token, index: string) => {
+    const span = spans[Number(index)];
+    if (!span) {
+      return token;
+    }
+    counts[Number(index)]++;
+    return span.text;
+  });
+  return {
+    text: restored,
+    missing: spans.filter((_, i) => counts[i] === 0),
+    duplicated: spans.filter((_, i) => counts[i] > 1),
+  };
+}
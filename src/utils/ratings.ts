@@ -0,0 +1,58 @@
+/**
+ * Utility functions for Elo-style model ratings from comparison votes
+ */
+
+import type { ModelRating } from '../types';
+
+/** Rating of a model that has not been voted on yet */
+export const DEFAULT_RATING = 1500;
+
+// How far one vote moves a rating; 32 is the usual value for players with few games
+const K_FACTOR = 32;
+
+/**
+ * Build the key that ratings are stored under, so each language pair is rated separately
+ * @param fromLanguage The source language code, or 'auto'
+ * @param toLanguage The target language code
+ * @returns A key like "en>ja"
+ */
+export function getLanguagePairKey(fromLanguage: string, toLanguage: string): string {
+  return `${fromLanguage}>${toLanguage}`;
+}
+
+/**
+ * Get the chance that a model with one rating is preferred over another
+ * @param rating The model's rating
+ * @param opponentRating The other model's rating
+ * @returns The expected score between 0 and 1
+ */
+export function expectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+/**
+ * Apply a vote for one translation over the others shown alongside it.
+ * The winner is scored as beating each loser; all changes use the ratings from before the vote.
+ * @param ratings Current ratings by model ID for the language pair
+ * @param winner The preferred model
+ * @param losers The other models in the comparison
+ * @returns New ratings; models without a rating start at DEFAULT_RATING
+ */
+export function applyVote(
+  ratings: Record<string, ModelRating>,
+  winner: string,
+  losers: string[]
+): Record<string, ModelRating> {
+  const ratingOf = (id: string) => ratings[id]?.rating ?? DEFAULT_RATING;
+  const updated = { ...ratings };
+
+  let winnerDelta = 0;
+  for (const loser of losers) {
+    const delta = K_FACTOR * (1 - expectedScore(ratingOf(winner), ratingOf(loser)));
+    winnerDelta += delta;
+    updated[loser] = { rating: ratingOf(loser) - delta, votes: (ratings[loser]?.votes ?? 0) + 1 };
+  }
+  updated[winner] = { rating: ratingOf(winner) + winnerDelta, votes: (ratings[winner]?.votes ?? 0) + 1 };
+
+  return updated;
+}
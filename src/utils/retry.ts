@@ -0,0 +1,77 @@
+/**
+ * Utility functions for retrying failed requests
+ */
+
+import type { OpenRouterError, RetryPolicy } from '../types';
+
+/**
+ * Parse a Retry-After header
+ * @param header The header value: delay in seconds or an HTTP date
+ * @param now The current time in milliseconds
+ * @returns The delay in milliseconds, or undefined if missing or invalid
+ */
+export function parseRetryAfter(header: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const trimmed = header.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Get how long to wait before the next attempt
+ * @param policy The retry policy
+ * @param attempt The attempt that just failed, starting at 1
+ * @param error The error it failed with
+ * @param random Source of randomness for jitter
+ * @returns The delay in milliseconds, or null if the error should not be retried
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  error: OpenRouterError,
+  random: () => number = Math.random
+): number | null {
+  if (attempt >= policy.maxAttempts || !policy.retryableErrors.includes(error.type)) {
+    return null;
+  }
+
+  if (policy.honorRetryAfter && error.retryAfterMs !== undefined) {
+    // Retrying sooner than the server asked would only be rejected again
+    return error.retryAfterMs <= policy.maxDelayMs ? error.retryAfterMs : null;
+  }
+
+  const backoff = Math.min(policy.baseDelayMs * Math.pow(2, attempt - 1), policy.maxDelayMs);
+  return Math.round(backoff * (1 - policy.jitter * random()));
+}
+
+/**
+ * Wait for a delay, stopping early if the signal aborts
+ * @param ms The delay in milliseconds
+ * @param signal Optional AbortSignal
+ * @returns Promise that resolves after the delay
+ * @throws DOMException AbortError if the signal aborts first
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,447 @@
+/**
+ * Utility functions for romanizing scripts by rule, to check or stand in for the model's transcription
+ */
+
+import { getWritingSystem } from './writingSystem';
+import { findLanguage } from './languages';
+import { kanaToRomaji } from './kana';
+import { ROMANIZATION_STANDARDS, type RomanizationOption } from '../constants/romanization';
+import type {
+  CyrillicRomanization,
+  JapaneseRomanization,
+  KoreanRomanization,
+  RomanizationStandard,
+  RubySegment,
+  TranscriptionSettings,
+} from '../types';
+
+/** A romanization made by rule */
+export interface LocalRomanization {
+  text: string;
+  /**
+   * Whether the rules give the one correct romanization. Arabic is written without short vowels,
+   * so its transliteration is only a skeleton that the model's transcription will not match.
+   */
+  exact: boolean;
+}
+
+/** Which transcription to show, and how it compares with the one made by rule */
+export interface TranscriptionChoice {
+  text: string;
+  source: 'model' | 'local';
+  /** Whether the model's transcription agrees with the rule-based one, when there is an exact one to compare */
+  matchesLocal?: boolean;
+}
+
+// Hangul syllables are composed from an initial, a medial and an optional final jamo
+const HANGUL_START = 0xac00;
+const HANGUL_END = 0xd7a3;
+const MEDIAL_COUNT = 21;
+const FINAL_COUNT = 28;
+
+// Index of the silent initial ㅇ, and of the initials ㄴ, ㄹ and ㅁ
+const SILENT_INITIAL = 11;
+const NIEUN_INITIAL = 2;
+const RIEUL_INITIAL = 5;
+const MIEUM_INITIAL = 6;
+
+const HANGUL_INITIALS = ['g', 'kk', 'n', 'd', 'tt', 'r', 'm', 'b', 'pp', 's', 'ss', '', 'j', 'jj', 'ch', 'k', 't', 'p', 'h'];
+
+const HANGUL_MEDIALS = [
+  'a', 'ae', 'ya', 'yae', 'eo', 'e', 'yeo', 'ye', 'o', 'wa', 'wae',
+  'oe', 'yo', 'u', 'wo', 'we', 'wi', 'yu', 'eu', 'ui', 'i',
+];
+
+// Each final as it sounds at the end of a syllable, and split in two when a vowel follows and the
+// last consonant moves on to the next syllable: 국어 is gu-geo, 읽어 is il-geo
+const HANGUL_FINALS: { coda: string; carried: [string, string] }[] = [
+  { coda: '', carried: ['', ''] },
+  { coda: 'k', carried: ['', 'g'] },
+  { coda: 'k', carried: ['', 'kk'] },
+  { coda: 'k', carried: ['k', 's'] },
+  { coda: 'n', carried: ['', 'n'] },
+  { coda: 'n', carried: ['n', 'j'] },
+  { coda: 'n', carried: ['', 'n'] },
+  { coda: 't', carried: ['', 'd'] },
+  { coda: 'l', carried: ['', 'r'] },
+  { coda: 'k', carried: ['l', 'g'] },
+  { coda: 'm', carried: ['l', 'm'] },
+  { coda: 'p', carried: ['l', 'b'] },
+  { coda: 'l', carried: ['l', 's'] },
+  { coda: 'l', carried: ['l', 't'] },
+  { coda: 'p', carried: ['l', 'p'] },
+  { coda: 'l', carried: ['', 'r'] },
+  { coda: 'm', carried: ['', 'm'] },
+  { coda: 'p', carried: ['', 'b'] },
+  { coda: 'p', carried: ['p', 's'] },
+  { coda: 't', carried: ['', 's'] },
+  { coda: 't', carried: ['', 'ss'] },
+  { coda: 'ng', carried: ['ng', ''] },
+  { coda: 't', carried: ['', 'j'] },
+  { coda: 't', carried: ['', 'ch'] },
+  { coda: 'k', carried: ['', 'k'] },
+  { coda: 't', carried: ['', 't'] },
+  { coda: 'p', carried: ['', 'p'] },
+  { coda: 't', carried: ['', ''] },
+];
+
+// Stops before ㄴ or ㅁ are nasalized: 감사합니다 is gamsahamnida
+const NASALIZED: Record<string, string> = { k: 'ng', t: 'n', p: 'm' };
+
+// Yale spells each jamo the same way wherever it stands, without the sound changes
+const YALE_INITIALS = ['k', 'kk', 'n', 't', 'tt', 'l', 'm', 'p', 'pp', 's', 'ss', '', 'c', 'cc', 'ch', 'kh', 'th', 'ph', 'h'];
+
+const YALE_MEDIALS = [
+  'a', 'ay', 'ya', 'yay', 'e', 'ey', 'ye', 'yey', 'o', 'wa', 'way',
+  'oy', 'yo', 'wu', 'we', 'wey', 'wi', 'yu', 'u', 'uy', 'i',
+];
+
+const YALE_FINALS = [
+  '', 'k', 'kk', 'ks', 'n', 'nc', 'nh', 't', 'l', 'lk', 'lm', 'lp', 'ls', 'lth',
+  'lph', 'lh', 'm', 'p', 'ps', 's', 'ss', 'ng', 'c', 'ch', 'kh', 'th', 'ph', 'h',
+];
+
+// ㅜ is written u rather than wu after the lips are already rounded for ㅁ, ㅂ, ㅃ or ㅍ
+const YALE_BILABIAL_INITIALS = new Set(['m', 'p', 'pp', 'ph']);
+
+const CYRILLIC: Record<CyrillicRomanization, Record<string, string>> = {
+  simple: {
+    'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'д': 'd', 'е': 'e', 'ё': 'yo', 'ж': 'zh', 'з': 'z', 'и': 'i',
+    'й': 'y', 'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o', 'п': 'p', 'р': 'r', 'с': 's', 'т': 't',
+    'у': 'u', 'ф': 'f', 'х': 'kh', 'ц': 'ts', 'ч': 'ch', 'ш': 'sh', 'щ': 'shch', 'ъ': '', 'ы': 'y', 'ь': '',
+    'э': 'e', 'ю': 'yu', 'я': 'ya',
+  },
+  // The scholarly system used in linguistics and libraries
+  scientific: {
+    'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'д': 'd', 'е': 'e', 'ё': 'ë', 'ж': 'ž', 'з': 'z', 'и': 'i',
+    'й': 'j', 'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o', 'п': 'p', 'р': 'r', 'с': 's', 'т': 't',
+    'у': 'u', 'ф': 'f', 'х': 'x', 'ц': 'c', 'ч': 'č', 'ш': 'š', 'щ': 'šč', 'ъ': 'ʺ', 'ы': 'y', 'ь': 'ʹ',
+    'э': 'è', 'ю': 'ju', 'я': 'ja',
+  },
+  // ISO 9:1995, also published as GOST 7.79 System A: one Latin letter per Cyrillic letter
+  iso9: {
+    'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'д': 'd', 'е': 'e', 'ё': 'ë', 'ж': 'ž', 'з': 'z', 'и': 'i',
+    'й': 'j', 'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o', 'п': 'p', 'р': 'r', 'с': 's', 'т': 't',
+    'у': 'u', 'ф': 'f', 'х': 'h', 'ц': 'c', 'ч': 'č', 'ш': 'š', 'щ': 'ŝ', 'ъ': 'ʺ', 'ы': 'y', 'ь': 'ʹ',
+    'э': 'è', 'ю': 'û', 'я': 'â',
+  },
+};
+
+const ARABIC: Record<string, string> = {
+  'ا': 'a', 'أ': 'a', 'إ': 'i', 'آ': 'a', 'ب': 'b', 'ت': 't', 'ث': 'th', 'ج': 'j', 'ح': 'h', 'خ': 'kh',
+  'د': 'd', 'ذ': 'dh', 'ر': 'r', 'ز': 'z', 'س': 's', 'ش': 'sh', 'ص': 's', 'ض': 'd', 'ط': 't', 'ظ': 'z',
+  'ع': "'", 'غ': 'gh', 'ف': 'f', 'ق': 'q', 'ك': 'k', 'ل': 'l', 'م': 'm', 'ن': 'n', 'ه': 'h', 'و': 'w',
+  'ي': 'y', 'ى': 'a', 'ة': 'a', 'ء': "'", 'ؤ': "'", 'ئ': "'",
+  // Vowel marks, when the text has them
+  '\u064B': 'an', '\u064C': 'un', '\u064D': 'in', '\u064E': 'a', '\u064F': 'u', '\u0650': 'i', '\u0652': '',
+  '،': ',', '؛': ';', '؟': '?',
+};
+
+const ARABIC_SHADDA = '\u0651';
+
+const ARABIC_VOWEL_MARKS = /[\u064B-\u0650\u0652]/;
+
+const JAPANESE_PUNCTUATION: Record<string, string> = {
+  '。': '.', '、': ',', '！': '!', '？': '?', '「': '"', '」': '"', '『': '"', '』': '"', '・': ' ', '　': ' ',
+};
+
+// Particles spelled with kana that are read differently on their own
+const JAPANESE_PARTICLES: Record<string, string> = { 'は': 'wa', 'へ': 'e', 'を': 'o' };
+
+const KANJI_PATTERN = /\p{Script=Han}/u;
+
+// IPA letters, length and stress marks, superscripts and the diacritics below and across letters that
+// phonetic transcriptions use: kõ̞nːit͡ɕiɰᵝa̠. The primes ʹ ʺ and apostrophes ʻ ʼ of romanizations are allowed.
+const IPA_PATTERN = /[\u0250-\u02B8\u02C0-\u02FF\u1D00-\u1DBF]|[\u0318-\u0333]|\u0361|\u0362/u;
+
+// The primes and apostrophes are modifier letters of the Common script, so they are let through here too
+const NON_LATIN_LETTER_PATTERN = /(?![\p{Script=Latin}\u02B9-\u02BC])\p{L}/u;
+
+/**
+ * Get the romanization standards a language can be written with
+ * @param language Language code
+ * @returns The standards, the default first, or an empty list if there is no choice for its writing system
+ */
+export function getRomanizationOptions(language: string): RomanizationOption[] {
+  return ROMANIZATION_STANDARDS[getWritingSystem(language)] ?? [];
+}
+
+/**
+ * Get the standard to romanize a language with
+ * @param language Language code
+ * @param standard The chosen standard, which is ignored if it does not fit the language's writing system
+ * @returns The standard, or undefined if there is no choice for the language
+ */
+export function getRomanizationOption(language: string, standard?: RomanizationStandard): RomanizationOption | undefined {
+  const options = getRomanizationOptions(language);
+  return options.find((option) => option.id === standard) ?? options[0];
+}
+
+/**
+ * Get the chosen standard for a target language from the settings
+ * @param settings The chosen standard per language code
+ * @param language Target language code
+ * @returns The chosen standard or the language's default, or undefined if there is no choice for the language
+ */
+export function getRomanizationStandard(
+  settings: TranscriptionSettings,
+  language: string
+): RomanizationStandard | undefined {
+  return getRomanizationOption(language, settings[language])?.id;
+}
+
+/**
+ * Split a Hangul syllable into the indexes of its jamo
+ * @param char The character
+ * @returns The initial, medial and final, or null if the character is not a Hangul syllable
+ */
+function decomposeHangul(char: string | undefined): { initial: number; medial: number; final: number } | null {
+  const code = char?.codePointAt(0) ?? 0;
+  if (code < HANGUL_START || code > HANGUL_END) {
+    return null;
+  }
+  const index = code - HANGUL_START;
+  return {
+    initial: Math.floor(index / (MEDIAL_COUNT * FINAL_COUNT)),
+    medial: Math.floor(index / FINAL_COUNT) % MEDIAL_COUNT,
+    final: index % FINAL_COUNT,
+  };
+}
+
+/**
+ * Romanize Korean with the Revised Romanization, splitting each Hangul syllable into its jamo and
+ * applying the common sound changes between syllables
+ * @param text Korean text
+ * @returns The romanization; characters other than Hangul syllables are kept
+ */
+export function romanizeKorean(text: string): string {
+  const chars = Array.from(text);
+
+  let romanized = '';
+  // The consonant carried over from the previous syllable's final, replacing a silent ㅇ
+  let carried: string | null = null;
+  let previousCoda = '';
+
+  for (let i = 0; i < chars.length; i++) {
+    const syllable = decomposeHangul(chars[i]);
+    if (!syllable) {
+      romanized += chars[i];
+      carried = null;
+      previousCoda = '';
+      continue;
+    }
+
+    let initial = carried ?? HANGUL_INITIALS[syllable.initial];
+    if (syllable.initial === RIEUL_INITIAL && (previousCoda === 'l' || previousCoda === 'n')) {
+      // ㄹㄹ and ㄴㄹ are both read ll: 신라 is silla
+      initial = 'l';
+      romanized = previousCoda === 'n' ? romanized.slice(0, -1) + 'l' : romanized;
+    }
+    romanized += initial + HANGUL_MEDIALS[syllable.medial];
+
+    const final = HANGUL_FINALS[syllable.final];
+    const next = decomposeHangul(chars[i + 1]);
+    if (next?.initial === SILENT_INITIAL && syllable.final !== 0) {
+      romanized += final.carried[0];
+      carried = final.carried[1];
+      previousCoda = '';
+    } else if (next && (next.initial === NIEUN_INITIAL || next.initial === MIEUM_INITIAL) && NASALIZED[final.coda]) {
+      romanized += NASALIZED[final.coda];
+      carried = null;
+      previousCoda = NASALIZED[final.coda];
+    } else {
+      romanized += final.coda;
+      carried = null;
+      previousCoda = final.coda;
+    }
+  }
+
+  return romanized;
+}
+
+/**
+ * Romanize Korean with Yale, which spells each jamo of each syllable the same way everywhere
+ * @param text Korean text
+ * @returns The romanization; characters other than Hangul syllables are kept
+ */
+export function romanizeKoreanYale(text: string): string {
+  return Array.from(text, (char) => {
+    const syllable = decomposeHangul(char);
+    if (!syllable) {
+      return char;
+    }
+    const initial = YALE_INITIALS[syllable.initial];
+    const medial = YALE_MEDIALS[syllable.medial];
+    return initial + (medial === 'wu' && YALE_BILABIAL_INITIALS.has(initial) ? 'u' : medial) +
+      YALE_FINALS[syllable.final];
+  }).join('');
+}
+
+/**
+ * Romanize Russian Cyrillic letter by letter
+ * @param text Russian text
+ * @param scheme 'simple' for plain ASCII (щ is shch), 'scientific' with háčeks (щ is šč),
+ * or 'iso9' for ISO 9 / GOST 7.79 with one letter each (щ is ŝ)
+ * @returns The romanization; other characters are kept
+ */
+export function romanizeCyrillic(text: string, scheme: CyrillicRomanization = 'simple'): string {
+  const table = CYRILLIC[scheme];
+  return Array.from(text, (char) => {
+    const lower = char.toLowerCase();
+    const latin = table[lower];
+    if (latin === undefined) {
+      return char;
+    }
+    return lower === char ? latin : latin.charAt(0).toUpperCase() + latin.slice(1);
+  }).join('');
+}
+
+/**
+ * Transliterate Arabic letter by letter. Short vowels are only written when the text has vowel marks.
+ * @param text Arabic text
+ * @returns The transliteration; other characters are kept
+ */
+export function romanizeArabic(text: string): string {
+  let romanized = '';
+  let consonant = '';
+  // The vowel marked on the consonant so far; shadda may come before or after it
+  let vowel = '';
+  for (const char of text) {
+    if (char === ARABIC_SHADDA) {
+      // Shadda doubles the consonant: مَّ is mma
+      romanized = romanized.slice(0, romanized.length - vowel.length) + consonant + vowel;
+      continue;
+    }
+    const latin = ARABIC[char] ?? char;
+    romanized += latin;
+    if (ARABIC_VOWEL_MARKS.test(char)) {
+      vowel += latin;
+    } else {
+      consonant = latin;
+      vowel = '';
+    }
+  }
+  return romanized;
+}
+
+/**
+ * Romanize Japanese. Kanji need readings, which come from the furigana segments.
+ * @param text Japanese text
+ * @param furigana The text split into runs with the readings of those with kanji
+ * @param system Hepburn (the default), Kunrei-shiki or Nihon-shiki
+ * @returns The romanization, or null if the text has kanji without readings
+ */
+export function romanizeJapanese(
+  text: string,
+  furigana?: RubySegment[],
+  system: JapaneseRomanization = 'hepburn'
+): string | null {
+  const segments = furigana ?? [{ text }];
+  const words: string[] = [];
+  for (const segment of segments) {
+    const kana = segment.reading ?? segment.text;
+    if (KANJI_PATTERN.test(kana)) {
+      return null;
+    }
+    // Only Nihon-shiki spells the object particle を as it is written
+    const particle = kana === 'を' && system === 'nihon-shiki' ? 'wo' : JAPANESE_PARTICLES[kana];
+    const word = particle ??
+      kanaToRomaji(Array.from(kana, (char) => JAPANESE_PUNCTUATION[char] ?? char).join(''), system);
+    words.push(word);
+  }
+  return words.join(' ').replace(/\s+/g, ' ').replace(/ ([.,!?])/g, '$1').trim();
+}
+
+/**
+ * Romanize text by rule with the chosen standard, for the languages that have an engine.
+ * Each engine follows the letters of one language, so Ukrainian or Persian get none.
+ * @param text The text, in the target language
+ * @param language Its language code
+ * @param options Readings for Japanese kanji, and the chosen standard; the language's default when missing
+ * @returns The romanization, or null if there is no engine for the language and standard,
+ * or Japanese kanji have no readings
+ */
+export function romanizeLocally(
+  text: string,
+  language: string,
+  options: { furigana?: RubySegment[]; standard?: RomanizationStandard } = {}
+): LocalRomanization | null {
+  const standard = getRomanizationOption(language, options.standard)?.id;
+  switch (findLanguage(language)?.code.split('-')[0]) {
+    case 'ko':
+      return romanizeKoreanWith(text, standard as KoreanRomanization);
+    case 'ru':
+      return { text: romanizeCyrillic(text, standard as CyrillicRomanization), exact: true };
+    case 'ar':
+      return { text: romanizeArabic(text), exact: false };
+    case 'ja': {
+      const romanized = romanizeJapanese(text, options.furigana, standard as JapaneseRomanization);
+      return romanized === null ? null : { text: romanized, exact: true };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Romanize Korean with an engine for the standard
+ * @param text Korean text
+ * @param standard The standard
+ * @returns The romanization, or null for McCune-Reischauer, whose spelling depends on pronunciation
+ * across syllables more than these rules cover
+ */
+function romanizeKoreanWith(text: string, standard: KoreanRomanization): LocalRomanization | null {
+  switch (standard) {
+    case 'revised':
+      return { text: romanizeKorean(text), exact: true };
+    case 'yale':
+      return { text: romanizeKoreanYale(text), exact: true };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check for letters a romanization must not contain: other scripts and IPA symbols
+ * @param transcription The model's transcription
+ * @returns True if it has non-Latin letters or IPA symbols
+ */
+export function hasNonLatinOrIpa(transcription: string): boolean {
+  return NON_LATIN_LETTER_PATTERN.test(transcription) || IPA_PATTERN.test(transcription);
+}
+
+/**
+ * Pick the transcription to show: the model's, unless it has non-Latin letters or IPA symbols
+ * and a rule-based one exists
+ * @param transcription The model's transcription
+ * @param local The rule-based romanization, if there is an engine for the language
+ * @returns The transcription to show, where it came from, and whether the two agree
+ */
+export function chooseTranscription(transcription: string, local: LocalRomanization | null): TranscriptionChoice {
+  if (!local) {
+    return { text: transcription, source: 'model' };
+  }
+  if (!transcription || hasNonLatinOrIpa(transcription)) {
+    return { text: local.text, source: 'local' };
+  }
+  return {
+    text: transcription,
+    source: 'model',
+    matchesLocal: local.exact ? normalizeRomanization(transcription) === normalizeRomanization(local.text) : undefined,
+  };
+}
+
+/**
+ * Reduce a romanization to what every spelling of it shares, so spacing, capitals, macrons
+ * and how long vowels are written (ō, ou, oo) do not count as differences
+ * @param text The romanization
+ * @returns The normalized romanization
+ */
+function normalizeRomanization(text: string): string {
+  return text
+    .normalize('NFD')
+    .toLowerCase()
+    .replace(/[^a-z]/g, '')
+    .replace(/ou/g, 'o')
+    .replace(/([aeiou])\1+/g, '$1');
+}
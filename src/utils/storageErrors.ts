@@ -0,0 +1,25 @@
+/**
+ * Utility functions for explaining failed saves to browser storage
+ */
+
+/**
+ * Check whether saving failed because browser storage is full
+ * @param error The error thrown while saving
+ * @returns True for a quota error, under the names different browsers give it
+ */
+function isQuotaExceeded(error: unknown): boolean {
+  const name = (error as Error | undefined)?.name;
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED';
+}
+
+/**
+ * Explain why a save failed, suggesting how to make room when browser storage is full
+ * @param error The error thrown while saving
+ * @param what What was being saved, like "the glossary"
+ * @returns The reason, to follow "Could not ...:"
+ */
+export function getStorageErrorReason(error: unknown, what: string): string {
+  return isQuotaExceeded(error)
+    ? `not enough browser storage. Export ${what} and remove entries you no longer need, then try again.`
+    : (error as Error).message;
+}
@@ -0,0 +1,139 @@
+/**
+ * Utility functions for importing and exporting the translation memory as TMX
+ */
+
+import { toLanguageCode } from './languages';
+import type { TranslationMemoryUnit } from '../types';
+
+/** Units read from a file, and how many translation units were skipped for missing text or languages */
+export interface TmxImport {
+  units: TranslationMemoryUnit[];
+  skipped: number;
+}
+
+// Inline elements holding formatting codes of the original document rather than text
+const INLINE_CODE_ELEMENTS = ['bpt', 'ept', 'it', 'ph', 'ut'];
+
+/**
+ * Escape text for XML content and attribute values
+ * @param value The text
+ * @returns The escaped text
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Format a timestamp as a TMX date
+ * @param timestamp Milliseconds since the epoch
+ * @returns The date in UTC, like 20240131T093000Z
+ */
+function formatTmxDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+}
+
+/**
+ * Parse a TMX date
+ * @param value The date, like 20240131T093000Z
+ * @returns Milliseconds since the epoch, or undefined if the date is missing or malformed
+ */
+function parseTmxDate(value: string | null): number | undefined {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!match) {
+    return undefined;
+  }
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  return Date.UTC(year, month - 1, day, hours, minutes, seconds);
+}
+
+/**
+ * Get the text of a segment, leaving out the formatting codes of inline elements
+ * @param node The seg element or one of its descendants
+ * @returns The text
+ */
+function getSegmentText(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+    return node.textContent ?? '';
+  }
+  if (node instanceof Element && INLINE_CODE_ELEMENTS.includes(node.localName)) {
+    return '';
+  }
+  return Array.from(node.childNodes, getSegmentText).join('');
+}
+
+/**
+ * Write the translation memory as TMX 1.4b, one translation unit per segment
+ * @param units The translation memory
+ * @returns The TMX document
+ */
+export function exportTmx(units: TranslationMemoryUnit[]): string {
+  const translationUnits = units.map((unit) => [
+    `    <tu srclang="${escapeXml(unit.fromLanguage)}" creationdate="${formatTmxDate(unit.createdAt)}">`,
+    `      <tuv xml:lang="${escapeXml(unit.fromLanguage)}"><seg>${escapeXml(unit.sourceText)}</seg></tuv>`,
+    `      <tuv xml:lang="${escapeXml(unit.toLanguage)}"><seg>${escapeXml(unit.targetText)}</seg></tuv>`,
+    '    </tu>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<tmx version="1.4">',
+    '  <header creationtool="Clanker Translate" creationtoolversion="1" segtype="sentence" ' +
+      'o-tmf="Clanker Translate" adminlang="en" srclang="*all*" datatype="plaintext"/>',
+    '  <body>',
+    ...translationUnits,
+    '  </body>',
+    '</tmx>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Read a translation memory from TMX. Each translation unit gives one unit from its source
+ * language (the tu's srclang, else the header's, else its first variant) to every other language.
+ * Language tags are resolved to the codes the registry lists, keeping listed variants like pt-BR
+ * and zh-Hant, so de-DE becomes de and zh-TW becomes zh-Hant.
+ * @param text The TMX document
+ * @returns The units and the number of translation units skipped
+ * @throws Error if the document is not valid XML
+ */
+export function parseTmx(text: string): TmxImport {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement?.localName !== 'tmx') {
+    throw new Error('Not a valid TMX file');
+  }
+
+  const headerLanguage = doc.getElementsByTagName('header')[0]?.getAttribute('srclang') ?? '';
+  const units: TranslationMemoryUnit[] = [];
+  let skipped = 0;
+  for (const tu of Array.from(doc.getElementsByTagName('tu'))) {
+    const variants = Array.from(tu.getElementsByTagName('tuv'), (tuv) => ({
+      // TMX 1.1 used lang instead of xml:lang
+      language: toLanguageCode(tuv.getAttribute('xml:lang') ?? tuv.getAttribute('lang') ?? ''),
+      text: Array.from(tuv.getElementsByTagName('seg'), getSegmentText).join('').trim(),
+    })).filter(({ language, text }) => language && text);
+
+    const declared = tu.getAttribute('srclang') ?? headerLanguage;
+    const sourceLanguage = declared && declared !== '*all*' ? toLanguageCode(declared) : variants[0]?.language;
+    const source = variants.find(({ language }) => language === sourceLanguage);
+    const targets = variants.filter(({ language }) => language !== sourceLanguage);
+    if (!source || targets.length === 0) {
+      skipped++;
+      continue;
+    }
+
+    const createdAt = parseTmxDate(tu.getAttribute('creationdate')) ?? Date.now();
+    units.push(...targets.map((target) => ({
+      id: crypto.randomUUID(),
+      sourceText: source.text,
+      targetText: target.text,
+      fromLanguage: source.language,
+      toLanguage: target.language,
+      createdAt,
+    })));
+  }
+  return { units, skipped };
+}
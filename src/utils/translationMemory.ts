@@ -0,0 +1,241 @@
+/**
+ * Utility functions for splitting text into segments and finding past translations of similar segments
+ */
+
+import type { TextChunk } from './chunking';
+import type { TranslationMemoryMatch, TranslationMemoryUnit } from '../types';
+
+/** Lowest similarity, in percent, for a unit to count as a fuzzy match */
+export const FUZZY_MATCH_THRESHOLD = 70;
+
+/** A segment of the input and its closest past translation, if one is similar enough */
+export interface SegmentLookup {
+  segment: TextChunk;
+  match?: TranslationMemoryMatch;
+}
+
+/**
+ * Split text into sentence segments with Intl.Segmenter; line breaks always end a segment
+ * @param text The text
+ * @param locale The language of the text, for sentence rules
+ * @returns The segments with their trailing whitespace, without leading whitespace or empty segments
+ */
+export function splitSegments(text: string, locale?: string): TextChunk[] {
+  const segmenter = new Intl.Segmenter(locale, { granularity: 'sentence' });
+  const segments: TextChunk[] = [];
+  for (const { segment } of segmenter.segment(text)) {
+    const trimmed = segment.trim();
+    const separator = segment.slice(segment.trimEnd().length);
+    if (trimmed) {
+      segments.push({ text: trimmed, separator });
+    } else if (segments.length > 0) {
+      segments[segments.length - 1].separator += separator;
+    }
+  }
+  return segments;
+}
+
+/**
+ * Collapse runs of whitespace, so segments that differ only in spacing match exactly
+ * @param text The segment
+ * @returns The normalized segment
+ */
+function normalizeSegment(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Count the single-character edits between two strings
+ * @param a A string split into code points
+ * @param b Another string split into code points
+ * @param limit Optional distance past which the exact count does not matter
+ * @returns The Levenshtein distance, or limit + 1 once it is certain to exceed the limit
+ */
+function editDistance(a: string[], b: string[], limit = Infinity): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+      rowMinimum = Math.min(rowMinimum, current[j]);
+    }
+    // Later rows never go below this row's minimum
+    if (rowMinimum > limit) {
+      return limit + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Turn an edit distance into a similarity score
+ * @param distance The edit distance
+ * @param length The length of the longer string
+ * @returns The similarity from 0 to 100, rounded down so only identical segments score 100
+ */
+function toSimilarity(distance: number, length: number): number {
+  return length === 0 ? 100 : Math.floor(100 * (1 - distance / length));
+}
+
+/**
+ * Score how similar two segments are by edit distance
+ * @param a A segment
+ * @param b Another segment
+ * @returns The similarity from 0 to 100, rounded down so only identical segments score 100
+ */
+export function getSimilarity(a: string, b: string): number {
+  const first = Array.from(normalizeSegment(a));
+  const second = Array.from(normalizeSegment(b));
+  return toSimilarity(editDistance(first, second), Math.max(first.length, second.length));
+}
+
+/** A unit with its normalized source split into code points once, rather than on every lookup */
+interface IndexedUnit {
+  unit: TranslationMemoryUnit;
+  source: string[];
+}
+
+/** The translation memory grouped by target language, then by source language */
+export type TranslationMemoryIndex = Map<string, Map<string, IndexedUnit[]>>;
+
+/**
+ * Group the translation memory by language pair, so lookups only compare units of the languages being translated
+ * @param units The whole translation memory
+ * @returns The index
+ */
+export function indexUnits(units: TranslationMemoryUnit[]): TranslationMemoryIndex {
+  const index: TranslationMemoryIndex = new Map();
+  for (const unit of units) {
+    const bySource = index.get(unit.toLanguage) ?? new Map<string, IndexedUnit[]>();
+    index.set(unit.toLanguage, bySource);
+    const pairUnits = bySource.get(unit.fromLanguage) ?? [];
+    bySource.set(unit.fromLanguage, pairUnits);
+    pairUnits.push({ unit, source: Array.from(normalizeSegment(unit.sourceText)) });
+  }
+  return index;
+}
+
+/**
+ * Find the closest past translation of each segment of a text
+ * @param index The translation memory, indexed with indexUnits
+ * @param text The text to translate
+ * @param fromLanguage Source language code, or 'auto' to match units from any language
+ * @param toLanguage Target language code
+ * @returns Every segment in order, with its best match at or above FUZZY_MATCH_THRESHOLD
+ */
+export function lookupSegments(
+  index: TranslationMemoryIndex,
+  text: string,
+  fromLanguage: string,
+  toLanguage: string
+): SegmentLookup[] {
+  const bySource = index.get(toLanguage);
+  const candidates = fromLanguage === 'auto'
+    ? [...(bySource?.values() ?? [])].flat()
+    : bySource?.get(fromLanguage) ?? [];
+
+  return splitSegments(text, fromLanguage === 'auto' ? undefined : fromLanguage).map((segment) => {
+    const chars = Array.from(normalizeSegment(segment.text));
+    let match: TranslationMemoryMatch | undefined;
+    for (const { unit, source } of candidates) {
+      const length = Math.max(chars.length, source.length);
+      // The most edits a unit can need and still reach the threshold; the distance is at least the
+      // difference in length, so units too much shorter or longer are skipped without comparing them
+      const maxDistance = Math.floor((100 - FUZZY_MATCH_THRESHOLD) * length / 100);
+      if (Math.abs(chars.length - source.length) > maxDistance) {
+        continue;
+      }
+      const score = toSimilarity(editDistance(chars, source, maxDistance), length);
+      // Ties go to the most recent approval
+      if (score >= FUZZY_MATCH_THRESHOLD &&
+        (!match || score > match.score || (score === match.score && unit.createdAt > match.unit.createdAt))) {
+        match = { segment: segment.text, unit, score };
+      }
+    }
+    return { segment, match };
+  });
+}
+
+/**
+ * Assemble a translation from exact matches, when every segment has one
+ * @param lookups The segments of the text and their matches
+ * @returns The translation, keeping the original whitespace between segments, or null if any segment is not an exact match
+ */
+export function getExactTranslation(lookups: SegmentLookup[]): string | null {
+  const parts: string[] = [];
+  for (const { segment, match } of lookups) {
+    if (match?.score !== 100) {
+      return null;
+    }
+    parts.push(match.unit.targetText + segment.separator);
+  }
+  return parts.length > 0 ? parts.join('').trimEnd() : null;
+}
+
+/**
+ * Build the prompt instruction listing similar past translations
+ * @param matches The matches for segments of the text
+ * @returns The instruction, or an empty string if there are no matches
+ */
+export function getMemoryInstruction(matches: TranslationMemoryMatch[]): string {
+  if (matches.length === 0) {
+    return '';
+  }
+
+  const lines = matches.map(({ unit, score }) => `- (${score}% match) "${unit.sourceText}" → "${unit.targetText}"`);
+  return 'These similar sentences were translated before. Use them as a reference and keep the wording ' +
+    `consistent where the meaning is the same:\n${lines.join('\n')}`;
+}
+
+/**
+ * Split an approved translation into units, pairing sentences when both sides have the same number
+ * @param sourceText The source text
+ * @param targetText The approved translation
+ * @param fromLanguage Source language code
+ * @param toLanguage Target language code
+ * @returns One unit per sentence pair, or a single unit for the whole text if the sentences do not line up
+ */
+export function createUnits(
+  sourceText: string,
+  targetText: string,
+  fromLanguage: string,
+  toLanguage: string
+): TranslationMemoryUnit[] {
+  const sources = splitSegments(sourceText, fromLanguage);
+  const targets = splitSegments(targetText, toLanguage);
+  const pairs = sources.length === targets.length
+    ? sources.map((source, i) => [source.text, targets[i].text])
+    : [[normalizeSegment(sourceText), normalizeSegment(targetText)]];
+
+  const createdAt = Date.now();
+  return pairs
+    .filter(([source, target]) => source && target)
+    .map(([source, target]) => ({
+      id: crypto.randomUUID(),
+      sourceText: source,
+      targetText: target,
+      fromLanguage,
+      toLanguage,
+      createdAt,
+    }));
+}
+
+/**
+ * Add units to the translation memory, replacing older translations of the same segments
+ * @param memory The translation memory
+ * @param units The units to add
+ * @returns The updated memory and how many units replaced an existing translation
+ */
+export function mergeUnits(
+  memory: TranslationMemoryUnit[],
+  units: TranslationMemoryUnit[]
+): { memory: TranslationMemoryUnit[]; replaced: number } {
+  const keyOf = (unit: TranslationMemoryUnit) =>
+    JSON.stringify([unit.fromLanguage, unit.toLanguage, normalizeSegment(unit.sourceText)]);
+  const added = new Map(units.map((unit) => [keyOf(unit), unit]));
+  const kept = memory.filter((unit) => !added.has(keyOf(unit)));
+  return { memory: [...kept, ...added.values()], replaced: memory.length - kept.length };
+}
@@ -0,0 +1,70 @@
+/**
+ * Utility functions for token usage and cost accounting
+ */
+
+import type { ModelPricing, TokenUsage, UsageTotals } from '../types';
+
+export const EMPTY_USAGE_TOTALS: UsageTotals = {
+  requests: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  cost: 0,
+};
+
+/**
+ * Calculate the cost of a request from the model's pricing
+ * @param usage The tokens used by the request
+ * @param pricing The model's per-token prices, if known
+ * @returns The cost in USD, or undefined if the model has no pricing
+ */
+export function calculateCost(usage: TokenUsage, pricing: ModelPricing | undefined): number | undefined {
+  if (!pricing) {
+    return undefined;
+  }
+  return usage.promptTokens * pricing.prompt + usage.completionTokens * pricing.completion;
+}
+
+/**
+ * Add a request's usage to running totals
+ * @param totals The totals so far
+ * @param usage The tokens used by the request
+ * @param cost The cost of the request in USD, or undefined if unknown
+ * @returns The new totals
+ */
+export function addUsage(totals: UsageTotals, usage: TokenUsage, cost: number | undefined): UsageTotals {
+  return {
+    requests: totals.requests + 1,
+    promptTokens: totals.promptTokens + usage.promptTokens,
+    completionTokens: totals.completionTokens + usage.completionTokens,
+    cost: totals.cost + (cost ?? 0),
+  };
+}
+
+/**
+ * Format a cost in USD, keeping enough precision for sub-cent amounts
+ * @param cost The cost in USD
+ * @returns The formatted cost (e.g., "$0.00042", "$1.25")
+ */
+export function formatCost(cost: number): string {
+  if (cost === 0) {
+    return '$0.00';
+  }
+  if (cost < 0.000001) {
+    return '<$0.000001';
+  }
+  if (cost < 0.01) {
+    return `$${cost.toPrecision(2)}`;
+  }
+  return `$${cost.toFixed(2)}`;
+}
+
+/**
+ * Get the local date key used for per-day totals
+ * @param date The date
+ * @returns The date as YYYY-MM-DD in local time
+ */
+export function toDayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
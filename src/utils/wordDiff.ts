@@ -0,0 +1,143 @@
+/**
+ * Utility functions for word-level diffs between two texts
+ */
+
+import type { DiffSegment } from '../types';
+
+/**
+ * Split text into words, punctuation and whitespace with Intl.Segmenter,
+ * so languages written without spaces are still split into words
+ * @param text The text to split
+ * @param locale Optional locale code for word boundaries
+ * @returns The tokens, which join back into the text
+ */
+export function tokenizeWords(text: string, locale?: string): string[] {
+  const segmenter = new Intl.Segmenter(locale, { granularity: 'word' });
+  return Array.from(segmenter.segment(text), ({ segment }) => segment);
+}
+
+/**
+ * Diff two texts word by word using their longest common subsequence. Hirschberg's algorithm keeps
+ * memory linear in the length of the texts, so back-checking a long document does not build a table
+ * with a cell for every pair of words.
+ * @param original The original text
+ * @param revised The text to compare against it
+ * @param locale Optional locale code for word boundaries
+ * @returns Segments in reading order; 'removed' text is only in the original and 'added' text only in the revision
+ */
+export function diffWords(original: string, revised: string, locale?: string): DiffSegment[] {
+  const a = tokenizeWords(original, locale);
+  const b = tokenizeWords(revised, locale);
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  diffRange(a, 0, a.length, b, 0, b.length, push);
+  return segments;
+}
+
+/**
+ * Diff a[aStart..aEnd) against b[bStart..bEnd), splitting the original in half and b where
+ * the longest common subsequences of the two halves meet
+ * @param push Appends a token to the segments
+ */
+function diffRange(
+  a: string[],
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bStart: number,
+  bEnd: number,
+  push: (type: DiffSegment['type'], text: string) => void
+): void {
+  // Common prefix and suffix need no search
+  while (aStart < aEnd && bStart < bEnd && sameWord(a[aStart], b[bStart])) {
+    push('equal', a[aStart++]);
+    bStart++;
+  }
+  const suffixEnd = aEnd;
+  while (aStart < aEnd && bStart < bEnd && sameWord(a[aEnd - 1], b[bEnd - 1])) {
+    aEnd--;
+    bEnd--;
+  }
+
+  if (aStart === aEnd || bStart === bEnd) {
+    for (let i = aStart; i < aEnd; i++) push('removed', a[i]);
+    for (let j = bStart; j < bEnd; j++) push('added', b[j]);
+  } else if (aEnd - aStart === 1) {
+    const match = b.findIndex((token, j) => j >= bStart && j < bEnd && sameWord(a[aStart], token));
+    if (match === -1) {
+      push('removed', a[aStart]);
+      for (let j = bStart; j < bEnd; j++) push('added', b[j]);
+    } else {
+      for (let j = bStart; j < match; j++) push('added', b[j]);
+      push('equal', a[aStart]);
+      for (let j = match + 1; j < bEnd; j++) push('added', b[j]);
+    }
+  } else {
+    const aMid = Math.floor((aStart + aEnd) / 2);
+    const forward = prefixLcsLengths(a, aStart, aMid, b, bStart, bEnd);
+    const backward = suffixLcsLengths(a, aMid, aEnd, b, bStart, bEnd);
+    let split = 0;
+    for (let k = 1; k <= bEnd - bStart; k++) {
+      if (forward[k] + backward[k] > forward[split] + backward[split]) {
+        split = k;
+      }
+    }
+    diffRange(a, aStart, aMid, b, bStart, bStart + split, push);
+    diffRange(a, aMid, aEnd, b, bStart + split, bEnd, push);
+  }
+
+  for (let i = aEnd; i < suffixEnd; i++) push('equal', a[i]);
+}
+
+/**
+ * LCS lengths of a[aStart..aEnd) with each prefix of b[bStart..bEnd), keeping one row at a time
+ * @returns lengths[k] is the LCS length with b[bStart..bStart + k)
+ */
+function prefixLcsLengths(a: string[], aStart: number, aEnd: number, b: string[], bStart: number, bEnd: number): Uint32Array {
+  let previous = new Uint32Array(bEnd - bStart + 1);
+  let current = new Uint32Array(bEnd - bStart + 1);
+  for (let i = aStart; i < aEnd; i++) {
+    for (let k = 0; k < bEnd - bStart; k++) {
+      current[k + 1] = sameWord(a[i], b[bStart + k]) ? previous[k] + 1 : Math.max(previous[k + 1], current[k]);
+    }
+    [previous, current] = [current, previous];
+  }
+  return previous;
+}
+
+/**
+ * LCS lengths of a[aStart..aEnd) with each suffix of b[bStart..bEnd), keeping one row at a time
+ * @returns lengths[k] is the LCS length with b[bStart + k..bEnd)
+ */
+function suffixLcsLengths(a: string[], aStart: number, aEnd: number, b: string[], bStart: number, bEnd: number): Uint32Array {
+  const n = bEnd - bStart;
+  let previous = new Uint32Array(n + 1);
+  let current = new Uint32Array(n + 1);
+  for (let i = aEnd - 1; i >= aStart; i--) {
+    for (let k = n - 1; k >= 0; k--) {
+      current[k] = sameWord(a[i], b[bStart + k]) ? previous[k + 1] + 1 : Math.max(previous[k], current[k + 1]);
+    }
+    [previous, current] = [current, previous];
+  }
+  return previous;
+}
+
+/**
+ * Compare two tokens, ignoring case and treating any two runs of whitespace as the same
+ * @returns True if the tokens match
+ */
+function sameWord(a: string, b: string): boolean {
+  if (a.trim() === '' && b.trim() === '') {
+    return true;
+  }
+  return a.toLocaleLowerCase() === b.toLocaleLowerCase();
+}
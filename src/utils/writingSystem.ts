@@ -2,27 +2,15 @@
  * Utility functions for detecting writing systems and determining transcription needs
  */
 
+import { getScript } from './languages';
+
 /**
- * Determine the writing system for a given language code
- * @param languageCode The language code (e.g., 'en', 'ja', 'zh')
+ * Determine the writing system for a given language code, from the script the registry lists for it
+ * @param languageCode The language code (e.g., 'en', 'ja', 'zh-Hant')
  * @returns The writing system identifier
  */
 export function getWritingSystem(languageCode: string): string {
-  const writingSystems: Record<string, string> = {
-    'en': 'latin',
-    'es': 'latin',
-    'fr': 'latin',
-    'de': 'latin',
-    'pt': 'latin',
-    'ja': 'japanese',
-    'zh': 'chinese',
-    'ko': 'korean',
-    'ar': 'arabic',
-    'ru': 'cyrillic',
-    'auto': 'unknown'
-  };
-
-  return writingSystems[languageCode] || 'unknown';
+  return getScript(languageCode)?.writingSystem ?? 'unknown';
 }
 
 /**
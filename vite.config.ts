@@ -1,8 +1,27 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+const DEFAULT_CONNECT_SRC = "'self' https://openrouter.ai"
+
+/**
+ * Fill in the CSP connect-src in index.html at build time.
+ * Set VITE_CSP_CONNECT_SRC to a space-separated list of extra origins to allow
+ * custom OpenAI-compatible endpoints, e.g. "http://localhost:11434".
+ */
+function cspConnectSrc(extraOrigins: string): Plugin {
+  const connectSrc = [DEFAULT_CONNECT_SRC, extraOrigins.trim()].filter(Boolean).join(' ')
+  return {
+    name: 'csp-connect-src',
+    transformIndexHtml: (html) => html.replace('%CSP_CONNECT_SRC%', connectSrc),
+  }
+}
+
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  base: '/clanker-translate/',
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), '')
+
+  return {
+    plugins: [react(), cspConnectSrc(env.VITE_CSP_CONNECT_SRC || '')],
+    base: '/clanker-translate/',
+  }
 })